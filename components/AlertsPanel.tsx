@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, ChevronDown, ChevronUp, Check, Trash2, Plus, X } from 'lucide-react';
+import { AlertRecord } from '../types';
+import {
+  getConfig,
+  updateConfig,
+  ALERT_RULE_TYPE_LABELS,
+  type AlertRule,
+  type AlertRuleType
+} from '../constants/config';
+import { getAllAlerts, deleteAlert } from '../services/episodeDB';
+import { markAlertsRead, requestAlertNotificationPermission } from '../services/alerts';
+
+interface AlertsPanelProps {
+  /** Source profile whose alerts are listed */
+  profileId: string;
+  /** Change this value to reload the inbox (e.g. after a processing run) */
+  refreshToken?: number;
+}
+
+/**
+ * Alerts inbox for the active source profile, plus the rules that raise alerts
+ * after each run and the browser notification switch.
+ */
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ profileId, refreshToken }) => {
+  const [alerts, setAlerts] = useState<AlertRecord[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [alertsConfig, setAlertsConfig] = useState(getConfig().alerts);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setAlerts(await getAllAlerts(profileId));
+    } catch (err) {
+      console.error('Failed to load alerts:', err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [profileId, refreshToken]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setActionError(err?.message || 'Action failed');
+    } finally {
+      await load();
+    }
+  };
+
+  const saveRules = (rules: AlertRule[]) => {
+    setAlertsConfig(updateConfig('alerts', 'rules', rules).alerts);
+  };
+
+  const updateRule = (ruleId: string, changes: Partial<AlertRule>) => {
+    saveRules(alertsConfig.rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule));
+  };
+
+  const addRule = () => {
+    saveRules([...alertsConfig.rules, {
+      id: `rule-${Date.now()}`,
+      name: 'New rule',
+      type: 'sentiment-below',
+      enabled: true,
+      threshold: 30,
+      minEpisodes: 0,
+      metric: 'sentiment',
+      issueFilter: ''
+    }]);
+  };
+
+  const toggleNotifications = async (enabled: boolean) => {
+    setActionError(null);
+    if (enabled && !(await requestAlertNotificationPermission())) {
+      setActionError('Browser notifications are blocked for this site. Allow them in the browser settings first.');
+      return;
+    }
+    setAlertsConfig(updateConfig('alerts', 'browserNotifications', enabled).alerts);
+  };
+
+  const unreadCount = alerts.filter(alert => !alert.read_at).length;
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <Bell className={`w-5 h-5 ${unreadCount > 0 ? 'text-amber-500' : 'text-slate-400'}`} />
+            <h3 className="text-lg font-semibold text-slate-900">Alerts</h3>
+            <span className="text-sm text-slate-500">
+              {unreadCount > 0 ? `${unreadCount} unread` : 'No unread alerts'}
+              {alerts.length > unreadCount ? `, ${alerts.length - unreadCount} read` : ''}
+            </span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-slate-500">
+                Raised after each run for the latest week with episodes.
+              </p>
+              <div className="flex items-center gap-2 shrink-0">
+                {unreadCount > 0 && (
+                  <button
+                    onClick={() => runAction(() => markAlertsRead(profileId))}
+                    className="text-xs font-medium text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                  >
+                    <Check className="w-3 h-3" /> Mark all read
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowRules(!showRules)}
+                  className="text-xs font-medium text-slate-600 hover:text-slate-900 border border-slate-200 rounded px-2 py-1"
+                >
+                  {showRules ? 'Hide rules' : `Rules (${alertsConfig.rules.filter(rule => rule.enabled).length} on)`}
+                </button>
+              </div>
+            </div>
+
+            {actionError && (
+              <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm flex items-start gap-2">
+                <X className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{actionError}</span>
+              </div>
+            )}
+
+            {showRules && (
+              <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-3">
+                {alertsConfig.rules.map(rule => (
+                  <div key={rule.id} className="grid grid-cols-12 gap-2 items-center text-sm">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="col-span-1 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <input
+                      type="text"
+                      value={rule.name}
+                      onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                      className="col-span-2 rounded-lg border-slate-300 text-sm"
+                    />
+                    <select
+                      value={rule.type}
+                      onChange={(e) => updateRule(rule.id, { type: e.target.value as AlertRuleType })}
+                      className="col-span-3 rounded-lg border-slate-300 text-sm"
+                    >
+                      {(Object.keys(ALERT_RULE_TYPE_LABELS) as AlertRuleType[]).map(type => (
+                        <option key={type} value={type}>{ALERT_RULE_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step={rule.type === 'anomaly' ? 0.5 : 1}
+                      value={rule.threshold}
+                      onChange={(e) => updateRule(rule.id, { threshold: parseFloat(e.target.value) })}
+                      title={rule.type === 'anomaly' ? 'Standard deviations' : rule.type === 'enters-top' ? 'Rank' : 'Sentiment (0-100)'}
+                      className="col-span-1 rounded-lg border-slate-300 text-sm"
+                    />
+                    {rule.type === 'anomaly' && (
+                      <select
+                        value={rule.metric}
+                        onChange={(e) => updateRule(rule.id, { metric: e.target.value as AlertRule['metric'] })}
+                        className="col-span-2 rounded-lg border-slate-300 text-sm"
+                      >
+                        <option value="sentiment">Sentiment</option>
+                        <option value="prominence">Prominence</option>
+                      </select>
+                    )}
+                    {rule.type === 'enters-top' && (
+                      <label className="col-span-2 flex items-center gap-1 text-xs text-slate-600">
+                        &gt;
+                        <input
+                          type="number"
+                          min={0}
+                          value={rule.minEpisodes}
+                          onChange={(e) => updateRule(rule.id, { minEpisodes: parseInt(e.target.value, 10) || 0 })}
+                          className="w-14 rounded-lg border-slate-300 text-sm"
+                        />
+                        episodes
+                      </label>
+                    )}
+                    {(rule.type === 'sentiment-below' || rule.type === 'sentiment-above') && (
+                      <span className="col-span-2" />
+                    )}
+                    <input
+                      type="text"
+                      value={rule.issueFilter}
+                      placeholder="Any issue"
+                      title="Only issues whose name contains this text"
+                      onChange={(e) => updateRule(rule.id, { issueFilter: e.target.value })}
+                      className="col-span-2 rounded-lg border-slate-300 text-sm"
+                    />
+                    <button
+                      onClick={() => saveRules(alertsConfig.rules.filter(r => r.id !== rule.id))}
+                      className="col-span-1 justify-self-end text-slate-400 hover:text-rose-600"
+                      title="Delete rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-3 pt-1">
+                  <button
+                    onClick={addRule}
+                    className="text-xs font-medium text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                  >
+                    <Plus className="w-3 h-3" /> Add rule
+                  </button>
+                  <div className="flex items-center gap-4 text-xs text-slate-600">
+                    <label className="flex items-center gap-1">
+                      Anomaly window
+                      <input
+                        type="number"
+                        min={4}
+                        max={52}
+                        value={alertsConfig.anomalyWindowWeeks}
+                        onChange={(e) => setAlertsConfig(updateConfig('alerts', 'anomalyWindowWeeks', parseInt(e.target.value, 10) || 12).alerts)}
+                        className="w-16 rounded-lg border-slate-300 text-sm"
+                      />
+                      weeks
+                    </label>
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={alertsConfig.browserNotifications}
+                        onChange={(e) => toggleNotifications(e.target.checked)}
+                        className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Browser notifications
+                    </label>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {alerts.length === 0 && (
+              <p className="text-sm text-slate-500">No alerts yet for this source profile.</p>
+            )}
+
+            {alerts.map(alert => (
+              <div
+                key={alert.alert_id}
+                className={`rounded-lg border p-3 flex items-start justify-between gap-3 ${alert.read_at ? 'border-slate-200 opacity-70' : 'border-amber-200 bg-amber-50/50'}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-900">{alert.message}</p>
+                  <p className="text-xs text-slate-500">
+                    {alert.rule_name} • week starting {alert.week_start} • {new Date(alert.triggered_at).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {!alert.read_at && (
+                    <button
+                      onClick={() => runAction(() => markAlertsRead(profileId, [alert.alert_id]))}
+                      className="text-slate-400 hover:text-indigo-600"
+                      title="Mark read"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => runAction(() => deleteAlert(alert.alert_id))}
+                    className="text-slate-400 hover:text-rose-600"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,38 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { UploadCloud, FileJson, Sparkles, AlertCircle, Loader2, Database, Check, X, XCircle, Settings, ChevronDown, ChevronUp } from 'lucide-react';
-import { HCRReport } from '../types';
-import { processEpisodesInRange, estimateProcessingTime } from '../services/episodeProcessor';
-import { composeWeeklyReport } from '../services/reportComposer';
-import { getWeekWindows, aggregateReports } from '../utils/reportUtils';
+import { UploadCloud, FileJson, Sparkles, AlertCircle, Loader2, Database, Check, X, XCircle, Settings, ChevronDown, ChevronUp, FileText, Gauge } from 'lucide-react';
+import { HCRReport, ProcessingJob, SourceProfile, TokenUsage } from '../types';
+import { estimateProcessingTime } from '../services/episodeProcessor';
+import { startProcessingJob, resumeProcessingJob, getJobReport, type RunJobOptions } from '../services/processingJobs';
+import { getWeekWindows } from '../utils/reportUtils';
 import { migrateWeeklyReportsToEpisodes, isMigrationNeeded, getMigrationStats } from '../utils/migration';
 import { getActiveRealWorld52WeekTestLogger } from '../utils/realWorldRunLogger';
 import { FRAMEWORK_VERSION } from '../constants/frameworkVersion';
-import { getConfig, updateConfig, resetConfig, type AppConfig } from '../constants/config';
+import {
+  getConfig,
+  getRankingProfile,
+  updateConfig,
+  resetConfig,
+  SENTIMENT_STRATEGY_LABELS,
+  FORECAST_METHOD_LABELS,
+  type AppConfig,
+  type LLMProviderType,
+  type TopicMatcherType,
+  type SentimentAggregationStrategy,
+  type ForecastMethod
+} from '../constants/config';
+import { importTranscriptFiles, type TranscriptImportResult } from '../services/transcriptIngestion';
+import { getTranscriptCount } from '../services/episodeDB';
+import { getRequestScheduler, type ThrottleState } from '../services/requestScheduler';
+import { estimateProcessingCost, formatUsd, formatTokens, getBudgetPriceError } from '../services/usageAccounting';
+import { listSourceProfiles, getActiveProfileId, setActiveProfileId } from '../services/sourceProfiles';
+import { FailedEpisodesPanel } from './FailedEpisodesPanel';
+import { AlertsPanel } from './AlertsPanel';
+import { DatabaseBackupPanel } from './DatabaseBackupPanel';
+import { LibraryMergePanel } from './LibraryMergePanel';
+import { EpisodeVersionsPanel } from './EpisodeVersionsPanel';
+import { StorageManagerPanel } from './StorageManagerPanel';
+import { ProcessingJobsPanel } from './ProcessingJobsPanel';
+import { SourceProfilesPanel } from './SourceProfilesPanel';
 
 interface Props {
   onDataLoaded: (data: HCRReport) => void;
@@ -51,8 +76,16 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
     cached: number;
     newCount: number;
     estimateSeconds: number;
+    estimatedCostUsd: number | null;
   } | null>(null);
 
+  // Running token/cost total of the current job
+  const [usage, setUsage] = useState<TokenUsage | null>(null);
+
+  // Shared request scheduler state (RPM/TPM budgets, rate-limit pauses) while generating
+  const [throttle, setThrottle] = useState<ThrottleState | null>(null);
+  const [throttleNow, setThrottleNow] = useState(Date.now());
+
   // Migration State
   const [isMigrating, setIsMigrating] = useState(false);
   const [migrationComplete, setMigrationComplete] = useState(false);
@@ -64,14 +97,74 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
   const [showSettings, setShowSettings] = useState(false);
   const [config, setConfig] = useState<AppConfig>(getConfig());
 
+  // Bumped after each run so the failed episodes panel reloads
+  const [failedRefreshToken, setFailedRefreshToken] = useState(0);
+
+  // Bumped when a job starts or ends so the processing jobs panel reloads
+  const [jobsRefreshToken, setJobsRefreshToken] = useState(0);
+
+  // Source profiles; runs and transcript imports use the active one
+  const [profiles, setProfiles] = useState<SourceProfile[]>([]);
+  const [activeProfileId, setActiveProfileIdState] = useState(getActiveProfileId());
+
+  // Transcript Import State
+  const [transcriptShowName, setTranscriptShowName] = useState('');
+  const [transcriptCount, setTranscriptCount] = useState(0);
+  const [isImportingTranscripts, setIsImportingTranscripts] = useState(false);
+  const [transcriptImportResult, setTranscriptImportResult] = useState<TranscriptImportResult | null>(null);
+
   // Check if migration is needed on mount
   useEffect(() => {
     setShowMigration(isMigrationNeeded());
     if (isMigrationNeeded()) {
       setMigrationStats(getMigrationStats());
     }
+    getTranscriptCount().then(setTranscriptCount).catch(() => setTranscriptCount(0));
+    loadProfiles();
   }, []);
 
+  const loadProfiles = async () => {
+    try {
+      const loaded = await listSourceProfiles();
+      setProfiles(loaded);
+      // The stored active profile may have been deleted
+      setActiveProfileIdState(current => loaded.some(p => p.profile_id === current) ? current : loaded[0].profile_id);
+    } catch (err) {
+      console.error('Failed to load source profiles:', err);
+    }
+  };
+
+  // A restore (or freeing up storage) can change every store and the settings; reload what this screen shows
+  const handleBackupRestored = () => {
+    loadProfiles();
+    setConfig(getConfig());
+    getTranscriptCount().then(setTranscriptCount).catch(() => setTranscriptCount(0));
+    setFailedRefreshToken(token => token + 1);
+    setJobsRefreshToken(token => token + 1);
+  };
+
+  const selectProfile = (profileId: string) => {
+    setActiveProfileId(profileId);
+    setActiveProfileIdState(profileId);
+  };
+
+  const activeProfile = profiles.find(p => p.profile_id === activeProfileId);
+
+  useEffect(() => {
+    if (!isGenerating) {
+      setThrottle(null);
+      return;
+    }
+    return getRequestScheduler().subscribe(setThrottle);
+  }, [isGenerating]);
+
+  // Tick once a second during a rate-limit pause so the countdown stays current
+  useEffect(() => {
+    if (throttle?.status !== 'paused') return;
+    const interval = setInterval(() => setThrottleNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [throttle?.status]);
+
   const processFile = (file: File) => {
     setError(null);
     if (file.type !== "application/json" && !file.name.endsWith('.json')) {
@@ -103,6 +196,32 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
     }
   };
 
+  const handleTranscriptImport = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setIsImportingTranscripts(true);
+    setTranscriptImportResult(null);
+
+    try {
+      const files = await Promise.all(
+        Array.from(fileList).map(async file => ({ name: file.name, content: await file.text() }))
+      );
+      const result = await importTranscriptFiles(files, {
+        show_name: transcriptShowName.trim() || undefined,
+        profile_id: activeProfileId
+      });
+      setTranscriptImportResult(result);
+      setTranscriptCount(await getTranscriptCount());
+    } catch (err: any) {
+      console.error('Transcript import failed:', err);
+      setTranscriptImportResult({
+        imported: [],
+        errors: [{ fileName: '(all files)', error: err.message || 'Import failed unexpectedly' }]
+      });
+    } finally {
+      setIsImportingTranscripts(false);
+    }
+  };
+
   const handleMigration = async () => {
     setIsMigrating(true);
     setMigrationError(null);
@@ -162,12 +281,48 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
       return;
     }
 
+    await runJob(startDate, endDate, windows.length, (options) =>
+      startProcessingJob(startDate, endDate, {
+        ...options,
+        config,
+        profileId: activeProfileId,
+        onJobCreated: () => setJobsRefreshToken(token => token + 1)
+      })
+    );
+  };
+
+  const handleResumeJob = async (job: ProcessingJob) => {
+    setError(null);
+    await runJob(job.start_date, job.end_date, job.weeks_total, (options) =>
+      resumeProcessingJob(job.job_id, options)
+    );
+  };
+
+  const handleOpenJob = async (job: ProcessingJob) => {
+    setError(null);
+    try {
+      onDataLoaded(await getJobReport(job));
+    } catch (err: any) {
+      setError(err?.message || "Failed to open the report for this job.");
+    }
+  };
+
+  /**
+   * Run a new or resumed processing job, mirroring its progress in the UI
+   */
+  const runJob = async (
+    jobStartDate: string,
+    jobEndDate: string,
+    weeksTotal: number,
+    run: (options: RunJobOptions) => Promise<HCRReport>
+  ) => {
     const controller = new AbortController();
     abortControllerRef.current = controller;
 
     setIsGenerating(true);
     setIsCancelling(false);
     setEpisodeStats(null);
+    setUsage(null);
     setProgress({
       phase: 'discovering',
       current: 0,
@@ -181,29 +336,26 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
 
     try {
       runLabel = await runLogger?.beginIfArmed({
-        startDate,
-        endDate,
-        weeksTotal: windows.length,
+        startDate: jobStartDate,
+        endDate: jobEndDate,
+        weeksTotal,
         frameworkVersion: FRAMEWORK_VERSION,
         configSnapshot: config
       }) ?? null;
 
-      // NEW TWO-PHASE PIPELINE (replaced old week-by-week sequential processing)
+      // TWO-PHASE PIPELINE, persisted as a resumable job (see services/processingJobs.ts)
       // Phase 1: Parallel episode processing with caching
       // Phase 2: Weekly report composition from cached episodes
-      // This enables 52-week analysis vs. old 4-week limit
-
       const concurrency = config.processing.concurrency;
 
-      const episodeProcessingStart = performance.now();
-      const processResult = await processEpisodesInRange(startDate, endDate, {
-        concurrency,
+      const finalReport = await run({
         signal: controller.signal,
         onDiscoveryComplete: (total, cached, newCount) => {
           if (controller.signal.aborted) return;
 
           const estimateSeconds = estimateProcessingTime(total, cached, concurrency);
-          setEpisodeStats({ total, cached, newCount, estimateSeconds });
+          const estimatedCostUsd = estimateProcessingCost(newCount, weeksTotal, config).costUsd;
+          setEpisodeStats({ total, cached, newCount, estimateSeconds, estimatedCostUsd });
           setProgress({
             phase: 'analyzing',
             current: 0,
@@ -223,89 +375,38 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
             total: Math.max(total, 1),
             currentItem: `${label} ${completed}/${total}: "${episodeTitle}"`
           });
+        },
+        onEpisodeProcessingComplete: (processResult, episodeProcessingMs) => {
+          if (runLabel) {
+            runLogger?.recordEpisodeProcessing(runLabel, processResult, episodeProcessingMs);
+          }
+          setProgress({
+            phase: 'composing',
+            current: 0,
+            total: weeksTotal,
+            currentItem: 'Composing weekly reports...'
+          });
+        },
+        onWeekComposed: (completed, total, weekStart, weekEnd) => {
+          setProgress({
+            phase: 'composing',
+            current: completed,
+            total,
+            currentItem: `Composing ${weekStart} -> ${weekEnd}`
+          });
+        },
+        onWeeksComposed: (reports, weeklyCompositionMs) => {
+          if (runLabel) {
+            runLogger?.recordWeeklyComposition(runLabel, reports, weeklyCompositionMs);
+          }
+        },
+        onUsage: (jobUsage) => {
+          if (controller.signal.aborted) return;
+          setUsage(jobUsage);
         }
       });
-      const episodeProcessingMs = performance.now() - episodeProcessingStart;
-      if (runLabel) {
-        runLogger?.recordEpisodeProcessing(runLabel, processResult, episodeProcessingMs);
-      }
-
-      if (controller.signal.aborted) {
-        throw new Error('Processing cancelled');
-      }
-
-      // Validate episode processing results
-      if (processResult.stats.totalEpisodes === 0) {
-        setError("No episodes found in the selected date range.");
-        if (runLabel) {
-          await runLogger?.fail(runLabel, new Error('No episodes found in selected date range'));
-          runLoggerEnded = true;
-        }
-        return;
-      }
-
-      if (processResult.stats.failed > 0) {
-        console.warn(`Warning: ${processResult.stats.failed} episode(s) failed to process. Continuing with available data.`);
-      }
-
-      if (processResult.stats.failed === processResult.stats.totalEpisodes) {
-        setError("All episodes failed to process. Please check your API key and try again.");
-        if (runLabel) {
-          await runLogger?.fail(runLabel, new Error('All episodes failed to process'));
-          runLoggerEnded = true;
-        }
-        return;
-      }
-
-      // Phase 2: Compose weekly reports from episode insights
-      const reports: HCRReport[] = [];
-      setProgress({
-        phase: 'composing',
-        current: 0,
-        total: windows.length,
-        currentItem: 'Composing weekly reports...'
-      });
-
-      const weeklyCompositionStart = performance.now();
-      for (let i = 0; i < windows.length; i++) {
-        if (controller.signal.aborted) {
-          throw new Error('Processing cancelled');
-        }
-
-        const w = windows[i];
-        const report = await composeWeeklyReport(w.start, w.end, w.priorStart, w.priorEnd);
-        reports.push(report);
-
-        setProgress({
-          phase: 'composing',
-          current: i + 1,
-          total: windows.length,
-          currentItem: `Composing ${w.start} -> ${w.end}`
-        });
-      }
-      const weeklyCompositionMs = performance.now() - weeklyCompositionStart;
-      if (runLabel) {
-        runLogger?.recordWeeklyComposition(runLabel, reports, weeklyCompositionMs);
-      }
-
-      // Validate weekly coverage - ensure all weeks have at least some episode data
-      const weeksWithoutEpisodes = reports.filter(r => r.sources_analyzed.length === 0);
-      if (weeksWithoutEpisodes.length > 0) {
-        const weekList = weeksWithoutEpisodes.map(r => r.run_window.window_start).join(', ');
-        console.warn(`Warning: ${weeksWithoutEpisodes.length} week(s) have no episode coverage: ${weekList}`);
-      }
-
-      if (weeksWithoutEpisodes.length === reports.length) {
-        setError("No episode coverage found for any week in the selected range. Try a different date range.");
-        if (runLabel) {
-          await runLogger?.fail(runLabel, new Error('No episode coverage found for any week'));
-          runLoggerEnded = true;
-        }
-        return;
-      }
 
-      // Phase 3: Aggregate and display
-      const finalReport = aggregateReports(reports);
+      // Phase 3: Display the aggregated report
       onDataLoaded(finalReport);
       if (runLabel) {
         await runLogger?.finish(runLabel);
@@ -323,7 +424,7 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
         // Ignore logger failures
       }
       if (err?.message === 'Processing cancelled') {
-        setError("Analysis cancelled.");
+        setError("Analysis cancelled. You can resume it from Processing Jobs below.");
         setProgress({
           phase: 'cancelled',
           current: 0,
@@ -337,6 +438,8 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
       abortControllerRef.current = null;
       setIsGenerating(false);
       setIsCancelling(false);
+      setFailedRefreshToken(token => token + 1);
+      setJobsRefreshToken(token => token + 1);
       setProgress({
         phase: 'idle',
         current: 0,
@@ -358,6 +461,25 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
       ? 15
       : 0;
 
+  // Without a model price the budget cannot trip, so jobs refuse to start
+  const budgetPriceError = getBudgetPriceError(config.processing.budgetUsd, config);
+
+  const throttleLabel = (state: ThrottleState): string => {
+    const calls = `${state.inFlight} API call${state.inFlight === 1 ? '' : 's'} in flight, ${state.queued} queued`;
+    switch (state.status) {
+      case 'paused': {
+        const seconds = state.pausedUntil ? Math.max(0, Math.ceil((state.pausedUntil - throttleNow) / 1000)) : 0;
+        return `Rate limited by provider — queue paused, resuming in ${seconds}s (${calls})`;
+      }
+      case 'waiting_rpm':
+        return `Throttled: waiting for requests-per-minute budget (${calls})`;
+      case 'waiting_tpm':
+        return `Throttled: waiting for tokens-per-minute budget (${calls})`;
+      default:
+        return calls;
+    }
+  };
+
   const progressLabel = () => {
     switch (progress.phase) {
       case 'discovering':
@@ -390,6 +512,23 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
           </div>
 
           <div className="space-y-4 flex-1">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Source Profile</label>
+              <select
+                value={activeProfileId}
+                disabled={isGenerating}
+                onChange={(e) => selectProfile(e.target.value)}
+                className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                {profiles.map(profile => (
+                  <option key={profile.profile_id} value={profile.profile_id}>{profile.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-400 mt-1">
+                {activeProfile ? `${activeProfile.shows.length} show(s) hosted by ${activeProfile.host_name}. ` : ''}Manage profiles below.
+              </p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Start Date</label>
               <input 
@@ -441,6 +580,16 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
                   {progress.currentItem || 'Working...'}
                 </p>
 
+                {throttle && throttle.status !== 'idle' && (
+                  <p className={`text-[11px] flex items-center gap-1 ${throttle.status === 'running' ? 'text-slate-500' : 'text-amber-700'}`}>
+                    <Gauge className="w-3 h-3 shrink-0" />
+                    <span>
+                      {throttleLabel(throttle)}
+                      {throttle.rateLimitHits > 0 && ` · ${throttle.rateLimitHits} rate-limit response${throttle.rateLimitHits === 1 ? '' : 's'}`}
+                    </span>
+                  </p>
+                )}
+
                 {episodeStats && (
                   <div className="flex items-center justify-between text-[11px] text-slate-500">
                     <span>
@@ -448,10 +597,25 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
                     </span>
                     <span>
                       Estimated time: ~{episodeStats.estimateSeconds}s
+                      {episodeStats.estimatedCostUsd !== null && ` · est. ${formatUsd(episodeStats.estimatedCostUsd)}`}
                     </span>
                   </div>
                 )}
 
+                {episodeStats && config.processing.budgetUsd !== null && episodeStats.estimatedCostUsd !== null
+                  && episodeStats.estimatedCostUsd + (usage?.estimated_cost_usd ?? 0) > config.processing.budgetUsd && (
+                  <p className="text-[11px] text-amber-700">
+                    The estimated cost exceeds the {formatUsd(config.processing.budgetUsd)} budget; processing will stop when the budget is reached.
+                  </p>
+                )}
+
+                {usage && usage.requests > 0 && (
+                  <p className="text-[11px] text-slate-500">
+                    Spent: {formatTokens(usage.total_tokens)} tokens in {usage.requests} call{usage.requests === 1 ? '' : 's'} · {formatUsd(usage.estimated_cost_usd)}
+                    {config.processing.budgetUsd !== null && ` of ${formatUsd(config.processing.budgetUsd)} budget`}
+                  </p>
+                )}
+
                 <div className="flex justify-end">
                   <button
                     onClick={handleCancel}
@@ -617,6 +781,34 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
         </div>
       )}
 
+      <SourceProfilesPanel
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        isBusy={isGenerating}
+        onSelect={selectProfile}
+        onProfilesChanged={loadProfiles}
+      />
+
+      <ProcessingJobsPanel
+        refreshToken={jobsRefreshToken}
+        profiles={profiles}
+        isBusy={isGenerating}
+        onResume={handleResumeJob}
+        onOpen={handleOpenJob}
+      />
+
+      <FailedEpisodesPanel refreshToken={failedRefreshToken} />
+
+      <AlertsPanel profileId={activeProfileId} refreshToken={jobsRefreshToken} />
+
+      <DatabaseBackupPanel onRestored={handleBackupRestored} />
+
+      <LibraryMergePanel />
+
+      <EpisodeVersionsPanel refreshToken={jobsRefreshToken} />
+
+      <StorageManagerPanel refreshToken={jobsRefreshToken} onFreed={handleBackupRestored} />
+
       {/* Settings Panel */}
       <div className="max-w-4xl w-full mt-8">
         <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
@@ -637,6 +829,155 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
 
           {showSettings && (
             <div className="px-6 py-4 border-t border-slate-200 space-y-6">
+              {/* AI Provider Settings */}
+              <div>
+                <h4 className="font-semibold text-slate-900 mb-3">AI Provider</h4>
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Provider</label>
+                    <select
+                      value={config.provider.type}
+                      onChange={(e) => {
+                        const newConfig = updateConfig('provider', 'type', e.target.value as LLMProviderType);
+                        setConfig(newConfig);
+                      }}
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      <option value="gemini">Google Gemini (with Search grounding)</option>
+                      <option value="openai-compatible">OpenAI-compatible server</option>
+                      <option value="fixture">Offline fixtures (no network)</option>
+                    </select>
+                  </div>
+
+                  {config.provider.type !== 'fixture' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Model</label>
+                      <input
+                        type="text"
+                        value={config.provider.model}
+                        onChange={(e) => {
+                          const newConfig = updateConfig('provider', 'model', e.target.value);
+                          setConfig(newConfig);
+                        }}
+                        className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                      />
+                    </div>
+                  )}
+
+                  {config.provider.type === 'openai-compatible' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Base URL</label>
+                      <input
+                        type="text"
+                        value={config.provider.baseUrl}
+                        onChange={(e) => {
+                          const newConfig = updateConfig('provider', 'baseUrl', e.target.value);
+                          setConfig(newConfig);
+                        }}
+                        placeholder="http://localhost:11434/v1"
+                        className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                      />
+                      <p className="text-xs text-slate-500 mt-1">
+                        Web search grounding is unavailable; episode discovery relies on the model's own knowledge.
+                      </p>
+                    </div>
+                  )}
+
+                  {config.provider.type !== 'fixture' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Input $ / 1M tokens</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={config.provider.inputPricePerMillion ?? ''}
+                          onChange={(e) => {
+                            const newValue = e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0);
+                            const newConfig = updateConfig('provider', 'inputPricePerMillion', newValue);
+                            setConfig(newConfig);
+                          }}
+                          placeholder="Built-in"
+                          className="w-full rounded-lg border-slate-300 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Output $ / 1M tokens</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={config.provider.outputPricePerMillion ?? ''}
+                          onChange={(e) => {
+                            const newValue = e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0);
+                            const newConfig = updateConfig('provider', 'outputPricePerMillion', newValue);
+                            setConfig(newConfig);
+                          }}
+                          placeholder="Built-in"
+                          className="w-full rounded-lg border-slate-300 text-sm"
+                        />
+                      </div>
+                      <p className="col-span-2 text-xs text-slate-500">
+                        Used for cost estimates. Leave both empty to use built-in list prices for known models.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Episode Discovery Settings */}
+              <div>
+                <h4 className="font-semibold text-slate-900 mb-3">Episode Discovery</h4>
+                <div className="space-y-3">
+                  <p className="text-xs text-slate-500">
+                    The discovery method (web search, transcripts or feeds) is set per source profile in Source Profiles.
+                  </p>
+
+                  <div className="rounded-lg border border-slate-200 p-3">
+                    <div className="flex items-center gap-2 mb-2">
+                      <FileText className="w-4 h-4 text-slate-500" />
+                      <span className="text-sm font-medium text-slate-700">Import Transcripts</span>
+                      <span className="text-xs text-slate-500 ml-auto">{transcriptCount} stored</span>
+                    </div>
+                    <input
+                      type="text"
+                      value={transcriptShowName}
+                      onChange={(e) => setTranscriptShowName(e.target.value)}
+                      placeholder="Show name (optional, overrides file headers)"
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm mb-2"
+                    />
+                    <input
+                      type="file"
+                      multiple
+                      accept=".txt,.vtt,.srt,.json"
+                      disabled={isImportingTranscripts}
+                      onChange={(e) => {
+                        handleTranscriptImport(e.target.files);
+                        e.target.value = '';
+                      }}
+                      className="block w-full text-sm text-slate-600"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                      Supports .txt, .vtt, .srt and podcast transcript JSON. Include a YYYY-MM-DD date in each file name or a "Date:" header.
+                      Transcripts are imported for the active profile{activeProfile ? ` (${activeProfile.name})` : ''}.
+                    </p>
+                    {isImportingTranscripts && (
+                      <p className="text-xs text-slate-600 mt-2 flex items-center gap-1">
+                        <Loader2 className="w-3 h-3 animate-spin" /> Importing...
+                      </p>
+                    )}
+                    {transcriptImportResult && (
+                      <div className="text-xs mt-2 space-y-1">
+                        <p className="text-green-700">Imported {transcriptImportResult.imported.length} transcript(s)</p>
+                        {transcriptImportResult.errors.map(err => (
+                          <p key={err.fileName} className="text-red-600">{err.fileName}: {err.error}</p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+
               {/* Processing Settings */}
               <div>
                 <h4 className="font-semibold text-slate-900 mb-3">Processing</h4>
@@ -662,6 +1003,245 @@ export const DashboardSetup: React.FC<Props> = ({ onDataLoaded, onUseDemo }) =>
                       Higher values = faster processing (uses more API quota)
                     </p>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Requests / minute</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="10000"
+                        value={config.processing.requestsPerMinute}
+                        onChange={(e) => {
+                          const newValue = Math.max(0, parseInt(e.target.value) || 0);
+                          const newConfig = updateConfig('processing', 'requestsPerMinute', newValue);
+                          setConfig(newConfig);
+                        }}
+                        className="w-full rounded-lg border-slate-300 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Tokens / minute</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="10000"
+                        value={config.processing.tokensPerMinute}
+                        onChange={(e) => {
+                          const newValue = Math.max(0, parseInt(e.target.value) || 0);
+                          const newConfig = updateConfig('processing', 'tokensPerMinute', newValue);
+                          setConfig(newConfig);
+                        }}
+                        className="w-full rounded-lg border-slate-300 text-sm"
+                      />
+                    </div>
+                    <p className="col-span-2 text-xs text-slate-500">
+                      Shared budget for all search, analysis and summary calls (0 = unlimited). Match your provider's quota; on a 429 the whole queue pauses for the provider's retry-after delay.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Cost budget per job (USD)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={config.processing.budgetUsd ?? ''}
+                      onChange={(e) => {
+                        const newValue = parseFloat(e.target.value);
+                        const newConfig = updateConfig('processing', 'budgetUsd', newValue > 0 ? newValue : null);
+                        setConfig(newConfig);
+                      }}
+                      placeholder="No budget"
+                      className="w-full rounded-lg border-slate-300 text-sm"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                      Processing stops once a job's estimated cost exceeds this amount. Raise it and resume the job to continue.
+                    </p>
+                    {budgetPriceError && (
+                      <p className="text-xs text-amber-700 mt-1">
+                        {budgetPriceError} Jobs will not start until then.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Issue Ranking */}
+              <div>
+                <h4 className="font-semibold text-slate-900 mb-3">Issue Ranking</h4>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Ranking profile</label>
+                  <select
+                    value={config.ranking.activeProfileId}
+                    onChange={(e) => {
+                      const newConfig = updateConfig('ranking', 'activeProfileId', e.target.value);
+                      setConfig(newConfig);
+                    }}
+                    className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                  >
+                    {config.ranking.profiles.map(profile => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {getRankingProfile(config).description} Reports record the profile they were ranked with; compare profiles from the report's Ranking Profiles panel.
+                  </p>
+                </div>
+              </div>
+
+              {/* Sentiment Aggregation */}
+              <div>
+                <h4 className="font-semibold text-slate-900 mb-3">Sentiment Aggregation</h4>
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Strategy</label>
+                    <select
+                      value={config.aggregation.sentimentStrategy}
+                      onChange={(e) => {
+                        const newConfig = updateConfig('aggregation', 'sentimentStrategy', e.target.value as SentimentAggregationStrategy);
+                        setConfig(newConfig);
+                      }}
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      {(Object.keys(SENTIMENT_STRATEGY_LABELS) as SentimentAggregationStrategy[]).map(strategy => (
+                        <option key={strategy} value={strategy}>{SENTIMENT_STRATEGY_LABELS[strategy]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Interval coverage</label>
+                    <select
+                      value={config.aggregation.intervalLevel}
+                      onChange={(e) => {
+                        const newConfig = updateConfig('aggregation', 'intervalLevel', parseFloat(e.target.value));
+                        setConfig(newConfig);
+                      }}
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      <option value={0.8}>80%</option>
+                      <option value={0.9}>90%</option>
+                      <option value={0.95}>95%</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Significance level</label>
+                    <select
+                      value={config.aggregation.significanceLevel}
+                      onChange={(e) => {
+                        const newConfig = updateConfig('aggregation', 'significanceLevel', parseFloat(e.target.value));
+                        setConfig(newConfig);
+                      }}
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      <option value={0.01}>p &lt; 0.01</option>
+                      <option value={0.05}>p &lt; 0.05</option>
+                      <option value={0.1}>p &lt; 0.10</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  How mention sentiments combine into an issue's sentiment. Weighted strategies let main segments outweigh asides; intervals are drawn as error bars.
+                  Week-over-week changes count as narrative shifts only when a permutation test puts them below the significance level.
+                </p>
+              </div>
+
+              {/* Forecasting */}
+              <div>
+                <h4 className="font-semibold text-slate-900 mb-3">Forecasting</h4>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Method</label>
+                    <select
+                      value={config.forecasting.method}
+                      onChange={(e) => {
+                        const newConfig = updateConfig('forecasting', 'method', e.target.value as ForecastMethod);
+                        setConfig(newConfig);
+                      }}
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(method => (
+                        <option key={method} value={method}>{FORECAST_METHOD_LABELS[method]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Prediction interval</label>
+                    <select
+                      value={config.forecasting.intervalLevel}
+                      onChange={(e) => {
+                        const newConfig = updateConfig('forecasting', 'intervalLevel', parseFloat(e.target.value));
+                        setConfig(newConfig);
+                      }}
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      <option value={0.8}>80%</option>
+                      <option value={0.9}>90%</option>
+                      <option value={0.95}>95%</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  Next-week forecasts of the overall index and each current issue, drawn as dashed extensions on the trend charts.
+                  They need at least 4 weeks of history and are scored once the forecast week has been composed.
+                </p>
+              </div>
+
+              {/* Topic Matching */}
+              <div>
+                <h4 className="font-semibold text-slate-900 mb-3">Topic Matching</h4>
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Matcher</label>
+                    <select
+                      value={config.matching.topicMatcher}
+                      onChange={(e) => {
+                        const newConfig = updateConfig('matching', 'topicMatcher', e.target.value as TopicMatcherType);
+                        setConfig(newConfig);
+                      }}
+                      className="w-full rounded-lg border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      <option value="token-overlap">Token overlap (shared words)</option>
+                      <option value="embedding">Semantic embeddings</option>
+                    </select>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Decides which topics form one issue and which issues match across weeks. Embeddings also group differently worded topics.
+                    </p>
+                  </div>
+
+                  {config.matching.topicMatcher === 'embedding' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Embedding model</label>
+                        <input
+                          type="text"
+                          value={config.matching.embeddingModel}
+                          onChange={(e) => {
+                            const newConfig = updateConfig('matching', 'embeddingModel', e.target.value);
+                            setConfig(newConfig);
+                          }}
+                          placeholder="Provider default"
+                          className="w-full rounded-lg border-slate-300 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Similarity threshold</label>
+                        <input
+                          type="number"
+                          min="0.5"
+                          max="0.99"
+                          step="0.01"
+                          value={config.matching.embeddingThreshold}
+                          onChange={(e) => {
+                            const newValue = Math.min(0.99, Math.max(0.5, parseFloat(e.target.value) || 0.8));
+                            const newConfig = updateConfig('matching', 'embeddingThreshold', newValue);
+                            setConfig(newConfig);
+                          }}
+                          className="w-full rounded-lg border-slate-300 text-sm"
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,228 @@
+import React, { useRef, useState } from 'react';
+import { Archive, ChevronDown, ChevronUp, Download, Upload, Loader2, Check, X, AlertTriangle } from 'lucide-react';
+import {
+  createDatabaseBackup,
+  restoreDatabaseBackup,
+  validateDatabaseBackup,
+  RESTORE_STRATEGY_LABELS,
+  type BackupValidation,
+  type RestoreResult,
+  type RestoreStrategy
+} from '../services/databaseBackup';
+
+interface DatabaseBackupPanelProps {
+  /** Called after a restore so the caller can reload profiles, settings and lists */
+  onRestored?: (result: RestoreResult) => void;
+}
+
+/**
+ * Download the whole local library (every IndexedDB store plus settings) as
+ * one archive, or restore such an archive with a chosen conflict strategy.
+ */
+export const DatabaseBackupPanel: React.FC<DatabaseBackupPanelProps> = ({ onRestored }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<BackupValidation | null>(null);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('merge');
+  const [includeConfig, setIncludeConfig] = useState(false);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleBackup = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const backup = await createDatabaseBackup();
+      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `hcr-database-backup-${backup.created_at.slice(0, 10)}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to create the backup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+    setPending(null);
+    try {
+      const validation = validateDatabaseBackup(JSON.parse(await file.text()));
+      if (validation.backup.partial && strategy === 'replace') setStrategy('merge');
+      setPending(validation);
+    } catch (err: any) {
+      setError(err instanceof SyntaxError ? 'The file is not valid JSON.' : err?.message || 'Invalid backup archive');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    if (strategy === 'replace' && !window.confirm('Replace local data with the archive? Local records in the archived stores will be deleted.')) {
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const restored = await restoreDatabaseBackup(pending.backup, { strategy, includeConfig });
+      setResult(restored);
+      setPending(null);
+      onRestored?.(restored);
+    } catch (err: any) {
+      setError(err?.message || 'Restore failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const nonEmptyStores = (counts: Record<string, number>) =>
+    Object.entries(counts).filter(([, count]) => count > 0);
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <Archive className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-slate-900">Backup &amp; Restore</h3>
+            <span className="text-sm text-slate-500">Move your analyzed library between browsers</span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-4">
+            <p className="text-xs text-slate-500">
+              A backup holds every stored episode, weekly aggregation, transcript, job, source profile, taxonomy, forecast, alert, merge decision, episode version and cache, plus your settings.
+              Your API key is never included.
+            </p>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={handleBackup}
+                disabled={isBusy}
+                className="px-4 py-2 bg-slate-900 text-white text-sm font-semibold rounded-lg hover:bg-slate-800 disabled:opacity-50 flex items-center gap-2"
+              >
+                {isBusy && !pending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download backup
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="px-4 py-2 border border-slate-300 text-slate-700 text-sm font-semibold rounded-lg hover:bg-slate-50 disabled:opacity-50 flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Restore from backup…
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+            </div>
+
+            {error && (
+              <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm flex items-start gap-2">
+                <X className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {pending && (
+              <div className="rounded-lg border border-indigo-200 bg-indigo-50/50 p-4 space-y-3 text-sm">
+                <div>
+                  <div className="font-semibold text-slate-900">
+                    Backup from {new Date(pending.backup.created_at).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    Framework {pending.backup.framework_version} • database v{pending.backup.db_version} •{' '}
+                    {nonEmptyStores(pending.recordCounts).map(([name, count]) => `${count} ${name}`).join(', ') || 'no records'}
+                  </div>
+                </div>
+                {pending.warnings.map(warning => (
+                  <div key={warning} className="flex items-start gap-2 text-amber-700 text-xs">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  {(Object.keys(RESTORE_STRATEGY_LABELS) as RestoreStrategy[])
+                    .filter(option => !(pending.backup.partial && option === 'replace'))
+                    .map(option => (
+                    <label key={option} className="flex items-center gap-2 text-slate-700">
+                      <input
+                        type="radio"
+                        name="restore-strategy"
+                        checked={strategy === option}
+                        onChange={() => setStrategy(option)}
+                        className="text-indigo-600 focus:ring-indigo-500"
+                      />
+                      {RESTORE_STRATEGY_LABELS[option]}
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={includeConfig}
+                    onChange={(e) => setIncludeConfig(e.target.checked)}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Also restore settings (your API key is kept)
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleRestore}
+                    disabled={isBusy}
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => setPending(null)}
+                    disabled={isBusy}
+                    className="px-4 py-2 text-slate-600 text-sm font-medium hover:text-slate-900"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {result && (
+              <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  <Check className="w-4 h-4" />
+                  Restore complete{result.configRestored ? ' (settings restored)' : ''}
+                </div>
+                <div className="text-xs">
+                  {Object.keys(result.stores)
+                    .filter(name => result.stores[name].written + result.stores[name].skipped > 0)
+                    .map(name => {
+                      const { written, skipped } = result.stores[name];
+                      return `${name}: ${written} restored${skipped ? `, ${skipped} kept local` : ''}`;
+                    })
+                    .join(' • ') || 'No records in the archive'}
+                </div>
+                {result.warnings.map(warning => (
+                  <div key={warning} className="text-xs text-amber-700">{warning}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, ChevronDown, ChevronUp, Check, X, Loader2 } from 'lucide-react';
+import type { EpisodeVersion } from '../types';
+import {
+  activateVersion,
+  diffEpisodeVersions,
+  listVersionedEpisodes,
+  loadEpisodeVersions,
+  type TopicVersionChange,
+  type ValueChange,
+  type VersionedEpisodeSummary
+} from '../services/episodeVersions';
+
+interface EpisodeVersionsPanelProps {
+  /** Change this value to reload the list (e.g. after a processing run) */
+  refreshToken?: number;
+}
+
+const STATUS_STYLES: Record<TopicVersionChange['status'], string> = {
+  changed: 'bg-amber-100 text-amber-800',
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-rose-100 text-rose-800',
+  unchanged: 'bg-slate-100 text-slate-600'
+};
+
+function versionLabel(version: EpisodeVersion): string {
+  return `${version.framework_version} • ${version.model_used} • ${new Date(version.processed_at).toLocaleDateString()}${version.active ? ' (active)' : ''}`;
+}
+
+function formatChange(value: ValueChange, digits = 0): string {
+  const format = (n: number | null) => (n === null ? '—' : n.toFixed(digits));
+  if (value.delta === null || value.delta === 0) return format(value.to ?? value.from);
+  return `${format(value.from)} → ${format(value.to)} (${value.delta > 0 ? '+' : ''}${value.delta.toFixed(digits)})`;
+}
+
+/**
+ * Episodes analyzed more than once: compare two analyses side by side and
+ * choose which one reports use.
+ */
+export const EpisodeVersionsPanel: React.FC<EpisodeVersionsPanelProps> = ({ refreshToken }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [episodes, setEpisodes] = useState<VersionedEpisodeSummary[]>([]);
+  const [episodeId, setEpisodeId] = useState('');
+  const [versions, setVersions] = useState<EpisodeVersion[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isActivating, setIsActivating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loadEpisodes = async () => {
+    try {
+      setEpisodes(await listVersionedEpisodes());
+    } catch (err) {
+      console.error('Failed to load episode versions:', err);
+    }
+  };
+
+  const selectEpisode = async (id: string) => {
+    setEpisodeId(id);
+    setActionError(null);
+    if (!id) {
+      setVersions([]);
+      return;
+    }
+    try {
+      const loaded = await loadEpisodeVersions(id);
+      setVersions(loaded);
+      // Default: active analysis against the newest other one
+      const active = loaded.find(version => version.active) ?? loaded[loaded.length - 1];
+      const other = loaded.find(version => version.version_id !== active?.version_id);
+      setFromId(active?.version_id ?? '');
+      setToId(other?.version_id ?? active?.version_id ?? '');
+    } catch (err: any) {
+      setActionError(err?.message || 'Failed to load versions');
+    }
+  };
+
+  useEffect(() => {
+    loadEpisodes();
+  }, [refreshToken]);
+
+  const from = versions.find(version => version.version_id === fromId);
+  const to = versions.find(version => version.version_id === toId);
+  const diff = useMemo(() => (from && to ? diffEpisodeVersions(from.insight, to.insight) : null), [from, to]);
+
+  const handleActivate = async () => {
+    if (!to) return;
+    setIsActivating(true);
+    setActionError(null);
+    try {
+      await activateVersion(to.version_id);
+      await selectEpisode(to.episode_id);
+      await loadEpisodes();
+    } catch (err: any) {
+      setActionError(err?.message || 'Failed to activate version');
+    } finally {
+      setIsActivating(false);
+    }
+  };
+
+  const candidates = episodes.filter(episode => episode.has_candidates).length;
+  const topics = diff?.topics.filter(topic => showUnchanged || topic.status !== 'unchanged') ?? [];
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <GitCompare className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-slate-900">Episode Versions</h3>
+            <span className="text-sm text-slate-500">
+              {episodes.length === 0
+                ? 'No episode analyzed more than once'
+                : `${episodes.length} episode${episodes.length === 1 ? '' : 's'} with several analyses${candidates > 0 ? `, ${candidates} with a newer inactive version` : ''}`}
+            </span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-4">
+            <p className="text-xs text-slate-500">
+              Reanalyzing an episode with another framework version or model keeps the earlier analysis. Reports use the active version.
+            </p>
+
+            {actionError && (
+              <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm flex items-start gap-2">
+                <X className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{actionError}</span>
+              </div>
+            )}
+
+            <select
+              value={episodeId}
+              onChange={(e) => selectEpisode(e.target.value)}
+              className="w-full rounded-lg border-slate-300 text-sm"
+              disabled={episodes.length === 0}
+            >
+              <option value="">Select an episode…</option>
+              {episodes.map(episode => (
+                <option key={episode.episode_id} value={episode.episode_id}>
+                  {episode.published_at} — {episode.title} ({episode.version_count} versions{episode.has_candidates ? ', newer inactive' : ''})
+                </option>
+              ))}
+            </select>
+
+            {versions.length > 1 && (
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <label className="space-y-1">
+                  <span className="text-xs font-medium text-slate-600">From</span>
+                  <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="w-full rounded-lg border-slate-300 text-sm">
+                    {versions.map(version => <option key={version.version_id} value={version.version_id}>{versionLabel(version)}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs font-medium text-slate-600">To</span>
+                  <select value={toId} onChange={(e) => setToId(e.target.value)} className="w-full rounded-lg border-slate-300 text-sm">
+                    {versions.map(version => <option key={version.version_id} value={version.version_id}>{versionLabel(version)}</option>)}
+                  </select>
+                </label>
+              </div>
+            )}
+
+            {diff && from && to && from.version_id !== to.version_id && (
+              <div className="space-y-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-slate-700">
+                    Overall sentiment <span className="font-semibold">{formatChange(diff.overall_sentiment)}</span>
+                    <span className="mx-2 text-slate-300">|</span>
+                    Focus relevance <span className="font-semibold">{formatChange(diff.focus_relevance, 2)}</span>
+                  </div>
+                  {to.active ? (
+                    <span className="text-xs text-green-700 flex items-center gap-1"><Check className="w-3 h-3" /> "To" is the active version</span>
+                  ) : (
+                    <button
+                      onClick={handleActivate}
+                      disabled={isActivating}
+                      className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      {isActivating && <Loader2 className="w-3 h-3 animate-spin" />}
+                      Make "To" active
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-semibold text-slate-700">Topics</h4>
+                  <label className="flex items-center gap-1 text-xs text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={showUnchanged}
+                      onChange={(e) => setShowUnchanged(e.target.checked)}
+                      className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Show unchanged
+                  </label>
+                </div>
+                {topics.length === 0 && <p className="text-xs text-slate-500">No topic changed.</p>}
+                {topics.map(topic => (
+                  <div key={`${topic.status}-${topic.topic_name}`} className="rounded-lg border border-slate-200 p-3 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded ${STATUS_STYLES[topic.status]}`}>{topic.status}</span>
+                      <span className="font-medium text-slate-900">{topic.topic_name}</span>
+                      <span className="text-xs text-slate-500">
+                        sentiment {formatChange(topic.sentiment)} • prominence {formatChange(topic.prominence, 2)} • confidence {formatChange(topic.confidence, 2)}
+                      </span>
+                    </div>
+                    {topic.quotes_added.map(quote => (
+                      <p key={`+${quote}`} className="text-xs text-green-700">+ “{quote}”</p>
+                    ))}
+                    {topic.quotes_removed.map(quote => (
+                      <p key={`-${quote}`} className="text-xs text-rose-700 line-through">− “{quote}”</p>
+                    ))}
+                  </div>
+                ))}
+
+                {diff.key_quotes_added.length + diff.key_quotes_removed.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-semibold text-slate-700">Key quotes</h4>
+                    {diff.key_quotes_added.map(quote => (
+                      <p key={`+${quote}`} className="text-xs text-green-700">+ “{quote}”</p>
+                    ))}
+                    {diff.key_quotes_removed.map(quote => (
+                      <p key={`-${quote}`} className="text-xs text-rose-700 line-through">− “{quote}”</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Loader2, RotateCcw, Pencil, Ban, Undo2, Check, X } from 'lucide-react';
+import { FailedEpisode, FailedEpisodeErrorClass } from '../types';
+import { getAllFailedEpisodes } from '../services/episodeDB';
+import { retryFailedEpisode, updateFailedEpisodeMetadata, setFailedEpisodeSkipped } from '../services/quarantine';
+
+const ERROR_CLASS_LABELS: Record<FailedEpisodeErrorClass, string> = {
+  schema_validation: 'Invalid output',
+  rate_limit: 'Rate limited',
+  auth: 'Auth',
+  network: 'Network',
+  server: 'Server',
+  unknown: 'Unknown'
+};
+
+interface FailedEpisodesPanelProps {
+  /** Change this value to reload the list (e.g. after a processing run) */
+  refreshToken?: number;
+}
+
+/**
+ * Review panel for quarantined episode analyses: inspect, retry, edit metadata or skip.
+ */
+export const FailedEpisodesPanel: React.FC<FailedEpisodesPanelProps> = ({ refreshToken }) => {
+  const [failed, setFailed] = useState<FailedEpisode[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState({ show_name: '', title: '', published_at: '' });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const records = await getAllFailedEpisodes();
+      records.sort((a, b) => b.last_failed_at.localeCompare(a.last_failed_at));
+      setFailed(records);
+    } catch (err) {
+      console.error('Failed to load quarantined episodes:', err);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [refreshToken]);
+
+  const runAction = async (episodeId: string, action: () => Promise<unknown>) => {
+    setBusyId(episodeId);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setActionError(`${episodeId}: ${err?.message || 'Action failed'}`);
+    } finally {
+      setBusyId(null);
+      await load();
+    }
+  };
+
+  const startEdit = (record: FailedEpisode) => {
+    setEditingId(record.episode_id);
+    setEditDraft({
+      show_name: record.metadata.show_name,
+      title: record.metadata.title,
+      published_at: record.metadata.published_at
+    });
+  };
+
+  const saveEdit = (episodeId: string) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(editDraft.published_at)) {
+      setActionError(`${episodeId}: Published date must be YYYY-MM-DD`);
+      return;
+    }
+    setEditingId(null);
+    runAction(episodeId, () => updateFailedEpisodeMetadata(episodeId, editDraft));
+  };
+
+  if (failed.length === 0) return null;
+
+  const pendingCount = failed.filter(f => f.status === 'pending').length;
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-rose-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-rose-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-rose-500" />
+            <h3 className="text-lg font-semibold text-slate-900">Failed Episodes</h3>
+            <span className="text-sm text-slate-500">
+              {pendingCount} pending{failed.length > pendingCount ? `, ${failed.length - pendingCount} skipped` : ''}
+            </span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-3">
+            <p className="text-xs text-slate-500">
+              These episodes are missing from reports. Pending episodes are retried automatically on the next run; skipped episodes are excluded.
+            </p>
+
+            {actionError && (
+              <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm flex items-start gap-2">
+                <X className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{actionError}</span>
+              </div>
+            )}
+
+            {failed.map(record => {
+              const isBusy = busyId === record.episode_id;
+              const isExpanded = expandedId === record.episode_id;
+              const isEditing = editingId === record.episode_id;
+
+              return (
+                <div
+                  key={record.episode_id}
+                  className={`rounded-lg border p-3 ${record.status === 'skipped' ? 'border-slate-200 bg-slate-50 opacity-70' : 'border-slate-200'}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-900 truncate">{record.metadata.title}</p>
+                      <p className="text-xs text-slate-500">
+                        {record.metadata.show_name} • {record.metadata.published_at} • {record.attempt_count} attempt{record.attempt_count === 1 ? '' : 's'}
+                        {record.metadata_edited && ' • metadata edited'}
+                      </p>
+                    </div>
+                    <span className="text-xs font-medium bg-rose-100 text-rose-700 px-2 py-0.5 rounded shrink-0">
+                      {ERROR_CLASS_LABELS[record.error_class]}
+                    </span>
+                  </div>
+
+                  <p className="text-xs text-slate-600 mt-2 break-words">{record.error_message}</p>
+
+                  {isEditing && (
+                    <div className="mt-3 grid grid-cols-3 gap-2">
+                      <input
+                        type="text"
+                        value={editDraft.show_name}
+                        onChange={(e) => setEditDraft({ ...editDraft, show_name: e.target.value })}
+                        placeholder="Show name"
+                        className="rounded-lg border-slate-300 text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={editDraft.title}
+                        onChange={(e) => setEditDraft({ ...editDraft, title: e.target.value })}
+                        placeholder="Title"
+                        className="rounded-lg border-slate-300 text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={editDraft.published_at}
+                        onChange={(e) => setEditDraft({ ...editDraft, published_at: e.target.value })}
+                        placeholder="YYYY-MM-DD"
+                        className="rounded-lg border-slate-300 text-sm"
+                      />
+                    </div>
+                  )}
+
+                  {isExpanded && (
+                    <div className="mt-3 space-y-2">
+                      {record.validation_issues.length > 0 && (
+                        <ul className="text-xs text-slate-600 list-disc pl-5">
+                          {record.validation_issues.map((issue, idx) => (
+                            <li key={idx}><span className="font-mono">{issue.path}</span>: {issue.message}</li>
+                          ))}
+                        </ul>
+                      )}
+                      <pre className="text-xs bg-slate-900 text-slate-100 p-3 rounded max-h-64 overflow-auto whitespace-pre-wrap">
+                        {record.raw_response ?? '(no model response captured)'}
+                      </pre>
+                      <p className="text-xs text-slate-400">
+                        First failed {new Date(record.first_failed_at).toLocaleString()} • last failed {new Date(record.last_failed_at).toLocaleString()} • framework {record.framework_version}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : record.episode_id)}
+                      className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50"
+                    >
+                      {isExpanded ? 'Hide details' : 'Inspect'}
+                    </button>
+                    {isEditing ? (
+                      <>
+                        <button
+                          onClick={() => saveEdit(record.episode_id)}
+                          className="px-2 py-1 rounded border border-emerald-200 text-emerald-700 hover:bg-emerald-50 flex items-center gap-1"
+                        >
+                          <Check className="w-3 h-3" /> Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => startEdit(record)}
+                        disabled={isBusy}
+                        className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 flex items-center gap-1"
+                      >
+                        <Pencil className="w-3 h-3" /> Edit metadata
+                      </button>
+                    )}
+                    {record.status === 'pending' ? (
+                      <>
+                        <button
+                          onClick={() => runAction(record.episode_id, () => retryFailedEpisode(record.episode_id))}
+                          disabled={isBusy}
+                          className="px-2 py-1 rounded border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 flex items-center gap-1"
+                        >
+                          {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />} Retry
+                        </button>
+                        <button
+                          onClick={() => runAction(record.episode_id, () => setFailedEpisodeSkipped(record.episode_id, true))}
+                          disabled={isBusy}
+                          className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+                        >
+                          <Ban className="w-3 h-3" /> Skip permanently
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => runAction(record.episode_id, () => setFailedEpisodeSkipped(record.episode_id, false))}
+                        disabled={isBusy}
+                        className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <Undo2 className="w-3 h-3" /> Unskip
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { ForecastAccuracy } from '../types';
+import { FORECAST_METHOD_LABELS } from '../constants/config';
+import { getForecastAccuracy } from '../services/forecastTracking';
+
+interface ForecastAccuracySummaryProps {
+  profileId: string;
+}
+
+/**
+ * Track record of earlier next-week forecasts for a source profile: mean
+ * absolute error and how often the actual week fell inside the interval.
+ * Renders nothing until at least one forecast has been resolved.
+ */
+export const ForecastAccuracySummary: React.FC<ForecastAccuracySummaryProps> = ({ profileId }) => {
+  const [accuracy, setAccuracy] = useState<ForecastAccuracy[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getForecastAccuracy(profileId)
+      .then(loaded => { if (!cancelled) setAccuracy(loaded); })
+      .catch(err => console.warn('[ForecastTracking] Could not load forecast accuracy:', err));
+    return () => { cancelled = true; };
+  }, [profileId]);
+
+  if (accuracy.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs text-slate-500">
+      {accuracy.map(a => (
+        <div key={`${a.method}-${a.metric}`}>
+          Past {a.metric} forecasts ({FORECAST_METHOD_LABELS[a.method]}, {a.resolved} resolved):
+          {' '}off by {a.metric === 'prominence' ? `${Math.round(a.mean_absolute_error * 100)} percentage points` : `${a.mean_absolute_error.toFixed(1)} points`} on average,
+          {' '}{Math.round(a.interval_coverage * 100)}% inside the {Math.round(a.level * 100)}% interval
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ComposedChart, Line, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { History, ChevronDown, ChevronUp } from 'lucide-react';
+import { HCRReport, IssueRegistry } from '../types';
+import { getConfig } from '../constants/config';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { loadIssueRegistry } from '../services/issueLifecycle';
+import { cleanTopicName } from '../utils/aggregation';
+import { forecastNext, forecastWeekStart } from '../utils/forecasting';
+
+interface IssueTimelinePanelProps {
+  report: HCRReport;
+}
+
+/**
+ * Full history of one issue across every stored episode of the report's
+ * source profile: weekly prominence and sentiment, peak, dormant stretches
+ * and resurgences. The report's own window is shaded for orientation.
+ */
+export const IssueTimelinePanel: React.FC<IssueTimelinePanelProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [registry, setRegistry] = useState<IssueRegistry | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState('');
+
+  const profileId = report.source_profile?.profile_id ?? DEFAULT_PROFILE_ID;
+
+  useEffect(() => {
+    if (!isOpen || registry) return;
+    loadIssueRegistry(profileId)
+      .then(loaded => {
+        setRegistry(loaded);
+        // Start with the report's top issue when the history knows it
+        const reportNames = report.top_issues.map(issue => cleanTopicName(issue.issue_name));
+        const initial = reportNames
+          .map(name => loaded.issues.find(issue => cleanTopicName(issue.issue_name) === name))
+          .find(Boolean) ?? loaded.issues[0];
+        setSelected(initial?.normalized_name ?? '');
+      })
+      .catch(err => setLoadError(err?.message || 'Failed to build the issue registry'));
+  }, [isOpen, registry, profileId, report]);
+
+  useEffect(() => {
+    setRegistry(null);
+    setLoadError(null);
+  }, [profileId]);
+
+  const lifecycle = registry?.issues.find(issue => issue.normalized_name === selected) ?? null;
+  // Shaded bands are full-height bars: dormant stretches and the report's own window
+  const windowStart = report.run_window.window_start.slice(0, 10);
+  const windowEnd = report.run_window.window_end.slice(0, 10);
+  const chartData: Array<{
+    week_start: string;
+    prominence: number | null;
+    sentiment: number | null;
+    band: number | null;
+    bandColor: string;
+    prominenceForecast?: number;
+    sentimentForecast?: number;
+  }> = lifecycle?.weeks.map(week => {
+    const dormant = lifecycle.dormancies.some(d => week.week_start >= d.start_week && week.week_start <= d.end_week);
+    const inWindow = week.week_start >= windowStart && week.week_start <= windowEnd;
+    return {
+      week_start: week.week_start,
+      prominence: Math.round(week.prominence * 100),
+      sentiment: week.avg_sentiment,
+      band: dormant || inWindow ? 100 : null,
+      bandColor: dormant ? '#cbd5e1' : '#e0e7ff'
+    };
+  }) ?? [];
+
+  // Next-week forecasts continue both lines (dashed) from their last point
+  const { method, intervalLevel } = getConfig().forecasting;
+  const prominenceForecast = lifecycle
+    ? forecastNext(lifecycle.weeks.map(w => w.prominence), method, intervalLevel, { min: 0, max: 1, minSigma: 0.01 })
+    : null;
+  const sentimentHistory = lifecycle?.weeks
+    .map(w => w.avg_sentiment)
+    .filter((value): value is number => value !== null) ?? [];
+  const sentimentForecast = forecastNext(sentimentHistory, method, intervalLevel, { minSigma: 1 });
+  const lastPoint = chartData[chartData.length - 1];
+  if (lastPoint && (prominenceForecast || sentimentForecast)) {
+    if (prominenceForecast) lastPoint.prominenceForecast = lastPoint.prominence ?? undefined;
+    if (sentimentForecast) lastPoint.sentimentForecast = sentimentHistory[sentimentHistory.length - 1];
+    chartData.push({
+      week_start: forecastWeekStart(lastPoint.week_start),
+      prominence: null,
+      sentiment: null,
+      band: null,
+      bandColor: '#e0e7ff',
+      prominenceForecast: prominenceForecast ? Math.round(prominenceForecast.prediction * 100) : undefined,
+      sentimentForecast: sentimentForecast ? Math.round(sentimentForecast.prediction) : undefined
+    });
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-bold text-slate-900 serif">Issue Timeline</h3>
+          <span className="text-sm text-slate-500">
+            {registry
+              ? `${registry.issues.length} issues across ${registry.week_count} weeks of history`
+              : 'Lifecycle of any issue across all stored episodes'}
+          </span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 py-4 border-t border-slate-200 space-y-4">
+          {loadError && (
+            <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm">{loadError}</div>
+          )}
+          {!loadError && !registry && (
+            <p className="text-sm text-slate-500">Building issue registry…</p>
+          )}
+          {registry && registry.issues.length === 0 && (
+            <p className="text-sm text-slate-500">No analyzed episodes are stored for this source profile yet.</p>
+          )}
+
+          {registry && registry.issues.length > 0 && (
+            <>
+              <select
+                value={selected}
+                onChange={(e) => setSelected(e.target.value)}
+                className="w-full md:w-96 rounded-lg border-slate-300 text-sm"
+              >
+                {registry.issues.map(issue => (
+                  <option key={issue.normalized_name} value={issue.normalized_name}>
+                    {issue.issue_name} ({issue.episode_count} episode{issue.episode_count === 1 ? '' : 's'})
+                  </option>
+                ))}
+              </select>
+
+              {lifecycle && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                    <div className="bg-slate-50 rounded-lg border border-slate-100 p-3">
+                      <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">First Seen</div>
+                      <div className="font-semibold text-slate-800">{lifecycle.first_seen}</div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg border border-slate-100 p-3">
+                      <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Peak</div>
+                      <div className="font-semibold text-slate-800">
+                        {lifecycle.peak_week} · {Math.round(lifecycle.peak_prominence * 100)}%
+                      </div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg border border-slate-100 p-3">
+                      <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Decay</div>
+                      <div className="font-semibold text-slate-800">
+                        {lifecycle.decay_rate === null ? 'n/a' : `${Math.round(lifecycle.decay_rate * 100)}% / week`}
+                      </div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg border border-slate-100 p-3">
+                      <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Status</div>
+                      <div className={`font-semibold ${lifecycle.status === 'dormant' ? 'text-slate-500' : 'text-green-700'}`}>
+                        {lifecycle.status === 'dormant' ? 'Dormant' : 'Active'} (last {lifecycle.last_seen})
+                      </div>
+                    </div>
+                    <div className="bg-slate-50 rounded-lg border border-slate-100 p-3">
+                      <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Coverage</div>
+                      <div className="font-semibold text-slate-800">
+                        {lifecycle.episode_count} episodes · {lifecycle.weeks_active} weeks
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="h-56 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={chartData} margin={{ top: 16, right: 8 }} barGap={0} barCategoryGap={0}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                        <XAxis
+                          dataKey="week_start"
+                          tickFormatter={(str) => String(str).slice(2)}
+                          interval={Math.max(0, Math.floor((chartData.length - 1) / 8))}
+                          tick={{ fill: '#64748b', fontSize: 11 }}
+                          axisLine={false}
+                          tickLine={false}
+                        />
+                        <YAxis yAxisId="prominence" domain={[0, 100]} unit="%" tick={{ fill: '#64748b', fontSize: 11 }} axisLine={false} tickLine={false} width={40} />
+                        <YAxis yAxisId="sentiment" orientation="right" domain={[0, 100]} tick={{ fill: '#64748b', fontSize: 11 }} axisLine={false} tickLine={false} width={30} />
+                        <Tooltip
+                          contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                          labelFormatter={(label) => `Week starting ${label}`}
+                        />
+                        <Bar yAxisId="prominence" dataKey="band" fillOpacity={0.5} tooltipType="none" isAnimationActive={false}>
+                          {chartData.map(point => (
+                            <Cell key={point.week_start} fill={point.bandColor} />
+                          ))}
+                        </Bar>
+                        <ReferenceLine
+                          yAxisId="prominence"
+                          x={lifecycle.peak_week}
+                          stroke="#6366f1"
+                          strokeDasharray="3 3"
+                          label={{ value: 'Peak', position: 'top', fill: '#4f46e5', fontSize: 11 }}
+                        />
+                        {lifecycle.resurgences.map(r => (
+                          <ReferenceLine
+                            key={r.week_start}
+                            yAxisId="prominence"
+                            x={r.week_start}
+                            stroke="#10b981"
+                            strokeDasharray="3 3"
+                            label={{ value: 'Back', position: 'top', fill: '#047857', fontSize: 11 }}
+                          />
+                        ))}
+                        <Line yAxisId="prominence" type="monotone" dataKey="prominence" name="Prominence" stroke="#6366f1" strokeWidth={2} dot={false} />
+                        <Line yAxisId="sentiment" type="monotone" dataKey="sentiment" name="Sentiment" stroke="#f59e0b" strokeWidth={1.5} dot={{ r: 2 }} connectNulls />
+                        {prominenceForecast && (
+                          <Line yAxisId="prominence" type="linear" dataKey="prominenceForecast" name="Prominence forecast" stroke="#6366f1" strokeWidth={2} strokeDasharray="5 4" dot={false} />
+                        )}
+                        {sentimentForecast && (
+                          <Line yAxisId="sentiment" type="linear" dataKey="sentimentForecast" name="Sentiment forecast" stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="5 4" dot={{ r: 2 }} />
+                        )}
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Prominence is the issue's share of each week's coverage (left axis); sentiment is on the right axis.
+                    Grey bands are dormant stretches, the light indigo band is this report's window.
+                    {(prominenceForecast || sentimentForecast) && ' Dashed segments forecast the next week'}
+                    {prominenceForecast && ` (prominence ${Math.round(prominenceForecast.lower * 100)}–${Math.round(prominenceForecast.upper * 100)}%`}
+                    {sentimentForecast && `${prominenceForecast ? ', ' : ' ('}sentiment ${Math.round(sentimentForecast.lower)}–${Math.round(sentimentForecast.upper)}`}
+                    {(prominenceForecast || sentimentForecast) && `, ${Math.round(intervalLevel * 100)}% intervals).`}
+                  </p>
+
+                  {(lifecycle.dormancies.length > 0 || lifecycle.member_topics.length > 1) && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                      {lifecycle.dormancies.length > 0 && (
+                        <div>
+                          <h4 className="text-sm font-semibold text-slate-800 mb-1">Dormancy and resurgence</h4>
+                          <ul className="space-y-1 text-slate-600">
+                            {lifecycle.dormancies.map(d => {
+                              const comeback = lifecycle.resurgences.find(r => r.week_start > d.end_week);
+                              return (
+                                <li key={d.start_week}>
+                                  Quiet for {d.weeks} weeks from {d.start_week}
+                                  {d.ongoing
+                                    ? ' — still dormant'
+                                    : comeback && `, back ${comeback.week_start} at ${Math.round(comeback.prominence * 100)}%`}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </div>
+                      )}
+                      {lifecycle.member_topics.length > 1 && (
+                        <div>
+                          <h4 className="text-sm font-semibold text-slate-800 mb-1">Grouped topic names</h4>
+                          <div className="flex flex-wrap gap-1">
+                            {lifecycle.member_topics.map(topic => (
+                              <span key={topic} className="px-2 py-0.5 rounded bg-slate-100 text-xs text-slate-600">{topic}</span>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
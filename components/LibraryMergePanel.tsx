@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GitMerge, ChevronDown, ChevronUp, Upload, Loader2, Check, X } from 'lucide-react';
+import type { EpisodeInsight, LibraryMergePolicy, MergeDecision } from '../types';
+import {
+  applyLibraryMerge,
+  diffWithLocalLibrary,
+  loadMergeLog,
+  parseLibraryExport,
+  planLibraryMerge,
+  resolveConflict,
+  summarizeEpisodeVersion,
+  MERGE_POLICY_LABELS,
+  type LibraryDiff,
+  type LibraryMergeResult
+} from '../services/libraryMerge';
+
+type MergeLog = Awaited<ReturnType<typeof loadMergeLog>>;
+
+const ACTION_LABELS: Record<MergeDecision['action'], string> = {
+  'added': 'Added',
+  'kept-local': 'Kept local',
+  'took-incoming': 'Took incoming'
+};
+
+/**
+ * Merge a teammate's library export into the local episode store: diff it
+ * episode by episode, resolve conflicting analyses by policy or by hand, and
+ * keep a log of every decision.
+ */
+export const LibraryMergePanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sourceLabel, setSourceLabel] = useState('');
+  const [diff, setDiff] = useState<LibraryDiff | null>(null);
+  const [policy, setPolicy] = useState<LibraryMergePolicy>('newest-framework');
+  const [manualPicks, setManualPicks] = useState<Record<string, 'local' | 'incoming'>>({});
+  const [result, setResult] = useState<LibraryMergeResult | null>(null);
+  const [mergeLog, setMergeLog] = useState<MergeLog>([]);
+  const [expandedMerge, setExpandedMerge] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadLog = async () => {
+    try {
+      setMergeLog(await loadMergeLog());
+    } catch (err) {
+      console.error('Failed to load merge log:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadLog();
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+    setDiff(null);
+    setManualPicks({});
+    setIsBusy(true);
+    try {
+      const incoming: EpisodeInsight[] = parseLibraryExport(JSON.parse(await file.text()));
+      setDiff(await diffWithLocalLibrary(incoming));
+      setSourceLabel(file.name);
+    } catch (err: any) {
+      setError(err instanceof SyntaxError ? 'The file is not valid JSON.' : err?.message || 'Could not read the library export');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!diff) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const decisions = planLibraryMerge(diff, policy, { sourceLabel, manualPicks });
+      const merged = await applyLibraryMerge(diff, decisions);
+      setResult(merged);
+      setDiff(null);
+      await loadLog();
+    } catch (err: any) {
+      setError(err?.message || 'Merge failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const unpicked = diff && policy === 'manual'
+    ? diff.conflicts.filter(conflict => !manualPicks[conflict.episode_id]).length
+    : 0;
+
+  const describeVersion = (episode: EpisodeInsight) => {
+    const version = summarizeEpisodeVersion(episode);
+    return `${version.model_used} • ${version.framework_version} • ${new Date(version.processed_at).toLocaleDateString()} • ${version.topic_count} topics, confidence ${version.avg_confidence}`;
+  };
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <GitMerge className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-slate-900">Merge a Teammate's Library</h3>
+            <span className="text-sm text-slate-500">
+              {mergeLog.length > 0 ? `${mergeLog.length} past merge${mergeLog.length === 1 ? '' : 's'}` : 'Combine overlapping analyses'}
+            </span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-4">
+            <p className="text-xs text-slate-500">
+              Load a teammate's backup archive (or a JSON list of episodes). Episodes you don't have are added; episodes you both analyzed differently are resolved by the policy below.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="px-4 py-2 border border-slate-300 text-slate-700 text-sm font-semibold rounded-lg hover:bg-slate-50 disabled:opacity-50 flex items-center gap-2"
+              >
+                {isBusy && !diff ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Load library export…
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+            </div>
+
+            {error && (
+              <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm flex items-start gap-2">
+                <X className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {diff && (
+              <div className="rounded-lg border border-indigo-200 bg-indigo-50/50 p-4 space-y-3 text-sm">
+                <div>
+                  <div className="font-semibold text-slate-900">{sourceLabel}</div>
+                  <div className="text-xs text-slate-500">
+                    {diff.added.length} new • {diff.conflicts.length} conflicting • {diff.identical.length} identical • {diff.localOnly} only in your library
+                  </div>
+                </div>
+
+                {diff.conflicts.length > 0 && (
+                  <>
+                    <label className="flex items-center gap-2 text-slate-700">
+                      Resolve conflicts by
+                      <select
+                        value={policy}
+                        onChange={(e) => setPolicy(e.target.value as LibraryMergePolicy)}
+                        className="rounded-lg border-slate-300 text-sm"
+                      >
+                        {(Object.keys(MERGE_POLICY_LABELS) as LibraryMergePolicy[]).map(option => (
+                          <option key={option} value={option}>{MERGE_POLICY_LABELS[option]}</option>
+                        ))}
+                      </select>
+                    </label>
+
+                    <div className="max-h-80 overflow-y-auto space-y-2">
+                      {diff.conflicts.map(conflict => {
+                        const resolved = policy === 'manual' ? null : resolveConflict(conflict, policy);
+                        return (
+                          <div key={conflict.episode_id} className="rounded-lg border border-slate-200 bg-white p-3 space-y-1">
+                            <div className="font-medium text-slate-900">
+                              {conflict.local.title}
+                              <span className="ml-2 text-xs font-normal text-slate-500">
+                                {conflict.local.published_at} • differs in {conflict.differences.join(', ')}
+                              </span>
+                            </div>
+                            {(['local', 'incoming'] as const).map(side => {
+                              const chosen = policy === 'manual'
+                                ? manualPicks[conflict.episode_id] === side
+                                : (resolved!.action === 'took-incoming') === (side === 'incoming');
+                              return (
+                                <label key={side} className={`flex items-center gap-2 text-xs ${chosen ? 'text-slate-900' : 'text-slate-500'}`}>
+                                  {policy === 'manual' ? (
+                                    <input
+                                      type="radio"
+                                      name={`pick-${conflict.episode_id}`}
+                                      checked={chosen}
+                                      onChange={() => setManualPicks(picks => ({ ...picks, [conflict.episode_id]: side }))}
+                                      className="text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                  ) : (
+                                    <Check className={`w-3 h-3 ${chosen ? 'text-green-600' : 'invisible'}`} />
+                                  )}
+                                  <span className="w-16 font-medium">{side === 'local' ? 'Yours' : 'Theirs'}</span>
+                                  <span>{describeVersion(conflict[side])}</span>
+                                </label>
+                              );
+                            })}
+                            {resolved && <div className="text-xs text-slate-500 pl-5">{resolved.reason}</div>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleMerge}
+                    disabled={isBusy || unpicked > 0 || diff.added.length + diff.conflicts.length === 0}
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => setDiff(null)}
+                    disabled={isBusy}
+                    className="px-4 py-2 text-slate-600 text-sm font-medium hover:text-slate-900"
+                  >
+                    Cancel
+                  </button>
+                  {unpicked > 0 && (
+                    <span className="text-xs text-amber-700">{unpicked} conflict{unpicked === 1 ? '' : 's'} still need a pick</span>
+                  )}
+                  {diff.added.length + diff.conflicts.length === 0 && (
+                    <span className="text-xs text-slate-500">Nothing to merge: your library already has these analyses</span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {result && (
+              <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm flex items-center gap-2">
+                <Check className="w-4 h-4" />
+                Merged: {result.added} added, {result.replaced} replaced, {result.keptLocal} kept local
+              </div>
+            )}
+
+            {mergeLog.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-slate-700">Merge log</h4>
+                {mergeLog.map(merge => (
+                  <div key={merge.merge_id} className="rounded-lg border border-slate-200">
+                    <button
+                      onClick={() => setExpandedMerge(expandedMerge === merge.merge_id ? null : merge.merge_id)}
+                      className="w-full px-3 py-2 flex items-center justify-between text-left text-sm hover:bg-slate-50"
+                    >
+                      <span>
+                        <span className="font-medium text-slate-900">{merge.source_label}</span>
+                        <span className="ml-2 text-xs text-slate-500">
+                          {new Date(merge.merged_at).toLocaleString()} • {merge.decisions.length} decision{merge.decisions.length === 1 ? '' : 's'}
+                        </span>
+                      </span>
+                      {expandedMerge === merge.merge_id ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+                    </button>
+                    {expandedMerge === merge.merge_id && (
+                      <div className="border-t border-slate-200 px-3 py-2 max-h-64 overflow-y-auto space-y-1">
+                        {merge.decisions.map(decision => (
+                          <div key={decision.decision_id} className="text-xs text-slate-600">
+                            <span className="font-medium text-slate-900">{ACTION_LABELS[decision.action]}</span>
+                            {' '}{decision.title} ({decision.published_at}) — {decision.reason}
+                            {decision.policy ? ` [${MERGE_POLICY_LABELS[decision.policy]}]` : ''}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
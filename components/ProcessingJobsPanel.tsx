@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { History, ChevronDown, ChevronUp, Play, FolderOpen, Trash2 } from 'lucide-react';
+import { ProcessingJob, ProcessingJobStatus, SourceProfile } from '../types';
+import { getAllProcessingJobs, deleteProcessingJob } from '../services/episodeDB';
+import { markInterruptedJobs, isJobResumable, getJobEpisodeCounts } from '../services/processingJobs';
+import { formatUsd, formatTokens } from '../services/usageAccounting';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+
+const STATUS_STYLES: Record<ProcessingJobStatus, { label: string; className: string }> = {
+  running: { label: 'Running', className: 'bg-indigo-100 text-indigo-700' },
+  interrupted: { label: 'Interrupted', className: 'bg-amber-100 text-amber-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-600' },
+  failed: { label: 'Failed', className: 'bg-rose-100 text-rose-700' },
+  completed: { label: 'Completed', className: 'bg-emerald-100 text-emerald-700' }
+};
+
+interface ProcessingJobsPanelProps {
+  /** Change this value to reload the list (e.g. after a processing run) */
+  refreshToken?: number;
+  /** Source profiles, used to label each job and filter the list */
+  profiles: SourceProfile[];
+  /** True while a run is in progress; resuming is disabled meanwhile */
+  isBusy: boolean;
+  onResume: (job: ProcessingJob) => void;
+  onOpen: (job: ProcessingJob) => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) return `${minutes}m ${totalSeconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+/**
+ * Past and interrupted processing jobs, with resume for unfinished ones.
+ * Opens automatically when a job was interrupted (e.g. by a reload).
+ */
+export const ProcessingJobsPanel: React.FC<ProcessingJobsPanelProps> = ({ refreshToken, profiles, isBusy, onResume, onOpen }) => {
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  // 'all' or a profile id
+  const [profileFilter, setProfileFilter] = useState('all');
+
+  const load = async () => {
+    try {
+      setJobs(await getAllProcessingJobs());
+    } catch (err) {
+      console.error('Failed to load processing jobs:', err);
+    }
+  };
+
+  useEffect(() => {
+    // Jobs still marked running here were cut off by a reload (jobs in this tab are tracked in memory)
+    markInterruptedJobs()
+      .then(count => {
+        if (count > 0) setIsOpen(true);
+      })
+      .catch(err => console.error('Failed to check for interrupted jobs:', err))
+      .finally(load);
+  }, [refreshToken]);
+
+  const handleDelete = async (jobId: string) => {
+    try {
+      await deleteProcessingJob(jobId);
+    } catch (err) {
+      console.error('Failed to delete processing job:', err);
+    }
+    await load();
+  };
+
+  if (jobs.length === 0) return null;
+
+  const unfinished = jobs.filter(job => job.status !== 'completed').length;
+  const profileName = (profileId: string) =>
+    profiles.find(p => p.profile_id === profileId)?.name ?? `${profileId} (deleted)`;
+  const visibleJobs = profileFilter === 'all'
+    ? jobs
+    : jobs.filter(job => (job.profile_id ?? DEFAULT_PROFILE_ID) === profileFilter);
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <History className="w-5 h-5 text-slate-600" />
+            <h3 className="text-lg font-semibold text-slate-900">Processing Jobs</h3>
+            <span className="text-sm text-slate-500">
+              {jobs.length} job{jobs.length === 1 ? '' : 's'}{unfinished > 0 ? `, ${unfinished} unfinished` : ''}
+            </span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-slate-500">
+                Jobs are saved as they run. Resuming skips episodes that were already analyzed and weeks that were already composed.
+              </p>
+              {profiles.length > 1 && (
+                <select
+                  value={profileFilter}
+                  onChange={(e) => setProfileFilter(e.target.value)}
+                  className="rounded-lg border-slate-300 text-xs shrink-0"
+                >
+                  <option value="all">All profiles</option>
+                  {profiles.map(profile => (
+                    <option key={profile.profile_id} value={profile.profile_id}>{profile.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {visibleJobs.map(job => {
+              const counts = getJobEpisodeCounts(job);
+              const totalEpisodes = Object.keys(job.episodes).length;
+              const status = STATUS_STYLES[job.status];
+              const canResume = isJobResumable(job);
+
+              return (
+                <div key={job.job_id} className="rounded-lg border border-slate-200 p-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-900">
+                        {job.start_date} → {job.end_date}
+                        <span className="font-normal text-slate-500"> • {profileName(job.profile_id ?? DEFAULT_PROFILE_ID)}</span>
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        Started {new Date(job.created_at).toLocaleString()} • {formatDuration(job.duration_ms)}
+                        {job.resume_count > 0 && ` • resumed ${job.resume_count}×`}
+                        {' • '}{job.config_snapshot.provider.type}/{job.config_snapshot.provider.model} • {job.framework_version}
+                      </p>
+                    </div>
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded shrink-0 ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+
+                  <p className="text-xs text-slate-600 mt-2">
+                    {job.discovery_complete
+                      ? `${totalEpisodes} episodes: ${counts.analyzed} analyzed, ${counts.cached} cached, ${counts.failed} failed, ${counts.pending} pending`
+                      : 'Episode discovery not completed'}
+                    {' • '}{job.composed_weeks.length}/{job.weeks_total} weeks composed
+                  </p>
+
+                  {job.usage && job.usage.requests > 0 && (
+                    <p className="text-xs text-slate-500 mt-1">
+                      {formatTokens(job.usage.total_tokens)} tokens ({formatTokens(job.usage.input_tokens)} in / {formatTokens(job.usage.output_tokens)} out)
+                      {' • '}{job.usage.requests} call{job.usage.requests === 1 ? '' : 's'}
+                      {' • '}{formatUsd(job.usage.estimated_cost_usd)}
+                      {job.budget_usd ? ` of ${formatUsd(job.budget_usd)} budget` : ''}
+                    </p>
+                  )}
+
+                  {job.error && (
+                    <p className="text-xs text-rose-600 mt-1 break-words">{job.error}</p>
+                  )}
+
+                  <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                    {canResume && (
+                      <button
+                        onClick={() => onResume(job)}
+                        disabled={isBusy}
+                        className="px-2 py-1 rounded border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <Play className="w-3 h-3" /> Resume
+                      </button>
+                    )}
+                    {job.status === 'completed' && job.composed_weeks.length > 0 && (
+                      <button
+                        onClick={() => onOpen(job)}
+                        disabled={isBusy}
+                        className="px-2 py-1 rounded border border-emerald-200 text-emerald-700 hover:bg-emerald-50 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <FolderOpen className="w-3 h-3" /> Open report
+                      </button>
+                    )}
+                    {job.status !== 'running' && (
+                      <button
+                        onClick={() => handleDelete(job.job_id)}
+                        disabled={isBusy}
+                        className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <Trash2 className="w-3 h-3" /> Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Scale, ChevronDown, ChevronUp, ArrowUp, ArrowDown } from 'lucide-react';
+import { HCRReport } from '../types';
+import { compareRankingProfiles, RankingProfileComparison } from '../services/rankingComparison';
+
+interface RankingProfilesPanelProps {
+  report: HCRReport;
+}
+
+/**
+ * Side-by-side top 5 of the report window under every ranking profile.
+ * Ranks are compared with the profile that produced the report.
+ */
+export const RankingProfilesPanel: React.FC<RankingProfilesPanelProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [comparisons, setComparisons] = useState<RankingProfileComparison[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || comparisons) return;
+    compareRankingProfiles(report)
+      .then(setComparisons)
+      .catch(err => setLoadError(err?.message || 'Failed to compare ranking profiles'));
+  }, [isOpen, comparisons, report]);
+
+  // Results belong to one report; reload when another report is shown
+  useEffect(() => {
+    setComparisons(null);
+    setLoadError(null);
+  }, [report]);
+
+  const reportProfileId = report.ranking_profile?.profile_id;
+  const baseline = comparisons?.find(c => c.profile.id === reportProfileId) ?? null;
+  const baselineRank = (normalizedName: string): number | null => {
+    const idx = baseline?.top_issues.findIndex(issue => issue.normalized_name === normalizedName) ?? -1;
+    return idx >= 0 ? idx + 1 : null;
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <Scale className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-bold text-slate-900 serif">Ranking Profiles</h3>
+          <span className="text-sm text-slate-500">
+            {report.ranking_profile ? `Ranked by ${report.ranking_profile.name}` : 'Compare top 5 under each profile'}
+          </span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 py-4 border-t border-slate-200">
+          {loadError && (
+            <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm">{loadError}</div>
+          )}
+          {!loadError && !comparisons && (
+            <p className="text-sm text-slate-500">Re-ranking episodes…</p>
+          )}
+          {comparisons && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {comparisons.map(({ profile, top_issues }) => {
+                const isBaseline = profile.id === reportProfileId;
+                return (
+                  <div
+                    key={profile.id}
+                    className={`rounded-lg border p-3 ${isBaseline ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200'}`}
+                  >
+                    <div className="text-sm font-semibold text-slate-900">{profile.name}</div>
+                    <p className="text-xs text-slate-500 mb-2">{profile.description}</p>
+                    {top_issues.length === 0 ? (
+                      <p className="text-xs text-slate-400">No issues pass this profile's thresholds.</p>
+                    ) : (
+                      <ol className="space-y-1">
+                        {top_issues.map((issue, idx) => {
+                          const prior = isBaseline ? idx + 1 : baselineRank(issue.normalized_name);
+                          const shift = prior === null ? null : prior - (idx + 1);
+                          return (
+                            <li key={issue.normalized_name} className="text-sm text-slate-700 flex items-center gap-2">
+                              <span className="w-4 text-xs text-slate-400">{idx + 1}</span>
+                              <span className="flex-1 truncate" title={issue.issue_name}>{issue.issue_name}</span>
+                              {!isBaseline && baseline && (
+                                shift === null ? (
+                                  <span className="text-[10px] font-semibold text-amber-600">NEW</span>
+                                ) : shift > 0 ? (
+                                  <span className="text-xs text-green-600 flex items-center"><ArrowUp className="w-3 h-3" />{shift}</span>
+                                ) : shift < 0 ? (
+                                  <span className="text-xs text-red-600 flex items-center"><ArrowDown className="w-3 h-3" />{-shift}</span>
+                                ) : null
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,21 @@
 import React, { useState } from 'react';
 import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell, LineChart, Line
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell, LineChart, Line, ErrorBar
 } from 'recharts';
 import { 
-  ArrowUpRight, ArrowDownRight, Minus, AlertTriangle, ShieldCheck, Calendar, Radio, LineChart as LineChartIcon 
+  ArrowUpRight, ArrowDownRight, Minus, AlertTriangle, ShieldCheck, Calendar, Radio, LineChart as LineChartIcon, RefreshCw 
 } from 'lucide-react';
-import { HCRReport, IssueEntry } from '../types';
+import { HCRReport, IssueEntry, WeeklyCacheStatus } from '../types';
+import { FORECAST_METHOD_LABELS, SENTIMENT_STRATEGY_LABELS } from '../constants/config';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
 import { SentimentBadge } from './SentimentBadge';
 import { EvidenceList } from './EvidenceList';
 import { BrainstormModal } from './BrainstormModal';
+import { TopicTaxonomyPanel } from './TopicTaxonomyPanel';
+import { RankingProfilesPanel } from './RankingProfilesPanel';
+import { IssueTimelinePanel } from './IssueTimelinePanel';
+import { TopicNetworkPanel } from './TopicNetworkPanel';
+import { ForecastAccuracySummary } from './ForecastAccuracySummary';
 
 interface Props {
   data: HCRReport;
@@ -27,8 +34,14 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
     name: i.issue_name.length > 20 ? i.issue_name.substring(0, 18) + '...' : i.issue_name,
     fullName: i.issue_name,
     score: i.sentiment_index === 'unknown' ? 0 : i.sentiment_index,
-    isUnknown: i.sentiment_index === 'unknown'
+    isUnknown: i.sentiment_index === 'unknown',
+    // Distances below/above the bar top for the error bar
+    interval: i.sentiment_interval && i.sentiment_index !== 'unknown'
+      ? [i.sentiment_index - i.sentiment_interval.lower, i.sentiment_interval.upper - i.sentiment_index]
+      : [0, 0]
   }));
+  const intervalLevel = data.top_issues.find(i => i.sentiment_interval)?.sentiment_interval?.level;
+  const strategyLabel = SENTIMENT_STRATEGY_LABELS[data.sentiment_strategy ?? 'mean'];
 
   const getDeltaIcon = (delta: number | "unknown") => {
     if (delta === "unknown") return <Minus className="w-4 h-4 text-gray-400" />;
@@ -45,13 +58,46 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
     Boolean(periodSeries) &&
     (periodSeries?.length ?? 0) > 1;
 
-  const periodChartData =
+  // The forecast continues the overall line from its last point to the next week
+  const overallForecast = period?.forecasts?.find(f => f.series === 'overall') ?? null;
+  const periodChartData: Array<{
+    week_start: string;
+    overall: number | null;
+    forecast?: number;
+    forecastInterval?: number[];
+  }> =
     showPeriod && periodSeries
       ? periodSeries.map(p => ({
           week_start: p.week_start,
           overall: typeof p.overall_sentiment_index === 'number' ? p.overall_sentiment_index : null
         }))
       : [];
+  const lastOverall = periodChartData[periodChartData.length - 1];
+  if (overallForecast && lastOverall && lastOverall.overall !== null) {
+    lastOverall.forecast = lastOverall.overall;
+    periodChartData.push({
+      week_start: overallForecast.week_start,
+      overall: null,
+      forecast: overallForecast.prediction,
+      forecastInterval: [overallForecast.prediction - overallForecast.lower, overallForecast.upper - overallForecast.prediction]
+    });
+  }
+
+  // Overall breakpoints are always drawn; issue breakpoints only for the largest shifts
+  const changePoints = period?.change_points ?? [];
+  const overallBreaks = changePoints.filter(cp => cp.series === 'overall');
+  const issueBreaks = changePoints.filter(cp => cp.series === 'issue').slice(0, 3);
+  const issueBreakWeeks = Array.from(new Set<string>(issueBreaks.map(cp => cp.week_start)))
+    .filter(week => !overallBreaks.some(cp => cp.week_start === week));
+
+  // Weeks rebuilt instead of read from the weekly cache, and why
+  const cacheWeeks: Array<WeeklyCacheStatus & { week_start: string }> = data.isAggregated
+    ? (periodSeries ?? []).filter(p => p.cache_status).map(p => ({ week_start: p.week_start, ...p.cache_status! }))
+    : data.cache_status
+      ? [{ week_start: data.run_window.window_start, ...data.cache_status }]
+      : [];
+  const recomputedWeeks = cacheWeeks.filter(week => week.status === 'recomputed');
+  const cachedWeekCount = cacheWeeks.filter(week => week.status === 'hit').length;
 
   const formatSigned = (value: number | 'unknown' | undefined): string => {
     if (value === 'unknown' || typeof value !== 'number') return 'unknown';
@@ -73,6 +119,18 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
           <div className="flex items-center gap-2 text-slate-500 text-sm mt-1">
             <Calendar className="w-4 h-4" />
             <span>{data.run_window.window_start} to {data.run_window.window_end}</span>
+            {data.source_profile && (
+              <>
+                <span>•</span>
+                <span className="font-medium text-slate-700">{data.source_profile.name}</span>
+              </>
+            )}
+            {data.ranking_profile && (
+              <>
+                <span>•</span>
+                <span>Ranked: {data.ranking_profile.name}</span>
+              </>
+            )}
             <span className="hidden md:inline">•</span>
             <span className="hidden md:inline">Generated: {new Date(data.generated_at).toLocaleDateString()}</span>
           </div>
@@ -105,6 +163,28 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
         </div>
       </div>
 
+      {/* Weekly cache: which weeks were recomputed and why */}
+      {recomputedWeeks.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 text-sm">
+          <div className="flex items-center gap-2 text-slate-700">
+            <RefreshCw className="w-4 h-4 text-indigo-600" />
+            <span className="font-semibold">
+              {recomputedWeeks.length} week{recomputedWeeks.length === 1 ? '' : 's'} recomputed
+            </span>
+            <span className="text-slate-500">
+              {cachedWeekCount} read from the weekly cache
+            </span>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs text-slate-600">
+            {recomputedWeeks.map(week => (
+              <li key={week.week_start}>
+                <span className="font-medium text-slate-800">Week of {week.week_start}:</span> {week.reasons.join('; ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Period Trend (Aggregated Multi-Week View) */}
       {showPeriod && period && periodSeries && (
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
@@ -130,7 +210,7 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
             <div className="w-full lg:w-[420px] shrink-0">
               <div className="h-44 w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={periodChartData}>
+                  <LineChart data={periodChartData} margin={{ top: 16, right: 8 }}>
                     <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
                     <XAxis
                       dataKey="week_start"
@@ -152,6 +232,18 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
                       labelFormatter={(label) => `Week starting ${label}`}
                     />
                     <ReferenceLine y={50} stroke="#94a3b8" strokeDasharray="3 3" />
+                    {issueBreakWeeks.map(week => (
+                      <ReferenceLine key={`issue-${week}`} x={week} stroke="#cbd5e1" strokeDasharray="2 2" />
+                    ))}
+                    {overallBreaks.map(cp => (
+                      <ReferenceLine
+                        key={`overall-${cp.week_start}`}
+                        x={cp.week_start}
+                        stroke="#f59e0b"
+                        strokeDasharray="4 2"
+                        label={{ value: formatSigned(cp.shift), position: 'top', fill: '#b45309', fontSize: 11 }}
+                      />
+                    ))}
                     <Line
                       type="monotone"
                       dataKey="overall"
@@ -161,9 +253,51 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
                       dot={false}
                       connectNulls
                     />
+                    {overallForecast && (
+                      <Line
+                        type="linear"
+                        dataKey="forecast"
+                        name="Forecast"
+                        stroke="#6366f1"
+                        strokeWidth={2}
+                        strokeDasharray="5 4"
+                        dot={false}
+                      >
+                        <ErrorBar dataKey="forecastInterval" width={6} strokeWidth={1.5} stroke="#818cf8" direction="y" />
+                      </Line>
+                    )}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
+              {overallForecast && (
+                <div className="mt-2 flex items-center gap-2 text-xs text-indigo-700">
+                  <span className="inline-block w-3 border-t-2 border-dashed border-indigo-500" />
+                  <span>
+                    Forecast {overallForecast.week_start.slice(5)}: {overallForecast.prediction} ({Math.round(overallForecast.level * 100)}% interval {overallForecast.lower}–{overallForecast.upper}, {FORECAST_METHOD_LABELS[overallForecast.method]})
+                  </span>
+                </div>
+              )}
+              <ForecastAccuracySummary profileId={data.source_profile?.profile_id ?? DEFAULT_PROFILE_ID} />
+              {changePoints.length > 0 && (
+                <div className="mt-2 space-y-1 text-xs">
+                  {overallBreaks.map(cp => (
+                    <div key={`overall-${cp.week_start}`} className="flex items-center gap-2 text-amber-700">
+                      <span className="inline-block w-3 border-t-2 border-dashed border-amber-500" />
+                      <span>
+                        Overall regime change {cp.week_start.slice(5)}: {cp.before_mean} → {cp.after_mean} ({formatSigned(cp.shift)})
+                      </span>
+                    </div>
+                  ))}
+                  {issueBreaks.map(cp => (
+                    <div key={`${cp.normalized_name}-${cp.week_start}`} className="flex items-center gap-2 text-slate-500">
+                      <span className="inline-block w-3 border-t-2 border-dashed border-slate-300" />
+                      <span className="truncate">
+                        {cp.issue_name} {cp.week_start.slice(5)}: {cp.before_mean} → {cp.after_mean} ({formatSigned(cp.shift)})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
                 <div className="bg-slate-50 rounded-lg border border-slate-100 p-3">
                   <div className="text-xs text-slate-500 uppercase font-bold tracking-wider">Top Improvers</div>
@@ -216,7 +350,11 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
 
         {/* Sentiment Chart */}
         <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 p-6 min-w-0">
-          <h3 className="text-lg font-bold mb-6 text-slate-900 serif">Sentiment Index: Top Issues</h3>
+          <h3 className="text-lg font-bold text-slate-900 serif">Sentiment Index: Top Issues</h3>
+          <p className="text-xs text-slate-500 mb-6">
+            {strategyLabel}
+            {intervalLevel ? ` • error bars show ${Math.round(intervalLevel * 100)}% intervals` : ''}
+          </p>
           <div className="h-64 w-full min-w-0">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
@@ -244,6 +382,7 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
                   {chartData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.isUnknown ? '#cbd5e1' : getBarColor(entry.score)} />
                   ))}
+                  {intervalLevel && <ErrorBar dataKey="interval" width={6} strokeWidth={1.5} stroke="#475569" />}
                 </Bar>
               </BarChart>
             </ResponsiveContainer>
@@ -271,11 +410,25 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
                     </div>
                     <div>
                       <h4 className="text-lg font-bold text-slate-900 leading-tight">{issue.issue_name}</h4>
+                      {issue.parent_issue && (
+                        <p className="text-xs text-slate-400 mt-0.5">Part of {issue.parent_issue}</p>
+                      )}
                       <div className="flex items-center gap-3 mt-1 text-sm text-slate-500">
                         <span className="flex items-center gap-1">
                           {getDeltaIcon(issue.delta_vs_prior_week)}
                           {issue.delta_vs_prior_week !== 'unknown' && Math.abs(issue.delta_vs_prior_week as number)} pts vs last week
                         </span>
+                        {issue.delta_significance && (
+                          <span
+                            title={`p = ${issue.delta_significance.p_value}; ${Math.round(issue.delta_significance.level * 100)}% interval of the change: ${formatSigned(issue.delta_significance.lower)} to ${formatSigned(issue.delta_significance.upper)} pts`}
+                            className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+                              issue.delta_significance.significant ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-100 text-slate-500'
+                            }`}
+                          >
+                            {issue.delta_significance.significant ? 'Significant' : 'Within noise'}
+                            {` (p ${issue.delta_significance.p_value <= 0.001 ? '≤ 0.001' : `= ${issue.delta_significance.p_value}`})`}
+                          </span>
+                        )}
                         {data.isAggregated && typeof issue.delta_vs_period_start !== 'undefined' && (
                           <>
                             <span>•</span>
@@ -289,6 +442,14 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
                         )}
                         <span>•</span>
                         <span>{(issue.confidence * 100).toFixed(0)}% Confidence</span>
+                        {issue.sentiment_interval && (
+                          <>
+                            <span>•</span>
+                            <span title={`${Math.round(issue.sentiment_interval.level * 100)}% uncertainty interval (${strategyLabel})`}>
+                              Range {issue.sentiment_interval.lower}–{issue.sentiment_interval.upper}
+                            </span>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -322,6 +483,18 @@ export const ReportDashboard: React.FC<Props> = ({ data }) => {
         </div>
       </div>
 
+      {/* Top 5 under each ranking profile */}
+      <RankingProfilesPanel report={data} />
+
+      {/* Issues framed together (co-occurrence network) */}
+      <TopicNetworkPanel report={data} />
+
+      {/* Lifecycle of any issue across the whole episode history */}
+      <IssueTimelinePanel report={data} />
+
+      {/* Curated topic taxonomy (merge/split) */}
+      <TopicTaxonomyPanel issues={data.top_issues} />
+
       {/* Narrative Shifts & Movements */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 pb-12">
         {/* Narrative Shifts */}
@@ -0,0 +1,477 @@
+import React, { useState } from 'react';
+import { Users, ChevronDown, ChevronUp, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { FocusDefinition, SourceProfile, SourceProfilePromptKey } from '../types';
+import type { DiscoverySource } from '../constants/config';
+import { DEFAULT_PROFILE_ID, PROFILE_PROMPT_PLACEHOLDERS } from '../constants/sourceProfiles';
+import { FOCUS_PRESETS } from '../constants/focusPresets';
+import {
+  createSourceProfile,
+  updateSourceProfile,
+  removeSourceProfile,
+  validateSourceProfile,
+  type SourceProfileInput
+} from '../services/sourceProfiles';
+
+const DISCOVERY_LABELS: Record<DiscoverySource, string> = {
+  'llm-search': 'Web search via AI provider',
+  transcripts: 'Imported transcripts only',
+  feed: 'Podcast RSS/Atom feeds'
+};
+
+const PROMPT_OVERRIDE_LABELS: Record<SourceProfilePromptKey, string> = {
+  search: 'Episode search prompt',
+  analysis: 'Episode analysis prompt (web search)',
+  transcript_analysis: 'Episode analysis prompt (transcript)',
+  summary: 'Executive summary prompt'
+};
+
+// Focus fields edited as text; list fields hold one entry per line
+interface FocusDraft {
+  name: string;
+  description: string;
+  inclusion_criteria: string;
+  exclusion_criteria: string;
+  example_topics: string;
+}
+
+interface ProfileDraft {
+  name: string;
+  host_name: string;
+  shows: string;
+  focus: FocusDraft;
+  discovery: SourceProfile['discovery'];
+  prompt_overrides: SourceProfile['prompt_overrides'];
+}
+
+const toFocusDraft = (focus: FocusDefinition): FocusDraft => ({
+  name: focus.name,
+  description: focus.description,
+  inclusion_criteria: focus.inclusion_criteria.join('\n'),
+  exclusion_criteria: focus.exclusion_criteria.join('\n'),
+  example_topics: focus.example_topics.join('\n')
+});
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  host_name: '',
+  shows: '',
+  focus: toFocusDraft(FOCUS_PRESETS[0].focus),
+  discovery: { source: 'llm-search', feeds: [] },
+  prompt_overrides: {}
+};
+
+const toDraft = (profile: SourceProfile): ProfileDraft => ({
+  name: profile.name,
+  host_name: profile.host_name,
+  shows: profile.shows.join('\n'),
+  focus: toFocusDraft(profile.focus),
+  discovery: { source: profile.discovery.source, feeds: profile.discovery.feeds.map(feed => ({ ...feed })) },
+  prompt_overrides: { ...profile.prompt_overrides }
+});
+
+const toInput = (draft: ProfileDraft): SourceProfileInput => ({
+  ...draft,
+  shows: draft.shows.split('\n'),
+  focus: {
+    name: draft.focus.name,
+    description: draft.focus.description,
+    inclusion_criteria: draft.focus.inclusion_criteria.split('\n'),
+    exclusion_criteria: draft.focus.exclusion_criteria.split('\n'),
+    example_topics: draft.focus.example_topics.split('\n')
+  }
+});
+
+interface SourceProfilesPanelProps {
+  profiles: SourceProfile[];
+  activeProfileId: string;
+  /** True while a run is in progress; editing is disabled meanwhile */
+  isBusy: boolean;
+  onSelect: (profileId: string) => void;
+  /** Called after a profile was created, edited or deleted */
+  onProfilesChanged: () => void;
+}
+
+/**
+ * Manage source profiles: the commentators (host, shows, focus, discovery
+ * method and prompt overrides) that runs and reports are scoped to.
+ */
+export const SourceProfilesPanel: React.FC<SourceProfilesPanelProps> = ({
+  profiles,
+  activeProfileId,
+  isBusy,
+  onSelect,
+  onProfilesChanged
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Profile being edited; 'new' for the create form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_DRAFT);
+  const [showPrompts, setShowPrompts] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEdit = (profile: SourceProfile | null) => {
+    setEditingId(profile ? profile.profile_id : 'new');
+    setDraft(profile ? toDraft(profile) : EMPTY_DRAFT);
+    setShowPrompts(false);
+    setErrors([]);
+  };
+
+  const updateFocus = (changes: Partial<FocusDraft>) => {
+    setDraft({ ...draft, focus: { ...draft.focus, ...changes } });
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = FOCUS_PRESETS.find(p => p.id === presetId);
+    if (preset) {
+      setDraft({ ...draft, focus: toFocusDraft(preset.focus) });
+    }
+  };
+
+  const updateFeeds = (feeds: SourceProfile['discovery']['feeds']) => {
+    setDraft({ ...draft, discovery: { ...draft.discovery, feeds } });
+  };
+
+  const handleSave = async () => {
+    const input = toInput(draft);
+    const validationErrors = validateSourceProfile(input);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      if (editingId === 'new') {
+        const created = await createSourceProfile(input);
+        onSelect(created.profile_id);
+      } else if (editingId) {
+        await updateSourceProfile(editingId, input);
+      }
+      setEditingId(null);
+      onProfilesChanged();
+    } catch (err: any) {
+      setErrors([err?.message || 'Failed to save profile']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: SourceProfile) => {
+    if (!window.confirm(`Delete profile "${profile.name}"? Its analyzed episodes stay in the database.`)) return;
+    try {
+      await removeSourceProfile(profile.profile_id);
+      if (profile.profile_id === activeProfileId) {
+        onSelect(DEFAULT_PROFILE_ID);
+      }
+      onProfilesChanged();
+    } catch (err: any) {
+      setErrors([err?.message || 'Failed to delete profile']);
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="rounded-lg border border-indigo-200 bg-indigo-50/40 p-4 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Profile name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full rounded-lg border-slate-300 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Host name</label>
+          <input
+            type="text"
+            value={draft.host_name}
+            onChange={(e) => setDraft({ ...draft, host_name: e.target.value })}
+            className="w-full rounded-lg border-slate-300 text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Shows (one per line)</label>
+        <textarea
+          rows={4}
+          value={draft.shows}
+          onChange={(e) => setDraft({ ...draft, shows: e.target.value })}
+          className="w-full rounded-lg border-slate-300 text-sm"
+        />
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-3 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm font-medium text-slate-700">Analysis focus</span>
+          <select
+            value=""
+            onChange={(e) => applyPreset(e.target.value)}
+            className="rounded-lg border-slate-300 text-xs"
+          >
+            <option value="">Start from a preset…</option>
+            {FOCUS_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+          </select>
+        </div>
+        <input
+          type="text"
+          value={draft.focus.name}
+          onChange={(e) => updateFocus({ name: e.target.value })}
+          placeholder="Focus name, e.g. the Trump administration and US politics"
+          className="w-full rounded-lg border-slate-300 text-sm"
+        />
+        <textarea
+          rows={2}
+          value={draft.focus.description}
+          onChange={(e) => updateFocus({ description: e.target.value })}
+          placeholder="Description"
+          className="w-full rounded-lg border-slate-300 text-sm"
+        />
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Include (one per line)</label>
+            <textarea
+              rows={4}
+              value={draft.focus.inclusion_criteria}
+              onChange={(e) => updateFocus({ inclusion_criteria: e.target.value })}
+              className="w-full rounded-lg border-slate-300 text-xs"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Exclude (one per line)</label>
+            <textarea
+              rows={4}
+              value={draft.focus.exclusion_criteria}
+              onChange={(e) => updateFocus({ exclusion_criteria: e.target.value })}
+              className="w-full rounded-lg border-slate-300 text-xs"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Example topics (one per line)</label>
+            <textarea
+              rows={4}
+              value={draft.focus.example_topics}
+              onChange={(e) => updateFocus({ example_topics: e.target.value })}
+              className="w-full rounded-lg border-slate-300 text-xs"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">
+          The focus name is used in prompt sentences; the full definition is given to the model with every episode analysis.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Episode discovery</label>
+        <select
+          value={draft.discovery.source}
+          onChange={(e) => setDraft({ ...draft, discovery: { ...draft.discovery, source: e.target.value as DiscoverySource } })}
+          className="w-full rounded-lg border-slate-300 text-sm"
+        >
+          {(Object.keys(DISCOVERY_LABELS) as DiscoverySource[]).map(source => (
+            <option key={source} value={source}>{DISCOVERY_LABELS[source]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 mt-1">
+          Episodes with an imported transcript are always analyzed from the transcript text, whichever source is selected.
+        </p>
+      </div>
+
+      {draft.discovery.source === 'feed' && (
+        <div className="rounded-lg border border-slate-200 bg-white p-3 space-y-2">
+          <span className="block text-sm font-medium text-slate-700">Feeds</span>
+          {draft.discovery.feeds.length === 0 && (
+            <p className="text-xs text-amber-700">Add at least one feed to use feed discovery.</p>
+          )}
+          {draft.discovery.feeds.map((feed, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={feed.showName}
+                onChange={(e) => updateFeeds(draft.discovery.feeds.map((f, i) => i === idx ? { ...f, showName: e.target.value } : f))}
+                placeholder="Show name"
+                className="w-1/3 rounded-lg border-slate-300 text-sm"
+              />
+              <input
+                type="text"
+                value={feed.url}
+                onChange={(e) => updateFeeds(draft.discovery.feeds.map((f, i) => i === idx ? { ...f, url: e.target.value } : f))}
+                placeholder="https://example.com/feed.xml"
+                className="flex-1 rounded-lg border-slate-300 text-sm"
+              />
+              <button
+                onClick={() => updateFeeds(draft.discovery.feeds.filter((_, i) => i !== idx))}
+                className="p-2 text-slate-400 hover:text-red-600"
+                title="Remove feed"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateFeeds([...draft.discovery.feeds, { showName: '', url: '' }])}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus className="w-4 h-4" /> Add feed
+          </button>
+          <p className="text-xs text-slate-500">
+            Feeds must allow cross-origin requests from this app, or be served from the app itself.
+          </p>
+        </div>
+      )}
+
+      <div>
+        <button
+          onClick={() => setShowPrompts(!showPrompts)}
+          className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+        >
+          {showPrompts ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          Prompt overrides ({Object.keys(draft.prompt_overrides).filter(key => draft.prompt_overrides[key as SourceProfilePromptKey]?.trim()).length})
+        </button>
+        {showPrompts && (
+          <div className="mt-2 space-y-3">
+            <p className="text-xs text-slate-500">
+              Leave a prompt empty to use the built-in one. Available placeholders: {Object.values(PROFILE_PROMPT_PLACEHOLDERS).join(', ')}.
+              Overrides must keep the built-in prompt's other placeholders (dates, episode fields) and JSON output format.
+            </p>
+            {(Object.keys(PROMPT_OVERRIDE_LABELS) as SourceProfilePromptKey[]).map(key => (
+              <div key={key}>
+                <label className="block text-xs font-medium text-slate-700 mb-1">{PROMPT_OVERRIDE_LABELS[key]}</label>
+                <textarea
+                  rows={4}
+                  value={draft.prompt_overrides[key] ?? ''}
+                  onChange={(e) => setDraft({ ...draft, prompt_overrides: { ...draft.prompt_overrides, [key]: e.target.value } })}
+                  className="w-full rounded-lg border-slate-300 text-xs font-mono"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="bg-rose-50 text-rose-600 p-3 rounded-lg text-xs list-disc pl-6">
+          {errors.map(err => <li key={err}>{err}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-2 text-sm">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Check className="w-4 h-4" /> {editingId === 'new' ? 'Create profile' : 'Save profile'}
+        </button>
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 flex items-center gap-1"
+        >
+          <X className="w-4 h-4" /> Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <Users className="w-5 h-5 text-slate-600" />
+            <h3 className="text-lg font-semibold text-slate-900">Source Profiles</h3>
+            <span className="text-sm text-slate-500">
+              {profiles.length} profile{profiles.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-3">
+            <p className="text-xs text-slate-500">
+              Each profile tracks one commentator. Runs, analyzed episodes, transcripts and weekly reports are kept separately per profile.
+            </p>
+
+            {editingId === null && errors.length > 0 && (
+              <p className="text-xs text-rose-600">{errors.join('; ')}</p>
+            )}
+
+            {profiles.map(profile => {
+              const isActive = profile.profile_id === activeProfileId;
+              if (editingId === profile.profile_id) {
+                return <div key={profile.profile_id}>{renderEditor()}</div>;
+              }
+
+              return (
+                <div
+                  key={profile.profile_id}
+                  className={`rounded-lg border p-3 ${isActive ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-200'}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-900">{profile.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {profile.host_name} • {profile.shows.length} show{profile.shows.length === 1 ? '' : 's'} • {DISCOVERY_LABELS[profile.discovery.source]}
+                      </p>
+                      <p className="text-xs text-slate-500 truncate">Focus: {profile.focus.name}</p>
+                    </div>
+                    {isActive && (
+                      <span className="text-xs font-medium px-2 py-0.5 rounded shrink-0 bg-indigo-100 text-indigo-700">Active</span>
+                    )}
+                  </div>
+
+                  <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                    {!isActive && (
+                      <button
+                        onClick={() => onSelect(profile.profile_id)}
+                        disabled={isBusy}
+                        className="px-2 py-1 rounded border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <Check className="w-3 h-3" /> Use
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startEdit(profile)}
+                      disabled={isBusy || editingId !== null}
+                      className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <Pencil className="w-3 h-3" /> Edit
+                    </button>
+                    {profile.profile_id !== DEFAULT_PROFILE_ID && (
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        disabled={isBusy || editingId !== null}
+                        className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <Trash2 className="w-3 h-3" /> Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {editingId === 'new' ? renderEditor() : (
+              <button
+                onClick={() => startEdit(null)}
+                disabled={isBusy || editingId !== null}
+                className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" /> New profile
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
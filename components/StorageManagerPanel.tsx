@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { HardDrive, ChevronDown, ChevronUp, Loader2, ShieldCheck, AlertTriangle, X, RefreshCw } from 'lucide-react';
+import { getConfig, updateConfig, STORAGE_POLICY_LABELS, type StoragePolicy } from '../constants/config';
+import { getStoreUsage, requestPersistentStorage, type StoreUsage } from '../services/episodeDB';
+import {
+  applyStoragePolicies,
+  formatBytes,
+  loadStorageReport,
+  type ArchiveHandler,
+  type StoragePolicyResult,
+  type StorageSettings,
+  type StorageReport
+} from '../services/storageManager';
+
+interface StorageManagerPanelProps {
+  /** Change this value to re-measure (e.g. after a processing run) */
+  refreshToken?: number;
+  /** Called after policies removed or rewrote data, so the caller can reload counts and lists */
+  onFreed?: (results: StoragePolicyResult[]) => void;
+}
+
+const POLICIES = Object.keys(STORAGE_POLICY_LABELS) as StoragePolicy[];
+
+const downloadArchive: ArchiveHandler = (archive, fileName) => {
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * IndexedDB usage per store against the browser quota, persistent storage,
+ * and the policies that free space when usage nears the quota.
+ */
+export const StorageManagerPanel: React.FC<StorageManagerPanelProps> = ({ refreshToken, onFreed }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [stores, setStores] = useState<StoreUsage[] | null>(null);
+  const [settings, setSettings] = useState(getConfig().storage);
+  const [isBusy, setIsBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [results, setResults] = useState<StoragePolicyResult[] | null>(null);
+
+  const loadReport = async () => {
+    try {
+      setReport(await loadStorageReport(getConfig().storage));
+    } catch (err) {
+      console.error('Failed to measure storage:', err);
+    }
+  };
+
+  // Reads every record, so only while the panel is open
+  const measureStores = async () => {
+    try {
+      setStores(await getStoreUsage());
+    } catch (err) {
+      console.error('Failed to measure object stores:', err);
+    }
+  };
+
+  const remeasure = async () => {
+    await loadReport();
+    if (isOpen) await measureStores();
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, [refreshToken]);
+
+  useEffect(() => {
+    if (isOpen) measureStores();
+  }, [isOpen, refreshToken]);
+
+  const updateSetting = <K extends keyof StorageSettings>(key: K, value: StorageSettings[K]) => {
+    setSettings(updateConfig('storage', key, value).storage);
+  };
+
+  const togglePolicy = (policy: StoragePolicy, enabled: boolean) => {
+    updateSetting('policies', POLICIES.filter(p => (p === policy ? enabled : settings.policies.includes(p))));
+  };
+
+  const handlePersist = async () => {
+    setActionError(null);
+    const persisted = await requestPersistentStorage();
+    if (persisted === false) {
+      setActionError('The browser did not grant persistent storage. Browsers usually grant it to bookmarked or installed sites, or after you interact with the site more.');
+    }
+    await loadReport();
+  };
+
+  const handleFreeSpace = async () => {
+    if (settings.policies.includes('archive-episodes') &&
+      !window.confirm(`Episodes published more than ${settings.oldEpisodeDays} days ago will be downloaded as an archive and removed from this browser. Continue?`)) {
+      return;
+    }
+    setIsBusy(true);
+    setActionError(null);
+    setResults(null);
+    try {
+      const applied = await applyStoragePolicies(settings, downloadArchive);
+      setResults(applied);
+      onFreed?.(applied);
+      await remeasure();
+    } catch (err: any) {
+      setActionError(err?.message || 'Failed to free up space');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const estimate = report?.estimate ?? null;
+  const largestStore = Math.max(1, ...(stores?.map(store => store.bytes) ?? []));
+
+  return (
+    <div className="max-w-4xl w-full mt-8">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        >
+          <div className="flex items-center gap-3">
+            <HardDrive className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-slate-900">Storage</h3>
+            <span className={`text-sm ${report?.warning ? 'text-amber-600 font-medium' : 'text-slate-500'}`}>
+              {estimate
+                ? `${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)} used (${estimate.percentage.toFixed(1)}%)`
+                : 'Usage estimate not available in this browser'}
+            </span>
+          </div>
+          {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+        </button>
+
+        {isOpen && (
+          <div className="px-6 py-4 border-t border-slate-200 space-y-4">
+            {report?.warning && (
+              <div className="bg-amber-50 text-amber-700 p-3 rounded-lg text-sm flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{report.warning}</span>
+              </div>
+            )}
+
+            {actionError && (
+              <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm flex items-start gap-2">
+                <X className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{actionError}</span>
+              </div>
+            )}
+
+            {estimate && (
+              <div className="w-full h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div
+                  className={`h-full ${report?.warning ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${Math.min(100, estimate.percentage)}%` }}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+              {report?.persisted ? (
+                <span className="text-green-700 flex items-center gap-1">
+                  <ShieldCheck className="w-4 h-4" /> Persistent storage: the browser will not evict this data
+                </span>
+              ) : (
+                <span className="text-slate-600">
+                  {report?.persisted === null
+                    ? 'Persistent storage is not supported in this browser.'
+                    : 'Storage is best-effort: the browser may evict it when the disk runs low.'}
+                </span>
+              )}
+              <div className="flex items-center gap-2">
+                {report?.persisted === false && (
+                  <button
+                    onClick={handlePersist}
+                    className="px-3 py-1.5 border border-slate-200 text-slate-700 text-xs font-semibold rounded-lg hover:bg-slate-50"
+                  >
+                    Request persistent storage
+                  </button>
+                )}
+                <button
+                  onClick={remeasure}
+                  className="text-xs font-medium text-slate-600 hover:text-slate-900 flex items-center gap-1"
+                >
+                  <RefreshCw className="w-3 h-3" /> Re-measure
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <h4 className="text-sm font-semibold text-slate-700">Usage by store</h4>
+              <p className="text-xs text-slate-500">Approximate sizes of the stored records; the browser's total also includes indexes and overhead.</p>
+              {!stores && (
+                <p className="text-xs text-slate-500 flex items-center gap-1">
+                  <Loader2 className="w-3 h-3 animate-spin" /> Measuring…
+                </p>
+              )}
+              {stores?.map(store => (
+                <div key={store.store} className="grid grid-cols-12 gap-2 items-center text-xs text-slate-600">
+                  <span className="col-span-3 font-medium text-slate-800">{store.store}</span>
+                  <span className="col-span-2 text-right">{store.records} record{store.records === 1 ? '' : 's'}</span>
+                  <span className="col-span-2 text-right">{formatBytes(store.bytes)}</span>
+                  <div className="col-span-5 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                    <div className="h-full bg-slate-400" style={{ width: `${(store.bytes / largestStore) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-3 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <h4 className="font-semibold text-slate-700">Free-up policies</h4>
+                <label className="flex items-center gap-1 text-xs text-slate-600">
+                  Warn at
+                  <input
+                    type="number"
+                    min={50}
+                    max={99}
+                    value={settings.warnAtPercent}
+                    onChange={(e) => updateSetting('warnAtPercent', parseInt(e.target.value, 10) || 80)}
+                    className="w-16 rounded-lg border-slate-300 text-sm"
+                  />
+                  % of quota
+                </label>
+              </div>
+
+              {POLICIES.map(policy => (
+                <div key={policy} className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-2 w-72">
+                    <input
+                      type="checkbox"
+                      checked={settings.policies.includes(policy)}
+                      onChange={(e) => togglePolicy(policy, e.target.checked)}
+                      className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {STORAGE_POLICY_LABELS[policy]}
+                  </label>
+                  {policy === 'evict-search-cache' && (
+                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                      keep newest
+                      <input
+                        type="number"
+                        min={0}
+                        value={settings.searchCacheKeep}
+                        onChange={(e) => updateSetting('searchCacheKeep', parseInt(e.target.value, 10) || 0)}
+                        className="w-16 rounded-lg border-slate-300 text-sm"
+                      />
+                    </label>
+                  )}
+                  {policy === 'truncate-quotes' && (
+                    <div className="flex items-center gap-3 text-xs text-slate-600">
+                      <label className="flex items-center gap-1">
+                        quotes per topic
+                        <input
+                          type="number"
+                          min={1}
+                          max={10}
+                          value={settings.maxEvidenceQuotes}
+                          onChange={(e) => updateSetting('maxEvidenceQuotes', parseInt(e.target.value, 10) || 1)}
+                          className="w-14 rounded-lg border-slate-300 text-sm"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1">
+                        max characters
+                        <input
+                          type="number"
+                          min={40}
+                          value={settings.maxQuoteLength}
+                          onChange={(e) => updateSetting('maxQuoteLength', parseInt(e.target.value, 10) || 240)}
+                          className="w-20 rounded-lg border-slate-300 text-sm"
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <div className="flex flex-wrap items-center justify-between gap-3 pt-1">
+                <label className="flex items-center gap-1 text-xs text-slate-600">
+                  Episodes count as old after
+                  <input
+                    type="number"
+                    min={30}
+                    value={settings.oldEpisodeDays}
+                    onChange={(e) => updateSetting('oldEpisodeDays', parseInt(e.target.value, 10) || 365)}
+                    className="w-20 rounded-lg border-slate-300 text-sm"
+                  />
+                  days
+                </label>
+                <button
+                  onClick={handleFreeSpace}
+                  disabled={isBusy || settings.policies.length === 0}
+                  className="px-4 py-2 bg-slate-900 text-white text-sm font-semibold rounded-lg hover:bg-slate-800 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Free up space
+                </button>
+              </div>
+              <p className="text-xs text-slate-500">
+                Archives are backup files with the old episodes, their versions and transcripts. Bring them back with a Merge restore under Backup &amp; Restore.
+              </p>
+            </div>
+
+            {results && (
+              <ul className="text-xs text-slate-600 space-y-1">
+                {results.map(result => (
+                  <li key={result.policy}>
+                    <span className="font-medium text-slate-800">{STORAGE_POLICY_LABELS[result.policy]}:</span> {result.detail}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,316 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Network, ChevronDown, ChevronUp } from 'lucide-react';
+import { HCRReport } from '../types';
+import { loadReportNetwork, TopicNetwork, TopicNetworkTimeline } from '../services/topicNetwork';
+
+interface TopicNetworkPanelProps {
+  report: HCRReport;
+}
+
+const WIDTH = 640;
+const HEIGHT = 380;
+const PADDING = 36;
+const LAYOUT_ITERATIONS = 300;
+const COMMUNITY_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#f43f5e', '#0ea5e9', '#a855f7', '#84cc16', '#ec4899', '#14b8a6', '#f97316'];
+
+const communityColor = (community: number) =>
+  COMMUNITY_COLORS[community] ?? '#94a3b8';
+
+/**
+ * Force-directed layout (Fruchterman-Reingold). Nodes start on a circle
+ * ordered by community so the same network always gets the same picture.
+ */
+function layoutNetwork(network: TopicNetwork): Map<string, { x: number; y: number }> {
+  const nodes = [...network.nodes].sort((a, b) => a.community - b.community || a.normalized_name.localeCompare(b.normalized_name));
+  const positions = new Map(nodes.map((node, idx) => {
+    const angle = (2 * Math.PI * idx) / Math.max(1, nodes.length);
+    return [node.normalized_name, { x: WIDTH / 2 + Math.cos(angle) * WIDTH / 3, y: HEIGHT / 2 + Math.sin(angle) * HEIGHT / 3 }];
+  }));
+  if (nodes.length < 2) return positions;
+
+  const k = Math.sqrt(((WIDTH - 2 * PADDING) * (HEIGHT - 2 * PADDING)) / nodes.length) * 0.8;
+  let temperature = WIDTH / 10;
+
+  for (let iter = 0; iter < LAYOUT_ITERATIONS; iter++) {
+    const shift = new Map(nodes.map(node => [node.normalized_name, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions.get(nodes[i].normalized_name)!;
+        const b = positions.get(nodes[j].normalized_name)!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const dist = Math.max(0.01, Math.hypot(dx, dy));
+        const force = (k * k) / dist;
+        const sa = shift.get(nodes[i].normalized_name)!;
+        const sb = shift.get(nodes[j].normalized_name)!;
+        sa.x += (dx / dist) * force; sa.y += (dy / dist) * force;
+        sb.x -= (dx / dist) * force; sb.y -= (dy / dist) * force;
+      }
+    }
+
+    for (const edge of network.edges) {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const dist = Math.max(0.01, Math.hypot(dx, dy));
+      const force = ((dist * dist) / k) * (0.5 + edge.strength);
+      const sa = shift.get(edge.source)!;
+      const sb = shift.get(edge.target)!;
+      sa.x -= (dx / dist) * force; sa.y -= (dy / dist) * force;
+      sb.x += (dx / dist) * force; sb.y += (dy / dist) * force;
+    }
+
+    for (const node of nodes) {
+      const p = positions.get(node.normalized_name)!;
+      const s = shift.get(node.normalized_name)!;
+      // Weak pull to the center keeps unconnected issues from drifting to the edges
+      s.x += (WIDTH / 2 - p.x) * 0.02;
+      s.y += (HEIGHT / 2 - p.y) * 0.02;
+      const len = Math.max(0.01, Math.hypot(s.x, s.y));
+      p.x = Math.min(WIDTH - PADDING, Math.max(PADDING, p.x + (s.x / len) * Math.min(len, temperature)));
+      p.y = Math.min(HEIGHT - PADDING, Math.max(PADDING, p.y + (s.y / len) * Math.min(len, temperature)));
+    }
+    temperature *= 0.98;
+  }
+
+  return positions;
+}
+
+/**
+ * Interactive co-occurrence network of the report window's issues: which
+ * issues are discussed in the same episodes, their centrality and clusters,
+ * and how the clusters change from week to week.
+ */
+export const TopicNetworkPanel: React.FC<TopicNetworkPanelProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [timeline, setTimeline] = useState<TopicNetworkTimeline | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [view, setView] = useState('period');
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || timeline) return;
+    loadReportNetwork(report)
+      .then(setTimeline)
+      .catch(err => setLoadError(err?.message || 'Failed to build the topic network'));
+  }, [isOpen, timeline, report]);
+
+  // Results belong to one report; reload when another report is shown
+  useEffect(() => {
+    setTimeline(null);
+    setLoadError(null);
+    setView('period');
+    setSelected(null);
+  }, [report]);
+
+  const network = timeline
+    ? (view === 'period' ? timeline.period : timeline.weeks.find(w => w.week_start === view)?.network ?? timeline.period)
+    : null;
+  const positions = useMemo(() => network ? layoutNetwork(network) : new Map(), [network]);
+
+  const focus = hovered ?? selected;
+  const neighbors = new Set<string>();
+  network?.edges.forEach(edge => {
+    if (edge.source === focus) neighbors.add(edge.target);
+    if (edge.target === focus) neighbors.add(edge.source);
+  });
+  const isDimmed = (key: string) => Boolean(focus) && key !== focus && !neighbors.has(key);
+
+  const maxEpisodes = Math.max(1, ...(network?.nodes.map(node => node.episode_count) ?? []));
+  const maxEdge = Math.max(1, ...(network?.edges.map(edge => edge.episode_count) ?? []));
+  const selectedNode = network?.nodes.find(node => node.normalized_name === selected) ?? null;
+  const selectedEdges = network?.edges
+    .filter(edge => edge.source === selected || edge.target === selected)
+    .slice(0, 6) ?? [];
+  const nameOf = (key: string) => network?.nodes.find(node => node.normalized_name === key)?.issue_name ?? key;
+  const visibleShifts = timeline?.shifts.filter(shift => view === 'period' || shift.week_start === view).slice(0, 8) ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <Network className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-bold text-slate-900 serif">Topic Network</h3>
+          <span className="text-sm text-slate-500">
+            {network
+              ? `${network.nodes.length} issues, ${network.edges.length} links, ${network.communities.length} clusters`
+              : 'Issues discussed together in the same episodes'}
+          </span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 py-4 border-t border-slate-200 space-y-4">
+          {loadError && (
+            <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm">{loadError}</div>
+          )}
+          {!loadError && !timeline && (
+            <p className="text-sm text-slate-500">Building co-occurrence network…</p>
+          )}
+          {network && network.nodes.length === 0 && (
+            <p className="text-sm text-slate-500">No stored episodes in this report's window.</p>
+          )}
+
+          {timeline && network && network.nodes.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={view}
+                  onChange={(e) => { setView(e.target.value); setSelected(null); }}
+                  className="rounded-lg border-slate-300 text-sm"
+                >
+                  <option value="period">Whole window ({timeline.period.episode_count} episodes)</option>
+                  {timeline.weeks.map(week => (
+                    <option key={week.week_start} value={week.week_start}>
+                      Week of {week.week_start} ({week.network.episode_count} episodes)
+                    </option>
+                  ))}
+                </select>
+                <span className="text-xs text-slate-500">
+                  Modularity {network.modularity.toFixed(2)} · hover an issue to highlight its links, click to pin it
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <svg
+                  viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                  className="lg:col-span-2 w-full h-auto bg-slate-50 rounded-lg border border-slate-100"
+                  onClick={() => setSelected(null)}
+                >
+                  {network.edges.map(edge => {
+                    const a = positions.get(edge.source);
+                    const b = positions.get(edge.target);
+                    if (!a || !b) return null;
+                    const active = !focus || edge.source === focus || edge.target === focus;
+                    return (
+                      <line
+                        key={`${edge.source}|${edge.target}`}
+                        x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                        stroke={active && focus ? '#6366f1' : '#94a3b8'}
+                        strokeOpacity={active ? 0.6 : 0.1}
+                        strokeWidth={1 + (edge.episode_count / maxEdge) * 5}
+                      >
+                        <title>{`${nameOf(edge.source)} + ${nameOf(edge.target)}: ${edge.episode_count} episodes`}</title>
+                      </line>
+                    );
+                  })}
+                  {network.nodes.map(node => {
+                    const p = positions.get(node.normalized_name);
+                    if (!p) return null;
+                    const radius = 6 + (node.episode_count / maxEpisodes) * 14;
+                    const dimmed = isDimmed(node.normalized_name);
+                    return (
+                      <g
+                        key={node.normalized_name}
+                        className="cursor-pointer"
+                        opacity={dimmed ? 0.25 : 1}
+                        onMouseEnter={() => setHovered(node.normalized_name)}
+                        onMouseLeave={() => setHovered(null)}
+                        onClick={(e) => { e.stopPropagation(); setSelected(node.normalized_name); }}
+                      >
+                        <circle
+                          cx={p.x} cy={p.y} r={radius}
+                          fill={communityColor(node.community)}
+                          stroke={node.normalized_name === selected ? '#0f172a' : '#ffffff'}
+                          strokeWidth={2}
+                        />
+                        <text x={p.x} y={p.y + radius + 11} textAnchor="middle" fontSize={10} fill="#334155">
+                          {node.issue_name.length > 22 ? `${node.issue_name.slice(0, 20)}…` : node.issue_name}
+                        </text>
+                      </g>
+                    );
+                  })}
+                </svg>
+
+                <div className="space-y-4 text-sm">
+                  {selectedNode ? (
+                    <div className="rounded-lg border border-slate-200 p-3">
+                      <div className="font-semibold text-slate-900">{selectedNode.issue_name}</div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {selectedNode.episode_count} episodes · sentiment {selectedNode.avg_sentiment}
+                      </div>
+                      <div className="text-xs text-slate-600 mt-2">
+                        Degree centrality {selectedNode.degree_centrality.toFixed(2)} · eigenvector {selectedNode.eigenvector_centrality.toFixed(2)}
+                      </div>
+                      {selectedEdges.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {selectedEdges.map(edge => {
+                            const other = edge.source === selected ? edge.target : edge.source;
+                            return (
+                              <li key={other} className="flex justify-between gap-2 text-xs text-slate-600">
+                                <span className="truncate">{nameOf(other)}</span>
+                                <span>{edge.episode_count} ep · {Math.round(edge.strength * 100)}%</span>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </div>
+                  ) : (
+                    <div>
+                      <h4 className="text-sm font-semibold text-slate-800 mb-1">Most central</h4>
+                      <ol className="space-y-1">
+                        {[...network.nodes]
+                          .sort((a, b) => b.eigenvector_centrality - a.eigenvector_centrality)
+                          .slice(0, 5)
+                          .map(node => (
+                            <li key={node.normalized_name} className="flex justify-between gap-2 text-xs text-slate-600">
+                              <span className="truncate">{node.issue_name}</span>
+                              <span>{node.eigenvector_centrality.toFixed(2)}</span>
+                            </li>
+                          ))}
+                      </ol>
+                    </div>
+                  )}
+
+                  <div>
+                    <h4 className="text-sm font-semibold text-slate-800 mb-1">Clusters</h4>
+                    <ul className="space-y-1">
+                      {network.communities.filter(c => c.members.length > 1).map(community => (
+                        <li key={community.id} className="flex items-center gap-2 text-xs text-slate-600">
+                          <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: communityColor(community.id) }} />
+                          <span className="truncate">{community.label} + {community.members.length - 1} more</span>
+                        </li>
+                      ))}
+                      {network.communities.every(c => c.members.length === 1) && (
+                        <li className="text-xs text-slate-400">No issues are discussed together yet.</li>
+                      )}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+
+              {timeline.weeks.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-slate-800 mb-1">Cluster changes week over week</h4>
+                  {visibleShifts.length === 0 ? (
+                    <p className="text-xs text-slate-400">No issue changed clusters{view === 'period' ? '' : ' this week'}.</p>
+                  ) : (
+                    <ul className="space-y-1 text-xs text-slate-600">
+                      {visibleShifts.map(shift => (
+                        <li key={`${shift.week_start}-${shift.issue_name}`}>
+                          <span className="text-slate-400">{shift.week_start}</span>{' '}
+                          <span className="font-medium text-slate-800">{shift.issue_name}</span>
+                          {shift.joined.length > 0 && <> now framed with {shift.joined.join(', ')}</>}
+                          {shift.joined.length > 0 && shift.left.length > 0 && ';'}
+                          {shift.left.length > 0 && <> no longer with {shift.left.join(', ')}</>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Tags, ChevronDown, ChevronUp, GitMerge, Scissors, Trash2, X } from 'lucide-react';
+import { IssueEntry, TopicTaxonomy } from '../types';
+import {
+  loadTopicTaxonomy,
+  mergeIssues,
+  splitTopic,
+  setIssueParent,
+  removeTaxonomyIssue,
+  addNeverMerge,
+  removeNeverMerge
+} from '../services/topicTaxonomy';
+
+interface TopicTaxonomyPanelProps {
+  /** Issues of the report on screen, offered for merging and splitting */
+  issues: IssueEntry[];
+}
+
+/**
+ * Curate the topic taxonomy from the dashboard: merge issues, split topics
+ * out of an issue, arrange parent issues and keep look-alike issues apart.
+ */
+export const TopicTaxonomyPanel: React.FC<TopicTaxonomyPanelProps> = ({ issues }) => {
+  const [taxonomy, setTaxonomy] = useState<TopicTaxonomy | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [mergeSource, setMergeSource] = useState('');
+  const [apartFirst, setApartFirst] = useState('');
+  const [apartSecond, setApartSecond] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTopicTaxonomy()
+      .then(setTaxonomy)
+      .catch(err => console.error('Failed to load topic taxonomy:', err));
+  }, []);
+
+  const runAction = async (action: () => Promise<TopicTaxonomy>) => {
+    setIsBusy(true);
+    setActionError(null);
+    try {
+      setTaxonomy(await action());
+    } catch (err: any) {
+      setActionError(err?.message || 'Taxonomy update failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const curated = taxonomy?.issues ?? [];
+  const issueNames = Array.from(new Set([
+    ...issues.map(issue => issue.issue_name),
+    ...curated.map(issue => issue.canonical_name)
+  ])).sort((a, b) => a.localeCompare(b));
+  const splittable = issues.filter(issue => (issue.member_topics?.length ?? 0) > 1);
+
+  const renderIssueSelect = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="rounded-lg border-slate-300 text-sm min-w-0 flex-1"
+    >
+      <option value="">{placeholder}</option>
+      {issueNames.map(name => (
+        <option key={name} value={name}>{name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <Tags className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-bold text-slate-900 serif">Topic Taxonomy</h3>
+          <span className="text-sm text-slate-500">
+            {curated.length} curated issue{curated.length === 1 ? '' : 's'}
+            {taxonomy && taxonomy.never_merge.length > 0 ? `, ${taxonomy.never_merge.length} kept apart` : ''}
+          </span>
+        </div>
+        {isOpen ? <ChevronUp className="w-5 h-5 text-slate-400" /> : <ChevronDown className="w-5 h-5 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 py-4 border-t border-slate-200 space-y-5">
+          <p className="text-xs text-slate-500">
+            Curated issues group their aliases and are never merged with other issues automatically.
+            Changes apply the next time reports are generated or a saved job is opened.
+          </p>
+
+          {actionError && (
+            <div className="bg-rose-50 text-rose-600 p-3 rounded-lg text-sm flex items-start gap-2">
+              <X className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{actionError}</span>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">Merge issues</h4>
+            <div className="flex items-center gap-2">
+              {renderIssueSelect(mergeTarget, setMergeTarget, 'Keep issue…')}
+              {renderIssueSelect(mergeSource, setMergeSource, 'Merge into it…')}
+              <button
+                disabled={isBusy || !mergeTarget || !mergeSource || mergeTarget === mergeSource}
+                onClick={() => runAction(() => mergeIssues(mergeTarget, mergeSource)).then(() => setMergeSource(''))}
+                className="px-3 py-2 rounded-lg bg-indigo-600 text-white text-sm hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1 shrink-0"
+              >
+                <GitMerge className="w-4 h-4" /> Merge
+              </button>
+            </div>
+          </div>
+
+          {splittable.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-slate-800 mb-2">Split topics out of an issue</h4>
+              <div className="space-y-2">
+                {splittable.map(issue => (
+                  <div key={issue.issue_id} className="text-sm">
+                    <span className="font-medium text-slate-700">{issue.issue_name}:</span>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {issue.member_topics!.map(topic => (
+                        <button
+                          key={topic}
+                          disabled={isBusy}
+                          onClick={() => runAction(() => splitTopic(issue.issue_name, topic))}
+                          title="Split this topic into its own issue"
+                          className="px-2 py-0.5 rounded border border-slate-200 text-xs text-slate-600 hover:bg-amber-50 hover:border-amber-200 disabled:opacity-50 flex items-center gap-1"
+                        >
+                          {topic} <Scissors className="w-3 h-3" />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {curated.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-slate-800 mb-2">Curated issues</h4>
+              <div className="space-y-2">
+                {curated.map(issue => (
+                  <div key={issue.canonical_name} className="rounded-lg border border-slate-200 p-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-sm font-medium text-slate-900">{issue.canonical_name}</span>
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={issue.parent ?? ''}
+                          disabled={isBusy}
+                          onChange={(e) => runAction(() => setIssueParent(issue.canonical_name, e.target.value || null))}
+                          className="rounded-lg border-slate-300 text-xs"
+                        >
+                          <option value="">No parent issue</option>
+                          {issueNames.filter(name => name !== issue.canonical_name).map(name => (
+                            <option key={name} value={name}>Under {name}</option>
+                          ))}
+                        </select>
+                        <button
+                          disabled={isBusy}
+                          onClick={() => runAction(() => removeTaxonomyIssue(issue.canonical_name))}
+                          title="Remove from the taxonomy"
+                          className="p-1 rounded text-slate-400 hover:text-rose-600 disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    {issue.aliases.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {issue.aliases.map(alias => (
+                          <span key={alias} className="px-2 py-0.5 rounded bg-slate-100 text-xs text-slate-600 flex items-center gap-1">
+                            {alias}
+                            <button
+                              disabled={isBusy}
+                              onClick={() => runAction(() => splitTopic(issue.canonical_name, alias))}
+                              title="Split this alias into its own issue"
+                              className="text-slate-400 hover:text-rose-600"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">Never merge</h4>
+            <div className="flex items-center gap-2">
+              {renderIssueSelect(apartFirst, setApartFirst, 'Issue…')}
+              {renderIssueSelect(apartSecond, setApartSecond, 'Keep apart from…')}
+              <button
+                disabled={isBusy || !apartFirst || !apartSecond || apartFirst === apartSecond}
+                onClick={() => runAction(() => addNeverMerge(apartFirst, apartSecond)).then(() => setApartSecond(''))}
+                className="px-3 py-2 rounded-lg border border-slate-300 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50 shrink-0"
+              >
+                Keep apart
+              </button>
+            </div>
+            {taxonomy && taxonomy.never_merge.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {taxonomy.never_merge.map(([a, b]) => (
+                  <li key={`${a}|${b}`} className="text-xs text-slate-600 flex items-center gap-2">
+                    <span>{a} ≠ {b}</span>
+                    <button
+                      disabled={isBusy}
+                      onClick={() => runAction(() => removeNeverMerge(a, b))}
+                      className="text-slate-400 hover:text-rose-600"
+                      title="Allow automatic matching again"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
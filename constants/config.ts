@@ -3,11 +3,202 @@
  * These settings can be overridden by user preferences stored in LocalStorage.
  */
 
+/**
+ * Supported LLM provider backends (see services/llmProvider.ts)
+ * - gemini: Google Gemini with optional Google Search grounding
+ * - openai-compatible: any server exposing POST {baseUrl}/chat/completions
+ * - fixture: deterministic offline responses (no network)
+ */
+export type LLMProviderType = 'gemini' | 'openai-compatible' | 'fixture';
+
+/**
+ * Where a source profile's episode discovery gets its episode list from
+ * - llm-search: ask the LLM provider to search the web (default)
+ * - transcripts: only episodes with imported transcript files
+ * - feed: podcast RSS/Atom feeds configured per show
+ */
+export type DiscoverySource = 'llm-search' | 'transcripts' | 'feed';
+
+/**
+ * How topics are matched into issues across episodes and weeks (see utils/aggregation.ts)
+ * - token-overlap: word overlap between normalized topic names (default, no model calls)
+ * - embedding: cosine similarity of topic embeddings from the LLM provider
+ */
+export type TopicMatcherType = 'token-overlap' | 'embedding';
+
+/**
+ * How topic sentiments are combined into an issue's sentiment (see utils/statistics.ts)
+ * - mean: every mention counts the same (default)
+ * - confidence-weighted: mentions weighted by the model's confidence
+ * - prominence-weighted: mentions weighted by how central the topic was to the episode
+ * - trimmed-mean: mean after dropping the most extreme 20% at each end
+ * - median: middle mention, robust to outliers
+ */
+export type SentimentAggregationStrategy = 'mean' | 'confidence-weighted' | 'prominence-weighted' | 'trimmed-mean' | 'median';
+
+export const SENTIMENT_STRATEGY_LABELS: Record<SentimentAggregationStrategy, string> = {
+  'mean': 'Mean',
+  'confidence-weighted': 'Confidence-weighted mean',
+  'prominence-weighted': 'Prominence-weighted mean',
+  'trimmed-mean': 'Trimmed mean (20%)',
+  'median': 'Median'
+};
+
+/**
+ * How next-week sentiment and prominence are forecast (see utils/forecasting.ts)
+ * - exponential-smoothing: exponentially weighted level, recent weeks count most (default)
+ * - autoregressive: AR(1), each week pulled toward the series mean by the fitted persistence
+ */
+export type ForecastMethod = 'exponential-smoothing' | 'autoregressive';
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  'exponential-smoothing': 'Exponential smoothing',
+  'autoregressive': 'Autoregressive AR(1)'
+};
+
+/**
+ * Ways to free IndexedDB space when usage nears the quota (see services/storageManager.ts):
+ * - evict-search-cache: delete all but the newest cached episode searches
+ * - truncate-quotes: keep fewer and shorter evidence quotes in old episodes
+ * - archive-episodes: download old episodes (with their versions and transcripts)
+ *   as a backup archive, then delete them locally
+ */
+export type StoragePolicy = 'evict-search-cache' | 'truncate-quotes' | 'archive-episodes';
+
+export const STORAGE_POLICY_LABELS: Record<StoragePolicy, string> = {
+  'evict-search-cache': 'Evict oldest search cache',
+  'truncate-quotes': 'Truncate evidence quotes in old episodes',
+  'archive-episodes': 'Archive old episodes to a file'
+};
+
+/**
+ * Condition that raises an alert after a run (see services/alerts.ts):
+ * - sentiment-below / sentiment-above: an issue's sentiment crosses `threshold`
+ * - enters-top: an issue reaches rank `threshold` or better from outside it,
+ *   mentioned in more than `minEpisodes` episodes
+ * - anomaly: an issue's `metric` lies at least `threshold` standard deviations
+ *   from its own recent weekly history
+ */
+export type AlertRuleType = 'sentiment-below' | 'sentiment-above' | 'enters-top' | 'anomaly';
+
+export const ALERT_RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  'sentiment-below': 'Sentiment drops below',
+  'sentiment-above': 'Sentiment rises above',
+  'enters-top': 'Enters the top',
+  'anomaly': 'Breaks its own history (z-score)'
+};
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  threshold: number;
+  minEpisodes: number;                   // enters-top only
+  metric: 'sentiment' | 'prominence';    // anomaly only
+  issueFilter: string;                   // Only issues whose name contains this text (empty = any issue)
+}
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'sentiment-below-25', name: 'Sentiment below 25', type: 'sentiment-below', enabled: true, threshold: 25, minEpisodes: 0, metric: 'sentiment', issueFilter: '' },
+  { id: 'new-top-3', name: 'New top-3 issue', type: 'enters-top', enabled: true, threshold: 3, minEpisodes: 3, metric: 'sentiment', issueFilter: '' },
+  { id: 'sentiment-anomaly', name: 'Unusual sentiment', type: 'anomaly', enabled: true, threshold: 2.5, minEpisodes: 0, metric: 'sentiment', issueFilter: '' },
+  { id: 'prominence-anomaly', name: 'Unusual prominence', type: 'anomaly', enabled: true, threshold: 2.5, minEpisodes: 0, metric: 'prominence', issueFilter: '' }
+];
+
+/**
+ * Named weighting of the issue ranking factors (see rankIssues in utils/aggregation.ts).
+ * The rank score is the weighted mean of the factors, each scaled 0-1.
+ */
+export interface RankingProfile {
+  id: string;
+  name: string;
+  description: string;
+  weights: {
+    frequency: number;   // episodes mentioning the issue, relative to the most-mentioned issue
+    prominence: number;  // average prominence of the issue's topics
+    consistency: number; // agreement of sentiment scores across mentions
+    volatility: number;  // spread of sentiment scores across mentions (1 - consistency)
+    recency: number;     // decays with days since the latest mention
+  };
+  recencyDecayDays: number;  // days for the recency factor to fall to ~37%
+  minProminence: number;     // issues at or below this average prominence are dropped
+  minEpisodeCount: number;   // episodes an issue needs once the week has `largeWeekEpisodes` episodes
+  largeWeekEpisodes: number;
+}
+
+/**
+ * Built-in ranking profiles; 'balanced' is the original fixed weighting
+ */
+export const DEFAULT_RANKING_PROFILES: RankingProfile[] = [
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'Mix of coverage, prominence, stable sentiment and recency.',
+    weights: { frequency: 0.35, prominence: 0.30, consistency: 0.20, volatility: 0, recency: 0.15 },
+    recencyDecayDays: 7,
+    minProminence: 0.2,
+    minEpisodeCount: 2,
+    largeWeekEpisodes: 6
+  },
+  {
+    id: 'volume-driven',
+    name: 'Volume-driven',
+    description: 'Issues discussed in the most episodes rise to the top.',
+    weights: { frequency: 0.60, prominence: 0.15, consistency: 0.10, volatility: 0, recency: 0.15 },
+    recencyDecayDays: 7,
+    minProminence: 0.1,
+    minEpisodeCount: 2,
+    largeWeekEpisodes: 4
+  },
+  {
+    id: 'salience-driven',
+    name: 'Salience-driven',
+    description: 'Issues the host dwells on rank first, even if covered in few episodes.',
+    weights: { frequency: 0.15, prominence: 0.60, consistency: 0.10, volatility: 0, recency: 0.15 },
+    recencyDecayDays: 7,
+    minProminence: 0.3,
+    minEpisodeCount: 1,
+    largeWeekEpisodes: 6
+  },
+  {
+    id: 'sentiment-volatile',
+    name: 'Sentiment-volatile',
+    description: 'Issues whose tone swings between mentions rank first.',
+    weights: { frequency: 0.25, prominence: 0.20, consistency: 0, volatility: 0.40, recency: 0.15 },
+    recencyDecayDays: 7,
+    minProminence: 0.2,
+    minEpisodeCount: 2,
+    largeWeekEpisodes: 6
+  }
+];
+
+/**
+ * A podcast feed used by the 'feed' discovery source
+ * (discovery settings live on each SourceProfile, see services/sourceProfiles.ts)
+ */
+export interface FeedSource {
+  showName: string;
+  url: string;
+}
+
 export interface AppConfig {
+  provider: {
+    type: LLMProviderType;
+    model: string;
+    baseUrl: string;
+    apiKey: string;
+    inputPricePerMillion: number | null;
+    outputPricePerMillion: number | null;
+  };
   processing: {
     concurrency: number;
     retryAttempts: number;
     retryDelayMs: number;
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+    maxRateLimitRetries: number;
+    budgetUsd: number | null;
   };
   caching: {
     episodeStalenessThresholdDays: number | null;
@@ -19,16 +210,59 @@ export interface AppConfig {
     enableDetailedProgress: boolean;
     enableCacheAnalytics: boolean;
   };
+  matching: {
+    topicMatcher: TopicMatcherType;
+    embeddingModel: string;
+    embeddingThreshold: number;
+  };
+  ranking: {
+    activeProfileId: string;
+    profiles: RankingProfile[];
+  };
+  aggregation: {
+    sentimentStrategy: SentimentAggregationStrategy;
+    intervalLevel: number;
+    significanceLevel: number;
+  };
+  forecasting: {
+    method: ForecastMethod;
+    intervalLevel: number;
+  };
+  alerts: {
+    rules: AlertRule[];
+    anomalyWindowWeeks: number;
+    browserNotifications: boolean;
+  };
+  storage: {
+    warnAtPercent: number;
+    policies: StoragePolicy[];
+    searchCacheKeep: number;
+    oldEpisodeDays: number;
+    maxEvidenceQuotes: number;
+    maxQuoteLength: number;
+  };
 }
 
 /**
  * Default configuration values
  */
 export const DEFAULT_CONFIG: AppConfig = {
+  provider: {
+    type: 'gemini',
+    model: 'gemini-3-flash-preview',
+    baseUrl: 'http://localhost:11434/v1', // Only used by openai-compatible
+    apiKey: '', // Empty = fall back to process.env for the selected provider
+    inputPricePerMillion: null, // USD; null = built-in price table (constants/pricing.ts)
+    outputPricePerMillion: null
+  },
   processing: {
     concurrency: 10,
     retryAttempts: 3,
-    retryDelayMs: 1000
+    retryDelayMs: 1000,
+    requestsPerMinute: 60, // Shared across all provider calls; 0 = unlimited
+    tokensPerMinute: 1_000_000, // Estimated prompt + response tokens; 0 = unlimited
+    maxRateLimitRetries: 5, // Retries per call after a 429 pause
+    budgetUsd: null // Hard cost budget per run; null = no budget
   },
   caching: {
     episodeStalenessThresholdDays: null, // null = disabled, 30 = reprocess after 30 days
@@ -39,6 +273,37 @@ export const DEFAULT_CONFIG: AppConfig = {
     enableAIExecutiveSummary: false, // Disabled by default (faster processing)
     enableDetailedProgress: true,
     enableCacheAnalytics: false
+  },
+  matching: {
+    topicMatcher: 'token-overlap',
+    embeddingModel: '', // Empty = the provider's default embedding model
+    embeddingThreshold: 0.8 // Minimum cosine similarity for two topics to form one issue
+  },
+  ranking: {
+    activeProfileId: 'balanced',
+    profiles: DEFAULT_RANKING_PROFILES
+  },
+  aggregation: {
+    sentimentStrategy: 'mean',
+    intervalLevel: 0.9, // Coverage of the sentiment uncertainty intervals
+    significanceLevel: 0.05 // p-value below which a week-over-week change counts as real
+  },
+  forecasting: {
+    method: 'exponential-smoothing',
+    intervalLevel: 0.8 // Coverage of the next-week prediction intervals
+  },
+  alerts: {
+    rules: DEFAULT_ALERT_RULES,
+    anomalyWindowWeeks: 12, // Weeks of an issue's history an anomaly is measured against
+    browserNotifications: false
+  },
+  storage: {
+    warnAtPercent: 80, // Warn when IndexedDB usage reaches this share of the quota
+    policies: ['evict-search-cache', 'truncate-quotes'], // Applied in this order by "Free up space"
+    searchCacheKeep: 20, // Newest cached searches kept by evict-search-cache
+    oldEpisodeDays: 365, // Episodes published longer ago count as old (truncation and archiving)
+    maxEvidenceQuotes: 2, // Per topic, after truncation
+    maxQuoteLength: 240 // Characters per quote, after truncation
   }
 };
 
@@ -58,6 +323,10 @@ export function loadConfig(): AppConfig {
 
     // Deep merge with defaults to handle missing fields
     return {
+      provider: {
+        ...DEFAULT_CONFIG.provider,
+        ...parsed.provider
+      },
       processing: {
         ...DEFAULT_CONFIG.processing,
         ...parsed.processing
@@ -69,6 +338,34 @@ export function loadConfig(): AppConfig {
       features: {
         ...DEFAULT_CONFIG.features,
         ...parsed.features
+      },
+      matching: {
+        ...DEFAULT_CONFIG.matching,
+        ...parsed.matching
+      },
+      ranking: {
+        ...DEFAULT_CONFIG.ranking,
+        ...parsed.ranking,
+        profiles: mergeRankingProfiles(parsed.ranking?.profiles)
+      },
+      aggregation: {
+        ...DEFAULT_CONFIG.aggregation,
+        ...parsed.aggregation
+      },
+      forecasting: {
+        ...DEFAULT_CONFIG.forecasting,
+        ...parsed.forecasting
+      },
+      // Stored rules replace the defaults entirely, so deleted default rules stay deleted
+      alerts: {
+        ...DEFAULT_CONFIG.alerts,
+        ...parsed.alerts,
+        rules: Array.isArray(parsed.alerts?.rules) ? parsed.alerts.rules : DEFAULT_ALERT_RULES
+      },
+      storage: {
+        ...DEFAULT_CONFIG.storage,
+        ...parsed.storage,
+        policies: Array.isArray(parsed.storage?.policies) ? parsed.storage.policies : DEFAULT_CONFIG.storage.policies
       }
     };
   } catch (error) {
@@ -77,12 +374,69 @@ export function loadConfig(): AppConfig {
   }
 }
 
+/**
+ * Stored ranking profiles replace built-in ones with the same ID;
+ * built-in profiles missing from storage are kept.
+ */
+function mergeRankingProfiles(stored: RankingProfile[] | undefined): RankingProfile[] {
+  const profiles = [...DEFAULT_RANKING_PROFILES];
+  (Array.isArray(stored) ? stored : []).forEach(profile => {
+    const idx = profiles.findIndex(p => p.id === profile.id);
+    if (idx >= 0) {
+      profiles[idx] = profile;
+    } else {
+      profiles.push(profile);
+    }
+  });
+  return profiles;
+}
+
+/**
+ * Ranking profile by ID (default: the active one), falling back to 'balanced'
+ */
+export function getRankingProfile(config: AppConfig = getConfig(), profileId?: string): RankingProfile {
+  const id = profileId ?? config.ranking.activeProfileId;
+  return config.ranking.profiles.find(profile => profile.id === id)
+    ?? DEFAULT_RANKING_PROFILES[0];
+}
+
+/**
+ * Identifies a ranking profile's settings; stored with cached aggregations
+ * so edits to a profile invalidate them
+ */
+export function rankingProfileSignature(profile: RankingProfile): string {
+  const { weights } = profile;
+  return [
+    profile.id,
+    weights.frequency, weights.prominence, weights.consistency, weights.volatility, weights.recency,
+    profile.recencyDecayDays, profile.minProminence, profile.minEpisodeCount, profile.largeWeekEpisodes
+  ].join(':');
+}
+
+/**
+ * Discovery settings saved before they moved to source profiles.
+ * Used once to seed the default profile; null when none were saved.
+ */
+export function loadLegacyDiscoverySettings(): { source: DiscoverySource; feeds: FeedSource[] } | null {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    const discovery = stored ? JSON.parse(stored)?.discovery : null;
+    if (!discovery || typeof discovery.source !== 'string') {
+      return null;
+    }
+    return { source: discovery.source, feeds: Array.isArray(discovery.feeds) ? discovery.feeds : [] };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Saves configuration to LocalStorage
  */
 export function saveConfig(config: AppConfig): void {
   try {
     localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+    currentConfig = config;
     console.log('Configuration saved to LocalStorage');
   } catch (error) {
     console.error('Error saving config to LocalStorage:', error);
@@ -118,6 +472,23 @@ export function resetConfig(): AppConfig {
 export function validateConfig(config: AppConfig): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
+  // Validate provider settings
+  if (!['gemini', 'openai-compatible', 'fixture'].includes(config.provider.type)) {
+    errors.push(`Unknown LLM provider: ${config.provider.type}`);
+  }
+  if (!config.provider.model.trim()) {
+    errors.push('Provider model must not be empty');
+  }
+  if (config.provider.type === 'openai-compatible' && !/^https?:\/\//.test(config.provider.baseUrl)) {
+    errors.push('OpenAI-compatible provider requires an http(s) base URL');
+  }
+  if ((config.provider.inputPricePerMillion === null) !== (config.provider.outputPricePerMillion === null)) {
+    errors.push('Set both input and output token prices, or neither');
+  }
+  if ((config.provider.inputPricePerMillion ?? 0) < 0 || (config.provider.outputPricePerMillion ?? 0) < 0) {
+    errors.push('Token prices must not be negative');
+  }
+
   // Validate processing settings
   if (config.processing.concurrency < 1 || config.processing.concurrency > 20) {
     errors.push('Concurrency must be between 1 and 20');
@@ -128,6 +499,18 @@ export function validateConfig(config: AppConfig): { valid: boolean; errors: str
   if (config.processing.retryDelayMs < 0 || config.processing.retryDelayMs > 10000) {
     errors.push('Retry delay must be between 0 and 10000ms');
   }
+  if (config.processing.requestsPerMinute < 0 || config.processing.requestsPerMinute > 10000) {
+    errors.push('Requests per minute must be between 0 (unlimited) and 10000');
+  }
+  if (config.processing.tokensPerMinute < 0 || config.processing.tokensPerMinute > 100_000_000) {
+    errors.push('Tokens per minute must be between 0 (unlimited) and 100000000');
+  }
+  if (config.processing.maxRateLimitRetries < 0 || config.processing.maxRateLimitRetries > 10) {
+    errors.push('Rate limit retries must be between 0 and 10');
+  }
+  if (config.processing.budgetUsd !== null && config.processing.budgetUsd <= 0) {
+    errors.push('Cost budget must be null (no budget) or greater than 0');
+  }
 
   // Validate caching settings
   if (
@@ -140,6 +523,88 @@ export function validateConfig(config: AppConfig): { valid: boolean; errors: str
     errors.push('Max weekly cache entries must be between 1 and 104 (2 years)');
   }
 
+  // Validate topic matching settings
+  if (!['token-overlap', 'embedding'].includes(config.matching.topicMatcher)) {
+    errors.push(`Unknown topic matcher: ${config.matching.topicMatcher}`);
+  }
+  if (config.matching.embeddingThreshold < 0.5 || config.matching.embeddingThreshold > 0.99) {
+    errors.push('Embedding similarity threshold must be between 0.5 and 0.99');
+  }
+
+  // Validate sentiment aggregation settings
+  if (!(config.aggregation.sentimentStrategy in SENTIMENT_STRATEGY_LABELS)) {
+    errors.push(`Unknown sentiment aggregation strategy: ${config.aggregation.sentimentStrategy}`);
+  }
+  if (config.aggregation.intervalLevel < 0.5 || config.aggregation.intervalLevel > 0.99) {
+    errors.push('Sentiment interval level must be between 0.5 and 0.99');
+  }
+  if (config.aggregation.significanceLevel <= 0 || config.aggregation.significanceLevel > 0.2) {
+    errors.push('Significance level must be above 0 and at most 0.2');
+  }
+
+  // Validate forecasting settings
+  if (!(config.forecasting.method in FORECAST_METHOD_LABELS)) {
+    errors.push(`Unknown forecast method: ${config.forecasting.method}`);
+  }
+  if (config.forecasting.intervalLevel < 0.5 || config.forecasting.intervalLevel > 0.99) {
+    errors.push('Forecast interval level must be between 0.5 and 0.99');
+  }
+
+  // Validate alert rules
+  if (config.alerts.anomalyWindowWeeks < 4 || config.alerts.anomalyWindowWeeks > 52) {
+    errors.push('Anomaly window must be between 4 and 52 weeks');
+  }
+  config.alerts.rules.forEach(rule => {
+    if (!(rule.type in ALERT_RULE_TYPE_LABELS)) {
+      errors.push(`Alert rule "${rule.name}" has an unknown type: ${rule.type}`);
+    } else if (!Number.isFinite(rule.threshold)) {
+      errors.push(`Alert rule "${rule.name}" needs a threshold`);
+    } else if (rule.type === 'enters-top' && (!Number.isInteger(rule.threshold) || rule.threshold < 1)) {
+      errors.push(`Alert rule "${rule.name}" needs a whole-number rank of at least 1`);
+    } else if (rule.type === 'anomaly' && rule.threshold <= 0) {
+      errors.push(`Alert rule "${rule.name}" needs a z-score threshold above 0`);
+    }
+  });
+
+  // Validate storage settings
+  if (config.storage.warnAtPercent < 50 || config.storage.warnAtPercent > 99) {
+    errors.push('Storage warning level must be between 50 and 99 percent');
+  }
+  config.storage.policies.forEach(policy => {
+    if (!(policy in STORAGE_POLICY_LABELS)) {
+      errors.push(`Unknown storage policy: ${policy}`);
+    }
+  });
+  if (config.storage.searchCacheKeep < 0 || config.storage.searchCacheKeep > 1000) {
+    errors.push('Kept search cache entries must be between 0 and 1000');
+  }
+  if (config.storage.oldEpisodeDays < 30 || config.storage.oldEpisodeDays > 3650) {
+    errors.push('Old episode age must be between 30 and 3650 days');
+  }
+  if (config.storage.maxEvidenceQuotes < 1 || config.storage.maxEvidenceQuotes > 10) {
+    errors.push('Evidence quotes kept per topic must be between 1 and 10');
+  }
+  if (config.storage.maxQuoteLength < 40 || config.storage.maxQuoteLength > 2000) {
+    errors.push('Truncated quote length must be between 40 and 2000 characters');
+  }
+
+  // Validate ranking profiles
+  if (!config.ranking.profiles.some(profile => profile.id === config.ranking.activeProfileId)) {
+    errors.push(`Unknown ranking profile: ${config.ranking.activeProfileId}`);
+  }
+  config.ranking.profiles.forEach(profile => {
+    const weights = Object.values(profile.weights);
+    if (weights.some(weight => weight < 0) || weights.every(weight => weight === 0)) {
+      errors.push(`Ranking profile "${profile.name}" needs non-negative weights, at least one above 0`);
+    }
+    if (profile.minProminence < 0 || profile.minProminence >= 1) {
+      errors.push(`Ranking profile "${profile.name}" minimum prominence must be between 0 and 1`);
+    }
+    if (profile.minEpisodeCount < 1 || profile.largeWeekEpisodes < 1 || profile.recencyDecayDays <= 0) {
+      errors.push(`Ranking profile "${profile.name}" has invalid episode thresholds or recency decay`);
+    }
+  });
+
   return {
     valid: errors.length === 0,
     errors
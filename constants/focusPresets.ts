@@ -0,0 +1,128 @@
+/**
+ * Analysis Focus Presets
+ *
+ * Ready-made focus definitions for the use cases described in the README.
+ * A source profile copies a preset into its own `focus`, so presets can be
+ * edited per profile without affecting other profiles.
+ */
+
+import type { FocusDefinition } from '../types';
+
+export interface FocusPreset {
+  id: string;
+  label: string;
+  focus: FocusDefinition;
+}
+
+export const FOCUS_PRESETS: FocusPreset[] = [
+  {
+    id: 'us-politics',
+    label: 'US politics (Trump administration)',
+    focus: {
+      name: 'the Trump administration and US politics',
+      description: 'Actions, policies and conduct of the Trump administration and the wider US political debate around them.',
+      inclusion_criteria: [
+        'Executive actions, appointments and policy decisions of the administration',
+        'Congress, courts and states responding to or constraining the administration',
+        'Elections, parties and public opinion about the administration'
+      ],
+      exclusion_criteria: [
+        'Historical background that is not tied to current events',
+        'Foreign politics with no US policy angle'
+      ],
+      example_topics: ['Federal Shutdown', 'Immigration Policy', 'Tariffs', 'Jan 6 Investigation', 'Supreme Court Rulings']
+    }
+  },
+  {
+    id: 'climate',
+    label: 'Climate change communication',
+    focus: {
+      name: 'climate change and climate policy',
+      description: 'How climate risks, impacts and policy responses are discussed, including anxiety about regional economic effects.',
+      inclusion_criteria: [
+        'Extreme weather and climate impacts on regions and industries',
+        'Climate and energy policy, regulation and international agreements',
+        'Insurance, migration and investment consequences of climate risk'
+      ],
+      exclusion_criteria: ['Day-to-day weather reports without a climate angle'],
+      example_topics: ['Extreme Heat', 'Flood Insurance', 'Renewable Energy Investment', 'Emissions Regulation', 'Climate Migration']
+    }
+  },
+  {
+    id: 'ai-labor',
+    label: 'AI progress and labor markets',
+    focus: {
+      name: 'AI capabilities and their impact on work',
+      description: 'Narratives about AI progress and how it changes jobs, wages and the demand for human skills.',
+      inclusion_criteria: [
+        'New AI capabilities, products and adoption by companies',
+        'Automation of tasks, layoffs, hiring and wage effects attributed to AI',
+        'Policy and regulation of AI in the workplace'
+      ],
+      exclusion_criteria: ['Purely technical research details with no adoption or labor angle'],
+      example_topics: ['Coding Automation', 'Creative Work Displacement', 'AI Regulation', 'Reskilling Programs', 'AI Investment Boom']
+    }
+  },
+  {
+    id: 'healthcare',
+    label: 'Healthcare policy',
+    focus: {
+      name: 'healthcare policy and access to care',
+      description: 'Debate over health coverage, costs and regulation, and how it affects patients, insurers and providers.',
+      inclusion_criteria: [
+        'Insurance coverage, Medicaid and Medicare policy',
+        'Drug pricing and pharmaceutical regulation',
+        'Access to care, telemedicine and provider capacity'
+      ],
+      exclusion_criteria: ['Individual medical advice or clinical case reports'],
+      example_topics: ['Medicaid Enrollment', 'Drug Pricing', 'ACA Subsidies', 'Telemedicine', 'Hospital Closures']
+    }
+  },
+  {
+    id: 'supply-chain',
+    label: 'Supply chain risk',
+    focus: {
+      name: 'supply chain disruption and trade risk',
+      description: 'Commentary on the resilience of global supply chains, trade routes and sourcing of critical goods.',
+      inclusion_criteria: [
+        'Shipping, logistics and trade route disruptions',
+        'Tariffs, export controls and trade policy affecting sourcing',
+        'Shortages, inventories and reshoring decisions'
+      ],
+      exclusion_criteria: ['Company earnings details unrelated to sourcing or logistics'],
+      example_topics: ['Shipping Rates', 'Semiconductor Supply', 'Export Controls', 'Reshoring', 'Port Congestion']
+    }
+  },
+  {
+    id: 'housing',
+    label: 'Housing affordability',
+    focus: {
+      name: 'housing affordability',
+      description: 'Discussion of housing costs, supply and policy, and how affordability pressures shape where people live.',
+      inclusion_criteria: [
+        'Rents, home prices and mortgage rates',
+        'Zoning, construction and local housing policy',
+        'Homelessness and displacement linked to housing costs'
+      ],
+      exclusion_criteria: ['Individual property listings or renovation advice'],
+      example_topics: ['Zoning Reform', 'Rent Increases', 'Mortgage Rates', 'Homelessness', 'Remote Work Relocation']
+    }
+  }
+];
+
+/**
+ * Focus of the default profile
+ */
+export const DEFAULT_FOCUS: FocusDefinition = FOCUS_PRESETS[0].focus;
+
+/**
+ * Copy a focus definition so edits never touch the shared preset
+ */
+export function cloneFocus(focus: FocusDefinition): FocusDefinition {
+  return {
+    ...focus,
+    inclusion_criteria: [...focus.inclusion_criteria],
+    exclusion_criteria: [...focus.exclusion_criteria],
+    example_topics: [...focus.example_topics]
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Model Pricing
+ *
+ * USD per 1M tokens, used to turn recorded token usage into cost estimates.
+ * Prices change; treat the results as estimates and override them under
+ * Advanced Settings → AI Provider when your rates differ.
+ *
+ * Entries are matched by model-name prefix, longest prefix first.
+ */
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-3-pro': { inputPerMillion: 2.0, outputPerMillion: 12.0 },
+  'gemini-3-flash': { inputPerMillion: 0.5, outputPerMillion: 3.0 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10.0 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2.0, outputPerMillion: 8.0 },
+  'fixture': { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+/**
+ * Typical tokens per call, used for pre-run estimates before any usage is recorded
+ */
+export const TYPICAL_CALL_TOKENS = {
+  // Web-search grounded analysis: prompt plus retrieved search context
+  analysis: { input: 8000, output: 1500 },
+  // Discovery search for one date range
+  search: { input: 6000, output: 800 },
+  // AI executive summary for one week
+  summary: { input: 2500, output: 600 }
+};
+
+/**
+ * Look up the built-in price for a model (null when unknown)
+ */
+export function findModelPrice(model: string): ModelPrice | null {
+  const normalized = model.toLowerCase().replace(/^models\//, '');
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => normalized.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING[match] : null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Source Profiles
+ *
+ * The built-in profile for Heather Cox Richardson's shows. It is created in
+ * IndexedDB on first use and owns all data recorded before profiles existed
+ * (records without a `profile_id`).
+ */
+
+import type { SourceProfile } from '../types';
+import { DEFAULT_FOCUS, cloneFocus } from './focusPresets';
+
+export const DEFAULT_PROFILE_ID = 'hcr';
+
+export const DEFAULT_PROFILE_SHOWS = [
+  'This Week in Politics',
+  'Politics Chat',
+  'American Conversations',
+  'What the Heck Just Happened'
+];
+
+/**
+ * Placeholders available in prompt templates and prompt overrides
+ */
+export const PROFILE_PROMPT_PLACEHOLDERS = {
+  hostName: '{{HOST_NAME}}',
+  showList: '{{SHOW_LIST}}',       // One "- Show" line per show
+  showNames: '{{SHOW_NAMES}}',     // Quoted, comma-separated
+  focusTopic: '{{FOCUS_TOPIC}}',         // Focus name
+  focusDefinition: '{{FOCUS_DEFINITION}}' // Full focus block (description, criteria, example topics)
+};
+
+/**
+ * Build the default profile (discovery settings from the pre-profile config when present)
+ */
+export function buildDefaultSourceProfile(
+  discovery: SourceProfile['discovery'] = { source: 'llm-search', feeds: [] }
+): SourceProfile {
+  const now = new Date().toISOString();
+  return {
+    profile_id: DEFAULT_PROFILE_ID,
+    name: 'Heather Cox Richardson',
+    host_name: 'Heather Cox Richardson',
+    shows: [...DEFAULT_PROFILE_SHOWS],
+    focus: cloneFocus(DEFAULT_FOCUS),
+    discovery: { source: discovery.source, feeds: [...discovery.feeds] },
+    prompt_overrides: {},
+    created_at: now,
+    updated_at: now
+  };
+}
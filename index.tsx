@@ -9,6 +9,30 @@ import './test-frameworkVersioning';
 import './test-executiveSummary';
 import './test-performanceBench';
 import './test-realWorldRunLogger';
+import './test-llmProvider';
+import './test-transcriptIngestion';
+import './test-feedDiscovery';
+import './test-structuredOutput';
+import './test-quarantine';
+import './test-processingJobs';
+import './test-requestScheduler';
+import './test-usageAccounting';
+import './test-sourceProfiles';
+import './test-topicTaxonomy';
+import './test-topicEmbeddings';
+import './test-rankingProfiles';
+import './test-sentimentAggregation';
+import './test-deltaSignificance';
+import './test-changePoints';
+import './test-issueLifecycle';
+import './test-topicNetwork';
+import './test-forecasting';
+import './test-alerts';
+import './test-databaseBackup';
+import './test-libraryMerge';
+import './test-episodeVersions';
+import './test-cacheDependencies';
+import './test-storageManager';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
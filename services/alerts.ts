@@ -0,0 +1,244 @@
+/**
+ * Alerts
+ *
+ * After a run, the latest composed week is checked against the configured
+ * alert rules. Threshold rules look at the week's issue list; anomaly rules
+ * compare each issue's week with its own history in the episode store (the
+ * issue lifecycle registry) using a rolling z-score, so an issue is judged by
+ * its own normal range rather than by last week alone.
+ *
+ * Alerts are kept in an inbox (IndexedDB) and, when enabled, shown as
+ * browser notifications. Re-running the same week does not raise the same
+ * alert twice.
+ */
+
+import type { AlertRecord, HCRReport, IssueAnomalyScore, IssueEntry, IssueRegistry, TopicTaxonomy } from '../types';
+import { getConfig, type AlertRule, type AppConfig } from '../constants/config';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { getAllAlerts, saveAlerts } from './episodeDB';
+import { loadIssueRegistry } from './issueLifecycle';
+import { resolvePeriodIssue } from '../utils/reportUtils';
+
+// Weeks of history an issue needs before its week can be called anomalous
+export const MIN_ANOMALY_HISTORY = 4;
+// Floors on the history's spread, so a perfectly steady issue does not flag every small move
+const MIN_SENTIMENT_SD = 3;
+const MIN_PROMINENCE_SD = 0.03;
+// Above this many alerts, one summary notification replaces individual ones
+const MAX_NOTIFICATIONS = 3;
+
+/**
+ * Rolling z-scores of every issue's sentiment and prominence in the given
+ * week, against up to `windowWeeks` preceding weeks of its history
+ */
+export function scoreIssueAnomalies(
+  registry: IssueRegistry,
+  weekStart: string,
+  windowWeeks: number = 12
+): IssueAnomalyScore[] {
+  const scores: IssueAnomalyScore[] = [];
+
+  for (const lifecycle of registry.issues) {
+    const idx = lifecycle.weeks.findIndex(week => week.week_start === weekStart);
+    if (idx < 0) continue;
+    const current = lifecycle.weeks[idx];
+    const history = lifecycle.weeks.slice(Math.max(0, idx - windowWeeks), idx);
+
+    const base = { issue_name: lifecycle.issue_name, normalized_name: lifecycle.normalized_name, week_start: weekStart };
+    const sentiment = zScore(
+      current.avg_sentiment,
+      history.map(week => week.avg_sentiment).filter((value): value is number => value !== null),
+      MIN_SENTIMENT_SD
+    );
+    if (sentiment) scores.push({ ...base, metric: 'sentiment', ...sentiment });
+
+    const prominence = zScore(current.prominence, history.map(week => week.prominence), MIN_PROMINENCE_SD);
+    if (prominence) scores.push({ ...base, metric: 'prominence', ...prominence });
+  }
+
+  return scores.sort((a, b) => Math.abs(b.z_score) - Math.abs(a.z_score));
+}
+
+/**
+ * Alerts the enabled rules raise for one weekly report
+ *
+ * @param previous - The week before, to tell crossings and new entries from
+ *   standing conditions (null: an issue counts as new when it had no match
+ *   in the prior week)
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  current: HCRReport,
+  previous: HCRReport | null,
+  anomalies: IssueAnomalyScore[],
+  profileId: string = DEFAULT_PROFILE_ID,
+  taxonomy?: TopicTaxonomy | null
+): AlertRecord[] {
+  const weekStart = current.run_window.window_start;
+  const triggeredAt = new Date().toISOString();
+  const previousByKey = new Map<string, IssueEntry>();
+  previous?.top_issues.forEach(issue => previousByKey.set(resolvePeriodIssue(issue.issue_name, taxonomy).key, issue));
+
+  const alerts: AlertRecord[] = [];
+  const raise = (rule: AlertRule, issueName: string, key: string, value: number, message: string) => {
+    alerts.push({
+      alert_id: `${profileId}_${weekStart}_${rule.id}_${key}`,
+      profile_id: profileId,
+      rule_id: rule.id,
+      rule_name: rule.name,
+      rule_type: rule.type,
+      week_start: weekStart,
+      issue_name: issueName,
+      normalized_name: key,
+      message,
+      value,
+      triggered_at: triggeredAt,
+      read_at: null
+    });
+  };
+
+  for (const rule of rules.filter(r => r.enabled)) {
+    const matchesFilter = (name: string) =>
+      !rule.issueFilter.trim() || name.toLowerCase().includes(rule.issueFilter.trim().toLowerCase());
+
+    if (rule.type === 'anomaly') {
+      anomalies
+        .filter(a => a.metric === rule.metric && Math.abs(a.z_score) >= rule.threshold && matchesFilter(a.issue_name))
+        .forEach(a => {
+          const format = (value: number) => rule.metric === 'prominence' ? `${Math.round(value * 100)}%` : String(Math.round(value));
+          raise(rule, a.issue_name, a.normalized_name, a.z_score,
+            `${a.issue_name} ${rule.metric} ${format(a.value)} is ${a.z_score > 0 ? '+' : ''}${a.z_score.toFixed(1)}σ from its ${a.baseline_weeks}-week average of ${format(a.baseline_mean)}.`);
+        });
+      continue;
+    }
+
+    for (const issue of current.top_issues) {
+      if (!matchesFilter(issue.issue_name)) continue;
+      const key = resolvePeriodIssue(issue.issue_name, taxonomy).key;
+      const prior = previousByKey.get(key);
+
+      if (rule.type === 'enters-top') {
+        const isNew = previous
+          ? !prior || prior.rank_this_week > rule.threshold
+          : issue.delta_vs_prior_week === 'unknown';
+        const episodes = issue.episode_count ?? 0;
+        if (issue.rank_this_week <= rule.threshold && isNew && episodes > rule.minEpisodes) {
+          raise(rule, issue.issue_name, key, issue.rank_this_week,
+            `${issue.issue_name} entered the top ${rule.threshold} at #${issue.rank_this_week}, mentioned in ${episodes} episodes.`);
+        }
+        continue;
+      }
+
+      const sentiment = issue.sentiment_index;
+      const priorSentiment = prior?.sentiment_index;
+      if (typeof sentiment !== 'number') continue;
+      const below = rule.type === 'sentiment-below';
+      const crossed = below ? sentiment < rule.threshold : sentiment > rule.threshold;
+      // Already past the threshold last week: not a new crossing
+      const wasPast = typeof priorSentiment === 'number'
+        && (below ? priorSentiment < rule.threshold : priorSentiment > rule.threshold);
+      if (crossed && !wasPast) {
+        raise(rule, issue.issue_name, key, sentiment,
+          `${issue.issue_name} sentiment ${below ? 'fell' : 'rose'} to ${sentiment}${typeof priorSentiment === 'number' ? ` from ${priorSentiment}` : ''} (${below ? 'below' : 'above'} ${rule.threshold}).`);
+      }
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Check the latest composed week of a run against the alert rules, store new
+ * alerts in the inbox and show them as browser notifications when enabled.
+ * Never fails the caller.
+ *
+ * @returns Alerts raised for the first time
+ */
+export async function checkRunAlerts(
+  weeklyReports: HCRReport[],
+  profileId: string = DEFAULT_PROFILE_ID,
+  taxonomy?: TopicTaxonomy | null,
+  config: AppConfig = getConfig()
+): Promise<AlertRecord[]> {
+  try {
+    const rules = config.alerts.rules.filter(rule => rule.enabled);
+    const weeks = weeklyReports
+      .filter(report => !report.isAggregated)
+      .sort((a, b) => a.run_window.window_start.localeCompare(b.run_window.window_start));
+    const currentIdx = weeks.map(report => report.sources_analyzed.length > 0).lastIndexOf(true);
+    if (rules.length === 0 || currentIdx < 0) return [];
+
+    const current = weeks[currentIdx];
+    const anomalies = rules.some(rule => rule.type === 'anomaly')
+      ? scoreIssueAnomalies(await loadIssueRegistry(profileId, config), current.run_window.window_start, config.alerts.anomalyWindowWeeks)
+      : [];
+    const raised = evaluateAlertRules(rules, current, weeks[currentIdx - 1] ?? null, anomalies, profileId, taxonomy);
+
+    const known = new Set<string>((await getAllAlerts(profileId)).map(alert => alert.alert_id));
+    const fresh = raised.filter(alert => !known.has(alert.alert_id));
+    await saveAlerts(fresh);
+    console.log(`[Alerts] ${fresh.length} new alert(s) for week starting ${current.run_window.window_start} (profile "${profileId}")`);
+
+    if (config.alerts.browserNotifications) {
+      notifyAlerts(fresh);
+    }
+    return fresh;
+  } catch (error) {
+    console.warn('[Alerts] Could not check alert rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Ask for permission to show browser notifications
+ *
+ * @returns Whether notifications may be shown
+ */
+export async function requestAlertNotificationPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+/**
+ * Mark alerts as read (all unread alerts of the profile when no IDs are given)
+ */
+export async function markAlertsRead(profileId: string, alertIds?: string[]): Promise<void> {
+  const readAt = new Date().toISOString();
+  const unread = (await getAllAlerts(profileId))
+    .filter(alert => !alert.read_at && (!alertIds || alertIds.includes(alert.alert_id)));
+  await saveAlerts(unread.map(alert => ({ ...alert, read_at: readAt })));
+}
+
+function notifyAlerts(alerts: AlertRecord[]): void {
+  if (alerts.length === 0 || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  if (alerts.length > MAX_NOTIFICATIONS) {
+    new Notification(`${alerts.length} new alerts`, {
+      body: alerts.slice(0, MAX_NOTIFICATIONS).map(alert => alert.message).join('\n'),
+      tag: `alerts-${alerts[0].week_start}`
+    });
+    return;
+  }
+  alerts.forEach(alert => {
+    new Notification(alert.rule_name, { body: alert.message, tag: alert.alert_id });
+  });
+}
+
+function zScore(
+  value: number | null,
+  history: number[],
+  minSd: number
+): Pick<IssueAnomalyScore, 'value' | 'baseline_mean' | 'baseline_sd' | 'baseline_weeks' | 'z_score'> | null {
+  if (value === null || history.length < MIN_ANOMALY_HISTORY) return null;
+  const mean = history.reduce((sum, v) => sum + v, 0) / history.length;
+  const sd = Math.sqrt(history.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (history.length - 1));
+  return {
+    value,
+    baseline_mean: Number(mean.toFixed(3)),
+    baseline_sd: Number(sd.toFixed(3)),
+    baseline_weeks: history.length,
+    z_score: Number(((value - mean) / Math.max(sd, minSd)).toFixed(2))
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Database Backup and Restore
+ *
+ * A backup archive holds every IndexedDB object store (episodes, weekly
+ * aggregations, search cache, transcripts, jobs, profiles, taxonomy, ...) and
+ * the app configuration, so an analyzed library can move to another browser
+ * or machine without re-spending API calls.
+ *
+ * The provider API key is never written to an archive; restoring settings
+ * keeps the local key. Archives carry their own format version and the
+ * database and framework versions they were taken from; restore refuses
+ * archives from a newer app and warns when episodes were analyzed under a
+ * different framework version (they will be picked up by reprocessing).
+ */
+
+import { getConfig, refreshConfig, saveConfig, type AppConfig } from '../constants/config';
+import { FRAMEWORK_VERSION } from '../constants/frameworkVersion';
+import { formatSchemaIssues, validateValue, type ObjectSchema, type Schema } from '../utils/schema';
+import { DB_VERSION, getStoreKeyPaths, readAllStores, writeStoreRecords, type RecordWriteMode } from './episodeDB';
+
+export const BACKUP_FORMAT = 'hcr-database-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface DatabaseBackup {
+  format: typeof BACKUP_FORMAT;
+  format_version: number;
+  created_at: string;            // ISO timestamp
+  db_version: number;            // IndexedDB schema version the stores were read from
+  framework_version: string;     // FRAMEWORK_VERSION of the app that took the backup
+  config: AppConfig;             // Provider API key left empty
+  stores: Record<string, unknown[]>;
+  partial?: boolean;             // Holds only some records (e.g. archived old episodes); cannot be restored with replace
+}
+
+/**
+ * How archive records combine with the local database:
+ * - merge: local records win on conflicts, everything else is added
+ * - merge-overwrite: archive records win on conflicts
+ * - replace: stores in the archive are cleared first (not for partial archives)
+ */
+export type RestoreStrategy = 'merge' | 'merge-overwrite' | 'replace';
+
+export const RESTORE_STRATEGY_LABELS: Record<RestoreStrategy, string> = {
+  'merge': 'Merge (keep local records on conflicts)',
+  'merge-overwrite': 'Merge (archive records win on conflicts)',
+  'replace': 'Replace local data'
+};
+
+const WRITE_MODES: Record<RestoreStrategy, RecordWriteMode> = {
+  'merge': 'keep-existing',
+  'merge-overwrite': 'overwrite',
+  'replace': 'replace'
+};
+
+// ===== Record shapes checked before restore =====
+// Stores whose records feed ranking, the dashboard and version diffs; a
+// malformed record there breaks the app long after the restore.
+
+const STRING: Schema = { type: 'string' };
+const STRING_LIST: Schema = { type: 'array', items: STRING };
+const SCORE_0_100: Schema = { type: 'number', minimum: 0, maximum: 100 };
+const UNIT_INTERVAL: Schema = { type: 'number', minimum: 0, maximum: 1 };
+
+const TOPIC_RECORD_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    topic_name: STRING,
+    sentiment_score: SCORE_0_100,
+    confidence: UNIT_INTERVAL,
+    evidence_quotes: STRING_LIST,
+    evidence_offsets: { type: 'array', items: { type: 'string', nullable: true } },
+    prominence_score: UNIT_INTERVAL
+  },
+  required: ['topic_name', 'sentiment_score', 'confidence', 'evidence_quotes', 'prominence_score']
+};
+
+const EPISODE_RECORD_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    episode_id: STRING,
+    show_name: STRING,
+    title: STRING,
+    published_at: { type: 'string', format: 'date' },
+    topics: { type: 'array', items: TOPIC_RECORD_SCHEMA },
+    overall_sentiment: SCORE_0_100,
+    focus_relevance: UNIT_INTERVAL,
+    key_quotes: STRING_LIST,
+    framework_version: STRING,
+    processed_at: STRING,
+    model_used: STRING
+  },
+  required: ['episode_id', 'show_name', 'title', 'published_at', 'topics', 'overall_sentiment', 'key_quotes', 'framework_version', 'processed_at', 'model_used']
+};
+
+const RECORD_SCHEMAS: Record<string, ObjectSchema> = {
+  episodes: EPISODE_RECORD_SCHEMA,
+  episodeVersions: {
+    type: 'object',
+    properties: {
+      version_id: STRING,
+      episode_id: STRING,
+      framework_version: STRING,
+      model_used: STRING,
+      processed_at: STRING,
+      active: { type: 'boolean' },
+      insight: EPISODE_RECORD_SCHEMA
+    },
+    required: ['version_id', 'episode_id', 'framework_version', 'model_used', 'processed_at', 'active', 'insight']
+  },
+  weeklyAggregations: {
+    type: 'object',
+    properties: {
+      week_start: { type: 'string', format: 'date' },
+      week_end: STRING,
+      episode_ids: STRING_LIST,
+      top_issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            issue_name: STRING,
+            avg_sentiment: { type: 'number' },
+            confidence: { type: 'number' },
+            episode_count: { type: 'number' },
+            evidence: { type: 'array', items: { type: 'object', properties: {} } }
+          },
+          required: ['issue_name', 'avg_sentiment', 'confidence', 'episode_count', 'evidence']
+        }
+      },
+      computed_at: STRING,
+      framework_version: STRING
+    },
+    required: ['week_start', 'week_end', 'episode_ids', 'top_issues', 'computed_at', 'framework_version']
+  }
+};
+
+export interface BackupValidation {
+  backup: DatabaseBackup;
+  recordCounts: Record<string, number>;
+  warnings: string[];
+}
+
+export interface RestoreResult {
+  strategy: RestoreStrategy;
+  stores: Record<string, { written: number; skipped: number }>;
+  configRestored: boolean;
+  warnings: string[];
+}
+
+/**
+ * Read every object store and the configuration into an archive
+ */
+export async function createDatabaseBackup(): Promise<DatabaseBackup> {
+  const config = getConfig();
+  const backup: DatabaseBackup = {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    created_at: new Date().toISOString(),
+    db_version: DB_VERSION,
+    framework_version: FRAMEWORK_VERSION,
+    config: { ...config, provider: { ...config.provider, apiKey: '' } },
+    stores: await readAllStores()
+  };
+
+  const total = Object.values(backup.stores).reduce((sum, records) => sum + records.length, 0);
+  console.log(`[DatabaseBackup] Backed up ${total} records from ${Object.keys(backup.stores).length} stores`);
+  return backup;
+}
+
+/**
+ * Check that parsed JSON is a backup archive this app can restore, including
+ * the shape of every episode, version and weekly aggregation record
+ *
+ * @throws Error describing the first structural problem found
+ */
+export function validateDatabaseBackup(data: unknown): BackupValidation {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Not a backup archive: expected a JSON object.');
+  }
+  const archive = data as Partial<DatabaseBackup>;
+  if (archive.format !== BACKUP_FORMAT) {
+    throw new Error('Not a backup archive: missing or unknown "format". Single reports are imported with the Import button instead.');
+  }
+  if (typeof archive.format_version !== 'number' || archive.format_version > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Archive format version ${archive.format_version} is newer than this app supports (${BACKUP_FORMAT_VERSION}). Update the app first.`);
+  }
+  if (typeof archive.db_version !== 'number' || archive.db_version > DB_VERSION) {
+    throw new Error(`Archive was taken from database version ${archive.db_version}, newer than this app's (${DB_VERSION}). Update the app first.`);
+  }
+  if (!archive.stores || typeof archive.stores !== 'object' || Array.isArray(archive.stores)) {
+    throw new Error('Archive has no "stores" section.');
+  }
+  const invalidStore = Object.entries(archive.stores).find(([, records]) => !Array.isArray(records));
+  if (invalidStore) {
+    throw new Error(`Archive store "${invalidStore[0]}" is not a list of records.`);
+  }
+  if (archive.config !== undefined && (typeof archive.config !== 'object' || archive.config === null)) {
+    throw new Error('Archive "config" section is not an object.');
+  }
+  for (const [name, schema] of Object.entries(RECORD_SCHEMAS)) {
+    const records = (archive.stores[name] ?? []) as unknown[];
+    for (let i = 0; i < records.length; i++) {
+      const issues = validateValue(records[i], schema);
+      if (issues.length > 0) {
+        throw new Error(`Record ${i + 1} of store "${name}" is malformed (${formatSchemaIssues(issues, 3)}). The archive may be damaged; nothing was restored.`);
+      }
+    }
+  }
+
+  const warnings: string[] = [];
+  if (archive.framework_version !== FRAMEWORK_VERSION) {
+    warnings.push(`Archive was taken under framework ${archive.framework_version ?? 'unknown'} (current: ${FRAMEWORK_VERSION}). Episodes analyzed under other versions are flagged for reprocessing.`);
+  }
+
+  const recordCounts = Object.fromEntries(
+    Object.entries(archive.stores).map(([name, records]) => [name, (records as unknown[]).length])
+  );
+  return { backup: archive as DatabaseBackup, recordCounts, warnings };
+}
+
+/**
+ * Restore an archive into the local database (in one transaction) and,
+ * optionally, its settings
+ */
+export async function restoreDatabaseBackup(
+  backup: DatabaseBackup,
+  options: { strategy: RestoreStrategy; includeConfig: boolean }
+): Promise<RestoreResult> {
+  const { warnings } = validateDatabaseBackup(backup);
+  if (backup.partial && options.strategy === 'replace') {
+    throw new Error('This archive holds only part of a library (e.g. archived old episodes), so replacing local data with it would delete everything else. Restore it with a Merge strategy.');
+  }
+  const keyPaths = await getStoreKeyPaths();
+
+  const stores: Record<string, unknown[]> = {};
+  for (const [name, records] of Object.entries(backup.stores)) {
+    const keyPath = keyPaths[name];
+    if (!keyPath) {
+      warnings.push(`Skipped unknown store "${name}".`);
+      continue;
+    }
+    const missingKey = records.findIndex(record =>
+      !record || typeof record !== 'object' || typeof (record as Record<string, unknown>)[keyPath] !== 'string');
+    if (missingKey >= 0) {
+      throw new Error(`Record ${missingKey + 1} of store "${name}" has no "${keyPath}". The archive may be damaged; nothing was restored.`);
+    }
+    stores[name] = records;
+  }
+
+  const written = await writeStoreRecords(stores, WRITE_MODES[options.strategy]);
+
+  let configRestored = false;
+  if (options.includeConfig && backup.config) {
+    const localApiKey = getConfig().provider.apiKey;
+    saveConfig({ ...backup.config, provider: { ...backup.config.provider, apiKey: localApiKey } });
+    refreshConfig();
+    configRestored = true;
+  }
+
+  const total = Object.values(written).reduce((sum, count) => sum + count.written, 0);
+  console.log(`[DatabaseBackup] Restored ${total} records (${options.strategy})${configRestored ? ' and settings' : ''}`);
+  return { strategy: options.strategy, stores: written, configRestored, warnings };
+}
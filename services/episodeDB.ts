@@ -1,9 +1,12 @@
-import { openDB, IDBPDatabase, DBSchema } from 'idb';
-import type { EpisodeInsight, WeeklyAggregation, SearchCacheEntry } from '../types';
+import { openDB, IDBPDatabase, IDBPObjectStore, IDBPTransaction, DBSchema, StoreKey, StoreNames, StoreValue } from 'idb';
+import type { EpisodeInsight, WeeklyAggregation, SearchCacheEntry, TranscriptRecord, FailedEpisode, ProcessingJob, SourceProfile, TopicTaxonomy, TopicEmbedding, ForecastRecord, AlertRecord, MergeDecision, EpisodeVersion } from '../types';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { DEFAULT_FOCUS, cloneFocus } from '../constants/focusPresets';
+import { focusRelevanceFromLegacyFlag } from '../utils/aggregation';
 
 // Database name and version
 const DB_NAME = 'HCR_EpisodeInsightsDB';
-const DB_VERSION = 2; // Updated to v2 to add searchCache object store
+const DB_VERSION = 13; // v2 added searchCache, v3 added transcripts, v4 added failedEpisodes, v5 added processingJobs, v6 added sourceProfiles and keyed weeklyAggregations by profile, v7 replaced trump_admin_focus/focus_topic with focus_relevance/focus, v8 added topicTaxonomy, v9 added topicEmbeddings, v10 added forecasts, v11 added alerts, v12 added mergeLog, v13 added episodeVersions
 
 // Database schema definition for TypeScript
 interface EpisodeDBSchema extends DBSchema {
@@ -17,10 +20,11 @@ interface EpisodeDBSchema extends DBSchema {
     };
   };
   weeklyAggregations: {
-    key: string; // week_start (YYYY-MM-DD)
+    key: string; // cache_key ("{profile_id}_{week_start}")
     value: WeeklyAggregation;
     indexes: {
       'by-framework-version': string; // framework_version
+      'by-profile': string; // profile_id
     };
   };
   searchCache: {
@@ -30,6 +34,114 @@ interface EpisodeDBSchema extends DBSchema {
       'by-expires-at': string; // expires_at (for cleanup)
     };
   };
+  transcripts: {
+    key: string; // episode_id
+    value: TranscriptRecord;
+    indexes: {
+      'by-published-date': string; // published_at
+    };
+  };
+  failedEpisodes: {
+    key: string; // episode_id
+    value: FailedEpisode;
+    indexes: {
+      'by-status': string; // status
+    };
+  };
+  processingJobs: {
+    key: string; // job_id
+    value: ProcessingJob;
+    indexes: {
+      'by-status': string; // status
+      'by-created-at': string; // created_at
+    };
+  };
+  sourceProfiles: {
+    key: string; // profile_id
+    value: SourceProfile;
+  };
+  topicTaxonomy: {
+    key: string; // taxonomy_id
+    value: TopicTaxonomy;
+  };
+  topicEmbeddings: {
+    key: string; // cache_key
+    value: TopicEmbedding;
+  };
+  forecasts: {
+    key: string; // forecast_id
+    value: ForecastRecord;
+    indexes: {
+      'by-profile': string; // profile_id
+      'by-week': string; // week_start (the forecast week)
+    };
+  };
+  alerts: {
+    key: string; // alert_id
+    value: AlertRecord;
+    indexes: {
+      'by-profile': string; // profile_id
+      'by-triggered-at': string; // triggered_at
+    };
+  };
+  mergeLog: {
+    key: string; // decision_id
+    value: MergeDecision;
+    indexes: {
+      'by-merge': string; // merge_id
+      'by-episode': string; // episode_id
+    };
+  };
+  episodeVersions: {
+    key: string; // version_id
+    value: EpisodeVersion;
+    indexes: {
+      'by-episode': string; // episode_id
+    };
+  };
+}
+
+// Records as stored before v7
+type LegacyFocusEpisode = EpisodeInsight & { trump_admin_focus?: boolean };
+type LegacyFocusProfile = SourceProfile & { focus_topic?: string };
+
+/**
+ * v7 migration: replace the `trump_admin_focus` flag of stored episodes with a
+ * `focus_relevance` score, and the `focus_topic` string of stored profiles
+ * with a focus definition. Runs inside the upgrade transaction.
+ */
+async function migrateLegacyFocus(
+  transaction: IDBPTransaction<EpisodeDBSchema, StoreNames<EpisodeDBSchema>[], 'versionchange'>
+): Promise<void> {
+  let migratedEpisodes = 0;
+  let episodeCursor = await transaction.objectStore('episodes').openCursor();
+  while (episodeCursor) {
+    const episode = episodeCursor.value as LegacyFocusEpisode;
+    if (typeof episode.focus_relevance !== 'number') {
+      const { trump_admin_focus, ...rest } = episode;
+      await episodeCursor.update({
+        ...rest,
+        focus_relevance: focusRelevanceFromLegacyFlag(trump_admin_focus ?? false, episode.topics ?? [])
+      });
+      migratedEpisodes++;
+    }
+    episodeCursor = await episodeCursor.continue();
+  }
+
+  let profileCursor = await transaction.objectStore('sourceProfiles').openCursor();
+  while (profileCursor) {
+    const profile = profileCursor.value as LegacyFocusProfile;
+    if (!profile.focus) {
+      const { focus_topic, ...rest } = profile;
+      const focus = !focus_topic || focus_topic === DEFAULT_FOCUS.name
+        ? cloneFocus(DEFAULT_FOCUS)
+        : { name: focus_topic, description: '', inclusion_criteria: [], exclusion_criteria: [], example_topics: [] };
+      await profileCursor.update({ ...rest, focus });
+    }
+    profileCursor = await profileCursor.continue();
+  }
+
+  console.log(`Migrated focus of ${migratedEpisodes} episode(s) to focus_relevance`);
 }
 
 // Database instance cache
@@ -63,14 +175,22 @@ export async function initDB(): Promise<IDBPDatabase<EpisodeDBSchema>> {
           console.log('Created "episodes" object store with indexes');
         }
 
+        // v6 keys the weekly aggregation cache by profile; drop the old week-keyed cache
+        // (cached weeks are recomputed from episodes on the next run)
+        if (oldVersion < 6 && db.objectStoreNames.contains('weeklyAggregations')) {
+          db.deleteObjectStore('weeklyAggregations');
+          console.log('Dropped week-keyed "weeklyAggregations" store for re-keying by profile');
+        }
+
         // Create weeklyAggregations object store if it doesn't exist
         if (!db.objectStoreNames.contains('weeklyAggregations')) {
           const weeklyStore = db.createObjectStore('weeklyAggregations', {
-            keyPath: 'week_start',
+            keyPath: 'cache_key',
           });
 
-          // Create index for framework version
+          // Create indexes for framework version and profile
           weeklyStore.createIndex('by-framework-version', 'framework_version');
+          weeklyStore.createIndex('by-profile', 'profile_id');
 
           console.log('Created "weeklyAggregations" object store with indexes');
         }
@@ -86,6 +206,121 @@ export async function initDB(): Promise<IDBPDatabase<EpisodeDBSchema>> {
 
           console.log('Created "searchCache" object store with indexes');
         }
+
+        // Create transcripts object store if it doesn't exist
+        if (!db.objectStoreNames.contains('transcripts')) {
+          const transcriptStore = db.createObjectStore('transcripts', {
+            keyPath: 'episode_id',
+          });
+
+          transcriptStore.createIndex('by-published-date', 'published_at');
+
+          console.log('Created "transcripts" object store with indexes');
+        }
+
+        // Create failedEpisodes object store if it doesn't exist
+        if (!db.objectStoreNames.contains('failedEpisodes')) {
+          const failedStore = db.createObjectStore('failedEpisodes', {
+            keyPath: 'episode_id',
+          });
+
+          failedStore.createIndex('by-status', 'status');
+
+          console.log('Created "failedEpisodes" object store with indexes');
+        }
+
+        // Create processingJobs object store if it doesn't exist
+        if (!db.objectStoreNames.contains('processingJobs')) {
+          const jobStore = db.createObjectStore('processingJobs', {
+            keyPath: 'job_id',
+          });
+
+          jobStore.createIndex('by-status', 'status');
+          jobStore.createIndex('by-created-at', 'created_at');
+
+          console.log('Created "processingJobs" object store with indexes');
+        }
+
+        // Create sourceProfiles object store if it doesn't exist
+        if (!db.objectStoreNames.contains('sourceProfiles')) {
+          db.createObjectStore('sourceProfiles', {
+            keyPath: 'profile_id',
+          });
+
+          console.log('Created "sourceProfiles" object store');
+        }
+
+        // Create topicTaxonomy object store if it doesn't exist
+        if (!db.objectStoreNames.contains('topicTaxonomy')) {
+          db.createObjectStore('topicTaxonomy', {
+            keyPath: 'taxonomy_id',
+          });
+
+          console.log('Created "topicTaxonomy" object store');
+        }
+
+        // Create topicEmbeddings object store if it doesn't exist
+        if (!db.objectStoreNames.contains('topicEmbeddings')) {
+          db.createObjectStore('topicEmbeddings', {
+            keyPath: 'cache_key',
+          });
+
+          console.log('Created "topicEmbeddings" object store');
+        }
+
+        // Create forecasts object store if it doesn't exist
+        if (!db.objectStoreNames.contains('forecasts')) {
+          const forecastStore = db.createObjectStore('forecasts', {
+            keyPath: 'forecast_id',
+          });
+
+          forecastStore.createIndex('by-profile', 'profile_id');
+          forecastStore.createIndex('by-week', 'week_start');
+
+          console.log('Created "forecasts" object store with indexes');
+        }
+
+        // Create alerts object store if it doesn't exist
+        if (!db.objectStoreNames.contains('alerts')) {
+          const alertStore = db.createObjectStore('alerts', {
+            keyPath: 'alert_id',
+          });
+
+          alertStore.createIndex('by-profile', 'profile_id');
+          alertStore.createIndex('by-triggered-at', 'triggered_at');
+
+          console.log('Created "alerts" object store with indexes');
+        }
+
+        // Create library merge decision log if it doesn't exist
+        if (!db.objectStoreNames.contains('mergeLog')) {
+          const mergeLogStore = db.createObjectStore('mergeLog', {
+            keyPath: 'decision_id',
+          });
+
+          mergeLogStore.createIndex('by-merge', 'merge_id');
+          mergeLogStore.createIndex('by-episode', 'episode_id');
+
+          console.log('Created "mergeLog" object store with indexes');
+        }
+
+        // Create episode version history if it doesn't exist
+        if (!db.objectStoreNames.contains('episodeVersions')) {
+          const versionStore = db.createObjectStore('episodeVersions', {
+            keyPath: 'version_id',
+          });
+
+          versionStore.createIndex('by-episode', 'episode_id');
+
+          console.log('Created "episodeVersions" object store with indexes');
+        }
+
+        // v7 replaced the hard-wired focus flag with a focus relevance score
+        if (oldVersion > 0 && oldVersion < 7) {
+          migrateLegacyFocus(transaction).catch(error => {
+            console.error('Failed to migrate legacy focus fields:', error);
+          });
+        }
       },
       blocked() {
         console.warn('Database upgrade blocked - another tab may have an older version open');
@@ -191,6 +426,44 @@ export async function getStorageEstimate(): Promise<{ usage: number; quota: numb
   }
 }
 
+/**
+ * Whether the browser has granted persistent storage (null when the API is not supported)
+ */
+export async function isStoragePersisted(): Promise<boolean | null> {
+  if (!navigator.storage || !navigator.storage.persisted) {
+    return null;
+  }
+
+  try {
+    return await navigator.storage.persisted();
+  } catch (error) {
+    console.error('Failed to check persistent storage:', error);
+    return null;
+  }
+}
+
+/**
+ * Ask the browser not to evict this origin's data under storage pressure.
+ * Browsers may grant it silently, prompt the user, or refuse.
+ *
+ * @returns Whether storage is persistent afterwards (null when the API is not supported)
+ */
+export async function requestPersistentStorage(): Promise<boolean | null> {
+  if (!navigator.storage || !navigator.storage.persist) {
+    console.warn('Persistent storage API not supported');
+    return null;
+  }
+
+  try {
+    const persisted = await navigator.storage.persist();
+    console.log(`Persistent storage ${persisted ? 'granted' : 'not granted'}`);
+    return persisted;
+  } catch (error) {
+    console.error('Failed to request persistent storage:', error);
+    return null;
+  }
+}
+
 // Export database constants for use in other modules
 export { DB_NAME, DB_VERSION };
 
@@ -198,14 +471,67 @@ export { DB_NAME, DB_VERSION };
 // Episode CRUD Operations
 // ============================================================================
 
+type EpisodeWriteStore<Name extends 'episodes' | 'episodeVersions'> =
+  IDBPObjectStore<EpisodeDBSchema, ArrayLike<StoreNames<EpisodeDBSchema>>, Name, 'readwrite'>;
+
+/**
+ * Version history key of an analysis: one version per framework version and model
+ */
+export function episodeVersionId(episode: Pick<EpisodeInsight, 'episode_id' | 'framework_version' | 'model_used'>): string {
+  return `${episode.episode_id}|${episode.framework_version}|${episode.model_used}`;
+}
+
+function toEpisodeVersion(insight: EpisodeInsight, active: boolean): EpisodeVersion {
+  return {
+    version_id: episodeVersionId(insight),
+    episode_id: insight.episode_id,
+    framework_version: insight.framework_version,
+    model_used: insight.model_used,
+    processed_at: insight.processed_at,
+    active,
+    insight
+  };
+}
+
+/**
+ * Make an analysis the episode's active one. History is only kept once an
+ * episode has more than one analysis: replacing a different analysis stores
+ * both as versions, so single-analysis episodes cost no extra space.
+ */
+async function putActiveEpisode(
+  episodes: EpisodeWriteStore<'episodes'>,
+  versions: EpisodeWriteStore<'episodeVersions'>,
+  episode: EpisodeInsight
+): Promise<void> {
+  const previous = await episodes.get(episode.episode_id);
+  const history = await versions.index('by-episode').getAll(episode.episode_id);
+  const versionId = episodeVersionId(episode);
+
+  if (previous && episodeVersionId(previous) !== versionId && !history.some(v => v.version_id === episodeVersionId(previous))) {
+    history.push(toEpisodeVersion(previous, true));
+  }
+  if (history.length > 0) {
+    for (const version of history) {
+      if (version.version_id !== versionId && version.active) {
+        await versions.put({ ...version, active: false });
+      }
+    }
+    await versions.put(toEpisodeVersion(episode, true));
+  }
+  await episodes.put(episode);
+}
+
 /**
  * Save an episode insight to the database
- * If episode already exists, it will be updated
+ * If episode already exists, it will be updated (a different framework
+ * version or model keeps the previous analysis in the version history)
  */
 export async function saveEpisode(episode: EpisodeInsight): Promise<void> {
   try {
     const db = await getDB();
-    await db.put('episodes', episode);
+    const tx = db.transaction(['episodes', 'episodeVersions'], 'readwrite');
+    await putActiveEpisode(tx.objectStore('episodes'), tx.objectStore('episodeVersions'), episode);
+    await tx.done;
     console.log(`Saved episode: ${episode.episode_id}`);
   } catch (error) {
     console.error(`Failed to save episode ${episode.episode_id}:`, error);
@@ -230,8 +556,14 @@ export async function getEpisode(episodeId: string): Promise<EpisodeInsight | nu
 /**
  * Get all episodes within a date range (inclusive)
  * Uses the by-published-date index for efficient querying
+ * When profileId is given, only that source profile's episodes are returned
+ * (episodes without a profile_id belong to the default profile)
  */
-export async function getEpisodesByDateRange(startDate: string, endDate: string): Promise<EpisodeInsight[]> {
+export async function getEpisodesByDateRange(
+  startDate: string,
+  endDate: string,
+  profileId?: string
+): Promise<EpisodeInsight[]> {
   try {
     const db = await getDB();
     const tx = db.transaction('episodes', 'readonly');
@@ -240,9 +572,12 @@ export async function getEpisodesByDateRange(startDate: string, endDate: string)
     // Get all episodes in the date range using the index
     // Include timestamped values on the end date (e.g., "YYYY-MM-DDTHH:mm:ssZ") by widening the upper bound.
     const upperBound = `${endDate}\uffff`;
-    const episodes = await index.getAll(IDBKeyRange.bound(startDate, upperBound));
+    const inRange = await index.getAll(IDBKeyRange.bound(startDate, upperBound));
 
     await tx.done;
+    const episodes = profileId === undefined
+      ? inRange
+      : inRange.filter(ep => (ep.profile_id ?? DEFAULT_PROFILE_ID) === profileId);
     console.log(`Retrieved ${episodes.length} episodes between ${startDate} and ${endDate}`);
     return episodes;
   } catch (error) {
@@ -309,12 +644,18 @@ export async function getEpisodesByFrameworkVersion(version: string): Promise<Ep
 }
 
 /**
- * Delete a single episode by ID
+ * Delete a single episode by ID, with its version history
  */
 export async function deleteEpisode(episodeId: string): Promise<void> {
   try {
     const db = await getDB();
-    await db.delete('episodes', episodeId);
+    const tx = db.transaction(['episodes', 'episodeVersions'], 'readwrite');
+    const versionIds = await tx.objectStore('episodeVersions').index('by-episode').getAllKeys(episodeId);
+    await Promise.all([
+      tx.objectStore('episodes').delete(episodeId),
+      ...versionIds.map(versionId => tx.objectStore('episodeVersions').delete(versionId)),
+      tx.done
+    ]);
     console.log(`Deleted episode: ${episodeId}`);
   } catch (error) {
     console.error(`Failed to delete episode ${episodeId}:`, error);
@@ -329,7 +670,7 @@ export async function deleteEpisode(episodeId: string): Promise<void> {
 export async function clearAllEpisodes(): Promise<void> {
   try {
     const db = await getDB();
-    await db.clear('episodes');
+    await Promise.all([db.clear('episodes'), db.clear('episodeVersions')]);
     console.log('Cleared all episodes from database');
   } catch (error) {
     console.error('Failed to clear all episodes:', error);
@@ -344,13 +685,12 @@ export async function clearAllEpisodes(): Promise<void> {
 export async function saveEpisodesBatch(episodes: EpisodeInsight[]): Promise<void> {
   try {
     const db = await getDB();
-    const tx = db.transaction('episodes', 'readwrite');
-
-    // Queue all put operations
-    const promises = episodes.map(episode => tx.store.put(episode));
+    const tx = db.transaction(['episodes', 'episodeVersions'], 'readwrite');
 
-    // Wait for all operations to complete
-    await Promise.all([...promises, tx.done]);
+    for (const episode of episodes) {
+      await putActiveEpisode(tx.objectStore('episodes'), tx.objectStore('episodeVersions'), episode);
+    }
+    await tx.done;
 
     console.log(`Batch saved ${episodes.length} episodes`);
   } catch (error) {
@@ -363,14 +703,26 @@ export async function saveEpisodesBatch(episodes: EpisodeInsight[]): Promise<voi
 // Weekly Aggregation Operations
 // ============================================================================
 
+/**
+ * Cache key of a profile's weekly aggregation
+ */
+export function weeklyAggregationKey(weekStart: string, profileId: string = DEFAULT_PROFILE_ID): string {
+  return `${profileId}_${weekStart}`;
+}
+
 /**
  * Save a weekly aggregation to the database
- * If aggregation for this week already exists, it will be updated
+ * If aggregation for this week and profile already exists, it will be updated
  */
 export async function saveWeeklyAggregation(aggregation: WeeklyAggregation): Promise<void> {
   try {
     const db = await getDB();
-    await db.put('weeklyAggregations', aggregation);
+    const profileId = aggregation.profile_id ?? DEFAULT_PROFILE_ID;
+    await db.put('weeklyAggregations', {
+      ...aggregation,
+      profile_id: profileId,
+      cache_key: weeklyAggregationKey(aggregation.week_start, profileId)
+    });
     console.log(`Saved weekly aggregation for week: ${aggregation.week_start}`);
   } catch (error) {
     console.error(`Failed to save weekly aggregation for ${aggregation.week_start}:`, error);
@@ -379,12 +731,15 @@ export async function saveWeeklyAggregation(aggregation: WeeklyAggregation): Pro
 }
 
 /**
- * Get a weekly aggregation by week start date
+ * Get a profile's weekly aggregation by week start date
  */
-export async function getWeeklyAggregation(weekStart: string): Promise<WeeklyAggregation | null> {
+export async function getWeeklyAggregation(
+  weekStart: string,
+  profileId: string = DEFAULT_PROFILE_ID
+): Promise<WeeklyAggregation | null> {
   try {
     const db = await getDB();
-    const aggregation = await db.get('weeklyAggregations', weekStart);
+    const aggregation = await db.get('weeklyAggregations', weeklyAggregationKey(weekStart, profileId));
     return aggregation || null;
   } catch (error) {
     console.error(`Failed to get weekly aggregation for ${weekStart}:`, error);
@@ -393,12 +748,14 @@ export async function getWeeklyAggregation(weekStart: string): Promise<WeeklyAgg
 }
 
 /**
- * Get all weekly aggregations
+ * Get all weekly aggregations, optionally only those of one profile
  */
-export async function getAllWeeklyAggregations(): Promise<WeeklyAggregation[]> {
+export async function getAllWeeklyAggregations(profileId?: string): Promise<WeeklyAggregation[]> {
   try {
     const db = await getDB();
-    const aggregations = await db.getAll('weeklyAggregations');
+    const aggregations = profileId === undefined
+      ? await db.getAll('weeklyAggregations')
+      : await db.getAllFromIndex('weeklyAggregations', 'by-profile', profileId);
     console.log(`Retrieved all ${aggregations.length} weekly aggregations`);
     return aggregations;
   } catch (error) {
@@ -408,12 +765,15 @@ export async function getAllWeeklyAggregations(): Promise<WeeklyAggregation[]> {
 }
 
 /**
- * Delete a weekly aggregation by week start date
+ * Delete a profile's weekly aggregation by week start date
  */
-export async function deleteWeeklyAggregation(weekStart: string): Promise<void> {
+export async function deleteWeeklyAggregation(
+  weekStart: string,
+  profileId: string = DEFAULT_PROFILE_ID
+): Promise<void> {
   try {
     const db = await getDB();
-    await db.delete('weeklyAggregations', weekStart);
+    await db.delete('weeklyAggregations', weeklyAggregationKey(weekStart, profileId));
     console.log(`Deleted weekly aggregation for week: ${weekStart}`);
   } catch (error) {
     console.error(`Failed to delete weekly aggregation for ${weekStart}:`, error);
@@ -583,3 +943,963 @@ export async function clearAllSearchCache(): Promise<void> {
     throw new Error(`Failed to clear all search cache: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
+
+/**
+ * Delete a source profile's cached searches (e.g. after its show list changed)
+ */
+export async function clearSearchCacheForProfile(profileId: string): Promise<number> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('searchCache', 'readwrite');
+    const entries = await tx.store.getAll();
+    const matching = entries.filter(entry => (entry.profile_id ?? DEFAULT_PROFILE_ID) === profileId);
+
+    await Promise.all([...matching.map(entry => tx.store.delete(entry.cache_key)), tx.done]);
+    console.log(`Cleared ${matching.length} search cache entries for profile ${profileId}`);
+    return matching.length;
+  } catch (error) {
+    console.error(`Failed to clear search cache for profile ${profileId}:`, error);
+    throw new Error(`Failed to clear search cache for profile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Transcript Operations
+// ============================================================================
+
+/**
+ * Save an imported transcript to the database
+ * If a transcript already exists for this episode, it will be replaced
+ */
+export async function saveTranscript(transcript: TranscriptRecord): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('transcripts', transcript);
+    console.log(`Saved transcript: ${transcript.episode_id}`);
+  } catch (error) {
+    console.error(`Failed to save transcript ${transcript.episode_id}:`, error);
+    throw new Error(`Failed to save transcript: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the transcript for an episode
+ */
+export async function getTranscript(episodeId: string): Promise<TranscriptRecord | null> {
+  try {
+    const db = await getDB();
+    const transcript = await db.get('transcripts', episodeId);
+    return transcript || null;
+  } catch (error) {
+    console.error(`Failed to get transcript ${episodeId}:`, error);
+    throw new Error(`Failed to get transcript: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get all transcripts within a date range (inclusive)
+ * When profileId is given, only transcripts imported for that source profile are returned
+ */
+export async function getTranscriptsByDateRange(
+  startDate: string,
+  endDate: string,
+  profileId?: string
+): Promise<TranscriptRecord[]> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('transcripts', 'readonly');
+    const index = tx.store.index('by-published-date');
+
+    const inRange = await index.getAll(IDBKeyRange.bound(startDate, `${endDate}\uffff`));
+    await tx.done;
+
+    const transcripts = profileId === undefined
+      ? inRange
+      : inRange.filter(t => (t.profile_id ?? DEFAULT_PROFILE_ID) === profileId);
+
+    console.log(`Retrieved ${transcripts.length} transcripts between ${startDate} and ${endDate}`);
+    return transcripts;
+  } catch (error) {
+    console.error(`Failed to get transcripts in date range ${startDate} to ${endDate}:`, error);
+    throw new Error(`Failed to get transcripts by date range: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get all imported transcripts
+ */
+export async function getAllTranscripts(): Promise<TranscriptRecord[]> {
+  try {
+    const db = await getDB();
+    return await db.getAll('transcripts');
+  } catch (error) {
+    console.error('Failed to get all transcripts:', error);
+    throw new Error(`Failed to get all transcripts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete the transcript for an episode
+ */
+export async function deleteTranscript(episodeId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('transcripts', episodeId);
+    console.log(`Deleted transcript: ${episodeId}`);
+  } catch (error) {
+    console.error(`Failed to delete transcript ${episodeId}:`, error);
+    throw new Error(`Failed to delete transcript: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the total count of imported transcripts
+ */
+export async function getTranscriptCount(): Promise<number> {
+  try {
+    const db = await getDB();
+    return await db.count('transcripts');
+  } catch (error) {
+    console.error('Failed to get transcript count:', error);
+    throw new Error(`Failed to get transcript count: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Failed Episode (Quarantine) Operations
+// ============================================================================
+
+/**
+ * Save a failed episode record
+ * If a record already exists for this episode, it will be replaced
+ */
+export async function saveFailedEpisode(failed: FailedEpisode): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('failedEpisodes', failed);
+    console.log(`Saved failed episode: ${failed.episode_id} (attempt ${failed.attempt_count})`);
+  } catch (error) {
+    console.error(`Failed to save failed episode ${failed.episode_id}:`, error);
+    throw new Error(`Failed to save failed episode: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the failed episode record for an episode
+ */
+export async function getFailedEpisode(episodeId: string): Promise<FailedEpisode | null> {
+  try {
+    const db = await getDB();
+    const failed = await db.get('failedEpisodes', episodeId);
+    return failed || null;
+  } catch (error) {
+    console.error(`Failed to get failed episode ${episodeId}:`, error);
+    throw new Error(`Failed to get failed episode: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get all failed episode records, optionally filtered by status
+ */
+export async function getAllFailedEpisodes(status?: FailedEpisode['status']): Promise<FailedEpisode[]> {
+  try {
+    const db = await getDB();
+    if (status) {
+      return await db.getAllFromIndex('failedEpisodes', 'by-status', status);
+    }
+    return await db.getAll('failedEpisodes');
+  } catch (error) {
+    console.error('Failed to get failed episodes:', error);
+    throw new Error(`Failed to get failed episodes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete the failed episode record for an episode
+ */
+export async function deleteFailedEpisode(episodeId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('failedEpisodes', episodeId);
+    console.log(`Deleted failed episode: ${episodeId}`);
+  } catch (error) {
+    console.error(`Failed to delete failed episode ${episodeId}:`, error);
+    throw new Error(`Failed to delete failed episode: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the total count of failed episode records
+ */
+export async function getFailedEpisodeCount(): Promise<number> {
+  try {
+    const db = await getDB();
+    return await db.count('failedEpisodes');
+  } catch (error) {
+    console.error('Failed to get failed episode count:', error);
+    throw new Error(`Failed to get failed episode count: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Processing Job Operations
+// ============================================================================
+
+/**
+ * Save a processing job
+ * If a job with this ID already exists, it will be replaced
+ */
+export async function saveProcessingJob(job: ProcessingJob): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('processingJobs', job);
+  } catch (error) {
+    console.error(`Failed to save processing job ${job.job_id}:`, error);
+    throw new Error(`Failed to save processing job: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get a processing job by ID
+ */
+export async function getProcessingJob(jobId: string): Promise<ProcessingJob | null> {
+  try {
+    const db = await getDB();
+    const job = await db.get('processingJobs', jobId);
+    return job || null;
+  } catch (error) {
+    console.error(`Failed to get processing job ${jobId}:`, error);
+    throw new Error(`Failed to get processing job: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get all processing jobs, newest first, optionally filtered by status
+ */
+export async function getAllProcessingJobs(status?: ProcessingJob['status']): Promise<ProcessingJob[]> {
+  try {
+    const db = await getDB();
+    const jobs = status
+      ? await db.getAllFromIndex('processingJobs', 'by-status', status)
+      : await db.getAllFromIndex('processingJobs', 'by-created-at');
+    return jobs.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  } catch (error) {
+    console.error('Failed to get processing jobs:', error);
+    throw new Error(`Failed to get processing jobs: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete a processing job
+ */
+export async function deleteProcessingJob(jobId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('processingJobs', jobId);
+    console.log(`Deleted processing job: ${jobId}`);
+  } catch (error) {
+    console.error(`Failed to delete processing job ${jobId}:`, error);
+    throw new Error(`Failed to delete processing job: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Source Profile Operations
+// ============================================================================
+
+/**
+ * Save a source profile
+ * If a profile with this ID already exists, it will be replaced
+ */
+export async function saveSourceProfile(profile: SourceProfile): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('sourceProfiles', profile);
+    console.log(`Saved source profile: ${profile.profile_id}`);
+  } catch (error) {
+    console.error(`Failed to save source profile ${profile.profile_id}:`, error);
+    throw new Error(`Failed to save source profile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get a source profile by ID
+ */
+export async function getSourceProfile(profileId: string): Promise<SourceProfile | null> {
+  try {
+    const db = await getDB();
+    const profile = await db.get('sourceProfiles', profileId);
+    return profile || null;
+  } catch (error) {
+    console.error(`Failed to get source profile ${profileId}:`, error);
+    throw new Error(`Failed to get source profile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get all source profiles
+ */
+export async function getAllSourceProfiles(): Promise<SourceProfile[]> {
+  try {
+    const db = await getDB();
+    return await db.getAll('sourceProfiles');
+  } catch (error) {
+    console.error('Failed to get source profiles:', error);
+    throw new Error(`Failed to get source profiles: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete a source profile (its episodes, transcripts and jobs are kept)
+ */
+export async function deleteSourceProfile(profileId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('sourceProfiles', profileId);
+    console.log(`Deleted source profile: ${profileId}`);
+  } catch (error) {
+    console.error(`Failed to delete source profile ${profileId}:`, error);
+    throw new Error(`Failed to delete source profile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Topic Taxonomy Operations
+// ============================================================================
+
+/**
+ * Save the curated topic taxonomy
+ * If a taxonomy with this ID already exists, it will be replaced
+ */
+export async function saveTopicTaxonomy(taxonomy: TopicTaxonomy): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put('topicTaxonomy', taxonomy);
+    console.log(`Saved topic taxonomy: ${taxonomy.taxonomy_id}`);
+  } catch (error) {
+    console.error(`Failed to save topic taxonomy ${taxonomy.taxonomy_id}:`, error);
+    throw new Error(`Failed to save topic taxonomy: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get the curated topic taxonomy by ID
+ */
+export async function getTopicTaxonomy(taxonomyId: string): Promise<TopicTaxonomy | null> {
+  try {
+    const db = await getDB();
+    const taxonomy = await db.get('topicTaxonomy', taxonomyId);
+    return taxonomy || null;
+  } catch (error) {
+    console.error(`Failed to get topic taxonomy ${taxonomyId}:`, error);
+    throw new Error(`Failed to get topic taxonomy: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Topic Embedding Operations
+// ============================================================================
+
+/**
+ * Save topic embeddings in a single transaction
+ */
+export async function saveTopicEmbeddings(embeddings: TopicEmbedding[]): Promise<void> {
+  if (embeddings.length === 0) return;
+  try {
+    const db = await getDB();
+    const tx = db.transaction('topicEmbeddings', 'readwrite');
+    await Promise.all([
+      ...embeddings.map(embedding => tx.store.put(embedding)),
+      tx.done
+    ]);
+  } catch (error) {
+    console.error('Failed to save topic embeddings:', error);
+    throw new Error(`Failed to save topic embeddings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get cached topic embeddings by cache key; keys without a cached vector are omitted
+ */
+export async function getTopicEmbeddings(cacheKeys: string[]): Promise<TopicEmbedding[]> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('topicEmbeddings', 'readonly');
+    const found = await Promise.all(cacheKeys.map(key => tx.store.get(key)));
+    await tx.done;
+    return found.filter((embedding): embedding is TopicEmbedding => !!embedding);
+  } catch (error) {
+    console.error('Failed to get topic embeddings:', error);
+    throw new Error(`Failed to get topic embeddings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete all cached topic embeddings (e.g. after switching embedding models)
+ */
+export async function clearTopicEmbeddings(): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.clear('topicEmbeddings');
+    console.log('Cleared topic embedding cache');
+  } catch (error) {
+    console.error('Failed to clear topic embeddings:', error);
+    throw new Error(`Failed to clear topic embeddings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Forecast Operations
+// ============================================================================
+
+/**
+ * Save forecast records in a single transaction, replacing records with the same ID
+ */
+export async function saveForecasts(records: ForecastRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  try {
+    const db = await getDB();
+    const tx = db.transaction('forecasts', 'readwrite');
+    await Promise.all([
+      ...records.map(record => tx.store.put(record)),
+      tx.done
+    ]);
+  } catch (error) {
+    console.error('Failed to save forecasts:', error);
+    throw new Error(`Failed to save forecasts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get all forecasts of a source profile, optionally only those for one week
+ */
+export async function getForecasts(profileId: string, weekStart?: string): Promise<ForecastRecord[]> {
+  try {
+    const db = await getDB();
+    const records = weekStart
+      ? await db.getAllFromIndex('forecasts', 'by-week', weekStart)
+      : await db.getAllFromIndex('forecasts', 'by-profile', profileId);
+    return records.filter(record => record.profile_id === profileId);
+  } catch (error) {
+    console.error(`Failed to get forecasts for profile ${profileId}:`, error);
+    throw new Error(`Failed to get forecasts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete all stored forecasts
+ */
+export async function clearAllForecasts(): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.clear('forecasts');
+    console.log('Cleared all forecasts');
+  } catch (error) {
+    console.error('Failed to clear forecasts:', error);
+    throw new Error(`Failed to clear forecasts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Alert Operations
+// ============================================================================
+
+/**
+ * Save alerts in a single transaction, replacing alerts with the same ID
+ */
+export async function saveAlerts(alerts: AlertRecord[]): Promise<void> {
+  if (alerts.length === 0) return;
+  try {
+    const db = await getDB();
+    const tx = db.transaction('alerts', 'readwrite');
+    await Promise.all([
+      ...alerts.map(alert => tx.store.put(alert)),
+      tx.done
+    ]);
+  } catch (error) {
+    console.error('Failed to save alerts:', error);
+    throw new Error(`Failed to save alerts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get all alerts, newest first, optionally only those of one source profile
+ */
+export async function getAllAlerts(profileId?: string): Promise<AlertRecord[]> {
+  try {
+    const db = await getDB();
+    const alerts = profileId
+      ? await db.getAllFromIndex('alerts', 'by-profile', profileId)
+      : await db.getAll('alerts');
+    return alerts.sort((a, b) => b.triggered_at.localeCompare(a.triggered_at));
+  } catch (error) {
+    console.error('Failed to get alerts:', error);
+    throw new Error(`Failed to get alerts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete an alert
+ */
+export async function deleteAlert(alertId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('alerts', alertId);
+  } catch (error) {
+    console.error(`Failed to delete alert ${alertId}:`, error);
+    throw new Error(`Failed to delete alert: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete all alerts
+ */
+export async function clearAllAlerts(): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.clear('alerts');
+    console.log('Cleared all alerts');
+  } catch (error) {
+    console.error('Failed to clear alerts:', error);
+    throw new Error(`Failed to clear alerts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Episode Version Operations
+// ============================================================================
+
+/**
+ * Get the stored analyses of an episode, newest first (empty while the
+ * episode has only been analyzed once)
+ */
+export async function getEpisodeVersions(episodeId: string): Promise<EpisodeVersion[]> {
+  try {
+    const db = await getDB();
+    const versions = await db.getAllFromIndex('episodeVersions', 'by-episode', episodeId);
+    return versions.sort((a, b) => b.processed_at.localeCompare(a.processed_at));
+  } catch (error) {
+    console.error(`Failed to get versions of episode ${episodeId}:`, error);
+    throw new Error(`Failed to get episode versions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get every stored episode version
+ */
+export async function getAllEpisodeVersions(): Promise<EpisodeVersion[]> {
+  try {
+    const db = await getDB();
+    return await db.getAll('episodeVersions');
+  } catch (error) {
+    console.error('Failed to get episode versions:', error);
+    throw new Error(`Failed to get episode versions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Store an analysis as an inactive version, leaving the active analysis (and
+ * so every report) unchanged until the version is activated
+ *
+ * @throws Error when the analysis has the active version's framework version and model
+ */
+export async function saveCandidateEpisodeVersion(episode: EpisodeInsight): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['episodes', 'episodeVersions'], 'readwrite');
+    const versions = tx.objectStore('episodeVersions');
+    const active = await tx.objectStore('episodes').get(episode.episode_id);
+    if (active && episodeVersionId(active) === episodeVersionId(episode)) {
+      throw new Error(`the active analysis already uses ${episode.framework_version} with ${episode.model_used}`);
+    }
+    if (active && !(await versions.get(episodeVersionId(active)))) {
+      await versions.put(toEpisodeVersion(active, true));
+    }
+    await versions.put(toEpisodeVersion(episode, !active));
+    if (!active) {
+      await tx.objectStore('episodes').put(episode);
+    }
+    await tx.done;
+  } catch (error) {
+    console.error(`Failed to save candidate version of episode ${episode.episode_id}:`, error);
+    throw new Error(`Failed to save candidate episode version: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Make a stored version the episode's active analysis
+ *
+ * @returns The analysis now in the episodes store
+ */
+export async function activateEpisodeVersion(versionId: string): Promise<EpisodeInsight> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['episodes', 'episodeVersions'], 'readwrite');
+    const version = await tx.objectStore('episodeVersions').get(versionId);
+    if (!version) {
+      throw new Error(`version ${versionId} not found`);
+    }
+    await putActiveEpisode(tx.objectStore('episodes'), tx.objectStore('episodeVersions'), version.insight);
+    await tx.done;
+    console.log(`Activated episode version: ${versionId}`);
+    return version.insight;
+  } catch (error) {
+    console.error(`Failed to activate episode version ${versionId}:`, error);
+    throw new Error(`Failed to activate episode version: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Library Merge Operations
+// ============================================================================
+
+/**
+ * Write merged episodes and the decisions that chose them in one transaction,
+ * so the decision log never disagrees with the episode store
+ */
+export async function commitLibraryMerge(episodes: EpisodeInsight[], decisions: MergeDecision[]): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['episodes', 'episodeVersions', 'mergeLog'], 'readwrite');
+    for (const episode of episodes) {
+      await putActiveEpisode(tx.objectStore('episodes'), tx.objectStore('episodeVersions'), episode);
+    }
+    await Promise.all([
+      ...decisions.map(decision => tx.objectStore('mergeLog').put(decision)),
+      tx.done
+    ]);
+  } catch (error) {
+    console.error('Failed to commit library merge:', error);
+    throw new Error(`Failed to commit library merge: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Get logged merge decisions, newest first, optionally only those of one episode
+ */
+export async function getMergeDecisions(episodeId?: string): Promise<MergeDecision[]> {
+  try {
+    const db = await getDB();
+    const decisions = episodeId
+      ? await db.getAllFromIndex('mergeLog', 'by-episode', episodeId)
+      : await db.getAll('mergeLog');
+    return decisions.sort((a, b) => b.merged_at.localeCompare(a.merged_at) || a.episode_id.localeCompare(b.episode_id));
+  } catch (error) {
+    console.error('Failed to get merge decisions:', error);
+    throw new Error(`Failed to get merge decisions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete the whole merge decision log
+ */
+export async function clearMergeLog(): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.clear('mergeLog');
+    console.log('Cleared merge log');
+  } catch (error) {
+    console.error('Failed to clear merge log:', error);
+    throw new Error(`Failed to clear merge log: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Backup Operations
+// ============================================================================
+
+export type RecordWriteMode = 'keep-existing' | 'overwrite' | 'replace';
+
+/**
+ * Every record of every object store, keyed by store name
+ */
+export async function readAllStores(): Promise<Record<string, unknown[]>> {
+  try {
+    const db = await getDB();
+    const names = Array.from(db.objectStoreNames) as StoreNames<EpisodeDBSchema>[];
+    const tx = db.transaction(names, 'readonly');
+    const contents = await Promise.all(names.map(name => tx.objectStore(name).getAll()));
+    await tx.done;
+    return Object.fromEntries(names.map((name, idx) => [name, contents[idx] as unknown[]]));
+  } catch (error) {
+    console.error('Failed to read object stores:', error);
+    throw new Error(`Failed to read object stores: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Key path (primary key field) of every object store
+ */
+export async function getStoreKeyPaths(): Promise<Record<string, string>> {
+  const db = await getDB();
+  const names = Array.from(db.objectStoreNames) as StoreNames<EpisodeDBSchema>[];
+  const tx = db.transaction(names, 'readonly');
+  const keyPaths = Object.fromEntries(names.map(name => [name, String(tx.objectStore(name).keyPath)]));
+  await tx.done;
+  return keyPaths;
+}
+
+/**
+ * Write records into object stores in a single transaction, so either every
+ * store is written or none is.
+ * - keep-existing: records whose key is already stored are skipped
+ * - overwrite: records replace stored records with the same key
+ * - replace: each written store is cleared first
+ *
+ * Episodes and their version history are written together, the way
+ * saveEpisode writes them: a local analysis they replace is kept as an
+ * inactive version (also under replace) and the restored analysis becomes the
+ * active version. Archived versions never become active next to another
+ * analysis: only the version matching the stored episode is active.
+ *
+ * @returns Written and skipped record counts per store
+ */
+export async function writeStoreRecords(
+  records: Record<string, unknown[]>,
+  mode: RecordWriteMode
+): Promise<Record<string, { written: number; skipped: number }>> {
+  try {
+    const db = await getDB();
+    const names = Object.keys(records) as StoreNames<EpisodeDBSchema>[];
+    const counts: Record<string, { written: number; skipped: number }> = {};
+    if (names.length === 0) return counts;
+
+    const hasEpisodes = names.includes('episodes') || names.includes('episodeVersions');
+    const txNames = hasEpisodes
+      ? Array.from(new Set<StoreNames<EpisodeDBSchema>>([...names, 'episodes', 'episodeVersions']))
+      : names;
+    const tx = db.transaction(txNames, 'readwrite');
+    if (hasEpisodes) {
+      Object.assign(counts, await writeEpisodeRecords(
+        tx.objectStore('episodes'),
+        tx.objectStore('episodeVersions'),
+        records.episodes as EpisodeInsight[] | undefined,
+        records.episodeVersions as EpisodeVersion[] | undefined,
+        mode
+      ));
+    }
+    for (const name of names) {
+      if (name === 'episodes' || name === 'episodeVersions') continue;
+      counts[name] = { written: 0, skipped: 0 };
+
+      const store = tx.objectStore(name);
+      const keyPath = String(store.keyPath);
+      if (mode === 'replace') {
+        await store.clear();
+      }
+      for (const record of records[name] as StoreValue<EpisodeDBSchema, typeof name>[]) {
+        const key = record[keyPath as keyof typeof record] as StoreKey<EpisodeDBSchema, typeof name>;
+        if (mode === 'keep-existing' && (await store.count(key)) > 0) {
+          counts[name].skipped++;
+          continue;
+        }
+        await store.put(record);
+        counts[name].written++;
+      }
+    }
+    await tx.done;
+    return counts;
+  } catch (error) {
+    console.error('Failed to write object stores:', error);
+    throw new Error(`Failed to write object stores: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Write archived episodes and versions (either may be absent from the archive)
+ */
+async function writeEpisodeRecords(
+  episodes: EpisodeWriteStore<'episodes'>,
+  versions: EpisodeWriteStore<'episodeVersions'>,
+  restoredEpisodes: EpisodeInsight[] | undefined,
+  restoredVersions: EpisodeVersion[] | undefined,
+  mode: RecordWriteMode
+): Promise<Record<string, { written: number; skipped: number }>> {
+  const counts: Record<string, { written: number; skipped: number }> = {};
+  if (mode === 'replace') {
+    if (restoredVersions) await versions.clear();
+    if (restoredEpisodes) {
+      // Cleared by deleting what the archive lacks; archived episodes replace theirs below
+      const keep = new Set(restoredEpisodes.map(episode => episode.episode_id));
+      for (const id of await episodes.getAllKeys()) {
+        if (!keep.has(id)) await episodes.delete(id);
+      }
+    }
+  }
+
+  if (restoredEpisodes) {
+    counts.episodes = { written: 0, skipped: 0 };
+    for (const episode of restoredEpisodes) {
+      if (mode === 'keep-existing' && (await episodes.count(episode.episode_id)) > 0) {
+        counts.episodes.skipped++;
+        continue;
+      }
+      await putActiveEpisode(episodes, versions, episode);
+      counts.episodes.written++;
+    }
+  }
+
+  if (restoredVersions) {
+    counts.episodeVersions = { written: 0, skipped: 0 };
+    const touched = new Set<string>();
+    for (const version of restoredVersions) {
+      if (mode === 'keep-existing' && (await versions.count(version.version_id)) > 0) {
+        counts.episodeVersions.skipped++;
+        continue;
+      }
+      const current = await episodes.get(version.episode_id);
+      await versions.put(current && episodeVersionId(current) === version.version_id
+        ? toEpisodeVersion(current, true)
+        : { ...version, active: false });
+      touched.add(version.episode_id);
+      counts.episodeVersions.written++;
+    }
+    // An episode with history keeps its active analysis among the versions
+    for (const episodeId of touched) {
+      const current = await episodes.get(episodeId);
+      if (current && (await versions.count(episodeVersionId(current))) === 0) {
+        await versions.put(toEpisodeVersion(current, true));
+      }
+    }
+  }
+  return counts;
+}
+
+// ============================================================================
+// Storage Management Operations
+// ============================================================================
+
+export interface StoreUsage {
+  store: string;
+  records: number;
+  bytes: number;                 // Approximate: length of the records serialized as JSON
+}
+
+/**
+ * Record count and approximate size of every object store, largest first.
+ * Browsers only report usage for the whole origin, so sizes are estimated
+ * from the serialized records.
+ */
+export async function getStoreUsage(): Promise<StoreUsage[]> {
+  try {
+    const db = await getDB();
+    const names = Array.from(db.objectStoreNames) as StoreNames<EpisodeDBSchema>[];
+    const tx = db.transaction(names, 'readonly');
+    const usage: StoreUsage[] = [];
+    for (const name of names) {
+      let records = 0;
+      let bytes = 0;
+      let cursor = await tx.objectStore(name).openCursor();
+      while (cursor) {
+        records++;
+        bytes += JSON.stringify(cursor.value).length;
+        cursor = await cursor.continue();
+      }
+      usage.push({ store: name, records, bytes });
+    }
+    await tx.done;
+    return usage.sort((a, b) => b.bytes - a.bytes);
+  } catch (error) {
+    console.error('Failed to measure object stores:', error);
+    throw new Error(`Failed to measure object stores: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete all but the `keep` most recently cached searches
+ *
+ * @returns Number of deleted entries
+ */
+export async function evictOldestSearchCache(keep: number): Promise<number> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('searchCache', 'readwrite');
+    const entries = await tx.store.getAll();
+    const evicted = entries
+      .sort((a, b) => b.cached_at.localeCompare(a.cached_at))
+      .slice(Math.max(0, keep));
+
+    await Promise.all([...evicted.map(entry => tx.store.delete(entry.cache_key)), tx.done]);
+    console.log(`Evicted ${evicted.length} search cache entries (kept ${entries.length - evicted.length})`);
+    return evicted.length;
+  } catch (error) {
+    console.error('Failed to evict search cache:', error);
+    throw new Error(`Failed to evict search cache: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Episodes of every profile published before a date, with their stored
+ * versions and transcripts
+ */
+export async function getEpisodeRecordsPublishedBefore(date: string): Promise<{
+  episodes: EpisodeInsight[];
+  episodeVersions: EpisodeVersion[];
+  transcripts: TranscriptRecord[];
+}> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['episodes', 'episodeVersions', 'transcripts'], 'readonly');
+    const episodes = await tx.objectStore('episodes').index('by-published-date').getAll(IDBKeyRange.upperBound(date, true));
+    const episodeVersions: EpisodeVersion[] = [];
+    const transcripts: TranscriptRecord[] = [];
+    for (const episode of episodes) {
+      episodeVersions.push(...await tx.objectStore('episodeVersions').index('by-episode').getAll(episode.episode_id));
+      const transcript = await tx.objectStore('transcripts').get(episode.episode_id);
+      if (transcript) transcripts.push(transcript);
+    }
+    await tx.done;
+    return { episodes, episodeVersions, transcripts };
+  } catch (error) {
+    console.error(`Failed to get episodes published before ${date}:`, error);
+    throw new Error(`Failed to get episodes published before date: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Rewrite stored episodes in place (e.g. with shortened quotes). The stored
+ * version with the same analysis is rewritten too; other versions and the
+ * active flag are left alone.
+ */
+export async function updateStoredEpisodes(episodes: EpisodeInsight[]): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['episodes', 'episodeVersions'], 'readwrite');
+    const versionsStore = tx.objectStore('episodeVersions');
+    for (const episode of episodes) {
+      await tx.objectStore('episodes').put(episode);
+      const version = await versionsStore.get(episodeVersionId(episode));
+      if (version) {
+        await versionsStore.put({ ...version, insight: episode });
+      }
+    }
+    await tx.done;
+    console.log(`Updated ${episodes.length} stored episodes`);
+  } catch (error) {
+    console.error('Failed to update stored episodes:', error);
+    throw new Error(`Failed to update stored episodes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete episodes with their version history and transcripts, in one transaction
+ */
+export async function deleteEpisodeRecords(episodeIds: string[]): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['episodes', 'episodeVersions', 'transcripts'], 'readwrite');
+    for (const episodeId of episodeIds) {
+      const versionIds = await tx.objectStore('episodeVersions').index('by-episode').getAllKeys(episodeId);
+      await Promise.all([
+        tx.objectStore('episodes').delete(episodeId),
+        tx.objectStore('transcripts').delete(episodeId),
+        ...versionIds.map(versionId => tx.objectStore('episodeVersions').delete(versionId))
+      ]);
+    }
+    await tx.done;
+    console.log(`Deleted ${episodeIds.length} episodes with their versions and transcripts`);
+  } catch (error) {
+    console.error('Failed to delete episode records:', error);
+    throw new Error(`Failed to delete episode records: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
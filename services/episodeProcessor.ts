@@ -3,19 +3,28 @@
  *
  * Orchestrates parallel episode analysis with configurable concurrency.
  * Handles episode discovery, caching, and batch processing.
+ * Every run is scoped to one source profile (the default profile unless given).
  */
 
-import { EpisodeInsight, EpisodeMetadata } from '@/types';
+import { EpisodeInsight, EpisodeMetadata, FailedEpisodeErrorClass, SourceProfile } from '@/types';
 import { searchEpisodesInRange } from './episodeSearch';
+import { searchTranscriptsInRange } from './transcriptIngestion';
+import { createFeedEpisodeSearch } from './feedDiscovery';
 import { analyzeEpisode } from './gemini';
+import type { LLMCallContext } from './llmProvider';
+import { isAbortError } from './requestScheduler';
+import type { UsageMeter } from './usageAccounting';
 import {
   getEpisodesByDateRange,
   saveEpisode,
+  saveCandidateEpisodeVersion,
   episodeExists,
   getEpisode,
   getEpisodesByFrameworkVersion,
   getAllEpisodes
 } from './episodeDB';
+import { recordFailedEpisode, clearFailedEpisode, getQuarantineOverrides } from './quarantine';
+import { loadSourceProfile, scopeEpisodes } from './sourceProfiles';
 import { FRAMEWORK_VERSION } from '../constants/frameworkVersion';
 
 /**
@@ -29,7 +38,9 @@ export interface ProcessDependencies {
   analyzeEpisode?: (
     episodeId: string,
     episodeMetadata: EpisodeMetadata,
-    frameworkVersion?: string
+    frameworkVersion?: string,
+    profile?: SourceProfile,
+    call?: LLMCallContext
   ) => Promise<EpisodeInsight>;
 }
 
@@ -43,6 +54,9 @@ export interface ProcessOptions {
   /** Optional dependency overrides (used by manual tests/benchmarks) */
   deps?: ProcessDependencies;
 
+  /** Source profile to discover and analyze episodes for (default: the default profile) */
+  profile?: SourceProfile;
+
   /** Force reprocessing of all episodes, even if cached (default: false) */
   forceReprocess?: boolean;
 
@@ -58,8 +72,20 @@ export interface ProcessOptions {
   /** Callback fired when episode discovery completes */
   onDiscoveryComplete?: (totalEpisodes: number, cachedCount: number, newCount: number) => void;
 
+  /** Callback fired with the discovered episodes once they are split into cached and to-be-analyzed */
+  onEpisodesCategorized?: (cached: EpisodeMetadata[], uncached: EpisodeMetadata[]) => void;
+
+  /** Callback fired after each uncached episode's analysis succeeds or fails */
+  onEpisodeAnalyzed?: (metadata: EpisodeMetadata, success: boolean, error?: string) => void;
+
+  /** Reprocessing only: store reanalyses as inactive episode versions to compare before activating them (default: false) */
+  saveAsCandidate?: boolean;
+
   /** Optional abort signal for cancelling work */
   signal?: AbortSignal;
+
+  /** Meter charged with the token usage of this run's provider calls */
+  usageMeter?: UsageMeter;
 }
 
 /**
@@ -75,13 +101,16 @@ export interface ProcessResult {
     cachedEpisodes: number;
     newlyAnalyzed: number;
     failed: number;
+    /** Episodes excluded because they were permanently skipped in quarantine */
+    skipped: number;
     durationMs: number;
   };
 
-  /** Errors encountered during processing (non-fatal) */
+  /** Errors encountered during processing (non-fatal; also recorded in the failedEpisodes store) */
   errors: Array<{
     episodeId: string;
     error: string;
+    errorClass?: FailedEpisodeErrorClass;
   }>;
 }
 
@@ -123,13 +152,15 @@ export async function processEpisodesInRange(
   const concurrency = opts.concurrency ?? 10;
   const startTime = performance.now();
   const abortSignal = opts.signal;
+  const call: LLMCallContext = { signal: abortSignal, usageMeter: opts.usageMeter };
   const onProgress = opts.onProgress ?? (() => {});
   const onDiscoveryComplete = opts.onDiscoveryComplete ?? (() => {});
   const deps = opts.deps ?? {};
-  const searchFn = deps.searchEpisodesInRange ?? searchEpisodesInRange;
+  const profile = opts.profile ?? await loadSourceProfile();
+  const searchFn = deps.searchEpisodesInRange ?? getDefaultSearchFn(profile, call);
   const analyzeFn = deps.analyzeEpisode ?? analyzeEpisode;
 
-  console.log(`[EpisodeProcessor] Processing episodes from ${startDate} to ${endDate}`);
+  console.log(`[EpisodeProcessor] Processing episodes from ${startDate} to ${endDate} for profile ${profile.profile_id}`);
   console.log(`[EpisodeProcessor] Concurrency: ${concurrency}, Force reprocess: ${opts.forceReprocess}`);
 
   const throwIfAborted = () => {
@@ -143,10 +174,13 @@ export async function processEpisodesInRange(
 
     // Phase 1: Discover episodes in date range
     console.log('[EpisodeProcessor] Phase 1: Discovering episodes...');
-    const searchResults = await searchFn(startDate, endDate);
+    const discovered = scopeEpisodes(await searchFn(startDate, endDate), profile.profile_id);
 
     throwIfAborted();
 
+    // Apply quarantine decisions: drop skipped episodes, use user-edited metadata
+    const { searchResults, skipped } = await applyQuarantineOverrides(discovered);
+
     if (searchResults.length === 0) {
       console.warn('[EpisodeProcessor] No episodes found in date range');
       return {
@@ -156,6 +190,7 @@ export async function processEpisodesInRange(
           cachedEpisodes: 0,
           newlyAnalyzed: 0,
           failed: 0,
+          skipped,
           durationMs: performance.now() - startTime
         },
         errors: []
@@ -178,6 +213,17 @@ export async function processEpisodesInRange(
 
     // Notify discovery complete
     onDiscoveryComplete(searchResults.length, cached.length, uncached.length);
+    opts.onEpisodesCategorized?.(
+      cached.map(ep => ({
+        episode_id: ep.episode_id,
+        show_name: ep.show_name,
+        title: ep.title,
+        published_at: ep.published_at,
+        transcript_url: ep.transcript_url,
+        profile_id: ep.profile_id
+      })),
+      uncached
+    );
 
     // Progress through cached episodes to keep UI aligned
     let completedCount = 0;
@@ -194,7 +240,7 @@ export async function processEpisodesInRange(
     }
 
     // Phase 3: Process uncached episodes in parallel
-    const errors: Array<{ episodeId: string; error: string }> = [];
+    const errors: ProcessResult['errors'] = [];
     let newlyAnalyzed: EpisodeInsight[] = [];
 
     if (uncached.length > 0) {
@@ -207,18 +253,44 @@ export async function processEpisodesInRange(
             const insight = await analyzeFn(
               episodeMetadata.episode_id,
               episodeMetadata,
-              opts.frameworkVersion
+              opts.frameworkVersion,
+              profile,
+              call
             );
 
             // Save to cache immediately
-            const normalizedInsight = { ...insight, episode_id: episodeMetadata.episode_id };
+            const normalizedInsight = {
+              ...insight,
+              episode_id: episodeMetadata.episode_id,
+              profile_id: profile.profile_id
+            };
             await saveEpisode(normalizedInsight);
 
-            return { success: true, insight: normalizedInsight, error: null };
+            try {
+              await clearFailedEpisode(episodeMetadata.episode_id);
+            } catch (quarantineError) {
+              console.warn(`[EpisodeProcessor] Could not clear quarantine record for ${episodeMetadata.episode_id}:`, quarantineError);
+            }
+
+            opts.onEpisodeAnalyzed?.(episodeMetadata, true);
+            return { metadata: episodeMetadata, success: true, insight: normalizedInsight, error: null, errorClass: undefined };
           } catch (error) {
+            // A cancelled run is not the episode's fault: keep it out of quarantine and job failures
+            if (abortSignal?.aborted || isAbortError(error)) throw error;
+
             const errorMsg = error instanceof Error ? error.message : String(error);
             console.error(`[EpisodeProcessor] Failed to analyze episode ${episodeMetadata.episode_id}:`, errorMsg);
-            return { success: false, insight: null, error: errorMsg };
+
+            let errorClass: FailedEpisodeErrorClass | undefined;
+            try {
+              const record = await recordFailedEpisode(episodeMetadata, error, opts.frameworkVersion);
+              errorClass = record.error_class;
+            } catch (quarantineError) {
+              console.warn(`[EpisodeProcessor] Could not quarantine ${episodeMetadata.episode_id}:`, quarantineError);
+            }
+
+            opts.onEpisodeAnalyzed?.(episodeMetadata, false, errorMsg);
+            return { metadata: episodeMetadata, success: false, insight: null, error: errorMsg, errorClass };
           }
         },
         concurrency,
@@ -240,10 +312,11 @@ export async function processEpisodesInRange(
         .map(r => r.insight!);
 
       const failed = analysisResult.filter(r => !r.success);
-      failed.forEach((f, idx) => {
+      failed.forEach(f => {
         errors.push({
-          episodeId: uncached[idx].episode_id,
-          error: f.error || 'Unknown error'
+          episodeId: f.metadata.episode_id,
+          error: f.error || 'Unknown error',
+          errorClass: f.errorClass
         });
       });
 
@@ -270,6 +343,7 @@ export async function processEpisodesInRange(
         cachedEpisodes: cached.length,
         newlyAnalyzed: newlyAnalyzed.length,
         failed: errors.length,
+        skipped,
         durationMs
       },
       errors
@@ -282,6 +356,46 @@ export async function processEpisodesInRange(
   }
 }
 
+/**
+ * Remove permanently skipped episodes and substitute user-edited metadata
+ * from the quarantine store. Quarantine lookups never block processing.
+ */
+async function applyQuarantineOverrides(
+  discovered: EpisodeMetadata[]
+): Promise<{ searchResults: EpisodeMetadata[]; skipped: number }> {
+  try {
+    const { skippedIds, editedMetadata } = await getQuarantineOverrides();
+    const searchResults = discovered
+      .filter(ep => !skippedIds.has(ep.episode_id))
+      .map(ep => editedMetadata.get(ep.episode_id) ?? ep);
+    const skipped = discovered.length - searchResults.length;
+    if (skipped > 0) {
+      console.log(`[EpisodeProcessor] Skipping ${skipped} episode(s) marked as skipped in quarantine`);
+    }
+    return { searchResults, skipped };
+  } catch (error) {
+    console.warn('[EpisodeProcessor] Could not read quarantine store, processing all discovered episodes:', error);
+    return { searchResults: discovered, skipped: 0 };
+  }
+}
+
+/**
+ * Pick the episode discovery function for the profile's discovery source
+ */
+function getDefaultSearchFn(
+  profile: SourceProfile,
+  call: LLMCallContext
+): (startDate: string, endDate: string) => Promise<EpisodeMetadata[]> {
+  switch (profile.discovery.source) {
+    case 'transcripts':
+      return (startDate, endDate) => searchTranscriptsInRange(startDate, endDate, profile.profile_id);
+    case 'feed':
+      return createFeedEpisodeSearch(profile.discovery.feeds);
+    default:
+      return (startDate, endDate) => searchEpisodesInRange(startDate, endDate, profile, call);
+  }
+}
+
 /**
  * Categorize episodes into cached and uncached
  */
@@ -316,6 +430,14 @@ async function categorizeEpisodes(
       // Retrieve from cache
       const episode = await getEpisode(metadata.episode_id);
       if (episode) {
+        // A transcript imported after a web-search analysis supersedes it
+        if (metadata.has_transcript && episode.input_source !== 'transcript') {
+          console.log(`[EpisodeProcessor] Episode ${metadata.episode_id} has a new transcript, will reprocess`);
+          uncached.push(metadata);
+          staleCount++;
+          continue;
+        }
+
         // Check if episode is stale (if staleness detection enabled)
         if (stalenessThreshold !== null) {
           const processedAt = new Date(episode.processed_at).getTime();
@@ -388,6 +510,7 @@ async function processInParallel<T, R>(
 
         if (signal?.aborted) break;
       } catch (error) {
+        if (signal?.aborted) break;
         console.error('[ProcessInParallel] Worker error:', error);
         // Error handling is done in processor, this is just a safety net
         completed++;
@@ -418,15 +541,17 @@ async function processInParallel<T, R>(
  *
  * @param weekStart - Week start date (YYYY-MM-DD)
  * @param weekEnd - Week end date (YYYY-MM-DD)
+ * @param profileId - Only episodes of this source profile (default: all profiles)
  * @returns Array of episodes in the week
  */
 export async function getEpisodesForWeek(
   weekStart: string,
-  weekEnd: string
+  weekEnd: string,
+  profileId?: string
 ): Promise<EpisodeInsight[]> {
   console.log(`[EpisodeProcessor] Retrieving episodes for week ${weekStart} to ${weekEnd}`);
 
-  const episodes = await getEpisodesByDateRange(weekStart, weekEnd);
+  const episodes = await getEpisodesByDateRange(weekStart, weekEnd, profileId);
 
   console.log(`[EpisodeProcessor] Found ${episodes.length} episodes in week`);
 
@@ -533,6 +658,16 @@ export async function getEpisodeCountsByVersion(): Promise<Map<string, number>>
  *   undefined,
  *   { start: '2024-01-01', end: '2024-12-31' }
  * );
+ *
+ * @example
+ * // Try a prompt change on one month without touching reports; compare and
+ * // activate the new versions from the Episode Versions panel
+ * const result = await reprocessWithFrameworkVersion(
+ *   'v2.1.0',
+ *   'v2.0.0',
+ *   { start: '2024-01-01', end: '2024-01-31' },
+ *   { saveAsCandidate: true }
+ * );
  */
 export async function reprocessWithFrameworkVersion(
   targetVersion: string = FRAMEWORK_VERSION,
@@ -581,6 +716,7 @@ export async function reprocessWithFrameworkVersion(
           cachedEpisodes: 0,
           newlyAnalyzed: 0,
           failed: 0,
+          skipped: 0,
           durationMs: performance.now() - startTime
         },
         errors: []
@@ -593,7 +729,8 @@ export async function reprocessWithFrameworkVersion(
       show_name: ep.show_name,
       title: ep.title,
       published_at: ep.published_at,
-      transcript_url: ep.transcript_url || undefined
+      transcript_url: ep.transcript_url || undefined,
+      profile_id: ep.profile_id
     }));
 
     console.log(`[VersionManager] Reprocessing ${metadata.length} episodes with framework version ${targetVersion}`);
@@ -608,6 +745,15 @@ export async function reprocessWithFrameworkVersion(
 
     const newlyAnalyzed: EpisodeInsight[] = [];
     let completedCount = 0;
+    // Each episode is reanalyzed with the profile it was discovered for
+    const profiles = new Map<string, Promise<SourceProfile>>();
+    const profileFor = (profileId: string | undefined): Promise<SourceProfile> => {
+      const key = profileId ?? '';
+      if (!profiles.has(key)) {
+        profiles.set(key, loadSourceProfile(profileId));
+      }
+      return profiles.get(key)!;
+    };
 
     const analysisResult = await processInParallel(
       metadata,
@@ -616,17 +762,23 @@ export async function reprocessWithFrameworkVersion(
           const insight = await analyzeEpisode(
             episodeMetadata.episode_id,
             episodeMetadata,
-            targetVersion
+            targetVersion,
+            await profileFor(episodeMetadata.profile_id),
+            { signal: opts.signal, usageMeter: opts.usageMeter }
           );
 
-          // Save to cache immediately
-          await saveEpisode(insight);
+          // Save to cache immediately (as a candidate version, the active analysis stays in use)
+          if (opts.saveAsCandidate) {
+            await saveCandidateEpisodeVersion(insight);
+          } else {
+            await saveEpisode(insight);
+          }
 
-          return { success: true, insight, error: null };
+          return { metadata: episodeMetadata, success: true, insight, error: null };
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : String(error);
           console.error(`[VersionManager] Failed to reprocess episode ${episodeMetadata.episode_id}:`, errorMsg);
-          return { success: false, insight: null, error: errorMsg };
+          return { metadata: episodeMetadata, success: false, insight: null, error: errorMsg };
         }
       },
       opts.concurrency ?? 10,
@@ -649,9 +801,9 @@ export async function reprocessWithFrameworkVersion(
     newlyAnalyzed.push(...successful.map(r => r.insight!));
 
     const failed = analysisResult.filter(r => !r.success);
-    failed.forEach((f, idx) => {
+    failed.forEach(f => {
       errors.push({
-        episodeId: metadata[idx].episode_id,
+        episodeId: f.metadata.episode_id,
         error: f.error || 'Unknown error'
       });
     });
@@ -670,6 +822,7 @@ export async function reprocessWithFrameworkVersion(
         cachedEpisodes: 0,
         newlyAnalyzed: successful.length,
         failed: failed.length,
+        skipped: 0,
         durationMs
       },
       errors
@@ -704,11 +857,13 @@ export async function upgradeEpisodeToCurrentVersion(
     show_name: existingEpisode.show_name,
     title: existingEpisode.title,
     published_at: existingEpisode.published_at,
-    transcript_url: existingEpisode.transcript_url || undefined
+    transcript_url: existingEpisode.transcript_url || undefined,
+    profile_id: existingEpisode.profile_id
   };
 
   // Reanalyze with current framework version
-  const updated = await analyzeEpisode(episodeId, metadata, FRAMEWORK_VERSION);
+  const profile = await loadSourceProfile(existingEpisode.profile_id);
+  const updated = await analyzeEpisode(episodeId, metadata, FRAMEWORK_VERSION, profile);
 
   // Save updated version
   await saveEpisode(updated);
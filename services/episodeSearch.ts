@@ -1,22 +1,23 @@
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import type { EpisodeMetadata, SearchCacheEntry } from "../types";
+import type { EpisodeMetadata, SearchCacheEntry, SourceProfile } from "../types";
+import { generateStructured } from "./structuredOutput";
+import type { LLMCallContext } from "./llmProvider";
+import { EPISODE_SEARCH_SCHEMA, type EpisodeSearchPayloadItem } from "./responseSchemas";
 import {
   getSearchCache,
   saveSearchCache,
   clearExpiredSearchCache
 } from "./episodeDB";
+import { buildProfilePrompt } from "./sourceProfiles";
+import { DEFAULT_PROFILE_ID, buildDefaultSourceProfile } from "../constants/sourceProfiles";
 
-// Episode search prompt template
+// Episode search prompt template ({{HOST_NAME}} and {{SHOW_LIST}} come from the source profile)
 const EPISODE_SEARCH_PROMPT = `
 You are an episode discovery assistant.
 
-TASK: Find all episodes from Heather Cox Richardson's shows/podcasts published between {{START_DATE}} and {{END_DATE}} (inclusive).
+TASK: Find all episodes from {{HOST_NAME}}'s shows/podcasts published between {{START_DATE}} and {{END_DATE}} (inclusive).
 
 Shows to search for:
-- "This Week in Politics"
-- "Politics Chat"
-- "American Conversations"
-- "What the Heck Just Happened"
+{{SHOW_LIST}}
 
 INSTRUCTIONS:
 1. Use Google Search to find episodes published in the specified date range
@@ -43,13 +44,6 @@ IMPORTANT:
 - If episode_id is not explicitly available, generate one from the show name and date (e.g., "politics-chat-2025-01-15")
 `;
 
-const SAFETY_SETTINGS = [
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH }
-];
-
 const MAX_RETRIES = 3;
 const CACHE_EXPIRY_DAYS = 7;
 
@@ -74,9 +68,10 @@ async function withRetry<T>(operation: () => Promise<T>, retries = MAX_RETRIES):
 
       const isNetworkError = msg.includes("xhr error") || msg.includes("fetch failed") || msg.includes("network error");
       const isServerError = error?.code === 500 || error?.code === 503 || msg.includes('"code":500') || msg.includes('"code":503');
-      const isJsonError = msg.includes("JSON_PARSE_ERROR") || msg.includes("SyntaxError");
 
-      const isRetryable = isNetworkError || isServerError || isJsonError;
+      // Malformed or invalid JSON is handled by the structured output repair pass, not retried here
+      // Rate limits (429) are retried by the shared request scheduler, which pauses the whole queue
+      const isRetryable = isNetworkError || isServerError;
 
       if (i === retries - 1 || !isRetryable) {
         throw error;
@@ -90,39 +85,20 @@ async function withRetry<T>(operation: () => Promise<T>, retries = MAX_RETRIES):
   throw new Error("Unreachable");
 }
 
-/**
- * Clean JSON text by removing markdown code blocks and extracting the JSON
- */
-function cleanJsonText(text: string): string {
-  if (!text) return "";
-
-  // Remove markdown code blocks if present
-  const codeBlockMatch = text.match(/```(?:json|JSON)?\s*([\s\S]*?)\s*```/);
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim();
-  }
-
-  // Try to extract JSON array
-  const firstBracket = text.indexOf('[');
-  const lastBracket = text.lastIndexOf(']');
-  if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-    return text.substring(firstBracket, lastBracket + 1);
-  }
-
-  return text.trim();
-}
-
 /**
  * Generate a cache key for episode search results
+ * (default-profile keys keep their pre-profile format)
  */
-function generateCacheKey(startDate: string, endDate: string): string {
-  return `search_${startDate}_${endDate}`;
+function generateCacheKey(startDate: string, endDate: string, profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID
+    ? `search_${startDate}_${endDate}`
+    : `search_${profileId}_${startDate}_${endDate}`;
 }
 
 /**
  * Generate a deterministic episode ID if one is not provided
  */
-function normalizeEpisodeId(episode: any): string {
+function normalizeEpisodeId(episode: EpisodeSearchPayloadItem): string {
   if (episode.episode_id && episode.episode_id !== 'null') {
     return episode.episode_id;
   }
@@ -136,18 +112,6 @@ function normalizeEpisodeId(episode: any): string {
   return `${showSlug}-${episode.published_at}`;
 }
 
-function normalizePublishedAt(value: unknown, fallback: string): string {
-  if (typeof value === "string") {
-    const match = value.match(/^\d{4}-\d{2}-\d{2}/);
-    if (match) return match[0];
-    const parsed = new Date(value);
-    if (!isNaN(parsed.getTime())) return parsed.toISOString().slice(0, 10);
-  }
-
-  const fallbackMatch = fallback.match(/^\d{4}-\d{2}-\d{2}/);
-  return fallbackMatch ? fallbackMatch[0] : fallback;
-}
-
 /**
  * Deduplicate episodes by episode_id
  */
@@ -168,22 +132,26 @@ function deduplicateEpisodes(episodes: EpisodeMetadata[]): EpisodeMetadata[] {
 }
 
 /**
- * Search for HCR episodes within a date range
- * Uses Gemini API with Google Search to discover episodes
+ * Search for a source profile's episodes within a date range
+ * Uses the configured LLM provider (Gemini + Google Search by default) to discover episodes
  * Results are cached for 7 days to avoid redundant searches
  *
  * @param startDate - Start date in YYYY-MM-DD format (inclusive)
  * @param endDate - End date in YYYY-MM-DD format (inclusive)
+ * @param profile - Source profile whose shows are searched (default: built-in HCR profile)
+ * @param call - Context of the run making the call (abort signal)
  * @returns Array of episode metadata
  */
 export async function searchEpisodesInRange(
   startDate: string,
-  endDate: string
+  endDate: string,
+  profile: SourceProfile = buildDefaultSourceProfile(),
+  call: LLMCallContext = {}
 ): Promise<EpisodeMetadata[]> {
-  console.log(`Searching for episodes between ${startDate} and ${endDate}`);
+  console.log(`Searching for ${profile.name} episodes between ${startDate} and ${endDate}`);
 
   // Check cache first
-  const cacheKey = generateCacheKey(startDate, endDate);
+  const cacheKey = generateCacheKey(startDate, endDate, profile.profile_id);
   try {
     const cached = await getSearchCache(cacheKey);
     if (cached) {
@@ -201,68 +169,41 @@ export async function searchEpisodesInRange(
     console.warn('Failed to clear expired search cache:', error);
   }
 
-  // Build prompt with date range
-  const prompt = EPISODE_SEARCH_PROMPT
+  // Build prompt with the profile's shows and the date range
+  const prompt = buildProfilePrompt(profile, 'search', EPISODE_SEARCH_PROMPT)
     .replace('{{START_DATE}}', startDate)
     .replace('{{END_DATE}}', endDate);
 
-  // Call Gemini API with search
+  // Call the configured LLM provider with search grounding
   const episodes = await withRetry<EpisodeMetadata[]>(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
-
-    if (!response.text) {
-      throw new Error('No response from Gemini API');
+    const { value: parsed } = await generateStructured<EpisodeSearchPayloadItem[]>({
+      ...call,
+      task: 'search',
+      prompt,
+      useWebSearch: true,
+      fixtureKey: profile.profile_id === DEFAULT_PROFILE_ID ? `${startDate}_${endDate}` : `${profile.profile_id}_${startDate}_${endDate}`,
+      context: { startDate, endDate }
+    }, EPISODE_SEARCH_SCHEMA);
+
+    if (parsed.length === 0) {
+      console.log('No episodes found in date range');
+      return [];
     }
 
-    const cleanText = cleanJsonText(response.text);
+    // Normalize episode IDs
+    const normalized = parsed.map(ep => ({
+      episode_id: normalizeEpisodeId(ep),
+      show_name: ep.show_name,
+      title: ep.title || 'Untitled Episode',
+      published_at: ep.published_at,
+      transcript_url: ep.transcript_url && ep.transcript_url !== 'null' ? ep.transcript_url : undefined
+    } as EpisodeMetadata));
 
-    try {
-      const parsed = JSON.parse(cleanText);
+    // Deduplicate episodes
+    const deduplicated = deduplicateEpisodes(normalized);
 
-      // Handle empty results
-      if (!Array.isArray(parsed)) {
-        console.warn('Expected array but got:', typeof parsed);
-        return [];
-      }
-
-      if (parsed.length === 0) {
-        console.log('No episodes found in date range');
-        return [];
-      }
-
-      // Normalize episode IDs and validate structure
-      const normalized = parsed.map((ep: any) => {
-        // Normalize the episode ID
-        const episodeId = normalizeEpisodeId(ep);
-        const publishedAt = normalizePublishedAt(ep.published_at, startDate);
-
-        return {
-          episode_id: episodeId,
-          show_name: ep.show_name || 'Unknown Show',
-          title: ep.title || 'Untitled Episode',
-          published_at: publishedAt,
-          transcript_url: ep.transcript_url === 'null' || !ep.transcript_url ? undefined : ep.transcript_url
-        } as EpisodeMetadata;
-      });
-
-      // Deduplicate episodes
-      const deduplicated = deduplicateEpisodes(normalized);
-
-      console.log(`Found ${deduplicated.length} unique episodes`);
-      return deduplicated;
-
-    } catch (e) {
-      console.error('JSON Parse Error in searchEpisodesInRange:', e, 'Text:', cleanText);
-      throw new Error('JSON_PARSE_ERROR');
-    }
+    console.log(`Found ${deduplicated.length} unique episodes`);
+    return deduplicated;
   });
 
   // Cache the results
@@ -277,7 +218,8 @@ export async function searchEpisodesInRange(
         end_date: endDate,
         episodes: episodes,
         cached_at: now.toISOString(),
-        expires_at: expiresAt.toISOString()
+        expires_at: expiresAt.toISOString(),
+        profile_id: profile.profile_id
       };
 
       await saveSearchCache(cacheEntry);
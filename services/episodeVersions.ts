@@ -0,0 +1,185 @@
+/**
+ * Episode Versions
+ *
+ * Reanalyzing an episode with another framework version or model keeps the
+ * earlier analysis in the version history (see episodeDB), with exactly one
+ * version active: the one reports read. Comparing two versions shows how
+ * topics, sentiment and quotes moved between analyses, so a prompt change can
+ * be checked on a few episodes (reprocessed with `saveAsCandidate`) before it
+ * is activated or rolled out.
+ */
+
+import type { EpisodeInsight, EpisodeVersion, TopicInsight } from '../types';
+import {
+  activateEpisodeVersion,
+  episodeVersionId,
+  getAllEpisodeVersions,
+  getEpisode,
+  getEpisodeVersions
+} from './episodeDB';
+import { normalizeTopic } from '../utils/aggregation';
+
+export interface ValueChange {
+  from: number | null;           // null: not in that version
+  to: number | null;
+  delta: number | null;          // to - from, when both exist
+}
+
+export interface TopicVersionChange {
+  topic_name: string;            // Name in the newer version (older when removed)
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  sentiment: ValueChange;
+  prominence: ValueChange;
+  confidence: ValueChange;
+  quotes_added: string[];
+  quotes_removed: string[];
+}
+
+export interface EpisodeVersionDiff {
+  overall_sentiment: ValueChange;
+  focus_relevance: ValueChange;
+  topics: TopicVersionChange[];  // Changed first, then added, removed, unchanged
+  key_quotes_added: string[];
+  key_quotes_removed: string[];
+}
+
+export interface VersionedEpisodeSummary {
+  episode_id: string;
+  title: string;
+  published_at: string;
+  version_count: number;
+  active_version_id: string | null;
+  has_candidates: boolean;       // An inactive version is newer than the active one
+}
+
+// Sentiment moves smaller than this many points count as unchanged
+const SENTIMENT_TOLERANCE = 1;
+// Prominence and confidence moves smaller than this count as unchanged
+const SCORE_TOLERANCE = 0.02;
+
+const TOPIC_ORDER: Record<TopicVersionChange['status'], number> = { changed: 0, added: 1, removed: 2, unchanged: 3 };
+
+/**
+ * How an episode's analysis changed from one version to another
+ */
+export function diffEpisodeVersions(from: EpisodeInsight, to: EpisodeInsight): EpisodeVersionDiff {
+  const fromTopics = new Map<string, TopicInsight>(from.topics.map(topic => [normalizeTopic(topic.topic_name), topic]));
+  const toTopics = new Map<string, TopicInsight>(to.topics.map(topic => [normalizeTopic(topic.topic_name), topic]));
+  const keys = Array.from(new Set<string>([...Array.from(toTopics.keys()), ...Array.from(fromTopics.keys())]));
+
+  const topics = keys.map(key => {
+    const before = fromTopics.get(key);
+    const after = toTopics.get(key);
+    const sentiment = change(before?.sentiment_score, after?.sentiment_score);
+    const prominence = change(before?.prominence_score, after?.prominence_score);
+    const confidence = change(before?.confidence, after?.confidence);
+    const quotes = listChange(before?.evidence_quotes ?? [], after?.evidence_quotes ?? []);
+
+    let status: TopicVersionChange['status'] = 'unchanged';
+    if (!before) status = 'added';
+    else if (!after) status = 'removed';
+    else if (
+      Math.abs(sentiment.delta ?? 0) >= SENTIMENT_TOLERANCE ||
+      Math.abs(prominence.delta ?? 0) >= SCORE_TOLERANCE ||
+      Math.abs(confidence.delta ?? 0) >= SCORE_TOLERANCE ||
+      quotes.added.length + quotes.removed.length > 0
+    ) status = 'changed';
+
+    return {
+      topic_name: (after ?? before)!.topic_name,
+      status,
+      sentiment,
+      prominence,
+      confidence,
+      quotes_added: quotes.added,
+      quotes_removed: quotes.removed
+    };
+  });
+  topics.sort((a, b) => TOPIC_ORDER[a.status] - TOPIC_ORDER[b.status] || Math.abs(b.sentiment.delta ?? 0) - Math.abs(a.sentiment.delta ?? 0));
+
+  const keyQuotes = listChange(from.key_quotes, to.key_quotes);
+  return {
+    overall_sentiment: change(from.overall_sentiment, to.overall_sentiment),
+    focus_relevance: change(from.focus_relevance, to.focus_relevance),
+    topics,
+    key_quotes_added: keyQuotes.added,
+    key_quotes_removed: keyQuotes.removed
+  };
+}
+
+/**
+ * Versions of an episode, newest first. An episode analyzed only once has no
+ * stored history; its current analysis is returned as the single active version.
+ */
+export async function loadEpisodeVersions(episodeId: string): Promise<EpisodeVersion[]> {
+  const versions = await getEpisodeVersions(episodeId);
+  if (versions.length > 0) return versions;
+
+  const episode = await getEpisode(episodeId);
+  return episode
+    ? [{
+      version_id: episodeVersionId(episode),
+      episode_id: episode.episode_id,
+      framework_version: episode.framework_version,
+      model_used: episode.model_used,
+      processed_at: episode.processed_at,
+      active: true,
+      insight: episode
+    }]
+    : [];
+}
+
+/**
+ * Episodes with more than one stored analysis, newest published first
+ */
+export async function listVersionedEpisodes(): Promise<VersionedEpisodeSummary[]> {
+  const byEpisode = new Map<string, EpisodeVersion[]>();
+  for (const version of await getAllEpisodeVersions()) {
+    if (!byEpisode.has(version.episode_id)) byEpisode.set(version.episode_id, []);
+    byEpisode.get(version.episode_id)!.push(version);
+  }
+
+  return Array.from(byEpisode.values())
+    .map(versions => {
+      const active = versions.find(version => version.active) ?? null;
+      const latest = versions.reduce((a, b) => (b.processed_at > a.processed_at ? b : a));
+      return {
+        episode_id: latest.episode_id,
+        title: (active ?? latest).insight.title,
+        published_at: (active ?? latest).insight.published_at,
+        version_count: versions.length,
+        active_version_id: active?.version_id ?? null,
+        has_candidates: !latest.active
+      };
+    })
+    .sort((a, b) => b.published_at.localeCompare(a.published_at) || a.title.localeCompare(b.title));
+}
+
+/**
+ * Make a version the active analysis. Weeks that used the episode are
+ * re-ranked with it on the next run.
+ */
+export async function activateVersion(versionId: string): Promise<EpisodeInsight> {
+  const insight = await activateEpisodeVersion(versionId);
+  console.log(`[EpisodeVersions] ${insight.episode_id} now uses ${insight.framework_version} (${insight.model_used})`);
+  return insight;
+}
+
+function change(from: number | undefined, to: number | undefined): ValueChange {
+  const before = typeof from === 'number' ? from : null;
+  const after = typeof to === 'number' ? to : null;
+  return {
+    from: before,
+    to: after,
+    delta: before !== null && after !== null ? Number((after - before).toFixed(3)) : null
+  };
+}
+
+function listChange(from: string[], to: string[]): { added: string[]; removed: string[] } {
+  const before = new Set<string>(from.map(item => item.trim()));
+  const after = new Set<string>(to.map(item => item.trim()));
+  return {
+    added: Array.from(after).filter(item => !before.has(item)),
+    removed: Array.from(before).filter(item => !after.has(item))
+  };
+}
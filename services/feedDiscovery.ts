@@ -0,0 +1,190 @@
+/**
+ * Feed Discovery
+ *
+ * Deterministic episode discovery from podcast RSS 2.0 / Atom feeds, as an
+ * alternative to asking the LLM to search the web. Each show of a source profile has
+ * its own feed; `<item>` / `<entry>` elements become EpisodeMetadata with
+ * episode IDs derived from the feed GUID so they are stable across runs.
+ */
+
+import type { EpisodeMetadata } from '../types';
+import type { FeedSource } from '../constants/config';
+import { hash32Hex } from '../utils/hash';
+
+/**
+ * Fetches raw feed XML for a URL. Injectable so tests can supply local fixtures.
+ */
+export type FeedFetcher = (url: string) => Promise<string>;
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+/**
+ * Default fetcher using window.fetch.
+ * Note: remote feeds must allow cross-origin requests (or be proxied).
+ */
+export async function fetchFeedXml(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Feed request failed (${response.status}) for ${url}`);
+  }
+  return response.text();
+}
+
+/**
+ * Parse RSS 2.0 or Atom XML into episode metadata for a single show
+ *
+ * @param xml - Raw feed XML
+ * @param showName - Show name to assign (feeds often use a different channel title)
+ * @returns All episodes in the feed, in feed order
+ */
+export function parseFeedXml(xml: string, showName: string): EpisodeMetadata[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid feed XML for ${showName}`);
+  }
+
+  const items = Array.from(doc.getElementsByTagName('item'));
+  const entries = items.length > 0 ? items : Array.from(doc.getElementsByTagName('entry'));
+
+  const episodes: EpisodeMetadata[] = [];
+  for (const element of entries) {
+    const episode = items.length > 0
+      ? mapRssItem(element, showName)
+      : mapAtomEntry(element, showName);
+    if (episode) {
+      episodes.push(episode);
+    }
+  }
+
+  return episodes;
+}
+
+/**
+ * Build a discovery function over a fixed set of feeds.
+ * The result matches `ProcessDependencies.searchEpisodesInRange`.
+ *
+ * @param feeds - Feeds to read (one per show)
+ * @param fetchXml - Feed fetcher (defaults to network fetch)
+ */
+export function createFeedEpisodeSearch(
+  feeds: FeedSource[],
+  fetchXml: FeedFetcher = fetchFeedXml
+): (startDate: string, endDate: string) => Promise<EpisodeMetadata[]> {
+  return async (startDate: string, endDate: string) => {
+    console.log(`[FeedDiscovery] Reading ${feeds.length} feed(s) for ${startDate} to ${endDate}`);
+
+    const errors: string[] = [];
+    const results = await Promise.all(feeds.map(async feed => {
+      try {
+        const xml = await fetchXml(feed.url);
+        return parseFeedXml(xml, feed.showName);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.error(`[FeedDiscovery] Failed to read feed for ${feed.showName}:`, msg);
+        errors.push(`${feed.showName}: ${msg}`);
+        return [];
+      }
+    }));
+
+    if (feeds.length > 0 && errors.length === feeds.length) {
+      throw new Error(`Failed to read any episode feeds: ${errors.join('; ')}`);
+    }
+
+    const seen = new Set<string>();
+    const episodes = results
+      .flat()
+      .filter(ep => ep.published_at >= startDate && ep.published_at <= endDate)
+      .filter(ep => {
+        if (seen.has(ep.episode_id)) return false;
+        seen.add(ep.episode_id);
+        return true;
+      })
+      .sort((a, b) => a.published_at.localeCompare(b.published_at) || a.episode_id.localeCompare(b.episode_id));
+
+    console.log(`[FeedDiscovery] Found ${episodes.length} episode(s) in range`);
+    return episodes;
+  };
+}
+
+/**
+ * Stable episode ID from show name, publish date and feed GUID.
+ * The GUID hash keeps IDs unique when a show publishes twice in one day.
+ */
+export function buildFeedEpisodeId(showName: string, publishedAt: string, guid: string): string {
+  const showSlug = showName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${showSlug}-${publishedAt}-${hash32Hex(guid)}`;
+}
+
+// ===== Element mapping =====
+
+function mapRssItem(item: Element, showName: string): EpisodeMetadata | null {
+  const publishedAt = parseFeedDate(childText(item, 'pubDate') ?? childText(item, 'dc:date'));
+  if (!publishedAt) return null;
+
+  const link = childText(item, 'link');
+  const enclosureUrl = item.getElementsByTagName('enclosure')[0]?.getAttribute('url') ?? null;
+  const guid = childText(item, 'guid') ?? link ?? enclosureUrl;
+  if (!guid) return null;
+
+  const transcriptUrl = item.getElementsByTagName('podcast:transcript')[0]?.getAttribute('url') ?? undefined;
+
+  return {
+    episode_id: buildFeedEpisodeId(showName, publishedAt, guid),
+    show_name: showName,
+    title: childText(item, 'title') ?? `${showName} — ${publishedAt}`,
+    published_at: publishedAt,
+    transcript_url: transcriptUrl
+  };
+}
+
+function mapAtomEntry(entry: Element, showName: string): EpisodeMetadata | null {
+  const publishedAt = parseFeedDate(childText(entry, 'published') ?? childText(entry, 'updated'));
+  if (!publishedAt) return null;
+
+  const links = Array.from(entry.getElementsByTagName('link'));
+  const alternate = links.find(l => (l.getAttribute('rel') ?? 'alternate') === 'alternate');
+  const guid = childText(entry, 'id') ?? alternate?.getAttribute('href') ?? null;
+  if (!guid) return null;
+
+  return {
+    episode_id: buildFeedEpisodeId(showName, publishedAt, guid),
+    show_name: showName,
+    title: childText(entry, 'title') ?? `${showName} — ${publishedAt}`,
+    published_at: publishedAt
+  };
+}
+
+// ===== Helpers =====
+
+function childText(parent: Element, tagName: string): string | null {
+  const child = Array.from(parent.children).find(el => el.tagName === tagName);
+  const text = child?.textContent?.trim();
+  return text ? text : null;
+}
+
+/**
+ * Convert an RFC 822 (RSS) or ISO 8601 (Atom) date to YYYY-MM-DD.
+ * Uses the calendar date as written in the feed rather than converting to
+ * UTC, so an evening episode is not shifted to the next day.
+ */
+function parseFeedDate(value: string | null): string | null {
+  if (!value) return null;
+
+  const iso = value.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+
+  const rfc822 = value.match(/(\d{1,2})\s+([A-Za-z]{3})[a-z]*\s+(\d{4})/);
+  if (rfc822) {
+    const month = MONTHS[rfc822[2].toLowerCase()];
+    if (month) return `${rfc822[3]}-${month}-${rfc822[1].padStart(2, '0')}`;
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
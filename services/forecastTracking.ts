@@ -0,0 +1,155 @@
+/**
+ * Forecast Tracking
+ *
+ * Stores the next-week forecasts of every aggregated report and, once a later
+ * job composes the forecast week, records what actually happened. Accuracy is
+ * summarized per method and metric so the forecasting settings can be judged
+ * on this source's own history.
+ *
+ * A forecast is resolved once: re-running a period does not overwrite the
+ * stored outcome, and re-forecasting an already resolved week keeps the
+ * original record.
+ */
+
+import type { ForecastAccuracy, ForecastRecord, HCRReport, PeriodForecast, TopicTaxonomy } from '../types';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { getForecasts, saveForecasts } from './episodeDB';
+import { computeOverallSentimentIndex, resolvePeriodIssue } from '../utils/reportUtils';
+
+/**
+ * Resolve stored forecasts against newly composed weeks, then store the
+ * aggregated report's own forecasts. Tracking never fails the caller.
+ */
+export async function trackForecasts(
+  weeklyReports: HCRReport[],
+  aggregated: HCRReport,
+  profileId: string = DEFAULT_PROFILE_ID,
+  taxonomy?: TopicTaxonomy | null
+): Promise<void> {
+  try {
+    await recordForecastOutcomes(weeklyReports, profileId, taxonomy);
+    await saveReportForecasts(aggregated, profileId);
+  } catch (error) {
+    console.warn('[ForecastTracking] Could not update forecast records:', error);
+  }
+}
+
+/**
+ * Store a report's forecasts; records already resolved are left untouched
+ */
+export async function saveReportForecasts(report: HCRReport, profileId: string = DEFAULT_PROFILE_ID): Promise<number> {
+  const forecasts = report.period_comparison?.forecasts ?? [];
+  if (forecasts.length === 0) return 0;
+
+  const existing = new Map<string, ForecastRecord>();
+  const weeks = Array.from(new Set<string>(forecasts.map(f => f.week_start)));
+  for (const week of weeks) {
+    (await getForecasts(profileId, week)).forEach(record => existing.set(record.forecast_id, record));
+  }
+
+  const madeAt = new Date().toISOString();
+  const records = forecasts
+    .map((forecast): ForecastRecord => ({
+      ...forecast,
+      forecast_id: forecastId(profileId, forecast),
+      profile_id: profileId,
+      made_at: madeAt,
+      actual: null,
+      error: null,
+      within_interval: null,
+      resolved_at: null
+    }))
+    .filter(record => !existing.get(record.forecast_id)?.resolved_at);
+
+  await saveForecasts(records);
+  console.log(`[ForecastTracking] Stored ${records.length} forecast(s) for profile "${profileId}"`);
+  return records.length;
+}
+
+/**
+ * Fill in the actual values of pending forecasts for the given weekly reports.
+ * Weeks without any analyzed episode are skipped; an issue that did not make
+ * the week's list resolves with no actual value.
+ *
+ * @returns Number of forecasts resolved
+ */
+export async function recordForecastOutcomes(
+  weeklyReports: HCRReport[],
+  profileId: string = DEFAULT_PROFILE_ID,
+  taxonomy?: TopicTaxonomy | null
+): Promise<number> {
+  const resolved: ForecastRecord[] = [];
+  const resolvedAt = new Date().toISOString();
+
+  for (const report of weeklyReports) {
+    if (report.isAggregated || report.sources_analyzed.length === 0) continue;
+    const pending = (await getForecasts(profileId, report.run_window.window_start))
+      .filter(record => !record.resolved_at);
+
+    for (const record of pending) {
+      const actual = actualValue(record, report, taxonomy);
+      resolved.push({
+        ...record,
+        actual,
+        error: actual === null ? null : Number((actual - record.prediction).toFixed(3)),
+        within_interval: actual === null ? null : actual >= record.lower && actual <= record.upper,
+        resolved_at: resolvedAt
+      });
+    }
+  }
+
+  await saveForecasts(resolved);
+  if (resolved.length > 0) {
+    console.log(`[ForecastTracking] Resolved ${resolved.length} forecast(s) for profile "${profileId}"`);
+  }
+  return resolved.length;
+}
+
+/**
+ * Error and interval coverage of a profile's resolved forecasts, per method and metric
+ */
+export async function getForecastAccuracy(profileId: string = DEFAULT_PROFILE_ID): Promise<ForecastAccuracy[]> {
+  return summarizeForecastAccuracy(await getForecasts(profileId));
+}
+
+/**
+ * Group resolved records with an actual value by method and metric
+ */
+export function summarizeForecastAccuracy(records: ForecastRecord[]): ForecastAccuracy[] {
+  const groups = new Map<string, ForecastRecord[]>();
+  records
+    .filter(record => record.actual !== null && record.error !== null)
+    .forEach(record => {
+      const key = `${record.method}|${record.metric}`;
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    });
+
+  return Array.from(groups.values())
+    .map((group): ForecastAccuracy => ({
+      method: group[0].method,
+      metric: group[0].metric,
+      resolved: group.length,
+      mean_absolute_error: Number((group.reduce((sum, r) => sum + Math.abs(r.error!), 0) / group.length).toFixed(3)),
+      interval_coverage: Number((group.filter(r => r.within_interval).length / group.length).toFixed(3)),
+      level: Number((group.reduce((sum, r) => sum + r.level, 0) / group.length).toFixed(3))
+    }))
+    .sort((a, b) => a.metric.localeCompare(b.metric) || a.method.localeCompare(b.method));
+}
+
+function forecastId(profileId: string, forecast: PeriodForecast): string {
+  return `${profileId}_${forecast.week_start}_${forecast.normalized_name ?? 'overall'}_${forecast.metric}_${forecast.method}`;
+}
+
+function actualValue(record: ForecastRecord, report: HCRReport, taxonomy?: TopicTaxonomy | null): number | null {
+  if (record.series === 'overall') {
+    const overall = computeOverallSentimentIndex(report);
+    return typeof overall === 'number' ? overall : null;
+  }
+
+  const issue = report.top_issues.find(i => resolvePeriodIssue(i.issue_name, taxonomy).key === record.normalized_name);
+  if (!issue) return null;
+  if (record.metric === 'prominence') {
+    return typeof issue.prominence === 'number' ? issue.prominence : null;
+  }
+  return typeof issue.sentiment_index === 'number' ? issue.sentiment_index : null;
+}
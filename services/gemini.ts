@@ -1,10 +1,27 @@
 
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold, GenerateContentResponse } from "@google/genai";
-import { HCRReport, MarketAnalysisResult, EpisodeInsight, EpisodeMetadata, TopicInsight } from "../types";
+import { HCRReport, MarketAnalysisResult, EpisodeInsight, EpisodeMetadata, TopicInsight, TranscriptRecord, SourceProfile } from "../types";
+import { generateStructured } from "./structuredOutput";
+import type { LLMCallContext } from "./llmProvider";
+import {
+  EPISODE_INSIGHT_SCHEMA,
+  HCR_REPORT_SCHEMA,
+  EXECUTIVE_SUMMARY_SCHEMA,
+  MARKET_ANALYSIS_SCHEMA,
+  type EpisodeAnalysisPayload,
+  type MarketAnalysisPayload
+} from "./responseSchemas";
+import { getTranscript } from "./episodeDB";
+import { formatTranscriptForPrompt, locateQuoteOffsets } from "./transcriptIngestion";
+import { buildProfilePrompt, fillProfilePlaceholders, unscopeEpisodeId, belongsToProfile } from "./sourceProfiles";
+import { buildDefaultSourceProfile } from "../constants/sourceProfiles";
+import { estimateFocusRelevance } from "../utils/aggregation";
+
+// Prompt templates below use source profile placeholders ({{HOST_NAME}}, {{SHOW_NAMES}},
+// {{FOCUS_TOPIC}}, {{FOCUS_DEFINITION}}), filled in by buildProfilePrompt() from the profile being analyzed.
 
 const PROMPT_TEMPLATE = `
-You are an AI political analysis assistant performing evidence-grounded weekly sentiment and issue tracking.
-TASK: Analyze episodes from Heather Cox Richardson’s shows/series ("This Week in Politics", "Politics Chat", "American Conversations", "What the Heck Just Happened") found via Google Search.
+You are an AI analysis assistant performing evidence-grounded weekly sentiment and issue tracking.
+TASK: Analyze episodes from {{HOST_NAME}}’s shows/series ({{SHOW_NAMES}}) found via Google Search.
 
 RUN_WINDOW (weekly)
 Analyze episodes published within:
@@ -16,7 +33,8 @@ prior_window_start: {{PRIOR_START}}
 prior_window_end: {{PRIOR_END}} (inclusive)
 to compute week-over-week changes.
 
-FOCUS: Restrict analysis to content about the Trump administration and public/political sentiment around it.
+FOCUS: Restrict analysis to content within this focus and the sentiment around it:
+{{FOCUS_DEFINITION}}
 
 OUTPUT REQUIREMENTS:
 - Return ONLY a valid JSON object.
@@ -106,9 +124,9 @@ INPUT DATA (HCR Sentiment Report):
 `;
 
 const EPISODE_ANALYSIS_PROMPT = `
-You are a political sentiment analysis assistant specializing in episode-level analysis.
+You are a sentiment analysis assistant specializing in episode-level analysis.
 
-TASK: Analyze a single episode for topics, sentiment, and evidence related to the Trump administration and US politics.
+TASK: Analyze a single episode for topics, sentiment, and evidence related to {{FOCUS_TOPIC}}.
 
 EPISODE METADATA:
 - Show: {{SHOW_NAME}}
@@ -116,17 +134,20 @@ EPISODE METADATA:
 - Published: {{PUBLISHED_AT}}
 - Episode ID: {{EPISODE_ID}}
 
+FOCUS DEFINITION:
+{{FOCUS_DEFINITION}}
+
 INSTRUCTIONS:
 1. Use Google Search to find the full transcript, detailed summary, or comprehensive description for this specific episode.
-2. Identify ALL topics related to Trump administration and US politics discussed in this episode.
+2. Identify ALL topics discussed in this episode that fall within the focus definition (apply its include and exclude criteria).
 3. For each topic, extract:
-   - Topic name (clear, specific label - e.g., "Federal Shutdown", "Immigration Policy", "Jan 6 Investigation")
-   - Sentiment score (0=extremely negative, 50=neutral, 100=extremely positive) based on how HCR discussed it
+   - Topic name (clear, specific label; reuse an example topic label when the topic matches one)
+   - Sentiment score (0=extremely negative, 50=neutral, 100=extremely positive) based on how {{HOST_NAME}} discussed it
    - Confidence (0.0-1.0) in your sentiment assessment
    - Key quotes that support the sentiment (2-4 direct quotes or close paraphrases)
    - Prominence (0.0-1.0): How much attention/time this topic received in the episode
-4. Assess overall episode sentiment toward Trump administration (0-100 scale).
-5. Determine if Trump administration was the primary focus (true/false).
+4. Assess overall episode sentiment toward {{FOCUS_TOPIC}} (0-100 scale).
+5. Rate focus relevance (0.0-1.0): how central {{FOCUS_TOPIC}} is to the episode (0 = not discussed, 1 = the whole episode is about it).
 6. Extract 3-5 most impactful quotes from the episode.
 
 OUTPUT REQUIREMENTS:
@@ -153,15 +174,74 @@ REQUIRED JSON OUTPUT SCHEMA:
     }
   ],
   "overall_sentiment": 0-100,
-  "trump_admin_focus": true/false,
+  "focus_relevance": 0.0-1.0,
   "key_quotes": ["quote1", "quote2", "quote3"]
 }
 `;
 
+const TRANSCRIPT_ANALYSIS_PROMPT = `
+You are a sentiment analysis assistant specializing in episode-level analysis.
+
+TASK: Analyze the transcript of a single episode for topics, sentiment, and evidence related to {{FOCUS_TOPIC}}.
+
+EPISODE METADATA:
+- Show: {{SHOW_NAME}}
+- Title: {{TITLE}}
+- Published: {{PUBLISHED_AT}}
+- Episode ID: {{EPISODE_ID}}
+
+FOCUS DEFINITION:
+{{FOCUS_DEFINITION}}
+
+INSTRUCTIONS:
+1. Use ONLY the transcript below. Do not rely on outside sources.
+2. Identify ALL topics discussed in this episode that fall within the focus definition (apply its include and exclude criteria).
+3. For each topic, extract:
+   - Topic name (clear, specific label; reuse an example topic label when the topic matches one)
+   - Sentiment score (0=extremely negative, 50=neutral, 100=extremely positive) based on how {{HOST_NAME}} discussed it
+   - Confidence (0.0-1.0) in your sentiment assessment
+   - Key quotes that support the sentiment (2-4 VERBATIM quotes copied exactly from the transcript, without the [offset] labels)
+   - Prominence (0.0-1.0): How much of the transcript this topic occupies
+4. Assess overall episode sentiment toward {{FOCUS_TOPIC}} (0-100 scale).
+5. Rate focus relevance (0.0-1.0): how central {{FOCUS_TOPIC}} is to the episode (0 = not discussed, 1 = the whole episode is about it).
+6. Extract 3-5 most impactful verbatim quotes from the transcript.
+
+OUTPUT REQUIREMENTS:
+- Return ONLY a valid JSON object.
+- NO markdown formatting (like \`\`\`json).
+- ESCAPE ALL DOUBLE QUOTES inside string values (e.g., "She said \\"Hello\\"").
+- NO TRAILING COMMAS in arrays or objects.
+- Ensure all newlines in string values are escaped as \\n.
+
+REQUIRED JSON OUTPUT SCHEMA:
+{
+  "episode_id": "{{EPISODE_ID}}",
+  "show_name": "{{SHOW_NAME}}",
+  "title": "{{TITLE}}",
+  "published_at": "{{PUBLISHED_AT}}",
+  "transcript_url": null,
+  "topics": [
+    {
+      "topic_name": "string",
+      "sentiment_score": 0-100,
+      "confidence": 0.0-1.0,
+      "evidence_quotes": ["quote1", "quote2"],
+      "prominence_score": 0.0-1.0
+    }
+  ],
+  "overall_sentiment": 0-100,
+  "focus_relevance": 0.0-1.0,
+  "key_quotes": ["quote1", "quote2", "quote3"]
+}
+
+TRANSCRIPT (each block is prefixed with its [offset]):
+{{TRANSCRIPT}}
+`;
+
 const SUMMARY_SYNTHESIS_PROMPT = `
-You are a political analysis writer specializing in weekly political commentary summaries.
+You are an analysis writer specializing in weekly commentary summaries.
 
-TASK: Write a concise, informative executive summary (3-5 paragraphs, 50-80 words each) for this week's political sentiment analysis based on Heather Cox Richardson's shows.
+TASK: Write a concise, informative executive summary (3-5 paragraphs, 50-80 words each) for this week's sentiment analysis of {{FOCUS_TOPIC}} based on {{HOST_NAME}}'s shows.
 
 INPUT DATA:
 Week Period: {{WEEK_START}} to {{WEEK_END}}
@@ -177,7 +257,7 @@ Narrative Shifts:
 
 INSTRUCTIONS:
 1. Write 3-5 distinct paragraphs, each 50-80 words
-2. Be specific: mention bills, events, names, and dates when available
+2. Be specific: mention specific events, decisions, names, and dates when available
 3. Explain WHY sentiment changed (not just that it did)
 4. Focus on narrative shifts and notable developments
 5. Use active voice and clear language
@@ -194,13 +274,6 @@ REQUIRED JSON OUTPUT SCHEMA:
 ["Paragraph 1 text here (50-80 words)...", "Paragraph 2 text here...", "Paragraph 3 text here..."]
 `;
 
-const SAFETY_SETTINGS = [
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH }
-];
-
 const MAX_RETRIES = 3;
 
 async function withRetry<T>(operation: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
@@ -223,62 +296,23 @@ async function withRetry<T>(operation: () => Promise<T>, retries = MAX_RETRIES):
 
       const isNetworkError = msg.includes("xhr error") || msg.includes("fetch failed") || msg.includes("network error");
       const isServerError = error?.code === 500 || error?.code === 503 || msg.includes('"code":500') || msg.includes('"code":503');
-      const isJsonError = msg.includes("JSON_PARSE_ERROR") || msg.includes("SyntaxError");
-      
-      const isRetryable = isNetworkError || isServerError || isJsonError;
+
+      // Malformed or invalid JSON is handled by the structured output repair pass, not retried here
+      // Rate limits (429) are retried by the shared request scheduler, which pauses the whole queue
+      const isRetryable = isNetworkError || isServerError;
 
       if (i === retries - 1 || !isRetryable) {
         throw error;
       }
 
       const delay = Math.pow(2, i) * 1000;
-      console.warn(`Gemini API attempt ${i + 1} failed. Retrying in ${delay}ms...`, error);
+      console.warn(`LLM provider attempt ${i + 1} failed. Retrying in ${delay}ms...`, error);
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
   throw new Error("Unreachable");
 }
 
-function cleanJsonText(text: string): string {
-  if (!text) return "";
-  const codeBlockMatch = text.match(/```(?:json|JSON)?\s*([\s\S]*?)\s*```/);
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim();
-  }
-  const firstBrace = text.indexOf('{');
-  const lastBrace = text.lastIndexOf('}');
-  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-    return text.substring(firstBrace, lastBrace + 1);
-  }
-  return text.trim();
-}
-
-function normalizeDateYmd(value: unknown, fallback: string): string {
-  if (typeof value === "string") {
-    const match = value.match(/^\d{4}-\d{2}-\d{2}/);
-    if (match) return match[0];
-    const parsed = new Date(value);
-    if (!isNaN(parsed.getTime())) return parsed.toISOString().slice(0, 10);
-  }
-
-  // Fallback might already be YYYY-MM-DD; preserve it as best-effort.
-  if (typeof fallback === "string") {
-    const match = fallback.match(/^\d{4}-\d{2}-\d{2}/);
-    if (match) return match[0];
-  }
-  return fallback;
-}
-
-function normalizeDateYmdOrNull(value: unknown): string | null {
-  if (typeof value === 'string') {
-    const match = value.match(/^\d{4}-\d{2}-\d{2}/);
-    if (match) return match[0];
-    const parsed = new Date(value);
-    if (!isNaN(parsed.getTime())) return parsed.toISOString().slice(0, 10);
-  }
-  return null;
-}
-
 function computeOverallSentimentIndexFromIssues(report: HCRReport): number | null {
   const values = report.top_issues
     .map(i => (typeof i.sentiment_index === 'number' ? i.sentiment_index : null))
@@ -300,62 +334,29 @@ function computeSentimentForDate(report: HCRReport, dateYmd: string): number | n
   return computeOverallSentimentIndexFromIssues(report);
 }
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
-}
-
-function clamp01(value: number): number {
-  return clamp(value, 0, 1);
-}
-
-function coerceNumber(value: unknown, fallback: number | null = null): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) return value;
-  if (typeof value === "string" && value.trim().length > 0) {
-    const parsed = Number(value);
-    if (Number.isFinite(parsed)) return parsed;
-  }
-  return fallback;
-}
-
-function coerceStringArray(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  return value
-    .filter((item: unknown) => typeof item === "string")
-    .map(item => item.trim())
-    .filter(item => item.length > 0);
-}
-
-export async function generateReport(start: string, end: string, priorStart: string, priorEnd: string): Promise<HCRReport> {
-  const prompt = PROMPT_TEMPLATE
+export async function generateReport(
+  start: string,
+  end: string,
+  priorStart: string,
+  priorEnd: string,
+  profile: SourceProfile = buildDefaultSourceProfile()
+): Promise<HCRReport> {
+  const prompt = fillProfilePlaceholders(profile, PROMPT_TEMPLATE)
     .replace('{{WINDOW_START}}', start)
     .replace('{{WINDOW_END}}', end)
     .replace('{{PRIOR_START}}', priorStart)
     .replace('{{PRIOR_END}}', priorEnd);
 
   return withRetry<HCRReport>(async () => {
-    // Create fresh instance to ensure we use current process.env.API_KEY
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
-
-    let text = response.text;
-    if (!text) {
-      throw new Error(`No response from Gemini.`);
-    }
-
-    const cleanText = cleanJsonText(text);
-    try {
-      return JSON.parse(cleanText) as HCRReport;
-    } catch (e) {
-      console.error("JSON Parse Error in generateReport:", e, "Text:", cleanText);
-      throw new Error("JSON_PARSE_ERROR");
-    }
+    const { value } = await generateStructured<HCRReport>({
+      task: 'report',
+      prompt,
+      useWebSearch: true,
+      fixtureKey: `${start}_${end}`,
+      context: { startDate: start, endDate: end, priorStart, priorEnd }
+    }, HCR_REPORT_SCHEMA);
+
+    return value;
   });
 }
 
@@ -364,118 +365,88 @@ export async function generateReport(start: string, end: string, priorStart: str
  * This is the new episode-centric analysis function that operates on individual episodes
  * rather than week-level aggregations.
  *
+ * If a transcript has been imported for the episode it is analyzed directly
+ * (no web search) and evidence quotes are mapped back to transcript offsets.
+ *
  * @param episodeId - Unique identifier for the episode
  * @param episodeMetadata - Basic episode metadata (show name, title, date, etc.)
  * @param frameworkVersion - Version tag for cache invalidation (default: "v2")
+ * @param profile - Source profile the episode was discovered for (host, focus, prompt overrides)
+ * @param call - Context of the run making the call (abort signal)
  * @returns EpisodeInsight object with topics, sentiment scores, and quotes
  */
 export async function analyzeEpisode(
   episodeId: string,
   episodeMetadata: EpisodeMetadata,
-  frameworkVersion: string = "v2"
+  frameworkVersion: string = "v2",
+  profile: SourceProfile = buildDefaultSourceProfile(),
+  call: LLMCallContext = {}
 ): Promise<EpisodeInsight> {
-  const prompt = EPISODE_ANALYSIS_PROMPT
+  // Prefer an imported transcript over web search when one exists
+  let transcript: TranscriptRecord | undefined;
+  try {
+    const stored = await getTranscript(unscopeEpisodeId(episodeId));
+    transcript = stored && belongsToProfile(stored, profile.profile_id) ? stored : undefined;
+  } catch (error) {
+    console.warn(`[analyzeEpisode] Transcript lookup failed for ${episodeId}, falling back to web search:`, error);
+  }
+
+  const prompt = transcript
+    ? buildProfilePrompt(profile, 'transcript_analysis', TRANSCRIPT_ANALYSIS_PROMPT)
+    : buildProfilePrompt(profile, 'analysis', EPISODE_ANALYSIS_PROMPT);
+  const filledPrompt = prompt
     .replace(/\{\{EPISODE_ID\}\}/g, episodeId)
     .replace(/\{\{SHOW_NAME\}\}/g, episodeMetadata.show_name)
     .replace(/\{\{TITLE\}\}/g, episodeMetadata.title)
-    .replace(/\{\{PUBLISHED_AT\}\}/g, episodeMetadata.published_at);
+    .replace(/\{\{PUBLISHED_AT\}\}/g, episodeMetadata.published_at)
+    .replace('{{TRANSCRIPT}}', () => (transcript ? formatTranscriptForPrompt(transcript) : ''));
 
   return withRetry<EpisodeInsight>(async () => {
-    // Create fresh instance to ensure we use current process.env.API_KEY
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
-
-    let text = response.text;
-    if (!text) {
-      throw new Error(`No response from Gemini for episode ${episodeId}.`);
-    }
-
-    const cleanText = cleanJsonText(text);
-    try {
-      const raw = JSON.parse(cleanText) as any;
-
-      const topicsRaw = Array.isArray(raw?.topics) ? raw.topics : [];
-      const topics: TopicInsight[] = topicsRaw
-        .map((topic: any): TopicInsight | null => {
-          const topicName = String(topic?.topic_name ?? topic?.name ?? topic?.topic ?? "").trim();
-          if (!topicName) return null;
-
-          const sentiment = coerceNumber(topic?.sentiment_score ?? topic?.sentiment);
-          if (sentiment === null) return null;
-
-          const confidence = coerceNumber(topic?.confidence, 0.6);
-          const prominence = coerceNumber(
-            topic?.prominence_score ?? topic?.prominence ?? topic?.prominenceScore,
-            0.3
-          );
-
-          const evidenceQuotes =
-            coerceStringArray(topic?.evidence_quotes ?? topic?.evidenceQuotes ?? topic?.quotes ?? topic?.evidence);
-
-          return {
-            topic_name: topicName,
-            sentiment_score: clamp(sentiment, 0, 100),
-            confidence: clamp01(confidence ?? 0.6),
-            evidence_quotes: evidenceQuotes,
-            prominence_score: clamp01(prominence ?? 0.3)
-          };
-        })
-        .filter((topic): topic is TopicInsight => Boolean(topic));
-
-      if (topicsRaw.length > 0 && topics.length === 0) {
-        throw new Error("Invalid episode insight structure: topics present but not parseable");
-      }
-
-      const publishedAt = normalizeDateYmd(raw?.published_at ?? episodeMetadata.published_at, episodeMetadata.published_at);
-      const transcriptUrlRaw = raw?.transcript_url ?? episodeMetadata.transcript_url ?? null;
-      const transcriptUrl = typeof transcriptUrlRaw === "string" && transcriptUrlRaw.trim().length > 0
-        ? transcriptUrlRaw
-        : undefined;
-
-      const overallSentimentRaw = coerceNumber(raw?.overall_sentiment);
-      const overallSentiment = overallSentimentRaw !== null
-        ? clamp(overallSentimentRaw, 0, 100)
-        : (topics.length > 0 ? clamp(topics.reduce((sum, t) => sum + t.sentiment_score, 0) / topics.length, 0, 100) : 50);
-
-      const keyQuotes = coerceStringArray(raw?.key_quotes ?? raw?.keyQuotes);
-      const fallbackQuotes = topics.flatMap(t => t.evidence_quotes).slice(0, 5);
-
-      const parsed: EpisodeInsight = {
-        episode_id: episodeId,
-        show_name: String(raw?.show_name ?? episodeMetadata.show_name),
-        title: String(raw?.title ?? episodeMetadata.title),
-        published_at: publishedAt,
-        transcript_url: transcriptUrl,
-        topics,
-        overall_sentiment: overallSentiment,
-        trump_admin_focus: typeof raw?.trump_admin_focus === "boolean"
-          ? raw.trump_admin_focus
-          : topics.length > 0,
-        key_quotes: keyQuotes.length > 0 ? keyQuotes : fallbackQuotes,
-        framework_version: frameworkVersion,
-        processed_at: new Date().toISOString(),
-        model_used: 'gemini-3-flash-preview'
-      };
-
-      if (!parsed.episode_id || !Array.isArray(parsed.topics)) {
-        throw new Error("Invalid episode insight structure: missing required fields");
+    const { value: raw, model, usage } = await generateStructured<EpisodeAnalysisPayload>({
+      ...call,
+      task: 'analysis',
+      prompt: filledPrompt,
+      useWebSearch: !transcript,
+      fixtureKey: episodeId,
+      context: {
+        episodeId,
+        showName: episodeMetadata.show_name,
+        title: episodeMetadata.title,
+        publishedAt: episodeMetadata.published_at
       }
-
-      return parsed;
-    } catch (e) {
-      console.error("Episode insight parse/validation error in analyzeEpisode:", e, "Text:", cleanText);
-      if (e instanceof Error) {
-        throw e;
-      }
-      throw new Error("JSON_PARSE_ERROR");
-    }
+    }, EPISODE_INSIGHT_SCHEMA);
+
+    const topics: TopicInsight[] = raw.topics.map(topic => ({
+      topic_name: topic.topic_name,
+      sentiment_score: topic.sentiment_score,
+      confidence: topic.confidence,
+      evidence_quotes: topic.evidence_quotes,
+      ...(transcript ? { evidence_offsets: locateQuoteOffsets(transcript, topic.evidence_quotes) } : {}),
+      prominence_score: topic.prominence_score
+    }));
+
+    const transcriptUrl = raw.transcript_url || episodeMetadata.transcript_url || undefined;
+    const overallSentiment = raw.overall_sentiment ??
+      (topics.length > 0 ? topics.reduce((sum, t) => sum + t.sentiment_score, 0) / topics.length : 50);
+    const fallbackQuotes = topics.flatMap(t => t.evidence_quotes).slice(0, 5);
+
+    return {
+      episode_id: episodeId,
+      show_name: raw.show_name || episodeMetadata.show_name,
+      title: raw.title || episodeMetadata.title,
+      published_at: raw.published_at || episodeMetadata.published_at,
+      transcript_url: transcriptUrl,
+      topics,
+      overall_sentiment: overallSentiment,
+      focus_relevance: raw.focus_relevance ?? estimateFocusRelevance(topics),
+      key_quotes: raw.key_quotes.length > 0 ? raw.key_quotes : fallbackQuotes,
+      framework_version: frameworkVersion,
+      processed_at: new Date().toISOString(),
+      model_used: model,
+      input_source: transcript ? "transcript" : "web_search",
+      profile_id: profile.profile_id,
+      ...(usage ? { usage } : {})
+    };
   });
 }
 
@@ -489,6 +460,8 @@ export async function analyzeEpisode(
  * @param topIssues - Array of ranked issues with sentiment and evidence
  * @param episodes - Array of episode insights from the week
  * @param narrativeShifts - Array of narrative shift descriptions
+ * @param profile - Source profile the report covers
+ * @param call - Context of the run making the call (abort signal)
  * @returns Array of paragraph strings (3-5 paragraphs, 50-80 words each)
  */
 export async function synthesizeExecutiveSummary(
@@ -503,7 +476,9 @@ export async function synthesizeExecutiveSummary(
     movement?: string;
   }>,
   episodes: EpisodeInsight[],
-  narrativeShifts: string[]
+  narrativeShifts: string[],
+  profile: SourceProfile = buildDefaultSourceProfile(),
+  call: LLMCallContext = {}
 ): Promise<string[]> {
   // Prepare top issues summary for prompt
   const topIssuesJson = JSON.stringify(
@@ -535,7 +510,7 @@ export async function synthesizeExecutiveSummary(
     : '- No major narrative shifts identified this week';
 
   // Build the prompt
-  const prompt = SUMMARY_SYNTHESIS_PROMPT
+  const prompt = buildProfilePrompt(profile, 'summary', SUMMARY_SYNTHESIS_PROMPT)
     .replace('{{WEEK_START}}', weekStart)
     .replace('{{WEEK_END}}', weekEnd)
     .replace('{{TOP_ISSUES_JSON}}', topIssuesJson)
@@ -545,48 +520,22 @@ export async function synthesizeExecutiveSummary(
   console.log(`Synthesizing executive summary for ${weekStart} to ${weekEnd}...`);
 
   return withRetry<string[]>(async () => {
-    // Create fresh instance to ensure we use current process.env.API_KEY
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        // No search needed - all context is provided
-        safetySettings: SAFETY_SETTINGS,
-      }
-    });
-
-    let text = response.text;
-    if (!text) {
-      throw new Error('No response from Gemini for executive summary synthesis.');
+    const { value: paragraphs } = await generateStructured<string[]>({
+      ...call,
+      task: 'summary',
+      prompt,
+      // No search needed - all context is provided
+      useWebSearch: false,
+      fixtureKey: `${weekStart}_${weekEnd}`,
+      context: { weekStart, weekEnd }
+    }, EXECUTIVE_SUMMARY_SCHEMA);
+
+    if (paragraphs.length < 3 || paragraphs.length > 5) {
+      console.warn(`Expected 3-5 paragraphs, got ${paragraphs.length}. Proceeding anyway.`);
     }
 
-    const cleanText = cleanJsonText(text);
-    try {
-      const parsed = JSON.parse(cleanText);
-
-      // Validate output is an array of strings
-      if (!Array.isArray(parsed)) {
-        throw new Error('Expected array of paragraph strings');
-      }
-
-      const paragraphs = parsed
-        .filter(p => typeof p === 'string' && p.trim().length > 0)
-        .map(p => p.trim());
-
-      if (paragraphs.length < 3 || paragraphs.length > 5) {
-        console.warn(`Expected 3-5 paragraphs, got ${paragraphs.length}. Proceeding anyway.`);
-      }
-
-      console.log(`✓ Synthesized executive summary with ${paragraphs.length} paragraphs`);
-      return paragraphs;
-    } catch (e) {
-      console.error('Executive summary parse error:', e, 'Text:', cleanText);
-      if (e instanceof Error) {
-        throw e;
-      }
-      throw new Error('JSON_PARSE_ERROR');
-    }
+    console.log(`✓ Synthesized executive summary with ${paragraphs.length} paragraphs`);
+    return paragraphs;
   });
 }
 
@@ -631,57 +580,31 @@ export async function generateMarketBrainstorm(
     + `\nINPUT DATA:\n${context}`;
 
   return withRetry<MarketAnalysisResult>(async () => {
-    // Create fresh instance to ensure we use current process.env.API_KEY
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }], 
-        safetySettings: SAFETY_SETTINGS,
-      }
+    const { value: parsed } = await generateStructured<MarketAnalysisPayload>({
+      task: 'market',
+      prompt,
+      useWebSearch: true,
+      fixtureKey: `${startDate}_${endDate}`,
+      context: { startDate, endDate }
+    }, MARKET_ANALYSIS_SCHEMA);
+
+    let analysisMarkdown = parsed.analysis_content.join('\n\n') || "Analysis generation incomplete.";
+
+    // Prefer the app's computed sentiment series (derived from weekly composition)
+    // over model-assigned daily sentiment values.
+    let overwritten = 0;
+    const dailyData = parsed.daily_data.map(row => {
+      const sentiment = computeSentimentForDate(report, row.date);
+      if (typeof sentiment !== 'number') return row;
+      overwritten += 1;
+      return { ...row, hcr_sentiment: sentiment };
     });
 
-    if (!response.text) {
-       throw new Error("No response generated for market analysis.");
+    if (overwritten > 0) {
+      analysisMarkdown +=
+        `\n\n---\n\nNote: The chart’s sentiment series is derived from the report’s weekly sentiment data across the selected period.`;
     }
-    
-    const cleanText = cleanJsonText(response.text);
-    try {
-        const parsed = JSON.parse(cleanText);
-        if (parsed.analysis_content && Array.isArray(parsed.analysis_content)) {
-          parsed.analysis_markdown = parsed.analysis_content.join('\n\n');
-          delete parsed.analysis_content;
-        }
-        if (!parsed.analysis_markdown) {
-            parsed.analysis_markdown = "Analysis generation incomplete.";
-        }
 
-        // Prefer the app's computed sentiment series (derived from weekly composition)
-        // over model-assigned daily sentiment values.
-        if (Array.isArray(parsed.daily_data)) {
-          let overwritten = 0;
-          parsed.daily_data = parsed.daily_data
-            .map((row: any) => {
-              const dateYmd = normalizeDateYmdOrNull(row?.date);
-              if (!dateYmd) return row;
-              const sentiment = computeSentimentForDate(report, dateYmd);
-              if (typeof sentiment !== 'number') return { ...row, date: dateYmd };
-              overwritten += 1;
-              return { ...row, date: dateYmd, hcr_sentiment: sentiment };
-            })
-            .filter((row: any) => row && typeof row === 'object');
-
-          if (overwritten > 0) {
-            parsed.analysis_markdown +=
-              `\n\n---\n\nNote: The chart’s sentiment series is derived from the report’s weekly sentiment data across the selected period.`;
-          }
-        }
-
-        return parsed as MarketAnalysisResult;
-    } catch (e) {
-        console.error("JSON Parse Error in generateMarketBrainstorm:", e, "Text:", cleanText);
-        throw new Error("JSON_PARSE_ERROR");
-    }
+    return { analysis_markdown: analysisMarkdown, daily_data: dailyData };
   });
 }
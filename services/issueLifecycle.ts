@@ -0,0 +1,254 @@
+/**
+ * Issue Lifecycle Registry
+ *
+ * Follows every issue through the whole stored episode history of a source
+ * profile, not just the weeks of one report: when it first appeared, the week
+ * it peaked, how fast it faded afterwards, and when it went dormant and came
+ * back. Topics are grouped into issues the same way reports group them
+ * (normalization, curated taxonomy, configured matcher).
+ *
+ * A week's prominence is the issue's prominence averaged over all episodes of
+ * that week (episodes not mentioning it count as 0), so it reflects how much
+ * of the week's coverage the issue took up. Calendar weeks without any stored
+ * episode are skipped: nothing can be said about them, and they neither count
+ * towards dormancy nor break it.
+ */
+
+import type {
+  EpisodeInsight,
+  IssueDormancy,
+  IssueLifecycle,
+  IssueRegistry,
+  IssueResurgence,
+  IssueWeekActivity,
+  TopicTaxonomy
+} from '../types';
+import { getConfig, type AppConfig } from '../constants/config';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { getAllEpisodes } from './episodeDB';
+import { loadTopicTaxonomy } from './topicTaxonomy';
+import { getTopicMatcher } from './topicEmbeddings';
+import { clamp01, cleanTopicName, groupTopicNames, TOKEN_OVERLAP_MATCHER, type TopicMatcher } from '../utils/aggregation';
+import { round } from '../utils/statistics';
+
+// Consecutive weeks without a mention before an issue counts as dormant
+export const DORMANCY_WEEKS = 3;
+// Weeks after the peak needed to estimate a decay rate
+const MIN_DECAY_WEEKS = 2;
+const DEFAULT_PROMINENCE = 0.3;
+
+/**
+ * Build the lifecycle of every issue in the given episodes
+ */
+export function buildIssueRegistry(
+  episodes: EpisodeInsight[],
+  taxonomy?: TopicTaxonomy | null,
+  matcher: TopicMatcher = TOKEN_OVERLAP_MATCHER,
+  profileId: string = DEFAULT_PROFILE_ID
+): IssueRegistry {
+  const sorted = [...episodes].sort((a, b) => a.published_at.localeCompare(b.published_at));
+  const groups = groupTopicNames(
+    sorted.flatMap(episode => episode.topics.map(topic => String(topic.topic_name ?? ''))),
+    taxonomy,
+    matcher
+  );
+
+  const episodesPerWeek = new Map<string, number>();
+  type Mention = { episodeId: string; prominence: number; sentiment: number };
+  const issues = new Map<string, {
+    issueName: string;
+    memberTopics: Map<string, string>;
+    episodeIds: Set<string>;
+    firstSeen: string;
+    lastSeen: string;
+    mentionsByWeek: Map<string, Mention[]>;
+  }>();
+
+  for (const episode of sorted) {
+    const week = weekStartOf(episode.published_at);
+    if (!week) continue;
+    episodesPerWeek.set(week, (episodesPerWeek.get(week) ?? 0) + 1);
+    const published = episode.published_at.slice(0, 10);
+
+    for (const topic of episode.topics) {
+      const topicName = String(topic.topic_name ?? '');
+      const group = groups.get(cleanTopicName(topicName));
+      const sentiment = Number(topic.sentiment_score);
+      if (!group || !Number.isFinite(sentiment)) continue;
+
+      const entry = issues.get(group.normalized_name) ?? {
+        issueName: group.issue_name,
+        memberTopics: new Map<string, string>(),
+        episodeIds: new Set<string>(),
+        firstSeen: published,
+        lastSeen: published,
+        mentionsByWeek: new Map<string, Mention[]>()
+      };
+      entry.lastSeen = published;
+      entry.episodeIds.add(episode.episode_id);
+      if (!entry.memberTopics.has(cleanTopicName(topicName))) {
+        entry.memberTopics.set(cleanTopicName(topicName), topicName.trim());
+      }
+      const prominence = Number(topic.prominence_score);
+      const mentions = entry.mentionsByWeek.get(week) ?? [];
+      mentions.push({
+        episodeId: episode.episode_id,
+        prominence: Number.isFinite(prominence) ? clamp01(prominence) : DEFAULT_PROMINENCE,
+        sentiment
+      });
+      entry.mentionsByWeek.set(week, mentions);
+      issues.set(group.normalized_name, entry);
+    }
+  }
+
+  const observedWeeks = Array.from(episodesPerWeek.keys()).sort();
+
+  const lifecycles = Array.from(issues.entries()).map(([normalizedName, entry]): IssueLifecycle => {
+    const firstWeek = observedWeeks.find(week => entry.mentionsByWeek.has(week))!;
+    const weeks: IssueWeekActivity[] = observedWeeks
+      .filter(week => week >= firstWeek)
+      .map(week => {
+        const mentions = entry.mentionsByWeek.get(week) ?? [];
+        // An episode covering the issue in several topics counts with its most prominent one
+        const perEpisode = new Map<string, number>();
+        mentions.forEach(m => perEpisode.set(m.episodeId, Math.max(perEpisode.get(m.episodeId) ?? 0, m.prominence)));
+        const prominenceSum = Array.from(perEpisode.values()).reduce((sum, p) => sum + p, 0);
+        return {
+          week_start: week,
+          episode_count: perEpisode.size,
+          mention_count: mentions.length,
+          prominence: round(prominenceSum / episodesPerWeek.get(week)!, 3),
+          avg_sentiment: mentions.length > 0
+            ? Math.round(mentions.reduce((sum, m) => sum + m.sentiment, 0) / mentions.length)
+            : null
+        };
+      });
+
+    const peakIdx = weeks.reduce((best, week, idx) => week.prominence > weeks[best].prominence ? idx : best, 0);
+    const { dormancies, resurgences } = findDormancies(weeks);
+
+    return {
+      issue_name: entry.issueName,
+      normalized_name: normalizedName,
+      member_topics: Array.from(entry.memberTopics.values()),
+      first_seen: entry.firstSeen,
+      last_seen: entry.lastSeen,
+      first_week: firstWeek,
+      peak_week: weeks[peakIdx].week_start,
+      peak_prominence: weeks[peakIdx].prominence,
+      decay_rate: estimateDecayRate(weeks, peakIdx, dormancies),
+      status: dormancies.some(d => d.ongoing) ? 'dormant' : 'active',
+      episode_count: entry.episodeIds.size,
+      weeks_active: weeks.filter(w => w.mention_count > 0).length,
+      dormancies,
+      resurgences,
+      weeks
+    };
+  });
+
+  lifecycles.sort((a, b) =>
+    b.episode_count - a.episode_count || a.issue_name.localeCompare(b.issue_name)
+  );
+
+  return {
+    profile_id: profileId,
+    generated_at: new Date().toISOString(),
+    episode_count: sorted.length,
+    week_count: observedWeeks.length,
+    first_week: observedWeeks[0] ?? null,
+    last_week: observedWeeks[observedWeeks.length - 1] ?? null,
+    issues: lifecycles
+  };
+}
+
+/**
+ * Build the registry from every stored episode of a source profile
+ */
+export async function loadIssueRegistry(
+  profileId: string = DEFAULT_PROFILE_ID,
+  config: AppConfig = getConfig()
+): Promise<IssueRegistry> {
+  const episodes = (await getAllEpisodes())
+    .filter(episode => (episode.profile_id ?? DEFAULT_PROFILE_ID) === profileId);
+  const taxonomy = await loadTopicTaxonomy();
+  const matcher = await getTopicMatcher(episodes, taxonomy, config);
+
+  const registry = buildIssueRegistry(episodes, taxonomy, matcher, profileId);
+  console.log(`[IssueLifecycle] ${registry.issues.length} issues across ${registry.week_count} weeks for profile "${profileId}"`);
+  return registry;
+}
+
+/**
+ * Sunday that starts the week of a YYYY-MM-DD (or ISO timestamp) date
+ */
+export function weekStartOf(date: string): string | null {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  if (!y || !m || !d) return null;
+  const day = new Date(Date.UTC(y, m - 1, d));
+  day.setUTCDate(day.getUTCDate() - day.getUTCDay());
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Runs of at least DORMANCY_WEEKS silent weeks, and the weeks the issue came back
+ */
+function findDormancies(weeks: IssueWeekActivity[]): { dormancies: IssueDormancy[]; resurgences: IssueResurgence[] } {
+  const dormancies: IssueDormancy[] = [];
+  const resurgences: IssueResurgence[] = [];
+  let silentStart = -1;
+
+  weeks.forEach((week, idx) => {
+    if (week.mention_count === 0) {
+      if (silentStart < 0) silentStart = idx;
+      return;
+    }
+    if (silentStart >= 0 && idx - silentStart >= DORMANCY_WEEKS) {
+      dormancies.push({
+        start_week: weeks[silentStart].week_start,
+        end_week: weeks[idx - 1].week_start,
+        weeks: idx - silentStart,
+        ongoing: false
+      });
+      resurgences.push({ week_start: week.week_start, dormant_weeks: idx - silentStart, prominence: week.prominence });
+    }
+    silentStart = -1;
+  });
+
+  if (silentStart >= 0 && weeks.length - silentStart >= DORMANCY_WEEKS) {
+    dormancies.push({
+      start_week: weeks[silentStart].week_start,
+      end_week: weeks[weeks.length - 1].week_start,
+      weeks: weeks.length - silentStart,
+      ongoing: true
+    });
+  }
+
+  return { dormancies, resurgences };
+}
+
+/**
+ * Weekly fractional decline of prominence after the peak, from a log-linear
+ * fit over the weeks it was still mentioned up to the first dormancy (silent
+ * weeks and later comebacks are not part of the decay). 0.2 means prominence
+ * falls by a fifth per week.
+ */
+function estimateDecayRate(
+  weeks: IssueWeekActivity[],
+  peakIdx: number,
+  dormancies: IssueDormancy[]
+): number | null {
+  const peakWeek = weeks[peakIdx].week_start;
+  const firstQuiet = dormancies.find(d => d.start_week > peakWeek)?.start_week;
+  const points = weeks
+    .map((week, idx) => ({ x: idx, y: week.prominence, week: week.week_start }))
+    .filter(p => p.x >= peakIdx && p.y > 0 && (!firstQuiet || p.week < firstQuiet));
+  if (points.length < MIN_DECAY_WEEKS + 1) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + Math.log(p.y), 0) / points.length;
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (Math.log(p.y) - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = covariance / variance;
+
+  return round(Math.max(0, 1 - Math.exp(slope)), 3);
+}
@@ -0,0 +1,273 @@
+/**
+ * Library Merge
+ *
+ * Team members analyze overlapping date ranges and end up with different
+ * analyses of the same episode (another model, framework version or run).
+ * A library merge loads another library export (a database backup archive,
+ * or a plain list of episodes) and diffs it against the local episode store
+ * episode by episode:
+ *
+ * - episodes only the other library has are added
+ * - episodes analyzed identically (same model, framework version and run
+ *   time) are left alone
+ * - conflicting analyses are resolved by the chosen policy: newest framework
+ *   version, highest average topic confidence, or a manual pick per episode
+ *
+ * Every decision is written to the merge log together with the episodes.
+ * Replaced local analyses stay in the episode version history, and weeks
+ * that used them are re-ranked on the next run (their cached aggregations no
+ * longer match the episodes' content).
+ */
+
+import type { EpisodeInsight, EpisodeVersionSummary, LibraryMergePolicy, MergeDecision } from '../types';
+import { compareVersions } from '../constants/frameworkVersion';
+import {
+  commitLibraryMerge,
+  getAllEpisodes,
+  getMergeDecisions
+} from './episodeDB';
+import { BACKUP_FORMAT, validateDatabaseBackup } from './databaseBackup';
+
+export const MERGE_POLICY_LABELS: Record<LibraryMergePolicy, string> = {
+  'newest-framework': 'Newest framework version',
+  'highest-confidence': 'Highest average topic confidence',
+  'manual': 'Pick each episode manually'
+};
+
+export interface EpisodeConflict {
+  episode_id: string;
+  local: EpisodeInsight;
+  incoming: EpisodeInsight;
+  differences: string[];         // Fields that differ, e.g. "model_used"
+}
+
+export interface LibraryDiff {
+  added: EpisodeInsight[];       // Only in the other library
+  identical: string[];           // Same analysis in both (episode IDs)
+  conflicts: EpisodeConflict[];
+  localOnly: number;             // Episodes only the local library has (left alone)
+}
+
+export interface LibraryMergeResult {
+  merge_id: string;
+  added: number;
+  replaced: number;
+  keptLocal: number;
+  decisions: MergeDecision[];
+}
+
+/**
+ * Read the episodes of a library export: a database backup archive or a JSON
+ * list of episodes
+ *
+ * @throws Error when the data holds no usable episodes
+ */
+export function parseLibraryExport(data: unknown): EpisodeInsight[] {
+  let episodes: unknown;
+  if (Array.isArray(data)) {
+    episodes = data;
+  } else if (data && typeof data === 'object' && (data as { format?: unknown }).format === BACKUP_FORMAT) {
+    episodes = validateDatabaseBackup(data).backup.stores.episodes ?? [];
+  } else {
+    throw new Error('Not a library export: expected a database backup archive or a list of episodes.');
+  }
+
+  const list = episodes as Partial<EpisodeInsight>[];
+  const invalid = list.findIndex(episode =>
+    !episode || typeof episode.episode_id !== 'string' || typeof episode.published_at !== 'string' || !Array.isArray(episode.topics));
+  if (invalid >= 0) {
+    throw new Error(`Episode ${invalid + 1} of the library export is missing its ID, publish date or topics.`);
+  }
+  return list as EpisodeInsight[];
+}
+
+/**
+ * Mean confidence of an episode's topics (0 without topics)
+ */
+export function averageTopicConfidence(episode: EpisodeInsight): number {
+  if (episode.topics.length === 0) return 0;
+  const sum = episode.topics.reduce((total, topic) => total + (topic.confidence ?? 0), 0);
+  return Number((sum / episode.topics.length).toFixed(3));
+}
+
+export function summarizeEpisodeVersion(episode: EpisodeInsight): EpisodeVersionSummary {
+  return {
+    model_used: episode.model_used,
+    framework_version: episode.framework_version,
+    processed_at: episode.processed_at,
+    avg_confidence: averageTopicConfidence(episode),
+    topic_count: episode.topics.length
+  };
+}
+
+/**
+ * Compare another library's episodes with the local ones, episode by episode
+ */
+export function diffEpisodeLibraries(local: EpisodeInsight[], incoming: EpisodeInsight[]): LibraryDiff {
+  const localById = new Map<string, EpisodeInsight>(local.map(episode => [episode.episode_id, episode]));
+  const incomingIds = new Set<string>();
+  const diff: LibraryDiff = { added: [], identical: [], conflicts: [], localOnly: 0 };
+
+  for (const episode of incoming) {
+    if (incomingIds.has(episode.episode_id)) continue;
+    incomingIds.add(episode.episode_id);
+
+    const existing = localById.get(episode.episode_id);
+    if (!existing) {
+      diff.added.push(episode);
+      continue;
+    }
+    const differences = episodeDifferences(existing, episode);
+    if (differences.length === 0) {
+      diff.identical.push(episode.episode_id);
+    } else {
+      diff.conflicts.push({ episode_id: episode.episode_id, local: existing, incoming: episode, differences });
+    }
+  }
+
+  diff.localOnly = local.filter(episode => !incomingIds.has(episode.episode_id)).length;
+  diff.conflicts.sort((a, b) => a.local.published_at.localeCompare(b.local.published_at));
+  return diff;
+}
+
+/**
+ * Resolve one conflict with an automatic policy. Ties fall through to the
+ * other criterion, then to the later analysis; a full tie keeps the local copy.
+ */
+export function resolveConflict(
+  conflict: EpisodeConflict,
+  policy: Exclude<LibraryMergePolicy, 'manual'>
+): { action: 'kept-local' | 'took-incoming'; reason: string } {
+  const { local, incoming } = conflict;
+  const byFramework = compareVersions(incoming.framework_version, local.framework_version);
+  const byConfidence = Math.sign(averageTopicConfidence(incoming) - averageTopicConfidence(local));
+  const byRecency = Math.sign(Date.parse(incoming.processed_at) - Date.parse(local.processed_at)) || 0;
+
+  const criteria = policy === 'newest-framework'
+    ? [[byFramework, 'framework version'], [byConfidence, 'topic confidence'], [byRecency, 'analysis date']] as const
+    : [[byConfidence, 'topic confidence'], [byFramework, 'framework version'], [byRecency, 'analysis date']] as const;
+
+  for (const [comparison, criterion] of criteria) {
+    if (comparison !== 0) {
+      const winner = comparison > 0 ? incoming : local;
+      return {
+        action: comparison > 0 ? 'took-incoming' : 'kept-local',
+        reason: `${comparison > 0 ? 'Incoming' : 'Local'} copy has the ${describeCriterion(criterion, winner)}`
+      };
+    }
+  }
+  return { action: 'kept-local', reason: 'Both copies tie on framework version, topic confidence and analysis date' };
+}
+
+/**
+ * Decide every added and conflicting episode of a diff
+ *
+ * @param manualPicks - Episode ID → copy to keep (required for every conflict under the manual policy)
+ * @throws Error when the manual policy is missing a pick
+ */
+export function planLibraryMerge(
+  diff: LibraryDiff,
+  policy: LibraryMergePolicy,
+  options: { sourceLabel: string; manualPicks?: Record<string, 'local' | 'incoming'>; mergeId?: string; mergedAt?: string }
+): MergeDecision[] {
+  const mergedAt = options.mergedAt ?? new Date().toISOString();
+  const mergeId = options.mergeId ?? `merge_${mergedAt}`;
+  const decision = (episode: EpisodeInsight, local: EpisodeInsight | null, fields: Pick<MergeDecision, 'action' | 'policy' | 'reason'>): MergeDecision => ({
+    decision_id: `${mergeId}_${episode.episode_id}`,
+    merge_id: mergeId,
+    merged_at: mergedAt,
+    source_label: options.sourceLabel,
+    episode_id: episode.episode_id,
+    title: episode.title,
+    published_at: episode.published_at,
+    ...fields,
+    local: local ? summarizeEpisodeVersion(local) : null,
+    incoming: summarizeEpisodeVersion(episode)
+  });
+
+  const decisions = diff.added.map(episode =>
+    decision(episode, null, { action: 'added', policy: null, reason: 'Only in the merged library' }));
+
+  for (const conflict of diff.conflicts) {
+    if (policy === 'manual') {
+      const pick = options.manualPicks?.[conflict.episode_id];
+      if (!pick) {
+        throw new Error(`Pick which copy of "${conflict.incoming.title}" to keep.`);
+      }
+      decisions.push(decision(conflict.incoming, conflict.local, {
+        action: pick === 'incoming' ? 'took-incoming' : 'kept-local',
+        policy,
+        reason: `Picked the ${pick} copy`
+      }));
+      continue;
+    }
+    decisions.push(decision(conflict.incoming, conflict.local, { policy, ...resolveConflict(conflict, policy) }));
+  }
+
+  return decisions;
+}
+
+/**
+ * Load another library's episodes and diff them against the local store
+ */
+export async function diffWithLocalLibrary(incoming: EpisodeInsight[]): Promise<LibraryDiff> {
+  return diffEpisodeLibraries(await getAllEpisodes(), incoming);
+}
+
+/**
+ * Write the planned decisions: added and winning incoming episodes go to the
+ * episode store, every decision to the merge log
+ */
+export async function applyLibraryMerge(diff: LibraryDiff, decisions: MergeDecision[]): Promise<LibraryMergeResult> {
+  const incomingById = new Map<string, EpisodeInsight>([
+    ...diff.added.map(episode => [episode.episode_id, episode] as const),
+    ...diff.conflicts.map(conflict => [conflict.episode_id, conflict.incoming] as const)
+  ]);
+  const toWrite = decisions
+    .filter(decision => decision.action !== 'kept-local')
+    .map(decision => incomingById.get(decision.episode_id))
+    .filter((episode): episode is EpisodeInsight => !!episode);
+
+  await commitLibraryMerge(toWrite, decisions);
+
+  const result: LibraryMergeResult = {
+    merge_id: decisions[0]?.merge_id ?? '',
+    added: decisions.filter(d => d.action === 'added').length,
+    replaced: decisions.filter(d => d.action === 'took-incoming').length,
+    keptLocal: decisions.filter(d => d.action === 'kept-local').length,
+    decisions
+  };
+  console.log(`[LibraryMerge] Merged "${decisions[0]?.source_label ?? ''}": ${result.added} added, ${result.replaced} replaced, ${result.keptLocal} kept local`);
+  return result;
+}
+
+/**
+ * Logged merge decisions grouped by merge, newest merge first
+ */
+export async function loadMergeLog(): Promise<Array<{ merge_id: string; merged_at: string; source_label: string; decisions: MergeDecision[] }>> {
+  const merges = new Map<string, { merge_id: string; merged_at: string; source_label: string; decisions: MergeDecision[] }>();
+  for (const decision of await getMergeDecisions()) {
+    if (!merges.has(decision.merge_id)) {
+      merges.set(decision.merge_id, { merge_id: decision.merge_id, merged_at: decision.merged_at, source_label: decision.source_label, decisions: [] });
+    }
+    merges.get(decision.merge_id)!.decisions.push(decision);
+  }
+  return Array.from(merges.values());
+}
+
+function episodeDifferences(local: EpisodeInsight, incoming: EpisodeInsight): string[] {
+  const fields: Array<keyof EpisodeInsight> = ['model_used', 'framework_version', 'processed_at'];
+  const differences: string[] = fields.filter(field => local[field] !== incoming[field]);
+  if (differences.length === 0) return differences;
+
+  if (local.overall_sentiment !== incoming.overall_sentiment) differences.push('overall_sentiment');
+  const topicNames = (episode: EpisodeInsight) => episode.topics.map(topic => topic.topic_name).sort().join('|');
+  if (topicNames(local) !== topicNames(incoming)) differences.push('topics');
+  return differences;
+}
+
+function describeCriterion(criterion: string, winner: EpisodeInsight): string {
+  if (criterion === 'framework version') return `newer framework version (${winner.framework_version})`;
+  if (criterion === 'topic confidence') return `higher average topic confidence (${averageTopicConfidence(winner)})`;
+  return `later analysis (${winner.processed_at})`;
+}
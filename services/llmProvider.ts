@@ -0,0 +1,219 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Every model call in the pipeline (episode discovery, episode analysis,
+ * executive summaries, market brainstorm, topic embeddings) goes through an
+ * `LLMProvider`. Providers only generate text that is expected to be JSON;
+ * parsing and validation stay with the caller (see services/structuredOutput.ts).
+ * Providers with an `embed` method also return embedding vectors, used by
+ * the semantic topic matcher (services/topicEmbeddings.ts).
+ *
+ * The active provider is selected through `AppConfig.provider`:
+ * - gemini: Google Gemini (supports Google Search grounding)
+ * - openai-compatible: local or hosted server exposing /chat/completions
+ * - fixture: deterministic offline responses for tests and demos
+ *
+ * Calls to real providers are admitted by the shared request scheduler
+ * (services/requestScheduler.ts), which enforces RPM/TPM budgets and pauses
+ * on rate-limit responses. Token usage from every response is forwarded to
+ * services/usageAccounting.ts.
+ */
+
+import { getConfig, type AppConfig } from '../constants/config';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+import type { Schema } from '../utils/schema';
+import { getRequestScheduler, estimateRequestTokens } from './requestScheduler';
+import type { UsageMeter } from './usageAccounting';
+import type { TokenUsage } from '../types';
+
+export { ProviderHttpError } from './providers/openAICompatibleProvider';
+export { registerFixtureResponses, clearFixtureResponses } from './providers/fixtureProvider';
+
+/**
+ * Kind of pipeline call being made.
+ * Lets providers (especially the fixture provider) shape their output, and
+ * gives logs a stable label.
+ */
+export type LLMTask = 'search' | 'analysis' | 'report' | 'summary' | 'market' | 'embedding';
+
+/**
+ * Context of the run a call belongs to, passed along by the pipeline
+ */
+export interface LLMCallContext {
+  /** Cancels the call while it waits in the request scheduler's queue */
+  signal?: AbortSignal;
+  /** Meter charged with the response's token usage */
+  usageMeter?: UsageMeter;
+}
+
+export interface GenerateJsonRequest extends LLMCallContext {
+  /** Pipeline call this request belongs to */
+  task: LLMTask;
+
+  /** Full prompt text */
+  prompt: string;
+
+  /** Ask the provider to ground the answer with web search (if supported) */
+  useWebSearch?: boolean;
+
+  /** Expected response shape; providers that support structured output enforce it */
+  responseSchema?: Schema;
+
+  /**
+   * Stable key identifying the request independent of prompt wording
+   * (e.g. episode ID, or "startDate_endDate" for searches).
+   * Used by the fixture provider to look up recorded responses.
+   */
+  fixtureKey?: string;
+
+  /** Structured context the caller already knows (episode metadata, dates) */
+  context?: Record<string, string | undefined>;
+}
+
+export interface GenerateJsonResponse {
+  /** Raw model text (may include code fences; callers clean it) */
+  text: string;
+
+  /** Model that actually produced the response */
+  model: string;
+
+  /** Provider that produced the response */
+  provider: AppConfig['provider']['type'];
+
+  /** Token usage from response metadata (estimated by the fixture provider) */
+  usage?: TokenUsage;
+}
+
+export interface EmbedRequest extends LLMCallContext {
+  /** Texts to embed, one vector per text */
+  texts: string[];
+
+  /** Embedding model (empty/absent = the provider's default embedding model) */
+  model?: string;
+}
+
+export interface EmbedResponse {
+  /** Vectors in the same order as the request texts */
+  vectors: number[][];
+
+  /** Embedding model that produced the vectors */
+  model: string;
+
+  /** Token usage (estimated when the provider reports none) */
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly type: AppConfig['provider']['type'];
+  readonly model: string;
+  readonly supportsWebSearch: boolean;
+  /** Server the provider calls, when it is configurable (openai-compatible) */
+  readonly baseUrl?: string;
+  generateJson(request: GenerateJsonRequest): Promise<GenerateJsonResponse>;
+  /** Compute text embeddings (absent when the provider has no embedding API) */
+  embed?(request: EmbedRequest): Promise<EmbedResponse>;
+}
+
+// Optional override (used by manual tests to inject a provider without touching config)
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Create a provider from a provider config section.
+ */
+export function createLLMProvider(providerConfig: AppConfig['provider']): LLMProvider {
+  switch (providerConfig.type) {
+    case 'gemini':
+      return createGeminiProvider(providerConfig);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(providerConfig);
+    case 'fixture':
+      return createFixtureProvider(providerConfig);
+    default: {
+      const unknown: never = providerConfig.type;
+      throw new Error(`Unknown LLM provider: ${unknown as string}`);
+    }
+  }
+}
+
+/**
+ * Route a provider's calls through the shared request scheduler.
+ * The fixture provider makes no network calls and is never throttled.
+ */
+function withRequestScheduler(provider: LLMProvider): LLMProvider {
+  if (provider.type === 'fixture') {
+    return provider;
+  }
+  return {
+    type: provider.type,
+    model: provider.model,
+    supportsWebSearch: provider.supportsWebSearch,
+    baseUrl: provider.baseUrl,
+    generateJson: (request: GenerateJsonRequest) =>
+      getRequestScheduler().schedule(
+        request.task,
+        estimateRequestTokens(request.task, request.prompt),
+        () => provider.generateJson(request),
+        request.signal
+      ),
+    ...(provider.embed
+      ? {
+          embed: (request: EmbedRequest) =>
+            getRequestScheduler().schedule(
+              'embedding',
+              estimateRequestTokens('embedding', request.texts.join('\n')),
+              () => provider.embed!(request),
+              request.signal
+            )
+        }
+      : {})
+  };
+}
+
+/**
+ * Record each response's token usage on the meter of the run that made the call
+ */
+function withUsageRecording(provider: LLMProvider): LLMProvider {
+  return {
+    type: provider.type,
+    model: provider.model,
+    supportsWebSearch: provider.supportsWebSearch,
+    baseUrl: provider.baseUrl,
+    async generateJson(request: GenerateJsonRequest): Promise<GenerateJsonResponse> {
+      const response = await provider.generateJson(request);
+      if (response.usage) {
+        request.usageMeter?.record(response.usage);
+      }
+      return response;
+    },
+    ...(provider.embed
+      ? {
+          async embed(request: EmbedRequest): Promise<EmbedResponse> {
+            const response = await provider.embed!(request);
+            if (response.usage) {
+              request.usageMeter?.record(response.usage);
+            }
+            return response;
+          }
+        }
+      : {})
+  };
+}
+
+/**
+ * Get the active provider (override first, then current AppConfig).
+ * Providers are cheap to construct, so a fresh one is created per call to
+ * always reflect the latest settings and API key.
+ */
+export function getLLMProvider(config: AppConfig = getConfig()): LLMProvider {
+  const provider = providerOverride ?? createLLMProvider(config.provider);
+  return withUsageRecording(withRequestScheduler(provider));
+}
+
+/**
+ * Override the active provider (pass null to restore config-based selection).
+ */
+export function setLLMProviderOverride(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
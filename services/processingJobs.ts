@@ -0,0 +1,542 @@
+/**
+ * Processing Jobs
+ *
+ * A processing job is one "Run Analysis" over a date range. Its date range,
+ * config snapshot, per-episode status and composed weekly reports are
+ * persisted in the `processingJobs` store as the run progresses, so reloading
+ * the tab does not lose track of it and an interrupted job can be resumed
+ * where it stopped.
+ */
+
+import type {
+  EpisodeMetadata,
+  HCRReport,
+  ProcessingJob,
+  ProcessingJobEpisodeStatus,
+  ProcessingJobStatus,
+  TokenUsage,
+  WeeklyCacheDependencies
+} from '../types';
+import { processEpisodesInRange, type ProcessDependencies, type ProcessResult } from './episodeProcessor';
+import { composeWeeklyReport, getWeeklyReportDependencies } from './reportComposer';
+import { saveProcessingJob, getProcessingJob, getAllProcessingJobs } from './episodeDB';
+import { getWeekWindows, aggregateReports } from '../utils/reportUtils';
+import { explainWeeklyCacheChanges } from '../utils/cacheDependencies';
+import { getConfig, type AppConfig } from '../constants/config';
+import { FRAMEWORK_VERSION } from '../constants/frameworkVersion';
+import { startUsageMeter, emptyUsage, formatUsd, getBudgetPriceError } from './usageAccounting';
+import { getActiveProfileId, loadSourceProfile } from './sourceProfiles';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { loadTopicTaxonomy } from './topicTaxonomy';
+import { getIssueMatcher } from './topicEmbeddings';
+import { trackForecasts } from './forecastTracking';
+import { checkRunAlerts } from './alerts';
+
+/**
+ * Options for running (or resuming) a processing job
+ */
+export interface RunJobOptions {
+  /** Optional abort signal for cancelling work */
+  signal?: AbortSignal;
+
+  /** Optional dependency overrides (used by manual tests) */
+  deps?: ProcessDependencies;
+
+  /** Callback fired when episode discovery completes */
+  onDiscoveryComplete?: (totalEpisodes: number, cachedCount: number, newCount: number) => void;
+
+  /** Callback fired after each episode completes (cached or new) */
+  onProgress?: (completed: number, total: number, currentEpisode: string, isCached: boolean) => void;
+
+  /** Callback fired after each week is composed (or reused from an earlier session) */
+  onWeekComposed?: (completed: number, total: number, weekStart: string, weekEnd: string) => void;
+
+  /** Callback fired when the episode phase finishes (used by the run logger) */
+  onEpisodeProcessingComplete?: (result: ProcessResult, durationMs: number) => void;
+
+  /** Callback fired when all weeks are composed (used by the run logger) */
+  onWeeksComposed?: (reports: HCRReport[], durationMs: number) => void;
+
+  /** Callback fired with the job's running usage total after each model response */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Jobs running in this tab, mapped to the last time their duration was checkpointed
+const activeJobs = new Map<string, number>();
+
+// Heartbeat timers of the jobs running in this tab
+const heartbeats = new Map<string, ReturnType<typeof setInterval>>();
+
+// A running job refreshes its `updated_at` this often, so other tabs can see it is alive
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// A "running" job whose `updated_at` is older than this was left behind by a closed or
+// reloaded tab. Generous because browsers throttle timers in background tabs to about once a minute.
+const STALE_JOB_MS = 3 * 60_000;
+
+// Per-job promise chain so read-modify-write updates never interleave
+const writeQueues = new Map<string, Promise<unknown>>();
+
+const RESUMABLE_STATUSES: ProcessingJobStatus[] = ['interrupted', 'cancelled', 'failed'];
+
+/**
+ * Copy the config for storage on a job, dropping the API key
+ */
+function snapshotConfig(config: AppConfig): AppConfig {
+  const snapshot: AppConfig = JSON.parse(JSON.stringify(config));
+  snapshot.provider.apiKey = '';
+  return snapshot;
+}
+
+function generateJobId(): string {
+  return `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Apply a change to a stored job. Updates are serialized per job, and each one
+ * adds the time since the previous checkpoint to `duration_ms` while the job
+ * is active in this tab.
+ */
+function updateJob(jobId: string, mutate: (job: ProcessingJob) => void): Promise<ProcessingJob | null> {
+  const previous = writeQueues.get(jobId) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const job = await getProcessingJob(jobId);
+      if (!job) return null;
+
+      const now = Date.now();
+      const checkpoint = activeJobs.get(jobId);
+      if (checkpoint !== undefined) {
+        job.duration_ms += now - checkpoint;
+        activeJobs.set(jobId, now);
+      }
+
+      mutate(job);
+      job.updated_at = new Date(now).toISOString();
+      await saveProcessingJob(job);
+      return job;
+    });
+
+  writeQueues.set(jobId, next);
+  return next;
+}
+
+/**
+ * Keep refreshing a job's `updated_at` while it runs in this tab
+ */
+function startHeartbeat(jobId: string): void {
+  stopHeartbeat(jobId);
+  heartbeats.set(jobId, setInterval(() => queueJobUpdate(jobId, () => undefined), HEARTBEAT_INTERVAL_MS));
+}
+
+function stopHeartbeat(jobId: string): void {
+  const timer = heartbeats.get(jobId);
+  if (timer !== undefined) {
+    clearInterval(timer);
+    heartbeats.delete(jobId);
+  }
+}
+
+/**
+ * Fire-and-forget variant for progress callbacks, which cannot await
+ */
+function queueJobUpdate(jobId: string, mutate: (job: ProcessingJob) => void): void {
+  updateJob(jobId, mutate).catch(error => {
+    console.warn(`[ProcessingJobs] Could not update job ${jobId}:`, error);
+  });
+}
+
+/**
+ * Create and persist a new job for a date range
+ */
+async function createProcessingJob(
+  startDate: string,
+  endDate: string,
+  config: AppConfig,
+  profileId: string
+): Promise<ProcessingJob> {
+  const budgetError = getBudgetPriceError(config.processing.budgetUsd, config);
+  if (budgetError) {
+    throw new Error(budgetError);
+  }
+
+  const now = new Date().toISOString();
+  const job: ProcessingJob = {
+    job_id: generateJobId(),
+    start_date: startDate,
+    end_date: endDate,
+    profile_id: profileId,
+    framework_version: FRAMEWORK_VERSION,
+    config_snapshot: snapshotConfig(config),
+    status: 'running',
+    phase: 'discovering',
+    discovery_complete: false,
+    episodes: {},
+    weeks_total: getWeekWindows(startDate, endDate).length,
+    composed_weeks: [],
+    error: null,
+    resume_count: 0,
+    created_at: now,
+    updated_at: now,
+    completed_at: null,
+    duration_ms: 0,
+    usage: emptyUsage(),
+    budget_usd: config.processing.budgetUsd
+  };
+
+  activeJobs.set(job.job_id, Date.now());
+  await saveProcessingJob(job);
+  console.log(`[ProcessingJobs] Created job ${job.job_id} (${startDate} to ${endDate}, profile ${profileId})`);
+  return job;
+}
+
+/**
+ * Create a job for a date range and run it to completion
+ *
+ * @param profileId - Source profile to process (default: the active profile)
+ * @param onJobCreated - Called with the new job before processing starts
+ * @returns The aggregated report across all weeks in the range
+ */
+export async function startProcessingJob(
+  startDate: string,
+  endDate: string,
+  options: RunJobOptions & { config?: AppConfig; profileId?: string; onJobCreated?: (job: ProcessingJob) => void } = {}
+): Promise<HCRReport> {
+  const job = await createProcessingJob(
+    startDate,
+    endDate,
+    options.config ?? getConfig(),
+    options.profileId ?? getActiveProfileId()
+  );
+  options.onJobCreated?.(job);
+  return executeJob(job, options);
+}
+
+/**
+ * Resume an interrupted, cancelled or failed job from where it stopped
+ *
+ * @returns The aggregated report across all weeks in the job's range
+ */
+export async function resumeProcessingJob(jobId: string, options: RunJobOptions = {}): Promise<HCRReport> {
+  const stored = await getProcessingJob(jobId);
+  if (!stored) {
+    throw new Error(`Processing job ${jobId} not found`);
+  }
+  if (!isJobResumable(stored)) {
+    throw new Error(`Processing job ${jobId} cannot be resumed (status: ${stored.status})`);
+  }
+  const budgetError = getBudgetPriceError(getConfig().processing.budgetUsd);
+  if (budgetError) {
+    throw new Error(budgetError);
+  }
+
+  activeJobs.set(jobId, Date.now());
+  let job: ProcessingJob | null;
+  try {
+    job = await updateJob(jobId, j => {
+      // Re-checked on the freshest copy: another tab may have resumed it since it was listed
+      if (!RESUMABLE_STATUSES.includes(j.status)) {
+        throw new Error(`Processing job ${jobId} cannot be resumed (status: ${j.status})`);
+      }
+      j.status = 'running';
+      j.error = null;
+      j.resume_count += 1;
+      // The budget may have been raised after the job stopped on it
+      j.budget_usd = getConfig().processing.budgetUsd;
+    });
+  } catch (error) {
+    activeJobs.delete(jobId);
+    throw error;
+  }
+  if (!job) {
+    activeJobs.delete(jobId);
+    throw new Error(`Processing job ${jobId} not found`);
+  }
+
+  console.log(`[ProcessingJobs] Resuming job ${jobId} at phase "${job.phase}" (resume #${job.resume_count})`);
+  return executeJob(job, options);
+}
+
+/**
+ * Mark jobs left in "running" state by a closed or reloaded tab as interrupted.
+ * Jobs whose heartbeat is recent are still running, possibly in another tab,
+ * and are left alone.
+ *
+ * @returns Number of jobs marked interrupted
+ */
+export async function markInterruptedJobs(now: number = Date.now()): Promise<number> {
+  const running = await getAllProcessingJobs('running');
+  const orphaned = running.filter(job =>
+    !activeJobs.has(job.job_id) && now - Date.parse(job.updated_at) > STALE_JOB_MS);
+
+  for (const job of orphaned) {
+    await updateJob(job.job_id, j => {
+      j.status = 'interrupted';
+    });
+  }
+
+  if (orphaned.length > 0) {
+    console.log(`[ProcessingJobs] Marked ${orphaned.length} job(s) as interrupted`);
+  }
+  return orphaned.length;
+}
+
+/**
+ * Whether a job can be picked up again with resumeProcessingJob
+ */
+export function isJobResumable(job: ProcessingJob): boolean {
+  return RESUMABLE_STATUSES.includes(job.status) && !activeJobs.has(job.job_id);
+}
+
+/**
+ * Count a job's episodes by status
+ */
+export function getJobEpisodeCounts(job: ProcessingJob): Record<ProcessingJobEpisodeStatus, number> {
+  const counts: Record<ProcessingJobEpisodeStatus, number> = { pending: 0, cached: 0, analyzed: 0, failed: 0 };
+  Object.values(job.episodes).forEach(ep => {
+    counts[ep.status] += 1;
+  });
+  return counts;
+}
+
+/**
+ * Rebuild the aggregated report of a completed job from its stored weeks,
+ * grouping issue trends with the current topic taxonomy and matcher
+ */
+export async function getJobReport(job: ProcessingJob): Promise<HCRReport> {
+  if (job.composed_weeks.length === 0) {
+    throw new Error(`Job ${job.job_id} has no composed weeks`);
+  }
+  const config = getConfig();
+  const taxonomy = await loadTopicTaxonomy();
+  const matcher = await getIssueMatcher(job.composed_weeks, taxonomy, config);
+  return aggregateReports(job.composed_weeks, taxonomy, config.forecasting, matcher);
+}
+
+/**
+ * Run a job from wherever it stopped and return the aggregated report.
+ *
+ * - Before discovery completes, episodes are discovered as usual.
+ * - After discovery, the stored episode list is reused; episodes analyzed in an
+ *   earlier session load from the episode cache, so only pending and failed
+ *   episodes are analyzed.
+ * - Weeks composed in an earlier session are reused while the hashes of
+ *   their inputs (episodes of both weeks, taxonomy, matcher, ranking and
+ *   aggregation settings) still match; other weeks are recomposed.
+ *
+ * Usage of every model call the job makes is added to `usage` (calls of other
+ * jobs or reports running at the same time are not).
+ * When a hard budget is set and the estimated cost exceeds it, processing is
+ * aborted and the job fails with a budget message (it can be resumed after
+ * raising the budget).
+ *
+ * The job ends as "completed", "cancelled" (signal aborted) or "failed".
+ */
+async function executeJob(job: ProcessingJob, options: RunJobOptions): Promise<HCRReport> {
+  const jobId = job.job_id;
+
+  // Internal controller so both the caller's signal and the budget can stop processing
+  const controller = new AbortController();
+  const signal = controller.signal;
+  const forwardAbort = () => controller.abort();
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener('abort', forwardAbort);
+
+  startHeartbeat(jobId);
+
+  let budgetError: string | null = null;
+  const meter = startUsageMeter({
+    initial: job.usage ?? emptyUsage(),
+    budgetUsd: job.budget_usd,
+    onUsage: options.onUsage,
+    onBudgetExceeded: usage => {
+      budgetError = `Cost budget of ${formatUsd(job.budget_usd)} exceeded (${formatUsd(usage.estimated_cost_usd)} spent). Raise the budget and resume the job to continue.`;
+      controller.abort();
+    }
+  });
+
+  const throwIfAborted = () => {
+    if (budgetError) {
+      throw new Error(budgetError);
+    }
+    if (signal.aborted) {
+      throw new Error('Processing cancelled');
+    }
+  };
+
+  try {
+    const profile = await loadSourceProfile(job.profile_id ?? DEFAULT_PROFILE_ID);
+    const knownEpisodes: EpisodeMetadata[] | null = job.discovery_complete
+      ? Object.values(job.episodes).map(ep => ep.metadata)
+      : null;
+
+    const episodeProcessingStart = performance.now();
+    let processResult: ProcessResult;
+    try {
+      processResult = await processEpisodesInRange(job.start_date, job.end_date, {
+        concurrency: job.config_snapshot.processing.concurrency,
+        frameworkVersion: job.framework_version,
+        profile,
+        signal,
+        usageMeter: meter,
+        deps: knownEpisodes
+          ? { ...options.deps, searchEpisodesInRange: async () => knownEpisodes }
+          : options.deps,
+        onDiscoveryComplete: options.onDiscoveryComplete,
+        onProgress: options.onProgress,
+        onEpisodesCategorized: (cached, uncached) => {
+          queueJobUpdate(jobId, j => {
+            const episodes: ProcessingJob['episodes'] = {};
+            cached.forEach(metadata => {
+              // Keep "analyzed" for episodes this job analyzed in an earlier session
+              const previous = j.episodes[metadata.episode_id]?.status;
+              episodes[metadata.episode_id] = { metadata, status: previous === 'analyzed' ? 'analyzed' : 'cached' };
+            });
+            uncached.forEach(metadata => {
+              episodes[metadata.episode_id] = { metadata, status: 'pending' };
+            });
+            j.episodes = episodes;
+            j.discovery_complete = true;
+            j.phase = 'analyzing';
+          });
+        },
+        onEpisodeAnalyzed: (metadata, success, error) => {
+          queueJobUpdate(jobId, j => {
+            j.episodes[metadata.episode_id] = success
+              ? { metadata, status: 'analyzed' }
+              : { metadata, status: 'failed', error };
+            j.usage = meter.snapshot();
+          });
+        }
+      });
+    } catch (error) {
+      // The processor wraps cancellation; surface it consistently
+      throwIfAborted();
+      throw error;
+    }
+    options.onEpisodeProcessingComplete?.(processResult, performance.now() - episodeProcessingStart);
+
+    throwIfAborted();
+
+    if (processResult.stats.totalEpisodes === 0) {
+      throw new Error("No episodes found in the selected date range.");
+    }
+
+    if (processResult.stats.failed > 0) {
+      console.warn(`Warning: ${processResult.stats.failed} episode(s) failed to process and were quarantined. Continuing with available data.`);
+    }
+
+    if (processResult.stats.failed === processResult.stats.totalEpisodes) {
+      throw new Error("All episodes failed to process. See Failed Episodes below for details, or check your API key and try again.");
+    }
+
+    // Compose weekly reports, reusing weeks from an earlier session whose inputs did not change since
+    const windows = getWeekWindows(job.start_date, job.end_date);
+    const dependencies = new Map<string, WeeklyCacheDependencies>();
+    for (const w of windows) {
+      dependencies.set(w.start, await getWeeklyReportDependencies(w.start, w.end, w.priorStart, w.priorEnd, profile));
+    }
+    const reusable = new Map<string, HCRReport>();
+    job.composed_weeks.forEach(report => {
+      const weekStart = report.run_window.window_start;
+      const current = dependencies.get(weekStart);
+      if (!current) return;
+      const reasons = explainWeeklyCacheChanges(job.composed_week_dependencies?.[weekStart], current);
+      if (reasons.length === 0) {
+        reusable.set(weekStart, report);
+      } else {
+        console.log(`[ProcessingJobs] Recomposing ${weekStart}: ${reasons.join('; ')}`);
+      }
+    });
+
+    await updateJob(jobId, j => {
+      j.phase = 'composing';
+      j.weeks_total = windows.length;
+      j.composed_weeks = windows
+        .map(w => reusable.get(w.start))
+        .filter((report): report is HCRReport => report !== undefined);
+      j.composed_week_dependencies = Object.fromEntries(
+        j.composed_weeks.map(report => [report.run_window.window_start, dependencies.get(report.run_window.window_start)!])
+      );
+    });
+
+    const reports: HCRReport[] = [];
+    const weeklyCompositionStart = performance.now();
+    for (let i = 0; i < windows.length; i++) {
+      throwIfAborted();
+
+      const w = windows[i];
+      let report = reusable.get(w.start);
+      if (!report) {
+        report = await composeWeeklyReport(w.start, w.end, w.priorStart, w.priorEnd, profile, { signal, usageMeter: meter });
+        const composed = report;
+        await updateJob(jobId, j => {
+          j.composed_weeks = [...j.composed_weeks, composed]
+            .sort((a, b) => a.run_window.window_start.localeCompare(b.run_window.window_start));
+          j.composed_week_dependencies = { ...j.composed_week_dependencies, [w.start]: dependencies.get(w.start)! };
+        });
+      }
+      reports.push(report);
+      options.onWeekComposed?.(i + 1, windows.length, w.start, w.end);
+    }
+    options.onWeeksComposed?.(reports, performance.now() - weeklyCompositionStart);
+
+    // Validate weekly coverage - ensure all weeks have at least some episode data
+    const weeksWithoutEpisodes = reports.filter(r => r.sources_analyzed.length === 0);
+    if (weeksWithoutEpisodes.length > 0) {
+      const weekList = weeksWithoutEpisodes.map(r => r.run_window.window_start).join(', ');
+      console.warn(`Warning: ${weeksWithoutEpisodes.length} week(s) have no episode coverage: ${weekList}`);
+    }
+
+    if (weeksWithoutEpisodes.length === reports.length) {
+      throw new Error("No episode coverage found for any week in the selected range. Try a different date range.");
+    }
+
+    const taxonomy = await loadTopicTaxonomy();
+    const config = getConfig();
+    const matcher = await getIssueMatcher(reports, taxonomy, config, { signal, usageMeter: meter });
+    const finalReport = aggregateReports(reports, taxonomy, config.forecasting, matcher);
+    await trackForecasts(reports, finalReport, job.profile_id ?? DEFAULT_PROFILE_ID, taxonomy);
+    await checkRunAlerts(reports, job.profile_id ?? DEFAULT_PROFILE_ID, taxonomy);
+    await finishJob(jobId, 'completed', null, meter.snapshot());
+    return finalReport;
+  } catch (error) {
+    const cancelled = signal.aborted && !budgetError;
+    const message = budgetError ?? (error instanceof Error ? error.message : String(error));
+    await finishJob(jobId, cancelled ? 'cancelled' : 'failed', cancelled ? null : message, meter.snapshot());
+    if (cancelled) throw new Error('Processing cancelled');
+    throw budgetError ? new Error(budgetError) : error;
+  } finally {
+    meter.stop();
+    options.signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+/**
+ * Record a job's outcome and stop tracking it as active in this tab
+ */
+async function finishJob(
+  jobId: string,
+  status: ProcessingJobStatus,
+  error: string | null,
+  usage: TokenUsage
+): Promise<void> {
+  try {
+    await updateJob(jobId, j => {
+      j.status = status;
+      j.error = error;
+      j.usage = usage;
+      if (status === 'completed') {
+        j.phase = 'done';
+        j.completed_at = new Date().toISOString();
+      }
+    });
+    console.log(`[ProcessingJobs] Job ${jobId} ${status}${error ? `: ${error}` : ''}`);
+  } catch (updateError) {
+    console.warn(`[ProcessingJobs] Could not record outcome of job ${jobId}:`, updateError);
+  } finally {
+    stopHeartbeat(jobId);
+    activeJobs.delete(jobId);
+    writeQueues.delete(jobId);
+  }
+}
@@ -0,0 +1,242 @@
+import { DEFAULT_CONFIG, type AppConfig } from '../../constants/config';
+import type { LLMProvider, LLMTask, GenerateJsonRequest, GenerateJsonResponse, EmbedRequest, EmbedResponse } from '../llmProvider';
+import { SAMPLE_REPORT } from '../../constants';
+import { buildUsage } from '../usageAccounting';
+import { hash32 } from '../../utils/hash';
+
+/**
+ * Deterministic offline provider.
+ *
+ * Resolution order for each request:
+ * 1. A recorded response registered via `registerFixtureResponses()` under
+ *    `${task}:${fixtureKey}`
+ * 2. A synthetic response generated from a PRNG seeded by task + fixtureKey
+ *    (same input always produces the same output)
+ *
+ * Embeddings are hashed bag-of-words vectors: texts sharing words are close,
+ * which is enough to exercise the semantic matcher offline.
+ *
+ * No network access is performed.
+ */
+
+const FIXTURE_MODEL = 'fixture-v1';
+const FIXTURE_EMBEDDING_MODEL = 'fixture-embedding-v1';
+const FIXTURE_EMBEDDING_DIMENSIONS = 256;
+
+const FIXTURE_SHOWS = [
+  { name: 'Politics Chat', weekday: 2 },          // Tuesday
+  { name: 'This Week in Politics', weekday: 0 }   // Sunday
+];
+
+const FIXTURE_TOPICS = [
+  'Federal Budget Negotiations',
+  'Immigration Policy',
+  'Supreme Court',
+  'Election Integrity',
+  'Tariffs',
+  'Executive Orders',
+  'Department of Justice',
+  'Climate Change',
+  'Labor Unions',
+  'Foreign Policy'
+];
+
+const recordedResponses = new Map<string, string>();
+
+/**
+ * Register recorded responses (e.g. captured from a real provider run).
+ * Keys are `${task}:${fixtureKey}`; values are raw response text.
+ */
+export function registerFixtureResponses(entries: Record<string, string>): void {
+  for (const [key, text] of Object.entries(entries)) {
+    recordedResponses.set(key, text);
+  }
+}
+
+/**
+ * Remove all recorded responses
+ */
+export function clearFixtureResponses(): void {
+  recordedResponses.clear();
+}
+
+export function createFixtureProvider(providerConfig: AppConfig['provider']): LLMProvider {
+  const model = providerConfig.model && providerConfig.model !== DEFAULT_CONFIG.provider.model
+    ? providerConfig.model
+    : FIXTURE_MODEL;
+
+  return {
+    type: 'fixture',
+    model,
+    supportsWebSearch: false,
+
+    async generateJson(request: GenerateJsonRequest): Promise<GenerateJsonResponse> {
+      const key = `${request.task}:${request.fixtureKey ?? hash32(request.prompt).toString(16)}`;
+      const recorded = recordedResponses.get(key);
+      const text = recorded ?? JSON.stringify(synthesizeResponse(request.task, key, request.context ?? {}));
+
+      // No real metadata offline: estimate ~4 characters per token so accounting can be exercised
+      const usage = buildUsage(model, Math.ceil(request.prompt.length / 4), Math.ceil(text.length / 4));
+      return { text, model, provider: 'fixture', usage };
+    },
+
+    async embed(request: EmbedRequest): Promise<EmbedResponse> {
+      const embeddingModel = request.model || FIXTURE_EMBEDDING_MODEL;
+      const inputChars = request.texts.reduce((sum, text) => sum + text.length, 0);
+      return {
+        vectors: request.texts.map(hashedEmbedding),
+        model: embeddingModel,
+        usage: buildUsage(embeddingModel, Math.ceil(inputChars / 4), 0)
+      };
+    }
+  };
+}
+
+/**
+ * Unit-length vector with one hashed dimension per word
+ */
+function hashedEmbedding(text: string): number[] {
+  const vector = new Array<number>(FIXTURE_EMBEDDING_DIMENSIONS).fill(0);
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).forEach(word => {
+    // High hash bits spread better than low ones
+    vector[Math.floor(hash32(word) / 0x100000000 * FIXTURE_EMBEDDING_DIMENSIONS)] += 1;
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+// ===== Synthetic responses =====
+
+function synthesizeResponse(
+  task: LLMTask,
+  key: string,
+  context: Record<string, string | undefined>
+): unknown {
+  const random = mulberry32(hash32(key));
+
+  switch (task) {
+    case 'search':
+      return synthesizeEpisodes(context.startDate ?? '', context.endDate ?? '');
+    case 'analysis':
+      return synthesizeEpisodeInsight(random, context);
+    case 'summary':
+      return [
+        `Fixture summary for ${context.weekStart ?? 'this week'} to ${context.weekEnd ?? ''}: coverage centered on the top-ranked issues.`,
+        'Sentiment moved modestly relative to the prior week, with no single event dominating the discussion.',
+        'This paragraph is generated offline by the fixture provider and does not reflect real commentary.'
+      ];
+    case 'market':
+      return synthesizeMarketAnalysis(random, context.startDate ?? '', context.endDate ?? '');
+    case 'report':
+      return {
+        ...SAMPLE_REPORT,
+        run_window: { ...SAMPLE_REPORT.run_window, window_start: context.startDate ?? '', window_end: context.endDate ?? '' },
+        prior_window: { ...SAMPLE_REPORT.prior_window, window_start: context.priorStart ?? '', window_end: context.priorEnd ?? '' },
+        generated_at: `${context.endDate ?? '1970-01-01'}T00:00:00.000Z`
+      };
+    default:
+      return {};
+  }
+}
+
+function synthesizeEpisodes(startDate: string, endDate: string): unknown[] {
+  const episodes: unknown[] = [];
+  if (!startDate || !endDate) return episodes;
+
+  for (const date of eachDate(startDate, endDate)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    for (const show of FIXTURE_SHOWS) {
+      if (show.weekday !== weekday) continue;
+      const slug = show.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      episodes.push({
+        episode_id: `fixture-${slug}-${date}`,
+        show_name: show.name,
+        title: `${show.name} — ${date}`,
+        published_at: date,
+        transcript_url: null
+      });
+    }
+  }
+
+  return episodes;
+}
+
+function synthesizeEpisodeInsight(random: () => number, context: Record<string, string | undefined>): unknown {
+  const topicCount = 2 + Math.floor(random() * 3);
+  const offset = Math.floor(random() * FIXTURE_TOPICS.length);
+  const topics = Array.from({ length: topicCount }, (_, i) => {
+    const name = FIXTURE_TOPICS[(offset + i * 3) % FIXTURE_TOPICS.length];
+    return {
+      topic_name: name,
+      sentiment_score: Math.round(20 + random() * 60),
+      confidence: round2(0.6 + random() * 0.35),
+      evidence_quotes: [`Fixture quote about ${name.toLowerCase()}.`],
+      prominence_score: round2(0.25 + random() * 0.7)
+    };
+  });
+
+  return {
+    episode_id: context.episodeId,
+    show_name: context.showName,
+    title: context.title,
+    published_at: context.publishedAt,
+    transcript_url: null,
+    topics,
+    overall_sentiment: Math.round(topics.reduce((sum, t) => sum + t.sentiment_score, 0) / topics.length),
+    focus_relevance: round2(0.5 + random() * 0.5),
+    key_quotes: topics.map(t => t.evidence_quotes[0])
+  };
+}
+
+function synthesizeMarketAnalysis(random: () => number, startDate: string, endDate: string): unknown {
+  let sp500 = 5000;
+  let vix = 15;
+  let tnx = 4.2;
+  const dailyData = eachDate(startDate, endDate)
+    .filter(date => {
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      return weekday !== 0 && weekday !== 6;
+    })
+    .map(date => {
+      sp500 = round2(sp500 * (1 + (random() - 0.5) * 0.02));
+      vix = round2(Math.max(9, vix + (random() - 0.5) * 2));
+      tnx = round2(tnx + (random() - 0.5) * 0.08);
+      return { date, sp500_close: sp500, vix_close: vix, tnx_yield: tnx, hcr_sentiment: 50 };
+    });
+
+  return {
+    analysis_content: [
+      '## Market Snapshot',
+      'Fixture market data generated offline. Values are synthetic and must not be used for decisions.'
+    ],
+    daily_data: dailyData
+  };
+}
+
+// ===== Helpers =====
+
+function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  if (isNaN(start) || isNaN(end)) return dates;
+
+  for (let ms = start; ms <= end; ms += 24 * 60 * 60 * 1000) {
+    dates.push(new Date(ms).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,94 @@
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import type { AppConfig } from '../../constants/config';
+import type { LLMProvider, GenerateJsonRequest, GenerateJsonResponse, EmbedRequest, EmbedResponse } from '../llmProvider';
+import { toJsonSchema } from '../../utils/schema';
+import { buildUsage } from '../usageAccounting';
+
+const DEFAULT_EMBEDDING_MODEL = 'gemini-embedding-001';
+
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH }
+];
+
+/**
+ * Gemini 3 models accept a response schema together with the Google Search
+ * tool; older models reject the combination, so grounded calls on those
+ * models fall back to prompt-only JSON instructions.
+ */
+function supportsSchemaWithSearch(model: string): boolean {
+  return /^gemini-3/.test(model);
+}
+
+/**
+ * Google Gemini provider.
+ * Uses Google Search grounding when the request asks for web search.
+ */
+export function createGeminiProvider(providerConfig: AppConfig['provider']): LLMProvider {
+  const model = providerConfig.model || 'gemini-3-flash-preview';
+
+  return {
+    type: 'gemini',
+    model,
+    supportsWebSearch: true,
+
+    async generateJson(request: GenerateJsonRequest): Promise<GenerateJsonResponse> {
+      // Create fresh instance to ensure we use current process.env.API_KEY
+      const ai = new GoogleGenAI({ apiKey: providerConfig.apiKey || process.env.API_KEY });
+      const useSchema = Boolean(request.responseSchema) && (!request.useWebSearch || supportsSchemaWithSearch(model));
+      const response = await ai.models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          ...(request.useWebSearch ? { tools: [{ googleSearch: {} }] } : {}),
+          ...(useSchema && request.responseSchema
+            ? { responseMimeType: 'application/json', responseJsonSchema: toJsonSchema(request.responseSchema) }
+            : {}),
+          safetySettings: SAFETY_SETTINGS,
+        }
+      });
+
+      // Search grounding context and thinking tokens are billed as input/output respectively
+      const meta = response.usageMetadata;
+      return {
+        text: response.text ?? '',
+        model,
+        provider: 'gemini',
+        ...(meta
+          ? {
+              usage: buildUsage(
+                model,
+                (meta.promptTokenCount ?? 0) + (meta.toolUsePromptTokenCount ?? 0),
+                (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+                meta.totalTokenCount
+              )
+            }
+          : {})
+      };
+    },
+
+    async embed(request: EmbedRequest): Promise<EmbedResponse> {
+      const ai = new GoogleGenAI({ apiKey: providerConfig.apiKey || process.env.API_KEY });
+      const embeddingModel = request.model || DEFAULT_EMBEDDING_MODEL;
+      const response = await ai.models.embedContent({
+        model: embeddingModel,
+        contents: request.texts
+      });
+
+      const vectors = (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+      if (vectors.length !== request.texts.length) {
+        throw new Error(`Gemini returned ${vectors.length} embeddings for ${request.texts.length} texts`);
+      }
+
+      // The embedding API reports no token counts; estimate ~4 characters per token
+      const inputChars = request.texts.reduce((sum, text) => sum + text.length, 0);
+      return {
+        vectors,
+        model: embeddingModel,
+        usage: buildUsage(embeddingModel, Math.ceil(inputChars / 4), 0)
+      };
+    }
+  };
+}
@@ -0,0 +1,140 @@
+import type { AppConfig } from '../../constants/config';
+import type { LLMProvider, GenerateJsonRequest, GenerateJsonResponse, EmbedRequest, EmbedResponse } from '../llmProvider';
+import { toJsonSchema } from '../../utils/schema';
+import { parseRetryAfterHeader } from '../requestScheduler';
+import { buildUsage } from '../usageAccounting';
+
+/**
+ * Error thrown by HTTP-based providers.
+ * Carries the HTTP status as `code` so existing retry logic
+ * (`error?.code === 500 || error?.code === 503`) keeps working.
+ */
+export class ProviderHttpError extends Error {
+  readonly code: number;
+  /** Delay requested by the server's Retry-After header, if any */
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, code: number, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+let warnedAboutWebSearch = false;
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/**
+ * OpenAI-compatible provider (OpenAI, vLLM, Ollama, LM Studio, llama.cpp server, ...).
+ *
+ * Web search grounding is not part of the chat completions API, so requests
+ * asking for it are sent without grounding. Pair this provider with transcript
+ * ingestion or feed-based discovery for grounded results.
+ * Embeddings use POST {baseUrl}/embeddings.
+ */
+export function createOpenAICompatibleProvider(providerConfig: AppConfig['provider']): LLMProvider {
+  const baseUrl = providerConfig.baseUrl.replace(/\/+$/, '');
+  const model = providerConfig.model;
+
+  return {
+    type: 'openai-compatible',
+    model,
+    supportsWebSearch: false,
+    baseUrl,
+
+    async generateJson(request: GenerateJsonRequest): Promise<GenerateJsonResponse> {
+      if (request.useWebSearch && !warnedAboutWebSearch) {
+        console.warn(`[LLMProvider] ${baseUrl} does not support web search grounding; continuing without it.`);
+        warnedAboutWebSearch = true;
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: buildHeaders(),
+        body: JSON.stringify({
+          model,
+          temperature: 0.2,
+          messages: [
+            { role: 'system', content: 'Respond with valid JSON only.' },
+            { role: 'user', content: request.prompt }
+          ],
+          ...(request.responseSchema
+            ? {
+                response_format: {
+                  type: 'json_schema',
+                  json_schema: { name: `${request.task}_response`, schema: toJsonSchema(request.responseSchema), strict: false }
+                }
+              }
+            : {})
+        })
+      });
+
+      await throwIfFailed(response);
+
+      const payload = await response.json();
+      const content = payload?.choices?.[0]?.message?.content;
+      const responseModel = typeof payload?.model === 'string' ? payload.model : model;
+      const usage = payload?.usage;
+
+      return {
+        text: typeof content === 'string' ? content : '',
+        model: responseModel,
+        provider: 'openai-compatible',
+        ...(usage && typeof usage.prompt_tokens === 'number'
+          ? { usage: buildUsage(responseModel, usage.prompt_tokens, usage.completion_tokens ?? 0, usage.total_tokens) }
+          : {})
+      };
+    },
+
+    async embed(request: EmbedRequest): Promise<EmbedResponse> {
+      const embeddingModel = request.model || DEFAULT_EMBEDDING_MODEL;
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: buildHeaders(),
+        body: JSON.stringify({ model: embeddingModel, input: request.texts })
+      });
+
+      await throwIfFailed(response);
+
+      const payload = await response.json();
+      const data: Array<{ index?: number; embedding?: number[] }> = Array.isArray(payload?.data) ? payload.data : [];
+      const vectors = [...data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => item.embedding ?? []);
+      if (vectors.length !== request.texts.length) {
+        throw new Error(`Embedding server returned ${vectors.length} vectors for ${request.texts.length} texts`);
+      }
+
+      const usage = payload?.usage;
+      return {
+        vectors,
+        model: embeddingModel,
+        ...(usage && typeof usage.prompt_tokens === 'number'
+          ? { usage: buildUsage(embeddingModel, usage.prompt_tokens, 0, usage.total_tokens) }
+          : {})
+      };
+    }
+  };
+
+  function buildHeaders(): Record<string, string> {
+    const apiKey = providerConfig.apiKey || process.env.OPENAI_API_KEY;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+}
+
+async function throwIfFailed(response: Response): Promise<void> {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new ProviderHttpError(
+      `OpenAI-compatible request failed ({"code":${response.status}}): ${body.slice(0, 300)}`,
+      response.status,
+      parseRetryAfterHeader(response.headers.get('Retry-After'))
+    );
+  }
+}
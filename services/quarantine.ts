@@ -0,0 +1,164 @@
+/**
+ * Episode Quarantine
+ *
+ * Episodes whose analysis fails are recorded in the `failedEpisodes` store
+ * instead of silently disappearing from every week. From there they can be
+ * inspected, retried (optionally with corrected metadata) or permanently
+ * skipped.
+ */
+
+import type { EpisodeInsight, EpisodeMetadata, FailedEpisode, FailedEpisodeErrorClass, SourceProfile } from '../types';
+import { analyzeEpisode } from './gemini';
+import { loadSourceProfile } from './sourceProfiles';
+import { StructuredOutputError } from './structuredOutput';
+import {
+  saveEpisode,
+  saveFailedEpisode,
+  getFailedEpisode,
+  getAllFailedEpisodes,
+  deleteFailedEpisode
+} from './episodeDB';
+import { FRAMEWORK_VERSION } from '../constants/frameworkVersion';
+
+type AnalyzeFn = (
+  episodeId: string,
+  episodeMetadata: EpisodeMetadata,
+  frameworkVersion?: string,
+  profile?: SourceProfile
+) => Promise<EpisodeInsight>;
+
+/**
+ * Classify an analysis error for display and retry decisions
+ */
+export function classifyAnalysisError(error: unknown): FailedEpisodeErrorClass {
+  if (error instanceof StructuredOutputError) return 'schema_validation';
+
+  const code = (error as { code?: unknown })?.code;
+  const msg = error instanceof Error ? error.message : String(error);
+
+  if (code === 429 || msg.includes('"code":429') || /rate limit|quota|RESOURCE_EXHAUSTED/i.test(msg)) return 'rate_limit';
+  if (code === 401 || code === 403 || /api key|Requested entity was not found|PERMISSION_DENIED|UNAUTHENTICATED/i.test(msg)) return 'auth';
+  if (/xhr error|fetch failed|network error|Failed to fetch/i.test(msg)) return 'network';
+  if ((typeof code === 'number' && code >= 500) || /"code":5\d\d/.test(msg)) return 'server';
+  return 'unknown';
+}
+
+/**
+ * Record a failed analysis. Repeated failures increment the attempt count and
+ * keep any user-edited metadata and skip status.
+ */
+export async function recordFailedEpisode(
+  metadata: EpisodeMetadata,
+  error: unknown,
+  frameworkVersion: string = FRAMEWORK_VERSION
+): Promise<FailedEpisode> {
+  const existing = await getFailedEpisode(metadata.episode_id);
+  const now = new Date().toISOString();
+
+  const record: FailedEpisode = {
+    episode_id: metadata.episode_id,
+    metadata: existing?.metadata_edited ? existing.metadata : metadata,
+    metadata_edited: existing?.metadata_edited ?? false,
+    raw_response: error instanceof StructuredOutputError ? error.rawText : null,
+    error_class: classifyAnalysisError(error),
+    error_message: error instanceof Error ? error.message : String(error),
+    validation_issues: error instanceof StructuredOutputError ? error.issues : [],
+    attempt_count: (existing?.attempt_count ?? 0) + 1,
+    framework_version: frameworkVersion,
+    first_failed_at: existing?.first_failed_at ?? now,
+    last_failed_at: now,
+    status: existing?.status ?? 'pending'
+  };
+
+  await saveFailedEpisode(record);
+  return record;
+}
+
+/**
+ * Remove an episode from quarantine after it was analyzed successfully
+ */
+export async function clearFailedEpisode(episodeId: string): Promise<void> {
+  if (await getFailedEpisode(episodeId)) {
+    await deleteFailedEpisode(episodeId);
+  }
+}
+
+/**
+ * Retry analysis of a quarantined episode using its stored (possibly edited) metadata.
+ * On success the insight is saved and the quarantine record removed; on failure
+ * the record is updated and the error rethrown.
+ */
+export async function retryFailedEpisode(
+  episodeId: string,
+  analyzeFn: AnalyzeFn = analyzeEpisode
+): Promise<EpisodeInsight> {
+  const failed = await getFailedEpisode(episodeId);
+  if (!failed) {
+    throw new Error(`No failed episode record for ${episodeId}`);
+  }
+
+  try {
+    const profile = await loadSourceProfile(failed.metadata.profile_id);
+    const insight = await analyzeFn(failed.episode_id, failed.metadata, failed.framework_version, profile);
+    const normalized = { ...insight, episode_id: failed.episode_id, profile_id: profile.profile_id };
+    await saveEpisode(normalized);
+    await deleteFailedEpisode(episodeId);
+    console.log(`[Quarantine] Retry succeeded for ${episodeId}`);
+    return normalized;
+  } catch (error) {
+    await recordFailedEpisode(failed.metadata, error, failed.framework_version);
+    throw error;
+  }
+}
+
+/**
+ * Update the metadata used for the next retry (episode_id cannot change)
+ */
+export async function updateFailedEpisodeMetadata(
+  episodeId: string,
+  changes: Partial<Omit<EpisodeMetadata, 'episode_id'>>
+): Promise<FailedEpisode> {
+  const failed = await getFailedEpisode(episodeId);
+  if (!failed) {
+    throw new Error(`No failed episode record for ${episodeId}`);
+  }
+
+  const updated: FailedEpisode = {
+    ...failed,
+    metadata: { ...failed.metadata, ...changes, episode_id: failed.episode_id },
+    metadata_edited: true
+  };
+  await saveFailedEpisode(updated);
+  return updated;
+}
+
+/**
+ * Mark an episode as permanently skipped (or restore it with skipped = false)
+ */
+export async function setFailedEpisodeSkipped(episodeId: string, skipped: boolean): Promise<FailedEpisode> {
+  const failed = await getFailedEpisode(episodeId);
+  if (!failed) {
+    throw new Error(`No failed episode record for ${episodeId}`);
+  }
+
+  const updated: FailedEpisode = { ...failed, status: skipped ? 'skipped' : 'pending' };
+  await saveFailedEpisode(updated);
+  return updated;
+}
+
+/**
+ * Quarantine state needed by the processor before analysis starts:
+ * IDs to skip and user-edited metadata to use instead of discovery results.
+ */
+export async function getQuarantineOverrides(): Promise<{
+  skippedIds: Set<string>;
+  editedMetadata: Map<string, EpisodeMetadata>;
+}> {
+  const all = await getAllFailedEpisodes();
+  return {
+    skippedIds: new Set(all.filter(f => f.status === 'skipped').map(f => f.episode_id)),
+    editedMetadata: new Map(
+      all.filter(f => f.status === 'pending' && f.metadata_edited).map(f => [f.episode_id, f.metadata])
+    )
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Ranking Profile Comparison
+ *
+ * Re-ranks the episodes behind a report under every configured ranking
+ * profile (AppConfig.ranking), so the dashboard can show side by side how the
+ * top issues change with the weighting.
+ */
+
+import type { EpisodeInsight, HCRReport, RankedIssue, TopicTaxonomy } from '../types';
+import { DEFAULT_CONFIG, getConfig, type AppConfig, type RankingProfile } from '../constants/config';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { getEpisodesByDateRange } from './episodeDB';
+import { loadTopicTaxonomy } from './topicTaxonomy';
+import { getTopicMatcher } from './topicEmbeddings';
+import { rankIssues, TOKEN_OVERLAP_MATCHER, type TopicMatcher } from '../utils/aggregation';
+
+export interface RankingProfileComparison {
+  profile: RankingProfile;
+  top_issues: RankedIssue[];
+}
+
+/**
+ * Top issues of the given episodes under each ranking profile
+ */
+export function rankTopIssuesByProfile(
+  episodes: EpisodeInsight[],
+  profiles: RankingProfile[],
+  taxonomy?: TopicTaxonomy | null,
+  matcher: TopicMatcher = TOKEN_OVERLAP_MATCHER,
+  aggregation: AppConfig['aggregation'] = DEFAULT_CONFIG.aggregation,
+  limit = 5
+): RankingProfileComparison[] {
+  return profiles.map(profile => ({
+    profile,
+    top_issues: rankIssues(episodes, taxonomy, matcher, profile, aggregation).slice(0, limit)
+  }));
+}
+
+/**
+ * Re-rank the report window's episodes under every configured ranking profile
+ */
+export async function compareRankingProfiles(
+  report: HCRReport,
+  config: AppConfig = getConfig()
+): Promise<RankingProfileComparison[]> {
+  const profileId = report.source_profile?.profile_id ?? DEFAULT_PROFILE_ID;
+  const episodes = await getEpisodesByDateRange(
+    report.run_window.window_start,
+    report.run_window.window_end,
+    profileId
+  );
+  const taxonomy = await loadTopicTaxonomy();
+  const matcher = await getTopicMatcher(episodes, taxonomy, config);
+
+  return rankTopIssuesByProfile(episodes, config.ranking.profiles, taxonomy, matcher, config.aggregation);
+}
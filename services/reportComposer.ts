@@ -9,7 +9,13 @@ import type {
   EpisodeInsight,
   RankedIssue,
   WeeklyAggregation,
-  AggregatedIssue
+  AggregatedIssue,
+  SourceProfile,
+  SentimentInterval,
+  DeltaSignificance,
+  TopicTaxonomy,
+  WeeklyCacheDependencies,
+  WeeklyCacheStatus
 } from '../types';
 import {
   getEpisodesByDateRange,
@@ -18,10 +24,21 @@ import {
   getAllWeeklyAggregations,
   deleteWeeklyAggregation
 } from './episodeDB';
-import { computeDeltas, normalizeTopic, rankIssues, DeltaResult } from '../utils/aggregation';
+import { cleanTopicName, computeDeltas, rankIssues, DeltaResult } from '../utils/aggregation';
+import { computeWeeklyCacheDependencies, explainWeeklyCacheChanges } from '../utils/cacheDependencies';
 import { FRAMEWORK_VERSION } from '../constants/frameworkVersion';
 import { synthesizeExecutiveSummary } from './gemini';
-import { getConfig } from '../constants/config';
+import {
+  getConfig,
+  getRankingProfile,
+  rankingProfileSignature,
+  type AppConfig,
+  type RankingProfile
+} from '../constants/config';
+import { loadSourceProfile } from './sourceProfiles';
+import { loadTopicTaxonomy } from './topicTaxonomy';
+import { describeTopicMatcher, getTopicMatcher } from './topicEmbeddings';
+import type { LLMCallContext } from './llmProvider';
 
 // Current framework version for cache validation
 const CURRENT_FRAMEWORK_VERSION = FRAMEWORK_VERSION;
@@ -31,66 +48,51 @@ const CURRENT_FRAMEWORK_VERSION = FRAMEWORK_VERSION;
 const AGGREGATION_ALGORITHM_VERSION = 'v2.0.0';
 
 /**
- * Validates whether a cached weekly aggregation is still valid.
- * Returns true if all episodes in the cache match current database state.
+ * Hashes of everything a week's aggregation is computed from
  */
-async function validateWeeklyCache(
-  cached: WeeklyAggregation,
-  currentWeekEpisodes: EpisodeInsight[]
-): Promise<boolean> {
-  // Check framework version matches current version
-  if (cached.framework_version !== CURRENT_FRAMEWORK_VERSION) {
-    console.log(`Cache invalid: framework version mismatch (cached: ${cached.framework_version}, current: ${CURRENT_FRAMEWORK_VERSION})`);
-    return false;
-  }
-
-  // Check that all episode IDs in cache are present in current week episodes
-  const currentEpisodeIds = new Set(currentWeekEpisodes.map(ep => ep.episode_id));
-  const cachedEpisodeIds = new Set(cached.episode_ids);
-
-  // If episode counts differ, cache is invalid
-  if (cachedEpisodeIds.size !== currentEpisodeIds.size) {
-    console.log(`Cache invalid: episode count mismatch (cached: ${cachedEpisodeIds.size}, current: ${currentEpisodeIds.size})`);
-    return false;
-  }
-
-  // Check all cached episode IDs exist in current episodes
-  for (const episodeId of cachedEpisodeIds) {
-    if (!currentEpisodeIds.has(episodeId)) {
-      console.log(`Cache invalid: episode ${episodeId} not found in current week`);
-      return false;
-    }
-  }
-
-  // Verify framework versions of all episodes match current version
-  const outdatedEpisodes = currentWeekEpisodes.filter(
-    ep => ep.framework_version !== CURRENT_FRAMEWORK_VERSION
-  );
-  if (outdatedEpisodes.length > 0) {
-    console.log(`Cache invalid: ${outdatedEpisodes.length} episode(s) have outdated framework versions`);
-    return false;
-  }
-
-  console.log(`Cache valid: all ${cachedEpisodeIds.size} episodes match current state`);
-  return true;
+function weeklyCacheDependencies(
+  currentWeekEpisodes: EpisodeInsight[],
+  priorWeekEpisodes: EpisodeInsight[],
+  taxonomy: TopicTaxonomy,
+  config: AppConfig,
+  rankingProfile: RankingProfile
+): WeeklyCacheDependencies {
+  return computeWeeklyCacheDependencies(currentWeekEpisodes, priorWeekEpisodes, {
+    frameworkVersion: CURRENT_FRAMEWORK_VERSION,
+    algorithmVersion: AGGREGATION_ALGORITHM_VERSION,
+    rankingSignature: rankingProfileSignature(rankingProfile),
+    topicMatcher: describeTopicMatcher(config.matching),
+    taxonomy,
+    aggregation: config.aggregation
+  });
 }
 
 /**
  * Converts a cached WeeklyAggregation back to a full HCRReport.
- * Used when cache hit occurs to avoid recomputing the report.
+ *
+ * The aggregation only stores the top issues, not the deltas, intervals and
+ * member topics a report shows, so a hit re-ranks both weeks from the same
+ * inputs (equal dependency hashes guarantee the same result). What a hit
+ * skips is the AI executive summary and rewriting the cache. Ranking uses the
+ * `config` the dependencies were hashed from; the topic matcher's embeddings
+ * were cached when the week was computed, so it normally calls no provider.
  */
 async function convertAggregationToReport(
   cached: WeeklyAggregation,
   weekStart: string,
   weekEnd: string,
   priorWeekStart: string,
-  priorWeekEnd: string
+  priorWeekEnd: string,
+  currentWeekEpisodes: EpisodeInsight[],
+  priorWeekEpisodes: EpisodeInsight[],
+  profile: SourceProfile,
+  taxonomy: TopicTaxonomy,
+  rankingProfile: RankingProfile,
+  config: AppConfig,
+  call: LLMCallContext = {}
 ): Promise<HCRReport> {
   console.log(`Converting cached aggregation to HCRReport for ${weekStart}`);
-
-  // Retrieve episodes to populate sources_analyzed and evidence
-  const currentWeekEpisodes = await getEpisodesByDateRange(weekStart, weekEnd);
-  const priorWeekEpisodes = await getEpisodesByDateRange(priorWeekStart, priorWeekEnd);
+  const aggregation = config.aggregation;
 
   // Build sources_analyzed array
   const sourcesAnalyzed: AnalyzedSource[] = currentWeekEpisodes.map(ep => ({
@@ -98,7 +100,7 @@ async function convertAggregationToReport(
     show_name: ep.show_name,
     title: ep.title,
     published_at: ep.published_at,
-    input_types_present: ['transcript_summary']
+    input_types_present: [ep.input_source === 'transcript' ? 'transcript' : 'transcript_summary']
   }));
 
   // Convert AggregatedIssues to IssueEntries with full evidence
@@ -107,12 +109,13 @@ async function convertAggregationToReport(
   const losingIssues: IssueMovement[] = [];
 
   // Rank current week issues to get proper structure
-  const currentWeekIssues = rankIssues(currentWeekEpisodes);
-  const priorWeekIssues = rankIssues(priorWeekEpisodes);
+  const matcher = await getTopicMatcher([...currentWeekEpisodes, ...priorWeekEpisodes], taxonomy, config, call);
+  const currentWeekIssues = rankIssues(currentWeekEpisodes, taxonomy, matcher, rankingProfile, aggregation);
+  const priorWeekIssues = rankIssues(priorWeekEpisodes, taxonomy, matcher, rankingProfile, aggregation);
 
-  // Use top 5 issues from cache to build entries
+  // Top 5 issues, the ones the cached aggregation stored
   const top5 = currentWeekIssues.slice(0, 5);
-  const { deltas } = computeDeltas(top5, priorWeekIssues);
+  const { deltas } = computeDeltas(top5, priorWeekIssues, taxonomy, matcher, aggregation);
 
   deltas.forEach((delta, index) => {
     const evidence = buildEvidenceArray(delta.issue, currentWeekEpisodes);
@@ -137,7 +140,13 @@ async function convertAggregationToReport(
       delta_vs_prior_week: deltaValue,
       why_this_week: `Mentioned in ${delta.issue.episode_count} episode(s) with ${(delta.issue.avg_prominence * 100).toFixed(0)}% prominence.`,
       what_changed_week_over_week: enhancedDescription,
-      evidence
+      evidence,
+      member_topics: delta.issue.member_topics,
+      ...(delta.issue.parent_name ? { parent_issue: delta.issue.parent_name } : {}),
+      sentiment_interval: roundInterval(delta.issue.sentiment_interval),
+      prominence: delta.issue.avg_prominence,
+      episode_count: delta.issue.episode_count,
+      ...(delta.significance ? { delta_significance: roundSignificance(delta.significance) } : {})
     });
 
     // Track gaining/losing issues
@@ -167,7 +176,7 @@ async function convertAggregationToReport(
 
   // Detect narrative shifts
   const narrativeShifts = detectNarrativeShifts(
-    top5,
+    deltas,
     priorWeekIssues,
     currentWeekEpisodes
   );
@@ -176,7 +185,7 @@ async function convertAggregationToReport(
   const qualityFlags = computeQualityFlags(currentWeekEpisodes, currentWeekIssues);
 
   // Generate placeholder executive summary
-  const executiveSummary = generatePlaceholderSummary(top5, currentWeekEpisodes);
+  const executiveSummary = generatePlaceholderSummary(top5, currentWeekEpisodes, profile);
 
   return {
     run_window: {
@@ -197,17 +206,21 @@ async function convertAggregationToReport(
     issues_losing_importance: losingIssues,
     narrative_shifts: narrativeShifts,
     evidence_gaps: [],
-    quality_flags: qualityFlags
+    quality_flags: qualityFlags,
+    source_profile: { profile_id: profile.profile_id, name: profile.name },
+    ranking_profile: { profile_id: rankingProfile.id, name: rankingProfile.name },
+    sentiment_strategy: aggregation.sentimentStrategy,
+    cache_status: { status: 'hit', reasons: [] }
   };
 }
 
 /**
- * Prunes old weekly aggregations, keeping only the most recent N weeks.
+ * Prunes old weekly aggregations of a profile, keeping only the most recent N weeks.
  * Helps prevent unbounded storage growth.
  */
-async function pruneOldWeeklyAggregations(): Promise<void> {
+async function pruneOldWeeklyAggregations(profileId: string): Promise<void> {
   try {
-    const allAggregations = await getAllWeeklyAggregations();
+    const allAggregations = await getAllWeeklyAggregations(profileId);
 
     const config = getConfig();
     const maxEntries = Math.max(1, config.caching.maxWeeklyCacheEntries || 52);
@@ -227,7 +240,7 @@ async function pruneOldWeeklyAggregations(): Promise<void> {
     console.log(`Pruning ${toDelete.length} old weekly aggregations (keeping most recent ${maxEntries})`);
 
     for (const aggregation of toDelete) {
-      await deleteWeeklyAggregation(aggregation.week_start);
+      await deleteWeeklyAggregation(aggregation.week_start, profileId);
     }
 
     console.log(`Successfully pruned ${toDelete.length} old weekly aggregations`);
@@ -237,80 +250,109 @@ async function pruneOldWeeklyAggregations(): Promise<void> {
   }
 }
 
+/**
+ * Hashes of everything the report of a week would be composed from, as
+ * composeWeeklyReport computes them (lets callers that keep composed reports,
+ * such as processing jobs, tell whether a stored week is still current)
+ */
+export async function getWeeklyReportDependencies(
+  weekStart: string,
+  weekEnd: string,
+  priorWeekStart: string,
+  priorWeekEnd: string,
+  profile?: SourceProfile
+): Promise<WeeklyCacheDependencies> {
+  const profileId = (profile ?? await loadSourceProfile()).profile_id;
+  const taxonomy = await loadTopicTaxonomy();
+  const config = getConfig();
+  const currentWeekEpisodes = await getEpisodesByDateRange(weekStart, weekEnd, profileId);
+  const priorWeekEpisodes = await getEpisodesByDateRange(priorWeekStart, priorWeekEnd, profileId);
+  return weeklyCacheDependencies(currentWeekEpisodes, priorWeekEpisodes, taxonomy, config, getRankingProfile(config));
+}
+
 /**
  * Composes a weekly report from episode insights without calling AI.
  * Aggregates topics across episodes, ranks by importance, and calculates deltas.
- * Uses caching to speed up re-runs and multi-week analysis.
+ * Uses caching to speed up re-runs and multi-week analysis: a cached week is
+ * reused only while the hashes of all its inputs match (see cacheDependencies).
  *
  * @param weekStart - Start of current week (YYYY-MM-DD, Sunday)
  * @param weekEnd - End of current week (YYYY-MM-DD, Saturday)
  * @param priorWeekStart - Start of prior week (YYYY-MM-DD, Sunday)
  * @param priorWeekEnd - End of prior week (YYYY-MM-DD, Saturday)
+ * @param profile - Source profile whose episodes are reported (default: the default profile)
+ * @param call - Context of the run composing the report (abort signal for provider calls)
  * @returns Complete HCRReport matching existing schema
  */
 export async function composeWeeklyReport(
   weekStart: string,
   weekEnd: string,
   priorWeekStart: string,
-  priorWeekEnd: string
+  priorWeekEnd: string,
+  profile?: SourceProfile,
+  call: LLMCallContext = {}
 ): Promise<HCRReport> {
   console.log(`Composing weekly report for ${weekStart} to ${weekEnd}`);
 
   try {
+    const sourceProfile = profile ?? await loadSourceProfile();
+    const profileId = sourceProfile.profile_id;
+    const taxonomy = await loadTopicTaxonomy();
     const config = getConfig();
+    const rankingProfile = getRankingProfile(config);
     const enableWeeklyCache = config.caching.enableWeeklyAggregationCache;
 
-    if (enableWeeklyCache) {
-      // Check if we have a cached weekly aggregation
-      const cachedAggregation = await getWeeklyAggregation(weekStart);
-
-      if (cachedAggregation) {
-        console.log(`Found cached weekly aggregation for ${weekStart}`);
-
-        // Query current week episodes to validate cache
-        const currentWeekEpisodes = await getEpisodesByDateRange(weekStart, weekEnd);
-
-        // Validate cache is still valid
-        const isCacheValid = await validateWeeklyCache(cachedAggregation, currentWeekEpisodes);
-
-        if (isCacheValid) {
-          console.log(`✓ Using cached weekly aggregation for ${weekStart} (cache hit)`);
-          return await convertAggregationToReport(
-            cachedAggregation,
-            weekStart,
-            weekEnd,
-            priorWeekStart,
-            priorWeekEnd
-          );
-        } else {
-          console.log(`✗ Cache invalid for ${weekStart}, recomputing...`);
-        }
-      }
-    } else {
-      console.log('Weekly aggregation caching disabled (config.caching.enableWeeklyAggregationCache=false)');
-    }
-
-    // Cache miss or invalid - compute fresh report
-    console.log(`Computing fresh weekly report for ${weekStart} (cache miss)`);
-
     // Query episodes from IndexedDB
-    const currentWeekEpisodes = await getEpisodesByDateRange(weekStart, weekEnd);
-    const priorWeekEpisodes = await getEpisodesByDateRange(priorWeekStart, priorWeekEnd);
+    const currentWeekEpisodes = await getEpisodesByDateRange(weekStart, weekEnd, profileId);
+    const priorWeekEpisodes = await getEpisodesByDateRange(priorWeekStart, priorWeekEnd, profileId);
 
     console.log(
       `Found ${currentWeekEpisodes.length} episodes in current week, ` +
       `${priorWeekEpisodes.length} in prior week`
     );
 
-    // Aggregate topics into ranked issues
-    const currentWeekIssues = rankIssues(currentWeekEpisodes);
-    const priorWeekIssues = rankIssues(priorWeekEpisodes);
+    const dependencies = weeklyCacheDependencies(currentWeekEpisodes, priorWeekEpisodes, taxonomy, config, rankingProfile);
+    let cacheStatus: WeeklyCacheStatus = { status: 'uncached', reasons: [] };
+
+    if (enableWeeklyCache) {
+      // Reuse the cached aggregation only if none of its inputs changed
+      const cachedAggregation = await getWeeklyAggregation(weekStart, profileId);
+      const reasons = explainWeeklyCacheChanges(cachedAggregation ? cachedAggregation.dependencies : null, dependencies);
+
+      if (cachedAggregation && reasons.length === 0) {
+        console.log(`✓ Using cached weekly aggregation for ${weekStart} (cache hit)`);
+        return await convertAggregationToReport(
+          cachedAggregation,
+          weekStart,
+          weekEnd,
+          priorWeekStart,
+          priorWeekEnd,
+          currentWeekEpisodes,
+          priorWeekEpisodes,
+          sourceProfile,
+          taxonomy,
+          rankingProfile,
+          config,
+          call
+        );
+      }
+      console.log(`✗ Recomputing ${weekStart}: ${reasons.join('; ')}`);
+      cacheStatus = { status: 'recomputed', reasons };
+    } else {
+      console.log('Weekly aggregation caching disabled (config.caching.enableWeeklyAggregationCache=false)');
+    }
+
+    // Aggregate topics into ranked issues; both weeks share one matcher so
+    // week-over-week matching compares like with like
+    const matcher = await getTopicMatcher([...currentWeekEpisodes, ...priorWeekEpisodes], taxonomy, config, call);
+    const currentWeekIssues = rankIssues(currentWeekEpisodes, taxonomy, matcher, rankingProfile, config.aggregation);
+    const priorWeekIssues = rankIssues(priorWeekEpisodes, taxonomy, matcher, rankingProfile, config.aggregation);
 
     // Select top 5 issues
     const top5 = currentWeekIssues.slice(0, 5);
 
     // Compute deltas and movements
-    const { deltas, dropped } = computeDeltas(top5, priorWeekIssues);
+    const { deltas, dropped } = computeDeltas(top5, priorWeekIssues, taxonomy, matcher, config.aggregation);
     const {
       issueEntries,
       gainingIssues,
@@ -319,7 +361,7 @@ export async function composeWeeklyReport(
 
     // Detect narrative shifts
     const narrativeShifts = detectNarrativeShifts(
-      top5,
+      deltas,
       priorWeekIssues,
       currentWeekEpisodes
     );
@@ -341,16 +383,18 @@ export async function composeWeeklyReport(
           weekEnd,
           top5,
           currentWeekEpisodes,
-          shiftDescriptions
+          shiftDescriptions,
+          sourceProfile,
+          call
         );
         console.log(`✓ AI executive summary generated (${executiveSummary.length} paragraphs)`);
       } catch (error) {
         console.error('AI summary synthesis failed, falling back to placeholder:', error);
-        executiveSummary = generatePlaceholderSummary(top5, currentWeekEpisodes);
+        executiveSummary = generatePlaceholderSummary(top5, currentWeekEpisodes, sourceProfile);
       }
     } else {
       console.log('Using placeholder executive summary (AI synthesis disabled in config)');
-      executiveSummary = generatePlaceholderSummary(top5, currentWeekEpisodes);
+      executiveSummary = generatePlaceholderSummary(top5, currentWeekEpisodes, sourceProfile);
     }
 
     // Build sources_analyzed array
@@ -359,7 +403,7 @@ export async function composeWeeklyReport(
       show_name: ep.show_name,
       title: ep.title,
       published_at: ep.published_at,
-      input_types_present: ['transcript_summary'] // From episode analysis
+      input_types_present: [ep.input_source === 'transcript' ? 'transcript' : 'transcript_summary'] // From episode analysis
     }));
 
     // Assemble final report
@@ -382,7 +426,11 @@ export async function composeWeeklyReport(
       issues_losing_importance: losingIssues,
       narrative_shifts: narrativeShifts,
       evidence_gaps: [],
-      quality_flags: qualityFlags
+      quality_flags: qualityFlags,
+      source_profile: { profile_id: profileId, name: sourceProfile.name },
+      ranking_profile: { profile_id: rankingProfile.id, name: rankingProfile.name },
+      sentiment_strategy: config.aggregation.sentimentStrategy,
+      cache_status: cacheStatus
     };
 
     // Cache the weekly aggregation for future re-runs
@@ -399,17 +447,20 @@ export async function composeWeeklyReport(
         const weeklyAggregation: WeeklyAggregation = {
           week_start: weekStart,
           week_end: weekEnd,
+          profile_id: profileId,
           episode_ids: currentWeekEpisodes.map(ep => ep.episode_id),
           top_issues: aggregatedIssues,
           computed_at: report.generated_at,
-          framework_version: CURRENT_FRAMEWORK_VERSION
+          framework_version: CURRENT_FRAMEWORK_VERSION,
+          sentiment_strategy: config.aggregation.sentimentStrategy,
+          dependencies
         };
 
         await saveWeeklyAggregation(weeklyAggregation);
         console.log(`✓ Cached weekly aggregation for ${weekStart}`);
 
         // Prune old aggregations to prevent unbounded growth
-        await pruneOldWeeklyAggregations();
+        await pruneOldWeeklyAggregations(profileId);
       } catch (cacheError) {
         // Non-fatal: log error but continue
         console.error('Failed to cache weekly aggregation:', cacheError);
@@ -463,7 +514,13 @@ function buildIssueEntriesFromDeltas(
       delta_vs_prior_week: deltaValue,
       why_this_week: `Mentioned in ${delta.issue.episode_count} episode(s) with ${(delta.issue.avg_prominence * 100).toFixed(0)}% prominence.`,
       what_changed_week_over_week: enhancedDescription,
-      evidence
+      evidence,
+      member_topics: delta.issue.member_topics,
+      ...(delta.issue.parent_name ? { parent_issue: delta.issue.parent_name } : {}),
+      sentiment_interval: roundInterval(delta.issue.sentiment_interval),
+      prominence: delta.issue.avg_prominence,
+      episode_count: delta.issue.episode_count,
+      ...(delta.significance ? { delta_significance: roundSignificance(delta.significance) } : {})
     };
 
     issueEntries.push(issueEntry);
@@ -537,9 +594,10 @@ function buildEnhancedDeltaDescription(
   const isPositive = typeof sentimentDelta === 'number' && sentimentDelta > 0;
   const isNegative = typeof sentimentDelta === 'number' && sentimentDelta < 0;
   const magnitude = typeof sentimentDelta === 'number' ? Math.abs(sentimentDelta) : 0;
+  const isSignificant = Boolean(delta.significance?.significant);
 
   if (movement === "up") {
-    if (magnitude > 20 && themes.length > 0) {
+    if (magnitude > 20 && isSignificant && themes.length > 0) {
       return `${issue.issue_name} sentiment improved significantly (+${magnitude} pts) amid ${themes[0].toLowerCase()}.`;
     } else if (themes.length > 0) {
       return `${issue.issue_name} gained momentum (+${magnitude} pts) with focus on ${themes[0].toLowerCase()}.`;
@@ -548,7 +606,7 @@ function buildEnhancedDeltaDescription(
   }
 
   if (movement === "down") {
-    if (magnitude > 20 && themes.length > 0) {
+    if (magnitude > 20 && isSignificant && themes.length > 0) {
       return `${issue.issue_name} sentiment declined significantly (-${magnitude} pts) amid concerns about ${themes[0].toLowerCase()}.`;
     } else if (themes.length > 0) {
       return `${issue.issue_name} lost momentum (-${magnitude} pts) with continued attention to ${themes[0].toLowerCase()}.`;
@@ -673,11 +731,12 @@ function cleanThemeText(text: string): string {
  * Detects narrative shifts between weeks
  */
 function detectNarrativeShifts(
-  currentWeekIssues: RankedIssue[],
+  deltas: DeltaResult[],
   priorWeekIssues: RankedIssue[],
   currentWeekEpisodes: EpisodeInsight[]
 ): NarrativeShift[] {
   const shifts: NarrativeShift[] = [];
+  const currentWeekIssues = deltas.map(delta => delta.issue);
 
   // Detect new emerging topics
   const priorNames = new Set(priorWeekIssues.map(i => i.normalized_name));
@@ -691,20 +750,16 @@ function detectNarrativeShifts(
     }
   });
 
-  // Detect significant sentiment changes
-  const priorMap = new Map(priorWeekIssues.map(i => [i.normalized_name, i]));
-  currentWeekIssues.forEach(issue => {
-    const prior = priorMap.get(issue.normalized_name);
-    if (prior) {
-      const delta = issue.avg_sentiment - prior.avg_sentiment;
-      if (Math.abs(delta) > 15) {
-        const direction = delta > 0 ? 'more positive' : 'more negative';
-        shifts.push({
-          shift: `${issue.issue_name} sentiment turned ${direction}`,
-          why_it_changed: `Sentiment shifted by ${formatDelta(delta)} points compared to prior week.`,
-          supporting_evidence: buildEvidenceArray(issue, currentWeekEpisodes).slice(0, 2)
-        });
-      }
+  // Detect large sentiment changes that are distinguishable from sampling noise
+  deltas.forEach(({ issue, sentimentDelta, significance }) => {
+    if (typeof sentimentDelta === 'number' && Math.abs(sentimentDelta) > 15 && significance?.significant) {
+      const direction = sentimentDelta > 0 ? 'more positive' : 'more negative';
+      shifts.push({
+        shift: `${issue.issue_name} sentiment turned ${direction}`,
+        why_it_changed: `Sentiment shifted by ${formatDelta(sentimentDelta)} points compared to prior week ` +
+          `(p = ${formatPValue(significance.p_value)}).`,
+        supporting_evidence: buildEvidenceArray(issue, currentWeekEpisodes).slice(0, 2)
+      });
     }
   });
 
@@ -770,10 +825,11 @@ function computeQualityFlags(
  */
 function generatePlaceholderSummary(
   topIssues: RankedIssue[],
-  episodes: EpisodeInsight[]
+  episodes: EpisodeInsight[],
+  profile: SourceProfile
 ): string[] {
   if (topIssues.length === 0) {
-    return ["No significant political topics identified this week."];
+    return [`No significant topics about ${profile.focus.name} identified this week.`];
   }
 
   const summary: string[] = [];
@@ -781,8 +837,8 @@ function generatePlaceholderSummary(
   // Paragraph 1: Overview
   const topIssueNames = topIssues.slice(0, 3).map(i => i.issue_name).join(', ');
   summary.push(
-    `This week's political discourse focused primarily on ${topIssueNames}. ` +
-    `Analysis of ${episodes.length} episode(s) revealed these as the most prominent topics in Heather Cox Richardson's commentary.`
+    `This week's discussion of ${profile.focus.name} focused primarily on ${topIssueNames}. ` +
+    `Analysis of ${episodes.length} episode(s) revealed these as the most prominent topics in ${profile.host_name}'s commentary.`
   );
 
   // Paragraph 2: Top issue detail
@@ -819,24 +875,26 @@ function buildEvidenceArray(
     issue.episode_ids.includes(ep.episode_id)
   );
 
+  const memberTopics = new Set(issue.member_topics.map(cleanTopicName));
+
   for (const episode of relevantEpisodes) {
-    // Find topics matching this issue
+    // Find topics grouped into this issue
     const matchingTopics = episode.topics.filter(t =>
-      normalizeTopic(t.topic_name) === issue.normalized_name
+      memberTopics.has(cleanTopicName(t.topic_name))
     );
 
     for (const topic of matchingTopics) {
       // Add quotes as evidence
-      for (const quote of topic.evidence_quotes.slice(0, 2)) { // Max 2 quotes per topic
+      topic.evidence_quotes.slice(0, 2).forEach((quote, idx) => { // Max 2 quotes per topic
         evidence.push({
           episode_id: episode.episode_id,
           show_name: episode.show_name,
           published_at: episode.published_at,
           evidence_type: "quote_excerpt",
           evidence_text: quote,
-          offsets: null
+          offsets: topic.evidence_offsets?.[idx] ?? null
         });
-      }
+      });
     }
   }
 
@@ -862,6 +920,32 @@ function formatDelta(delta: number): string {
   return `${prefix}${Math.round(delta)}`;
 }
 
+/**
+ * Rounds interval bounds to whole points, like sentiment_index
+ */
+function roundInterval(interval: SentimentInterval): SentimentInterval {
+  return { lower: Math.round(interval.lower), upper: Math.round(interval.upper), level: interval.level };
+}
+
+/**
+ * Rounds the delta interval to whole points and the p-value to 3 decimals
+ */
+function roundSignificance(significance: DeltaSignificance): DeltaSignificance {
+  return {
+    ...significance,
+    p_value: Math.round(significance.p_value * 1000) / 1000,
+    lower: Math.round(significance.lower),
+    upper: Math.round(significance.upper)
+  };
+}
+
+/**
+ * Formats a p-value for display (0.001 is the permutation test's resolution)
+ */
+function formatPValue(pValue: number): string {
+  return pValue <= 0.001 ? '≤ 0.001' : pValue.toFixed(3);
+}
+
 /**
  * Maps sentiment score to label
  */
@@ -0,0 +1,370 @@
+/**
+ * Request Scheduler
+ *
+ * One shared queue for every provider call (search, analysis, reports,
+ * summaries, market analysis). It enforces requests-per-minute and
+ * tokens-per-minute budgets with two token buckets, and when a provider
+ * answers 429 it pauses the whole queue for the retry-after period instead
+ * of letting each worker retry on its own schedule.
+ *
+ * Concurrency is still capped by processInParallel; the scheduler only
+ * decides when an admitted call may actually hit the API.
+ */
+
+import { getConfig } from '../constants/config';
+import type { LLMTask } from './llmProvider';
+
+export interface RateLimits {
+  /** Requests per minute (0 = unlimited) */
+  requestsPerMinute: number;
+  /** Estimated tokens per minute (0 = unlimited) */
+  tokensPerMinute: number;
+  /** How many times a rate-limited call is retried after the pause */
+  maxRateLimitRetries: number;
+}
+
+export type ThrottleStatus = 'idle' | 'running' | 'waiting_rpm' | 'waiting_tpm' | 'paused';
+
+/**
+ * Snapshot of the scheduler for progress displays
+ */
+export interface ThrottleState {
+  status: ThrottleStatus;
+  /** Calls waiting for budget or for a pause to end */
+  queued: number;
+  /** Calls currently running against the provider */
+  inFlight: number;
+  /** Epoch ms until which the queue is paused after a 429 (null when not paused) */
+  pausedUntil: number | null;
+  /** Requests that could start right now under the RPM budget (null = unlimited) */
+  requestsAvailable: number | null;
+  /** Tokens that could be spent right now under the TPM budget (null = unlimited) */
+  tokensAvailable: number | null;
+  /** 429 responses seen since the scheduler was created or reset */
+  rateLimitHits: number;
+}
+
+export interface RequestScheduler {
+  /**
+   * Run `operation` once budget is available. Rate-limited failures pause the
+   * queue and are retried up to `maxRateLimitRetries` times; other errors are
+   * rethrown immediately. When `signal` fires, a call still waiting in the
+   * queue leaves it and rejects with an AbortError instead of running.
+   */
+  schedule<T>(task: LLMTask, estimatedTokens: number, operation: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  getState(): ThrottleState;
+  /** Subscribe to state changes; returns an unsubscribe function */
+  subscribe(listener: (state: ThrottleState) => void): () => void;
+  /** Refill both buckets and clear any pause (queued calls proceed) */
+  reset(): void;
+}
+
+/**
+ * Output tokens assumed per task when estimating a call's token cost
+ */
+const OUTPUT_TOKEN_ALLOWANCE: Record<LLMTask, number> = {
+  search: 1500,
+  analysis: 2000,
+  report: 4000,
+  summary: 800,
+  market: 3000,
+  embedding: 0
+};
+
+const DEFAULT_RATE_LIMIT_BACKOFF_MS = 5000;
+const MAX_RATE_LIMIT_BACKOFF_MS = 120_000;
+
+/**
+ * Rough token estimate for a request: ~4 characters per prompt token plus
+ * a per-task allowance for the response.
+ */
+export function estimateRequestTokens(task: LLMTask, prompt: string): number {
+  return Math.ceil(prompt.length / 4) + OUTPUT_TOKEN_ALLOWANCE[task];
+}
+
+/**
+ * Error for a call cancelled while it waited in the queue
+ */
+export function createAbortError(): Error {
+  const error = new Error('Request cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Whether an error comes from a cancelled call (queued or in-flight fetch)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: unknown })?.name === 'AbortError';
+}
+
+/**
+ * Whether an error is a provider rate-limit/quota response
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const code = (error as { code?: unknown; status?: unknown })?.code ?? (error as { status?: unknown })?.status;
+  const msg = error instanceof Error ? error.message : String(error);
+  return code === 429 || msg.includes('"code":429') || /RESOURCE_EXHAUSTED|rate limit/i.test(msg);
+}
+
+/**
+ * Read a retry-after hint from a rate-limit error, in milliseconds.
+ * Understands `retryAfterMs` (set by HTTP providers from the Retry-After
+ * header), Gemini's RetryInfo `"retryDelay": "30s"` and "retry in 12.5s" text.
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  const explicit = (error as { retryAfterMs?: unknown })?.retryAfterMs;
+  if (typeof explicit === 'number' && Number.isFinite(explicit) && explicit >= 0) {
+    return explicit;
+  }
+
+  const msg = error instanceof Error ? error.message : String(error);
+  const retryDelay = msg.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) {
+    return Math.round(parseFloat(retryDelay[1]) * 1000);
+  }
+  const retryIn = msg.match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*(ms|s|seconds?)\b/i);
+  if (retryIn) {
+    const value = parseFloat(retryIn[1]);
+    return Math.round(retryIn[2].toLowerCase() === 'ms' ? value : value * 1000);
+  }
+  return null;
+}
+
+/**
+ * Parse an HTTP Retry-After header (delay in seconds or an HTTP date)
+ */
+export function parseRetryAfterHeader(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Create a scheduler. Limits are read on every admission so settings changes
+ * apply to a run already in progress.
+ */
+export function createRequestScheduler(getLimits: () => RateLimits): RequestScheduler {
+  const waiters: Array<{ tokens: number; resolve: () => void }> = [];
+  const listeners = new Set<(state: ThrottleState) => void>();
+
+  let requestBucket: number | null = null; // null until first refill (starts full)
+  let tokenBucket: number | null = null;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let inFlight = 0;
+  let rateLimitHits = 0;
+  let consecutiveRateLimits = 0;
+  let waitingOn: ThrottleStatus = 'idle';
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const refill = (limits: RateLimits) => {
+    const now = Date.now();
+    const elapsedMinutes = (now - lastRefill) / 60_000;
+    lastRefill = now;
+
+    if (limits.requestsPerMinute > 0) {
+      const current = requestBucket ?? limits.requestsPerMinute;
+      requestBucket = Math.min(limits.requestsPerMinute, current + elapsedMinutes * limits.requestsPerMinute);
+    } else {
+      requestBucket = null;
+    }
+    if (limits.tokensPerMinute > 0) {
+      const current = tokenBucket ?? limits.tokensPerMinute;
+      tokenBucket = Math.min(limits.tokensPerMinute, current + elapsedMinutes * limits.tokensPerMinute);
+    } else {
+      tokenBucket = null;
+    }
+  };
+
+  const getState = (): ThrottleState => {
+    const now = Date.now();
+    const paused = pausedUntil > now;
+    let status: ThrottleStatus = 'idle';
+    if (paused && (waiters.length > 0 || inFlight > 0)) status = 'paused';
+    else if (waiters.length > 0) status = waitingOn;
+    else if (inFlight > 0) status = 'running';
+
+    return {
+      status,
+      queued: waiters.length,
+      inFlight,
+      pausedUntil: paused ? pausedUntil : null,
+      requestsAvailable: requestBucket === null ? null : Math.floor(requestBucket),
+      tokensAvailable: tokenBucket === null ? null : Math.floor(tokenBucket),
+      rateLimitHits
+    };
+  };
+
+  const notify = () => {
+    const state = getState();
+    listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.warn('[RequestScheduler] Listener failed:', error);
+      }
+    });
+  };
+
+  const wakeAfter = (ms: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      drain();
+    }, Math.max(10, Math.ceil(ms)));
+  };
+
+  // Admit queued calls in FIFO order while budget allows
+  const drain = () => {
+    const limits = getLimits();
+    refill(limits);
+
+    while (waiters.length > 0) {
+      const now = Date.now();
+      if (pausedUntil > now) {
+        waitingOn = 'paused';
+        wakeAfter(pausedUntil - now);
+        break;
+      }
+
+      const head = waiters[0];
+      // A single call larger than the whole TPM budget only waits for a full bucket
+      const tokensNeeded = limits.tokensPerMinute > 0 ? Math.min(head.tokens, limits.tokensPerMinute) : 0;
+
+      if (requestBucket !== null && requestBucket < 1) {
+        waitingOn = 'waiting_rpm';
+        wakeAfter(((1 - requestBucket) / limits.requestsPerMinute) * 60_000);
+        break;
+      }
+      if (tokenBucket !== null && tokenBucket < tokensNeeded) {
+        waitingOn = 'waiting_tpm';
+        wakeAfter(((tokensNeeded - tokenBucket) / limits.tokensPerMinute) * 60_000);
+        break;
+      }
+
+      if (requestBucket !== null) requestBucket -= 1;
+      if (tokenBucket !== null) tokenBucket -= tokensNeeded;
+      waiters.shift();
+      head.resolve();
+    }
+
+    if (waiters.length === 0) {
+      waitingOn = 'idle';
+    }
+    notify();
+  };
+
+  const acquire = (tokens: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        const idx = waiters.indexOf(waiter);
+        if (idx >= 0) {
+          waiters.splice(idx, 1);
+          drain();
+        }
+        reject(createAbortError());
+      };
+      const waiter = {
+        tokens,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiters.push(waiter);
+      drain();
+    });
+  };
+
+  const pause = (ms: number) => {
+    const until = Date.now() + ms;
+    if (until > pausedUntil) {
+      pausedUntil = until;
+    }
+    notify();
+  };
+
+  return {
+    async schedule<T>(task: LLMTask, estimatedTokens: number, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      for (let attempt = 0; ; attempt++) {
+        await acquire(estimatedTokens, signal);
+        inFlight += 1;
+        notify();
+
+        try {
+          const result = await operation();
+          consecutiveRateLimits = 0;
+          return result;
+        } catch (error) {
+          if (!isRateLimitError(error) || attempt >= getLimits().maxRateLimitRetries) {
+            throw error;
+          }
+
+          rateLimitHits += 1;
+          consecutiveRateLimits += 1;
+          const hinted = getRetryAfterMs(error);
+          const waitMs = hinted ?? Math.min(
+            MAX_RATE_LIMIT_BACKOFF_MS,
+            DEFAULT_RATE_LIMIT_BACKOFF_MS * Math.pow(2, consecutiveRateLimits - 1)
+          );
+          console.warn(
+            `[RequestScheduler] ${task} call rate limited; pausing queue for ${Math.round(waitMs / 1000)}s` +
+            `${hinted !== null ? ' (retry-after hint)' : ''} (retry ${attempt + 1})`
+          );
+          pause(waitMs);
+        } finally {
+          inFlight -= 1;
+          notify();
+        }
+        // Loop back into the queue; admission waits until the pause ends
+      }
+    },
+
+    getState,
+
+    subscribe(listener: (state: ThrottleState) => void): () => void {
+      listeners.add(listener);
+      listener(getState());
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    reset(): void {
+      requestBucket = null;
+      tokenBucket = null;
+      pausedUntil = 0;
+      consecutiveRateLimits = 0;
+      rateLimitHits = 0;
+      lastRefill = Date.now();
+      drain();
+    }
+  };
+}
+
+let sharedScheduler: RequestScheduler | null = null;
+
+/**
+ * The scheduler shared by all provider calls, driven by AppConfig.processing
+ */
+export function getRequestScheduler(): RequestScheduler {
+  if (!sharedScheduler) {
+    sharedScheduler = createRequestScheduler(() => {
+      const { requestsPerMinute, tokensPerMinute, maxRateLimitRetries } = getConfig().processing;
+      return { requestsPerMinute, tokensPerMinute, maxRateLimitRetries };
+    });
+  }
+  return sharedScheduler;
+}
@@ -0,0 +1,266 @@
+/**
+ * Response Schemas
+ *
+ * Runtime schemas for every structured model response. They describe the
+ * payload the model returns (which may differ slightly from the stored type,
+ * e.g. market analysis arrives as `analysis_content` paragraphs), are sent to
+ * providers that support response schemas, and drive repair/validation in
+ * services/structuredOutput.ts.
+ */
+
+import type { ArraySchema, ObjectSchema, Schema } from '../utils/schema';
+import type { DailyMarketData, TopicInsight } from '../types';
+
+/**
+ * Episode analysis payload after validation against EPISODE_INSIGHT_SCHEMA
+ */
+export interface EpisodeAnalysisPayload {
+  episode_id?: string;
+  show_name?: string;
+  title?: string;
+  published_at?: string;
+  transcript_url?: string | null;
+  topics: TopicInsight[];
+  overall_sentiment?: number;
+  focus_relevance?: number;
+  key_quotes: string[];
+}
+
+/**
+ * Market analysis payload after validation against MARKET_ANALYSIS_SCHEMA
+ */
+export interface MarketAnalysisPayload {
+  analysis_content: string[];
+  daily_data: DailyMarketData[];
+}
+
+/**
+ * Episode discovery item after validation against EPISODE_SEARCH_SCHEMA
+ */
+export interface EpisodeSearchPayloadItem {
+  episode_id?: string | null;
+  show_name: string;
+  title?: string | null;
+  published_at: string;
+  transcript_url?: string | null;
+}
+
+const SCORE_0_100: Schema = { type: 'number', minimum: 0, maximum: 100 };
+const UNIT_INTERVAL: Schema = { type: 'number', minimum: 0, maximum: 1 };
+const DATE: Schema = { type: 'string', format: 'date' };
+const STRING_LIST: ArraySchema = { type: 'array', items: { type: 'string', minLength: 1 }, dropInvalidItems: true, default: [] };
+const SCORE_OR_UNKNOWN: Schema = { anyOf: [SCORE_0_100, { type: 'string', enum: ['unknown'] }] };
+const DELTA_OR_UNKNOWN: Schema = { anyOf: [{ type: 'number', minimum: -100, maximum: 100 }, { type: 'string', enum: ['unknown'] }] };
+
+// ===== Episode discovery =====
+
+export const EPISODE_SEARCH_SCHEMA: ArraySchema = {
+  type: 'array',
+  dropInvalidItems: true,
+  items: {
+    type: 'object',
+    properties: {
+      episode_id: { type: 'string', nullable: true },
+      show_name: { type: 'string', minLength: 1 },
+      title: { type: 'string', nullable: true },
+      published_at: DATE,
+      transcript_url: { type: 'string', nullable: true }
+    },
+    required: ['show_name', 'published_at']
+  }
+};
+
+// ===== Episode analysis (EpisodeInsight) =====
+
+export const TOPIC_INSIGHT_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    topic_name: { type: 'string', minLength: 1, aliases: ['name', 'topic'] },
+    sentiment_score: { ...SCORE_0_100, aliases: ['sentiment'] },
+    confidence: { ...UNIT_INTERVAL, default: 0.6 },
+    evidence_quotes: { ...STRING_LIST, aliases: ['evidenceQuotes', 'quotes', 'evidence'] },
+    prominence_score: { ...UNIT_INTERVAL, default: 0.3, aliases: ['prominence', 'prominenceScore'] }
+  },
+  required: ['topic_name', 'sentiment_score', 'confidence', 'evidence_quotes', 'prominence_score']
+};
+
+export const EPISODE_INSIGHT_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    episode_id: { type: 'string' },
+    show_name: { type: 'string' },
+    title: { type: 'string' },
+    published_at: DATE,
+    transcript_url: { type: 'string', nullable: true },
+    topics: { type: 'array', items: TOPIC_INSIGHT_SCHEMA, dropInvalidItems: true },
+    overall_sentiment: SCORE_0_100,
+    focus_relevance: { ...UNIT_INTERVAL, aliases: ['focusRelevance', 'relevance'] },
+    key_quotes: { ...STRING_LIST, aliases: ['keyQuotes'] }
+  },
+  required: ['topics']
+};
+
+// ===== Weekly report (HCRReport) =====
+
+const RUN_WINDOW_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    window_start: DATE,
+    window_end: DATE,
+    timezone: { type: 'string', default: 'America/New_York' }
+  },
+  required: ['window_start', 'window_end', 'timezone']
+};
+
+const EVIDENCE_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    episode_id: { type: 'string' },
+    show_name: { type: 'string' },
+    published_at: { type: 'string' },
+    evidence_type: { type: 'string', enum: ['quote_excerpt', 'paraphrase', 'topic_mention', 'sentiment_signal'], default: 'paraphrase' },
+    evidence_text: { type: 'string', minLength: 1 },
+    offsets: { type: 'string', nullable: true, default: null }
+  },
+  required: ['episode_id', 'show_name', 'published_at', 'evidence_type', 'evidence_text', 'offsets']
+};
+
+const EVIDENCE_LIST: ArraySchema = { type: 'array', items: EVIDENCE_SCHEMA, dropInvalidItems: true, default: [] };
+
+export const HCR_REPORT_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    run_window: RUN_WINDOW_SCHEMA,
+    prior_window: RUN_WINDOW_SCHEMA,
+    generated_at: { type: 'string' },
+    sources_analyzed: {
+      type: 'array',
+      dropInvalidItems: true,
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          episode_id: { type: 'string' },
+          show_name: { type: 'string' },
+          title: { type: 'string' },
+          published_at: { type: 'string' },
+          input_types_present: STRING_LIST
+        },
+        required: ['episode_id', 'show_name', 'title', 'published_at', 'input_types_present']
+      }
+    },
+    executive_summary: STRING_LIST,
+    top_issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          issue_id: { type: 'string' },
+          issue_name: { type: 'string', minLength: 1 },
+          rank_this_week: { type: 'integer', minimum: 1 },
+          sentiment_index: SCORE_OR_UNKNOWN,
+          sentiment_label: { type: 'string', enum: ['positive', 'neutral', 'negative', 'mixed', 'unknown'] },
+          confidence: UNIT_INTERVAL,
+          delta_vs_prior_week: DELTA_OR_UNKNOWN,
+          why_this_week: { type: 'string', default: '' },
+          what_changed_week_over_week: { type: 'string', default: '' },
+          evidence: EVIDENCE_LIST
+        },
+        required: [
+          'issue_id', 'issue_name', 'rank_this_week', 'sentiment_index', 'sentiment_label',
+          'confidence', 'delta_vs_prior_week', 'why_this_week', 'what_changed_week_over_week', 'evidence'
+        ]
+      }
+    },
+    issues_gaining_importance: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          issue_name: { type: 'string' },
+          movement: { type: 'string', enum: ['up', 'down', 'new', 'dropped', 'unchanged', 'unknown'] },
+          reason: { type: 'string', default: '' },
+          supporting_evidence: EVIDENCE_LIST
+        },
+        required: ['issue_name', 'movement', 'reason', 'supporting_evidence']
+      }
+    },
+    issues_losing_importance: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          issue_name: { type: 'string' },
+          movement: { type: 'string', enum: ['up', 'down', 'new', 'dropped', 'unchanged', 'unknown'] },
+          reason: { type: 'string', default: '' },
+          supporting_evidence: EVIDENCE_LIST
+        },
+        required: ['issue_name', 'movement', 'reason', 'supporting_evidence']
+      }
+    },
+    narrative_shifts: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          shift: { type: 'string' },
+          why_it_changed: { type: 'string', default: '' },
+          supporting_evidence: EVIDENCE_LIST
+        },
+        required: ['shift', 'why_it_changed', 'supporting_evidence']
+      }
+    },
+    evidence_gaps: STRING_LIST,
+    quality_flags: {
+      type: 'object',
+      properties: {
+        hallucination_risk: { type: 'string', enum: ['low', 'medium', 'high'], default: 'medium' },
+        data_coverage: { type: 'string', enum: ['full', 'partial', 'minimal', 'none'], default: 'partial' },
+        notes: STRING_LIST
+      },
+      required: ['hallucination_risk', 'data_coverage', 'notes']
+    }
+  },
+  required: [
+    'run_window', 'prior_window', 'generated_at', 'sources_analyzed', 'executive_summary', 'top_issues',
+    'issues_gaining_importance', 'issues_losing_importance', 'narrative_shifts', 'evidence_gaps', 'quality_flags'
+  ]
+};
+
+// ===== Executive summary =====
+
+export const EXECUTIVE_SUMMARY_SCHEMA: ArraySchema = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  dropInvalidItems: true,
+  minItems: 1
+};
+
+// ===== Market analysis (MarketAnalysisResult) =====
+
+export const MARKET_ANALYSIS_SCHEMA: ObjectSchema = {
+  type: 'object',
+  properties: {
+    analysis_content: { type: 'array', items: { type: 'string' }, aliases: ['analysis_markdown'] },
+    daily_data: {
+      type: 'array',
+      dropInvalidItems: true,
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          date: DATE,
+          sp500_close: { type: 'number', minimum: 0 },
+          vix_close: { type: 'number', minimum: 0 },
+          tnx_yield: { type: 'number' },
+          hcr_sentiment: SCORE_0_100
+        },
+        required: ['date', 'sp500_close', 'vix_close', 'tnx_yield', 'hcr_sentiment']
+      }
+    }
+  },
+  required: ['analysis_content', 'daily_data']
+};
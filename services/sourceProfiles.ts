@@ -0,0 +1,347 @@
+/**
+ * Source Profiles
+ *
+ * A source profile describes one tracked commentator: display name, host,
+ * show list, analysis focus, discovery method and optional prompt overrides.
+ * Profiles are stored in IndexedDB; the active profile id is kept in
+ * LocalStorage next to the app config.
+ *
+ * Episodes, transcripts, weekly aggregations, searches and processing jobs
+ * carry the `profile_id` they were produced for, so several profiles can be
+ * tracked side by side. Records without a `profile_id` predate profiles and
+ * belong to the default profile. Episode IDs of non-default profiles are
+ * prefixed with the profile id (see scopeEpisodeId) so two profiles covering
+ * the same show never overwrite each other's analyses.
+ */
+
+import type { EpisodeMetadata, FocusDefinition, SourceProfile, SourceProfilePromptKey } from '../types';
+import {
+  saveSourceProfile,
+  getSourceProfile,
+  getAllSourceProfiles,
+  deleteSourceProfile,
+  clearSearchCacheForProfile
+} from './episodeDB';
+import { loadLegacyDiscoverySettings } from '../constants/config';
+import { DEFAULT_PROFILE_ID, PROFILE_PROMPT_PLACEHOLDERS, buildDefaultSourceProfile } from '../constants/sourceProfiles';
+
+const ACTIVE_PROFILE_STORAGE_KEY = 'hcr_active_source_profile';
+const EPISODE_SCOPE_SEPARATOR = '::';
+
+export interface SourceProfileInput {
+  name: string;
+  host_name: string;
+  shows: string[];
+  focus: FocusDefinition;
+  discovery: SourceProfile['discovery'];
+  prompt_overrides?: SourceProfile['prompt_overrides'];
+}
+
+/**
+ * Id of the profile selected in the UI (default profile when none was chosen)
+ */
+export function getActiveProfileId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_PROFILE_ID;
+  } catch {
+    return DEFAULT_PROFILE_ID;
+  }
+}
+
+/**
+ * Select the profile used for new runs and transcript imports
+ */
+export function setActiveProfileId(profileId: string): void {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+  } catch (error) {
+    console.error('[SourceProfiles] Failed to save active profile:', error);
+  }
+}
+
+/**
+ * Get the default profile, creating it on first use.
+ * Discovery settings saved before profiles existed are carried over.
+ */
+export async function ensureDefaultSourceProfile(): Promise<SourceProfile> {
+  const existing = await getSourceProfile(DEFAULT_PROFILE_ID);
+  if (existing) {
+    return existing;
+  }
+
+  const profile = buildDefaultSourceProfile(loadLegacyDiscoverySettings() ?? undefined);
+  await saveSourceProfile(profile);
+  console.log('[SourceProfiles] Created default source profile');
+  return profile;
+}
+
+/**
+ * All profiles, default first, then by name
+ */
+export async function listSourceProfiles(): Promise<SourceProfile[]> {
+  await ensureDefaultSourceProfile();
+  const profiles = await getAllSourceProfiles();
+  return profiles.sort((a, b) => {
+    if (a.profile_id === DEFAULT_PROFILE_ID) return -1;
+    if (b.profile_id === DEFAULT_PROFILE_ID) return 1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Load a profile, falling back to the default profile when it no longer exists
+ */
+export async function loadSourceProfile(profileId: string = DEFAULT_PROFILE_ID): Promise<SourceProfile> {
+  if (profileId !== DEFAULT_PROFILE_ID) {
+    const profile = await getSourceProfile(profileId);
+    if (profile) {
+      return profile;
+    }
+    console.warn(`[SourceProfiles] Profile ${profileId} not found, using the default profile`);
+  }
+  return ensureDefaultSourceProfile();
+}
+
+/**
+ * Load the profile selected in the UI
+ */
+export async function getActiveSourceProfile(): Promise<SourceProfile> {
+  return loadSourceProfile(getActiveProfileId());
+}
+
+/**
+ * Validate a profile's fields
+ */
+export function validateSourceProfile(profile: SourceProfileInput): string[] {
+  const errors: string[] = [];
+
+  if (!profile.name.trim()) {
+    errors.push('Profile name must not be empty');
+  }
+  if (!profile.host_name.trim()) {
+    errors.push('Host name must not be empty');
+  }
+  if (profile.shows.filter(show => show.trim()).length === 0) {
+    errors.push('Add at least one show');
+  }
+  if (!profile.focus.name.trim()) {
+    errors.push('Focus name must not be empty');
+  }
+
+  const { source, feeds } = profile.discovery;
+  if (!['llm-search', 'transcripts', 'feed'].includes(source)) {
+    errors.push(`Unknown discovery source: ${source}`);
+  }
+  if (source === 'feed' && feeds.length === 0) {
+    errors.push('Feed discovery requires at least one feed');
+  }
+  feeds.forEach((feed, idx) => {
+    if (!feed.showName.trim()) {
+      errors.push(`Feed ${idx + 1} is missing a show name`);
+    }
+    if (!/^(https?:\/\/|\/)/.test(feed.url)) {
+      errors.push(`Feed ${idx + 1} must have an http(s) or site-relative URL`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Create a new profile from user input
+ */
+export async function createSourceProfile(input: SourceProfileInput): Promise<SourceProfile> {
+  const errors = validateSourceProfile(input);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const existing = new Set((await getAllSourceProfiles()).map(p => p.profile_id));
+  const base = slugify(input.name) || 'profile';
+  let profileId = base;
+  for (let n = 2; existing.has(profileId) || profileId === DEFAULT_PROFILE_ID; n++) {
+    profileId = `${base}-${n}`;
+  }
+
+  const now = new Date().toISOString();
+  const profile: SourceProfile = {
+    ...normalizeInput(input),
+    profile_id: profileId,
+    created_at: now,
+    updated_at: now
+  };
+
+  await saveSourceProfile(profile);
+  console.log(`[SourceProfiles] Created profile ${profileId}`);
+  return profile;
+}
+
+/**
+ * Save edits to an existing profile.
+ * Cached episode searches are dropped when anything that shapes discovery changed.
+ */
+export async function updateSourceProfile(profileId: string, input: SourceProfileInput): Promise<SourceProfile> {
+  const errors = validateSourceProfile(input);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const existing = await getSourceProfile(profileId);
+  if (!existing) {
+    throw new Error(`Source profile ${profileId} not found`);
+  }
+
+  const profile: SourceProfile = {
+    ...existing,
+    ...normalizeInput(input),
+    updated_at: new Date().toISOString()
+  };
+
+  const discoveryChanged =
+    existing.host_name !== profile.host_name ||
+    JSON.stringify(existing.shows) !== JSON.stringify(profile.shows) ||
+    (existing.prompt_overrides.search ?? '') !== (profile.prompt_overrides.search ?? '');
+
+  await saveSourceProfile(profile);
+  if (discoveryChanged) {
+    await clearSearchCacheForProfile(profileId);
+  }
+  return profile;
+}
+
+/**
+ * Delete a profile. Its stored episodes and jobs are kept; the default
+ * profile cannot be deleted.
+ */
+export async function removeSourceProfile(profileId: string): Promise<void> {
+  if (profileId === DEFAULT_PROFILE_ID) {
+    throw new Error('The default source profile cannot be deleted');
+  }
+  await deleteSourceProfile(profileId);
+  if (getActiveProfileId() === profileId) {
+    setActiveProfileId(DEFAULT_PROFILE_ID);
+  }
+}
+
+/**
+ * True when a record (episode, transcript, job...) belongs to the profile
+ */
+export function belongsToProfile(record: { profile_id?: string }, profileId: string): boolean {
+  return (record.profile_id ?? DEFAULT_PROFILE_ID) === profileId;
+}
+
+/**
+ * Storage ID of an episode discovered for a profile.
+ * Default-profile IDs are left unchanged so existing data keeps its keys.
+ */
+export function scopeEpisodeId(profileId: string, episodeId: string): string {
+  if (profileId === DEFAULT_PROFILE_ID || episodeId.startsWith(`${profileId}${EPISODE_SCOPE_SEPARATOR}`)) {
+    return episodeId;
+  }
+  return `${profileId}${EPISODE_SCOPE_SEPARATOR}${episodeId}`;
+}
+
+/**
+ * Episode ID as discovered (without the profile prefix), e.g. to look up transcripts
+ */
+export function unscopeEpisodeId(episodeId: string): string {
+  const idx = episodeId.indexOf(EPISODE_SCOPE_SEPARATOR);
+  return idx === -1 ? episodeId : episodeId.slice(idx + EPISODE_SCOPE_SEPARATOR.length);
+}
+
+/**
+ * Tag discovered episodes with the profile and scope their IDs
+ */
+export function scopeEpisodes(episodes: EpisodeMetadata[], profileId: string): EpisodeMetadata[] {
+  return episodes.map(ep => ({
+    ...ep,
+    episode_id: scopeEpisodeId(profileId, ep.episode_id),
+    profile_id: profileId
+  }));
+}
+
+/**
+ * Resolve a prompt for a profile: its override (when set) or the built-in
+ * template, with the profile placeholders filled in
+ */
+export function buildProfilePrompt(
+  profile: SourceProfile,
+  key: SourceProfilePromptKey,
+  builtInTemplate: string
+): string {
+  const override = profile.prompt_overrides[key];
+  return fillProfilePlaceholders(profile, override && override.trim() ? override : builtInTemplate);
+}
+
+/**
+ * Fill the profile placeholders of a template (no overrides applied)
+ */
+export function fillProfilePlaceholders(profile: SourceProfile, template: string): string {
+  const shows = profile.shows.filter(show => show.trim());
+
+  return template
+    .split(PROFILE_PROMPT_PLACEHOLDERS.hostName).join(profile.host_name)
+    .split(PROFILE_PROMPT_PLACEHOLDERS.showList).join(shows.map(show => `- "${show}"`).join('\n'))
+    .split(PROFILE_PROMPT_PLACEHOLDERS.showNames).join(shows.map(show => `"${show}"`).join(', '))
+    .split(PROFILE_PROMPT_PLACEHOLDERS.focusDefinition).join(formatFocusDefinition(profile.focus))
+    .split(PROFILE_PROMPT_PLACEHOLDERS.focusTopic).join(profile.focus.name);
+}
+
+/**
+ * Render a focus definition as the prompt block substituted for {{FOCUS_DEFINITION}}
+ */
+export function formatFocusDefinition(focus: FocusDefinition): string {
+  const lines = [`Focus: ${focus.name}`];
+  if (focus.description.trim()) {
+    lines.push(`Description: ${focus.description}`);
+  }
+  if (focus.inclusion_criteria.length > 0) {
+    lines.push('Include:', ...focus.inclusion_criteria.map(item => `- ${item}`));
+  }
+  if (focus.exclusion_criteria.length > 0) {
+    lines.push('Exclude (even when related):', ...focus.exclusion_criteria.map(item => `- ${item}`));
+  }
+  if (focus.example_topics.length > 0) {
+    lines.push(`Example topics (reuse these labels when a topic matches): ${focus.example_topics.join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+function normalizeInput(input: SourceProfileInput): Omit<SourceProfile, 'profile_id' | 'created_at' | 'updated_at'> {
+  const overrides: SourceProfile['prompt_overrides'] = {};
+  Object.entries(input.prompt_overrides ?? {}).forEach(([key, value]) => {
+    if (value && value.trim()) {
+      overrides[key as SourceProfilePromptKey] = value;
+    }
+  });
+
+  return {
+    name: input.name.trim(),
+    host_name: input.host_name.trim(),
+    shows: cleanList(input.shows),
+    focus: {
+      name: input.focus.name.trim(),
+      description: input.focus.description.trim(),
+      inclusion_criteria: cleanList(input.focus.inclusion_criteria),
+      exclusion_criteria: cleanList(input.focus.exclusion_criteria),
+      example_topics: cleanList(input.focus.example_topics)
+    },
+    discovery: {
+      source: input.discovery.source,
+      feeds: input.discovery.feeds.map(feed => ({ showName: feed.showName.trim(), url: feed.url.trim() }))
+    },
+    prompt_overrides: overrides
+  };
+}
+
+function cleanList(items: string[]): string[] {
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+}
@@ -0,0 +1,197 @@
+/**
+ * Storage Manager
+ *
+ * Everything the app keeps (episodes, transcripts, caches, version history)
+ * lives in IndexedDB, which the browser caps with a per-origin quota and may
+ * evict under storage pressure unless storage is persistent. This module
+ * reports usage against the quota, warns when usage nears it and frees space
+ * with the configured policies (see StoragePolicy in constants/config.ts).
+ *
+ * Archived episodes are written as a database backup archive holding only the
+ * episodes, episodeVersions and transcripts stores; restore it with a merge
+ * strategy in Backup & Restore, or merge it with Library Merge.
+ */
+
+import { getConfig, type AppConfig, type StoragePolicy } from '../constants/config';
+import { FRAMEWORK_VERSION } from '../constants/frameworkVersion';
+import type { EpisodeInsight, TopicInsight } from '../types';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, type DatabaseBackup } from './databaseBackup';
+import {
+  DB_VERSION,
+  deleteEpisodeRecords,
+  evictOldestSearchCache,
+  getEpisodeRecordsPublishedBefore,
+  getStorageEstimate,
+  isStoragePersisted,
+  updateStoredEpisodes
+} from './episodeDB';
+
+export type StorageSettings = AppConfig['storage'];
+
+export interface StorageReport {
+  estimate: { usage: number; quota: number; percentage: number } | null;
+  persisted: boolean | null;     // null: the browser does not support persistent storage
+  warning: string | null;        // Set when usage reached the warning level
+}
+
+export interface StoragePolicyResult {
+  policy: StoragePolicy;
+  affected: number;              // Entries evicted, episodes truncated or episodes archived
+  detail: string;
+}
+
+/**
+ * Receives an archive before the archived episodes are deleted (e.g. to download it)
+ */
+export type ArchiveHandler = (archive: DatabaseBackup, fileName: string) => void | Promise<void>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Warning shown when usage reached `warnAtPercent` of the quota (null below it)
+ */
+export function storageWarning(estimate: StorageReport['estimate'], warnAtPercent: number): string | null {
+  if (!estimate || estimate.quota <= 0 || estimate.percentage < warnAtPercent) return null;
+  return `Storage is ${estimate.percentage.toFixed(0)}% full (${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)}). Free up space before the browser refuses new writes.`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Publish dates before this one count as old (YYYY-MM-DD)
+ */
+export function oldEpisodeCutoff(oldEpisodeDays: number, now: Date = new Date()): string {
+  return new Date(now.getTime() - oldEpisodeDays * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * An episode with at most `maxQuotes` evidence quotes per topic, each at most
+ * `maxLength` characters (offsets are kept in step with their quotes; a
+ * shortened quote loses its offset, which located the full quote)
+ *
+ * @returns The shortened episode, or null when nothing had to be cut
+ */
+export function truncateEpisodeQuotes(episode: EpisodeInsight, maxQuotes: number, maxLength: number): EpisodeInsight | null {
+  let changed = false;
+  const topics = episode.topics.map(topic => {
+    const quotes = topic.evidence_quotes.slice(0, maxQuotes).map(quote => truncateText(quote, maxLength));
+    if (quotes.length === topic.evidence_quotes.length && quotes.every((quote, i) => quote === topic.evidence_quotes[i])) {
+      return topic;
+    }
+    changed = true;
+    const truncated: TopicInsight = { ...topic, evidence_quotes: quotes };
+    if (topic.evidence_offsets) {
+      truncated.evidence_offsets = topic.evidence_offsets
+        .slice(0, maxQuotes)
+        .map((offset, i) => (quotes[i] === topic.evidence_quotes[i] ? offset : null));
+    }
+    return truncated;
+  });
+  const keyQuotes = episode.key_quotes.map(quote => truncateText(quote, maxLength));
+  if (keyQuotes.some((quote, i) => quote !== episode.key_quotes[i])) changed = true;
+
+  return changed ? { ...episode, topics, key_quotes: keyQuotes } : null;
+}
+
+/**
+ * Overall usage and persistence, with a warning when usage nears the quota.
+ * Cheap enough to run on every mount; per-store sizes read every record, so
+ * measure them separately with getStoreUsage when they are shown.
+ */
+export async function loadStorageReport(settings: StorageSettings = getConfig().storage): Promise<StorageReport> {
+  const [estimate, persisted] = await Promise.all([getStorageEstimate(), isStoragePersisted()]);
+  const warning = storageWarning(estimate, settings.warnAtPercent);
+  if (warning) console.warn(`[StorageManager] ${warning}`);
+  return { estimate, persisted, warning };
+}
+
+/**
+ * Apply one storage policy
+ *
+ * @param onArchive - Receives the archive of old episodes before they are deleted
+ *   (archive-episodes only; without it nothing is archived)
+ */
+export async function applyStoragePolicy(
+  policy: StoragePolicy,
+  settings: StorageSettings = getConfig().storage,
+  onArchive?: ArchiveHandler,
+  now: Date = new Date()
+): Promise<StoragePolicyResult> {
+  switch (policy) {
+    case 'evict-search-cache': {
+      const evicted = await evictOldestSearchCache(settings.searchCacheKeep);
+      return { policy, affected: evicted, detail: `${evicted} cached search(es) evicted, newest ${settings.searchCacheKeep} kept` };
+    }
+
+    case 'truncate-quotes': {
+      const cutoff = oldEpisodeCutoff(settings.oldEpisodeDays, now);
+      const { episodes } = await getEpisodeRecordsPublishedBefore(cutoff);
+      const truncated = episodes
+        .map(episode => truncateEpisodeQuotes(episode, settings.maxEvidenceQuotes, settings.maxQuoteLength))
+        .filter((episode): episode is EpisodeInsight => episode !== null);
+      if (truncated.length > 0) await updateStoredEpisodes(truncated);
+      return { policy, affected: truncated.length, detail: `${truncated.length} episode(s) published before ${cutoff} truncated` };
+    }
+
+    case 'archive-episodes': {
+      if (!onArchive) {
+        return { policy, affected: 0, detail: 'Skipped: nowhere to save the archive' };
+      }
+      const cutoff = oldEpisodeCutoff(settings.oldEpisodeDays, now);
+      const records = await getEpisodeRecordsPublishedBefore(cutoff);
+      if (records.episodes.length === 0) {
+        return { policy, affected: 0, detail: `No episodes published before ${cutoff}` };
+      }
+      const archive = createEpisodeArchive(records, now);
+      await onArchive(archive, `hcr-episode-archive-before-${cutoff}.json`);
+      await deleteEpisodeRecords(records.episodes.map(episode => episode.episode_id));
+      return { policy, affected: records.episodes.length, detail: `${records.episodes.length} episode(s) published before ${cutoff} archived and removed` };
+    }
+  }
+}
+
+/**
+ * Apply the enabled policies in their configured order
+ */
+export async function applyStoragePolicies(
+  settings: StorageSettings = getConfig().storage,
+  onArchive?: ArchiveHandler
+): Promise<StoragePolicyResult[]> {
+  const results: StoragePolicyResult[] = [];
+  for (const policy of settings.policies) {
+    results.push(await applyStoragePolicy(policy, settings, onArchive));
+  }
+  console.log(`[StorageManager] ${results.map(result => result.detail).join('; ')}`);
+  return results;
+}
+
+function createEpisodeArchive(stores: Record<string, unknown[]>, now: Date): DatabaseBackup {
+  const config = getConfig();
+  return {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    created_at: now.toISOString(),
+    db_version: DB_VERSION,
+    framework_version: FRAMEWORK_VERSION,
+    config: { ...config, provider: { ...config.provider, apiKey: '' } },
+    stores,
+    partial: true
+  };
+}
+
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
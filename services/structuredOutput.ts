@@ -0,0 +1,142 @@
+/**
+ * Structured Output
+ *
+ * Wraps provider calls with schema-driven parsing:
+ * 1. The response schema is sent to the provider (when supported)
+ * 2. The payload is parsed, deterministically repaired and validated
+ * 3. If validation still fails, the model is asked once to fix its own output
+ * 4. If that fails too, a StructuredOutputError is thrown carrying the raw
+ *    text and field-level issues so callers can quarantine the payload
+ */
+
+import { getLLMProvider, type GenerateJsonRequest } from './llmProvider';
+import { parseWithSchema, formatSchemaIssues, toJsonSchema, type Schema, type SchemaIssue } from '../utils/schema';
+import { addUsage } from './usageAccounting';
+import type { TokenUsage } from '../types';
+
+/**
+ * Thrown when a model response cannot be made to match its schema
+ */
+export class StructuredOutputError extends Error {
+  readonly task: GenerateJsonRequest['task'];
+  readonly issues: SchemaIssue[];
+  readonly rawText: string;
+
+  constructor(task: GenerateJsonRequest['task'], issues: SchemaIssue[], rawText: string) {
+    super(`Schema validation failed for ${task} response: ${formatSchemaIssues(issues)}`);
+    this.name = 'StructuredOutputError';
+    this.task = task;
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+export interface StructuredResponse<T> {
+  value: T;
+  model: string;
+  provider: string;
+  /** Raw text of the response that produced `value` */
+  rawText: string;
+  /** Deterministic repairs applied while parsing */
+  repairs: string[];
+  /** True when the model repair pass was needed */
+  modelRepaired: boolean;
+  /** Combined usage of the original call and any repair call (undefined when the provider reports none) */
+  usage?: TokenUsage;
+}
+
+const REPAIR_PROMPT = `
+Your previous response did not match the required JSON schema.
+
+VALIDATION ERRORS:
+{{ERRORS}}
+
+REQUIRED JSON SCHEMA:
+{{SCHEMA}}
+
+PREVIOUS RESPONSE:
+{{RESPONSE}}
+
+Return ONLY the corrected JSON. Keep all content that was already valid; fix only the listed problems. No markdown, no explanation.
+`;
+
+// Keep repair prompts bounded when the original response was very long
+const MAX_REPAIR_RESPONSE_CHARS = 30_000;
+
+/**
+ * Generate a response and return it parsed and validated against `schema`
+ *
+ * @param request - Provider request (the schema is attached automatically)
+ * @param schema - Response schema
+ * @param options.allowModelRepair - Ask the model to fix invalid output once (default: true)
+ * @throws StructuredOutputError when the payload cannot be repaired
+ */
+export async function generateStructured<T>(
+  request: GenerateJsonRequest,
+  schema: Schema,
+  options: { allowModelRepair?: boolean } = {}
+): Promise<StructuredResponse<T>> {
+  const provider = getLLMProvider();
+  const response = await provider.generateJson({ ...request, responseSchema: schema });
+
+  if (!response.text) {
+    throw new Error(`No response from ${response.provider} provider for ${request.task}.`);
+  }
+
+  const first = parseWithSchema<T>(response.text, schema);
+  if (first.issues.length === 0) {
+    logRepairs(request.task, first.repairs);
+    return {
+      value: first.value as T,
+      model: response.model,
+      provider: response.provider,
+      rawText: response.text,
+      repairs: first.repairs,
+      modelRepaired: false,
+      usage: response.usage
+    };
+  }
+
+  console.warn(`[StructuredOutput] ${request.task} response failed validation: ${formatSchemaIssues(first.issues)}`);
+
+  if (options.allowModelRepair === false) {
+    throw new StructuredOutputError(request.task, first.issues, response.text);
+  }
+
+  const repairPrompt = REPAIR_PROMPT
+    .replace('{{ERRORS}}', () => first.issues.map(i => `- ${i.path}: ${i.message}`).join('\n'))
+    .replace('{{SCHEMA}}', () => JSON.stringify(toJsonSchema(schema)))
+    .replace('{{RESPONSE}}', () => response.text.slice(0, MAX_REPAIR_RESPONSE_CHARS));
+
+  const repairResponse = await provider.generateJson({
+    ...request,
+    prompt: repairPrompt,
+    useWebSearch: false,
+    fixtureKey: request.fixtureKey ? `${request.fixtureKey}:repair` : undefined,
+    responseSchema: schema
+  });
+
+  const second = parseWithSchema<T>(repairResponse.text, schema);
+  if (second.issues.length > 0) {
+    // Report the original issues and text: that is what needs reviewing
+    throw new StructuredOutputError(request.task, first.issues, response.text);
+  }
+
+  console.log(`[StructuredOutput] ${request.task} response fixed by model repair pass`);
+  logRepairs(request.task, second.repairs);
+  return {
+    value: second.value as T,
+    model: repairResponse.model,
+    provider: repairResponse.provider,
+    rawText: repairResponse.text,
+    repairs: second.repairs,
+    modelRepaired: true,
+    usage: response.usage || repairResponse.usage ? addUsage(response.usage, repairResponse.usage) : undefined
+  };
+}
+
+function logRepairs(task: string, repairs: string[]): void {
+  if (repairs.length > 0) {
+    console.log(`[StructuredOutput] Applied ${repairs.length} repair(s) to ${task} response:`, repairs);
+  }
+}
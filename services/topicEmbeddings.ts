@@ -0,0 +1,181 @@
+/**
+ * Topic Embeddings
+ *
+ * Semantic alternative to the token-overlap topic matcher in
+ * utils/aggregation.ts. Normalized topic names are embedded through the
+ * provider layer and compared by cosine similarity, so differently worded
+ * topics ("Tariffs on China", "Trade War Escalation") can form one issue.
+ *
+ * Vectors are cached in IndexedDB per provider, server and embedding model,
+ * so each topic name is embedded once. Selected with `AppConfig.matching.topicMatcher = 'embedding'`;
+ * when the provider has no embedding API or the call fails, ranking falls
+ * back to token overlap.
+ */
+
+import type { EpisodeInsight, HCRReport, TopicEmbedding, TopicTaxonomy } from '../types';
+import { getConfig, type AppConfig } from '../constants/config';
+import { getLLMProvider, type LLMCallContext, type LLMProvider } from './llmProvider';
+import { getTopicEmbeddings, saveTopicEmbeddings } from './episodeDB';
+import { normalizeTopic, TOKEN_OVERLAP_MATCHER, type TopicMatcher } from '../utils/aggregation';
+
+// Texts per embedding request (Gemini accepts at most 100 per batch)
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * Identifier of the configured matcher, comparable with `TopicMatcher.id`
+ */
+export function describeTopicMatcher(matching: AppConfig['matching']): string {
+  if (matching.topicMatcher !== 'embedding') {
+    return TOKEN_OVERLAP_MATCHER.id;
+  }
+  return `embedding:${matching.embeddingModel || 'default'}@${matching.embeddingThreshold}`;
+}
+
+/**
+ * Embed topic names, reusing cached vectors. Returns a map from text to
+ * vector; texts the provider returned no vector for are omitted.
+ */
+export async function embedTopics(
+  texts: string[],
+  provider: LLMProvider,
+  model: string = '',
+  call: LLMCallContext = {}
+): Promise<Map<string, number[]>> {
+  if (!provider.embed) {
+    throw new Error(`Provider "${provider.type}" does not support embeddings`);
+  }
+
+  const unique = Array.from(new Set(texts.filter(Boolean)));
+  const modelKey = embeddingCacheModel(provider, model);
+  const vectors = new Map<string, number[]>();
+
+  const cached = await getTopicEmbeddings(unique.map(text => cacheKey(modelKey, text)));
+  cached.forEach(entry => vectors.set(entry.text, entry.vector));
+
+  const missing = unique.filter(text => !vectors.has(text));
+  if (missing.length > 0) {
+    console.log(`[TopicEmbeddings] Embedding ${missing.length} topic(s), ${cached.length} cached`);
+  }
+
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const response = await provider.embed({ ...call, texts: batch, ...(model ? { model } : {}) });
+    const createdAt = new Date().toISOString();
+    const entries: TopicEmbedding[] = [];
+
+    batch.forEach((text, idx) => {
+      const vector = response.vectors[idx];
+      if (!vector || vector.length === 0) return;
+      vectors.set(text, vector);
+      entries.push({ cache_key: cacheKey(modelKey, text), model: modelKey, text, vector, created_at: createdAt });
+    });
+
+    await saveTopicEmbeddings(entries);
+  }
+
+  return vectors;
+}
+
+/**
+ * Matcher scoring topic names by the cosine similarity of their vectors.
+ * Names without a vector only match themselves.
+ */
+export function createEmbeddingMatcher(
+  vectors: Map<string, number[]>,
+  threshold: number,
+  id: string = `embedding@${threshold}`
+): TopicMatcher {
+  return {
+    id,
+    threshold,
+    similarity(a: string, b: string): number {
+      if (a === b) return 1;
+      const vectorA = vectors.get(a);
+      const vectorB = vectors.get(b);
+      if (!vectorA || !vectorB) return 0;
+      return cosineSimilarity(vectorA, vectorB);
+    }
+  };
+}
+
+/**
+ * Matcher for ranking the given episodes under the current config: the
+ * embedding matcher over all their normalized topic names, or token overlap
+ * when that is configured or embeddings are unavailable.
+ */
+export async function getTopicMatcher(
+  episodes: EpisodeInsight[],
+  taxonomy?: TopicTaxonomy | null,
+  config: AppConfig = getConfig(),
+  call: LLMCallContext = {}
+): Promise<TopicMatcher> {
+  const names = episodes.flatMap(episode =>
+    episode.topics.map(topic => normalizeTopic(String(topic.topic_name ?? ''), taxonomy))
+  );
+  return getMatcherForNames(names, config, call);
+}
+
+/**
+ * Matcher for grouping the issues of weekly reports into period trends
+ * (aggregateReports): like getTopicMatcher, over the reports' issue names
+ */
+export async function getIssueMatcher(
+  reports: HCRReport[],
+  taxonomy?: TopicTaxonomy | null,
+  config: AppConfig = getConfig(),
+  call: LLMCallContext = {}
+): Promise<TopicMatcher> {
+  const names = reports.flatMap(report => report.top_issues.map(issue => normalizeTopic(issue.issue_name, taxonomy)));
+  return getMatcherForNames(names, config, call);
+}
+
+async function getMatcherForNames(names: string[], config: AppConfig, call: LLMCallContext): Promise<TopicMatcher> {
+  const matching = config.matching;
+  if (matching.topicMatcher !== 'embedding') {
+    return TOKEN_OVERLAP_MATCHER;
+  }
+
+  const provider = getLLMProvider(config);
+  if (!provider.embed) {
+    console.warn(`[TopicEmbeddings] Provider "${provider.type}" has no embedding API; using token overlap`);
+    return TOKEN_OVERLAP_MATCHER;
+  }
+
+  try {
+    const vectors = await embedTopics(names, provider, matching.embeddingModel, call);
+    return createEmbeddingMatcher(vectors, matching.embeddingThreshold, describeTopicMatcher(matching));
+  } catch (error) {
+    console.warn('[TopicEmbeddings] Embedding topics failed; using token overlap:', error);
+    return TOKEN_OVERLAP_MATCHER;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors (0 for empty or mismatched vectors)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Cache scope of a provider's vectors: the same model name can be served by
+ * different servers, and default models differ per provider
+ */
+function embeddingCacheModel(provider: LLMProvider, model: string): string {
+  const server = provider.baseUrl ? `@${provider.baseUrl}` : '';
+  return `${provider.type}${server}:${model || 'default'}`;
+}
+
+function cacheKey(model: string, text: string): string {
+  return `${model}::${text}`;
+}
@@ -0,0 +1,364 @@
+/**
+ * Topic Co-occurrence Network
+ *
+ * Issues discussed in the same episode are linked; the more episodes they
+ * share, the stronger the link. Built per week and for the whole report
+ * window, with centrality scores and communities (clusters of issues that are
+ * framed together), so the dashboard can show how the clusters shift from
+ * week to week.
+ *
+ * Topics are grouped into issues the same way reports group them (curated
+ * taxonomy first, then the configured matcher). Communities come from the
+ * local-moving phase of the Louvain method, which greedily maximizes
+ * modularity; nodes are visited in a fixed order so results are reproducible.
+ */
+
+import type { EpisodeInsight, HCRReport, TopicTaxonomy } from '../types';
+import { getConfig, type AppConfig } from '../constants/config';
+import { DEFAULT_PROFILE_ID } from '../constants/sourceProfiles';
+import { getEpisodesByDateRange } from './episodeDB';
+import { loadTopicTaxonomy } from './topicTaxonomy';
+import { getTopicMatcher } from './topicEmbeddings';
+import { weekStartOf } from './issueLifecycle';
+import { cleanTopicName, groupTopicNames, TOKEN_OVERLAP_MATCHER, type TopicMatcher } from '../utils/aggregation';
+import { round } from '../utils/statistics';
+
+export interface TopicNetworkNode {
+  normalized_name: string;
+  issue_name: string;
+  episode_count: number;
+  avg_sentiment: number;
+  degree_centrality: number;      // Weighted degree relative to the best-connected issue (0-1)
+  eigenvector_centrality: number; // Connection to other well-connected issues, relative to the top issue (0-1)
+  community: number;
+}
+
+export interface TopicNetworkEdge {
+  source: string;                 // normalized_name
+  target: string;
+  episode_count: number;          // Episodes discussing both issues
+  strength: number;               // Shared episodes / sqrt(episodes of each), 0-1
+}
+
+export interface TopicNetworkCommunity {
+  id: number;                     // 0 = largest
+  label: string;                  // Most connected member
+  members: string[];              // normalized_names
+}
+
+export interface TopicNetwork {
+  episode_count: number;
+  nodes: TopicNetworkNode[];
+  edges: TopicNetworkEdge[];
+  communities: TopicNetworkCommunity[];
+  modularity: number;
+}
+
+export interface CommunityShift {
+  week_start: string;
+  issue_name: string;
+  joined: string[];               // Issue names newly clustered with it
+  left: string[];                 // Issue names no longer clustered with it
+}
+
+export interface TopicNetworkTimeline {
+  period: TopicNetwork;
+  weeks: Array<{ week_start: string; network: TopicNetwork }>;
+  shifts: CommunityShift[];
+}
+
+// Larger graphs are unreadable in the dashboard; the most covered issues are kept
+export const MAX_NETWORK_NODES = 30;
+const MAX_LOUVAIN_PASSES = 20;
+const EIGENVECTOR_ITERATIONS = 100;
+
+/**
+ * Co-occurrence network of the issues in the given episodes
+ */
+export function buildCooccurrenceNetwork(
+  episodes: EpisodeInsight[],
+  taxonomy?: TopicTaxonomy | null,
+  matcher: TopicMatcher = TOKEN_OVERLAP_MATCHER,
+  maxNodes = MAX_NETWORK_NODES
+): TopicNetwork {
+  const sorted = [...episodes].sort((a, b) => a.published_at.localeCompare(b.published_at));
+  const groups = groupTopicNames(
+    sorted.flatMap(episode => episode.topics.map(topic => String(topic.topic_name ?? ''))),
+    taxonomy,
+    matcher
+  );
+  return buildFromGroups(sorted, groups, maxNodes);
+}
+
+/**
+ * Networks for the whole set of episodes and for each week, plus the issues
+ * whose cluster changed from one week to the next. All networks share one
+ * topic grouping so the weeks can be compared.
+ */
+export function buildNetworkTimeline(
+  episodes: EpisodeInsight[],
+  taxonomy?: TopicTaxonomy | null,
+  matcher: TopicMatcher = TOKEN_OVERLAP_MATCHER,
+  maxNodes = MAX_NETWORK_NODES
+): TopicNetworkTimeline {
+  const sorted = [...episodes].sort((a, b) => a.published_at.localeCompare(b.published_at));
+  const groups = groupTopicNames(
+    sorted.flatMap(episode => episode.topics.map(topic => String(topic.topic_name ?? ''))),
+    taxonomy,
+    matcher
+  );
+
+  const byWeek = new Map<string, EpisodeInsight[]>();
+  for (const episode of sorted) {
+    const week = weekStartOf(episode.published_at);
+    if (!week) continue;
+    byWeek.set(week, [...(byWeek.get(week) ?? []), episode]);
+  }
+
+  const weeks = Array.from(byWeek.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week_start, weekEpisodes]) => ({ week_start, network: buildFromGroups(weekEpisodes, groups, maxNodes) }));
+
+  const shifts = weeks.slice(1).flatMap((week, idx) =>
+    compareCommunities(weeks[idx].network, week.network, week.week_start)
+  );
+
+  return { period: buildFromGroups(sorted, groups, maxNodes), weeks, shifts };
+}
+
+/**
+ * Network timeline of a report's window, from its source profile's stored episodes
+ */
+export async function loadReportNetwork(
+  report: HCRReport,
+  config: AppConfig = getConfig()
+): Promise<TopicNetworkTimeline> {
+  const profileId = report.source_profile?.profile_id ?? DEFAULT_PROFILE_ID;
+  const episodes = await getEpisodesByDateRange(
+    report.run_window.window_start,
+    report.run_window.window_end,
+    profileId
+  );
+  const taxonomy = await loadTopicTaxonomy();
+  const matcher = await getTopicMatcher(episodes, taxonomy, config);
+  return buildNetworkTimeline(episodes, taxonomy, matcher);
+}
+
+/**
+ * Issues whose fellow community members changed between two networks.
+ * Only issues present in both are compared, and only against partners
+ * present in both, so issues that merely were not discussed do not count.
+ */
+export function compareCommunities(previous: TopicNetwork, next: TopicNetwork, weekStart: string): CommunityShift[] {
+  const prevNodes = new Map(previous.nodes.map(node => [node.normalized_name, node]));
+  const nextNodes = new Map(next.nodes.map(node => [node.normalized_name, node]));
+  const shared = next.nodes.filter(node => prevNodes.has(node.normalized_name));
+
+  const partners = (nodes: Map<string, TopicNetworkNode>, key: string): Set<string> => {
+    const community = nodes.get(key)!.community;
+    return new Set(
+      shared
+        .map(node => node.normalized_name)
+        .filter(other => other !== key && nodes.get(other)!.community === community)
+    );
+  };
+
+  return shared
+    .map(node => {
+      const before = partners(prevNodes, node.normalized_name);
+      const after = partners(nextNodes, node.normalized_name);
+      const nameOf = (key: string) => nextNodes.get(key)!.issue_name;
+      return {
+        week_start: weekStart,
+        issue_name: node.issue_name,
+        joined: Array.from(after).filter(key => !before.has(key)).map(nameOf),
+        left: Array.from(before).filter(key => !after.has(key)).map(nameOf)
+      };
+    })
+    .filter(shift => shift.joined.length > 0 || shift.left.length > 0)
+    .sort((a, b) => (b.joined.length + b.left.length) - (a.joined.length + a.left.length) || a.issue_name.localeCompare(b.issue_name));
+}
+
+function buildFromGroups(
+  episodes: EpisodeInsight[],
+  groups: Map<string, { normalized_name: string; issue_name: string }>,
+  maxNodes: number
+): TopicNetwork {
+  const issues = new Map<string, { issueName: string; episodeIds: Set<string>; sentiments: number[] }>();
+  const episodeIssues: string[][] = [];
+
+  for (const episode of episodes) {
+    const keys = new Set<string>();
+    for (const topic of episode.topics) {
+      const group = groups.get(cleanTopicName(String(topic.topic_name ?? '')));
+      if (!group) continue;
+      const entry = issues.get(group.normalized_name) ?? { issueName: group.issue_name, episodeIds: new Set<string>(), sentiments: [] };
+      entry.episodeIds.add(episode.episode_id);
+      const sentiment = Number(topic.sentiment_score);
+      if (Number.isFinite(sentiment)) entry.sentiments.push(sentiment);
+      issues.set(group.normalized_name, entry);
+      keys.add(group.normalized_name);
+    }
+    episodeIssues.push(Array.from(keys));
+  }
+
+  const kept = new Set(
+    Array.from(issues.entries())
+      .sort(([aKey, a], [bKey, b]) => b.episodeIds.size - a.episodeIds.size || aKey.localeCompare(bKey))
+      .slice(0, maxNodes)
+      .map(([key]) => key)
+  );
+  const keys = Array.from(kept).sort();
+
+  // Shared episode counts for every linked pair
+  const pairCounts = new Map<string, number>();
+  for (const episodeKeys of episodeIssues) {
+    const present = episodeKeys.filter(key => kept.has(key)).sort();
+    for (let i = 0; i < present.length; i++) {
+      for (let j = i + 1; j < present.length; j++) {
+        const pair = `${present[i]}|${present[j]}`;
+        pairCounts.set(pair, (pairCounts.get(pair) ?? 0) + 1);
+      }
+    }
+  }
+
+  const edges: TopicNetworkEdge[] = Array.from(pairCounts.entries())
+    .map(([pair, count]) => {
+      const [source, target] = pair.split('|');
+      const strength = count / Math.sqrt(issues.get(source)!.episodeIds.size * issues.get(target)!.episodeIds.size);
+      return { source, target, episode_count: count, strength: round(strength, 3) };
+    })
+    .sort((a, b) => b.episode_count - a.episode_count || a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+
+  const adjacency = new Map<string, Map<string, number>>(keys.map(key => [key, new Map()]));
+  edges.forEach(edge => {
+    adjacency.get(edge.source)!.set(edge.target, edge.episode_count);
+    adjacency.get(edge.target)!.set(edge.source, edge.episode_count);
+  });
+
+  const degree = new Map(keys.map(key => [key, sumValues(adjacency.get(key)!)]));
+  const maxDegree = Math.max(0, ...degree.values());
+  const eigenvector = eigenvectorCentrality(keys, adjacency);
+  const { assignment, modularity } = detectCommunities(keys, adjacency);
+
+  // Number communities by size, largest first; each is labeled by its best-connected member
+  const byCommunity = new Map<number, string[]>();
+  keys.forEach(key => byCommunity.set(assignment.get(key)!, [...(byCommunity.get(assignment.get(key)!) ?? []), key]));
+  const communities: TopicNetworkCommunity[] = Array.from(byCommunity.values())
+    .sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]))
+    .map((members, id) => {
+      const hub = [...members].sort((a, b) => degree.get(b)! - degree.get(a)! || a.localeCompare(b))[0];
+      return { id, label: issues.get(hub)!.issueName, members };
+    });
+  const communityOf = new Map<string, number>();
+  communities.forEach(community => community.members.forEach(key => communityOf.set(key, community.id)));
+
+  const nodes: TopicNetworkNode[] = keys
+    .map(key => {
+      const entry = issues.get(key)!;
+      return {
+        normalized_name: key,
+        issue_name: entry.issueName,
+        episode_count: entry.episodeIds.size,
+        avg_sentiment: entry.sentiments.length > 0
+          ? Math.round(entry.sentiments.reduce((sum, s) => sum + s, 0) / entry.sentiments.length)
+          : 50,
+        degree_centrality: maxDegree > 0 ? round(degree.get(key)! / maxDegree, 3) : 0,
+        eigenvector_centrality: round(eigenvector.get(key)!, 3),
+        community: communityOf.get(key)!
+      };
+    })
+    .sort((a, b) => b.episode_count - a.episode_count || a.normalized_name.localeCompare(b.normalized_name));
+
+  return { episode_count: episodes.length, nodes, edges, communities, modularity: round(modularity, 3) };
+}
+
+/**
+ * Power iteration on A + I (the identity keeps it from oscillating on
+ * bipartite graphs), scaled so the top node scores 1
+ */
+function eigenvectorCentrality(keys: string[], adjacency: Map<string, Map<string, number>>): Map<string, number> {
+  let scores = new Map(keys.map(key => [key, 1]));
+  for (let iter = 0; iter < EIGENVECTOR_ITERATIONS; iter++) {
+    const next = new Map<string, number>();
+    keys.forEach(key => {
+      let total = scores.get(key)!;
+      adjacency.get(key)!.forEach((weight, neighbor) => { total += weight * scores.get(neighbor)!; });
+      next.set(key, total);
+    });
+    const max = Math.max(0, ...next.values());
+    if (max === 0) break;
+    keys.forEach(key => next.set(key, next.get(key)! / max));
+    scores = next;
+  }
+  return scores;
+}
+
+/**
+ * Louvain local moving: each node joins the neighboring community with the
+ * largest modularity gain until no node moves. Isolated nodes stay alone.
+ */
+function detectCommunities(
+  keys: string[],
+  adjacency: Map<string, Map<string, number>>
+): { assignment: Map<string, number>; modularity: number } {
+  const assignment = new Map(keys.map((key, idx) => [key, idx]));
+  const degree = new Map(keys.map(key => [key, sumValues(adjacency.get(key)!)]));
+  const twoM = sumValues(degree);
+  if (twoM === 0) {
+    return { assignment, modularity: 0 };
+  }
+
+  const totals = new Map<number, number>(keys.map((key, idx) => [idx, degree.get(key)!]));
+
+  for (let pass = 0; pass < MAX_LOUVAIN_PASSES; pass++) {
+    let moved = false;
+    for (const key of keys) {
+      const own = assignment.get(key)!;
+      const k = degree.get(key)!;
+      totals.set(own, totals.get(own)! - k);
+
+      // Edge weight from this node into each neighboring community
+      const links = new Map<number, number>([[own, 0]]);
+      adjacency.get(key)!.forEach((weight, neighbor) => {
+        const community = assignment.get(neighbor)!;
+        links.set(community, (links.get(community) ?? 0) + weight);
+      });
+
+      let best = own;
+      let bestGain = links.get(own)! - (totals.get(own)! * k) / twoM;
+      // Lowest community id wins ties; staying put wins unless a move strictly gains
+      Array.from(links.entries())
+        .sort(([a], [b]) => a - b)
+        .forEach(([community, weight]) => {
+          const gain = weight - (totals.get(community)! * k) / twoM;
+          if (gain > bestGain + 1e-12) {
+            best = community;
+            bestGain = gain;
+          }
+        });
+
+      assignment.set(key, best);
+      totals.set(best, totals.get(best)! + k);
+      if (best !== own) moved = true;
+    }
+    if (!moved) break;
+  }
+
+  let modularity = 0;
+  keys.forEach(a => {
+    adjacency.get(a)!.forEach((weight, b) => {
+      if (assignment.get(a) === assignment.get(b)) modularity += weight;
+    });
+  });
+  modularity /= twoM;
+  totals.forEach(total => { modularity -= (total / twoM) ** 2; });
+
+  return { assignment, modularity };
+}
+
+function sumValues(values: Map<unknown, number>): number {
+  let total = 0;
+  values.forEach(value => { total += value; });
+  return total;
+}
@@ -0,0 +1,244 @@
+/**
+ * Topic Taxonomy
+ *
+ * User-curated rules applied on top of automatic topic grouping
+ * (utils/aggregation.ts): canonical issues with aliases, a parent/child
+ * hierarchy, and "never merge" pairs that keep similar-looking issues apart.
+ * The taxonomy is stored in IndexedDB and honored by rankIssues,
+ * computeDeltas and aggregateReports.
+ *
+ * Edits apply the next time reports are composed: cached weekly aggregations
+ * record the taxonomy version they were ranked with and are recomputed when
+ * it changes.
+ */
+
+import type { TaxonomyIssue, TopicTaxonomy } from '../types';
+import { getTopicTaxonomy, saveTopicTaxonomy } from './episodeDB';
+import { cleanTopicName, normalizeTopic } from '../utils/aggregation';
+
+const TAXONOMY_ID = 'default';
+
+/**
+ * Load the curated taxonomy (empty when nothing was curated yet)
+ */
+export async function loadTopicTaxonomy(): Promise<TopicTaxonomy> {
+  const stored = await getTopicTaxonomy(TAXONOMY_ID);
+  return stored ?? { taxonomy_id: TAXONOMY_ID, issues: [], never_merge: [], updated_at: '' };
+}
+
+/**
+ * Merge one issue into another. The source issue (with its aliases and
+ * children) becomes part of the target; a never-merge rule between the two
+ * is dropped.
+ */
+export async function mergeIssues(targetName: string, sourceName: string): Promise<TopicTaxonomy> {
+  const taxonomy = await loadTopicTaxonomy();
+  const targetKey = normalizeTopic(targetName, taxonomy);
+  const sourceKey = normalizeTopic(sourceName, taxonomy);
+  if (!targetKey || !sourceKey) {
+    throw new Error('Issue names must not be empty');
+  }
+  if (targetKey === sourceKey) {
+    return taxonomy;
+  }
+
+  const issues = copyIssues(taxonomy.issues);
+  const target = ensureIssue(issues, targetKey, targetName);
+  const sourceIdx = issues.findIndex(issue => issueKey(issue) === sourceKey);
+
+  if (sourceIdx >= 0) {
+    const [source] = issues.splice(sourceIdx, 1);
+    target.aliases.push(source.canonical_name, ...source.aliases);
+    issues.forEach(issue => {
+      if (issue.parent && cleanTopicName(issue.parent) === sourceKey) {
+        issue.parent = target.canonical_name;
+      }
+    });
+    if (target.parent && cleanTopicName(target.parent) === targetKey) {
+      delete target.parent;
+    }
+  } else {
+    target.aliases.push(sourceName.trim());
+  }
+  target.aliases = dedupeNames(target.aliases).filter(alias => cleanTopicName(alias) !== targetKey);
+
+  console.log(`[TopicTaxonomy] Merged "${sourceName}" into "${target.canonical_name}"`);
+  return saveTaxonomy(
+    issues,
+    taxonomy.never_merge.filter(pair => !isPair(pair, targetKey, sourceKey))
+  );
+}
+
+/**
+ * Split a topic out of an issue. The topic becomes an issue of its own and a
+ * never-merge rule keeps automatic matching from regrouping the two.
+ */
+export async function splitTopic(issueName: string, topicName: string): Promise<TopicTaxonomy> {
+  const taxonomy = await loadTopicTaxonomy();
+  const key = normalizeTopic(issueName, taxonomy);
+  const topicKey = cleanTopicName(topicName);
+  if (!key || !topicKey) {
+    throw new Error('Issue and topic names must not be empty');
+  }
+  if (topicKey === key) {
+    throw new Error(`"${topicName}" is the name of the issue itself and cannot be split from it`);
+  }
+
+  const issues = copyIssues(taxonomy.issues);
+  const issue = issues.find(i => issueKey(i) === key);
+  if (issue) {
+    issue.aliases = issue.aliases.filter(alias => cleanTopicName(alias) !== topicKey);
+  }
+  if (!issues.some(i => issueKey(i) === topicKey)) {
+    issues.push({ canonical_name: topicName.trim(), aliases: [] });
+  }
+
+  const neverMerge = taxonomy.never_merge.some(pair => isPair(pair, key, topicKey))
+    ? taxonomy.never_merge
+    : [...taxonomy.never_merge, [key, topicKey] as [string, string]];
+
+  console.log(`[TopicTaxonomy] Split "${topicName}" from "${issueName}"`);
+  return saveTaxonomy(issues, neverMerge);
+}
+
+/**
+ * Place an issue under a broader parent issue (null removes the parent)
+ */
+export async function setIssueParent(issueName: string, parentName: string | null): Promise<TopicTaxonomy> {
+  const taxonomy = await loadTopicTaxonomy();
+  const key = normalizeTopic(issueName, taxonomy);
+  if (!key) {
+    throw new Error('Issue name must not be empty');
+  }
+
+  const issues = copyIssues(taxonomy.issues);
+  const issue = ensureIssue(issues, key, issueName);
+
+  if (!parentName || !parentName.trim()) {
+    delete issue.parent;
+    return saveTaxonomy(issues, taxonomy.never_merge);
+  }
+
+  const parentKey = normalizeTopic(parentName, taxonomy);
+  if (parentKey === key) {
+    throw new Error('An issue cannot be its own parent');
+  }
+  const parent = ensureIssue(issues, parentKey, parentName);
+
+  // Walk up from the new parent; reaching the issue again would create a cycle
+  const seen = new Set<string>();
+  for (let current: TaxonomyIssue | undefined = parent; current?.parent;) {
+    const ancestorKey = cleanTopicName(current.parent);
+    if (ancestorKey === key) {
+      throw new Error(`"${parent.canonical_name}" is already below "${issue.canonical_name}"`);
+    }
+    if (seen.has(ancestorKey)) break;
+    seen.add(ancestorKey);
+    current = issues.find(i => issueKey(i) === ancestorKey);
+  }
+
+  issue.parent = parent.canonical_name;
+  return saveTaxonomy(issues, taxonomy.never_merge);
+}
+
+/**
+ * Remove a curated issue; its aliases fall back to automatic grouping
+ */
+export async function removeTaxonomyIssue(canonicalName: string): Promise<TopicTaxonomy> {
+  const taxonomy = await loadTopicTaxonomy();
+  const key = cleanTopicName(canonicalName);
+  const issues = copyIssues(taxonomy.issues).filter(issue => issueKey(issue) !== key);
+  issues.forEach(issue => {
+    if (issue.parent && cleanTopicName(issue.parent) === key) {
+      delete issue.parent;
+    }
+  });
+  return saveTaxonomy(issues, taxonomy.never_merge);
+}
+
+/**
+ * Keep two issues apart even when their names look alike
+ */
+export async function addNeverMerge(firstName: string, secondName: string): Promise<TopicTaxonomy> {
+  const taxonomy = await loadTopicTaxonomy();
+  const a = normalizeTopic(firstName, taxonomy);
+  const b = normalizeTopic(secondName, taxonomy);
+  if (!a || !b) {
+    throw new Error('Issue names must not be empty');
+  }
+  if (a === b) {
+    throw new Error(`"${firstName}" and "${secondName}" are the same issue; split a topic out instead`);
+  }
+  if (taxonomy.never_merge.some(pair => isPair(pair, a, b))) {
+    return taxonomy;
+  }
+  return saveTaxonomy(copyIssues(taxonomy.issues), [...taxonomy.never_merge, [a, b]]);
+}
+
+/**
+ * Allow two issues to be matched automatically again
+ */
+export async function removeNeverMerge(firstName: string, secondName: string): Promise<TopicTaxonomy> {
+  const taxonomy = await loadTopicTaxonomy();
+  const a = cleanTopicName(firstName);
+  const b = cleanTopicName(secondName);
+  return saveTaxonomy(
+    copyIssues(taxonomy.issues),
+    taxonomy.never_merge.filter(pair => !isPair(pair, a, b))
+  );
+}
+
+async function saveTaxonomy(issues: TaxonomyIssue[], neverMerge: Array<[string, string]>): Promise<TopicTaxonomy> {
+  const taxonomy: TopicTaxonomy = {
+    taxonomy_id: TAXONOMY_ID,
+    issues: issues.sort((a, b) => a.canonical_name.localeCompare(b.canonical_name)),
+    never_merge: neverMerge,
+    updated_at: new Date().toISOString()
+  };
+  await saveTopicTaxonomy(taxonomy);
+  return taxonomy;
+}
+
+/**
+ * Curated issue for a key, created from the given display name when missing
+ */
+function ensureIssue(issues: TaxonomyIssue[], key: string, displayName: string): TaxonomyIssue {
+  const existing = issues.find(issue => issueKey(issue) === key);
+  if (existing) {
+    return existing;
+  }
+
+  // The display name may differ from the key after built-in normalization ("Border" -> "immigration policy")
+  const trimmed = displayName.trim();
+  const created: TaxonomyIssue = {
+    canonical_name: cleanTopicName(trimmed) === key ? trimmed : key,
+    aliases: cleanTopicName(trimmed) === key ? [] : [trimmed]
+  };
+  issues.push(created);
+  return created;
+}
+
+function issueKey(issue: TaxonomyIssue): string {
+  return cleanTopicName(issue.canonical_name);
+}
+
+function copyIssues(issues: TaxonomyIssue[]): TaxonomyIssue[] {
+  return issues.map(issue => ({ ...issue, aliases: [...issue.aliases] }));
+}
+
+function dedupeNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names
+    .map(name => name.trim())
+    .filter(name => {
+      const key = cleanTopicName(name);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function isPair(pair: [string, string], a: string, b: string): boolean {
+  const [x, y] = pair.map(cleanTopicName);
+  return (x === a && y === b) || (x === b && y === a);
+}
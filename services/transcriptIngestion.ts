@@ -0,0 +1,454 @@
+/**
+ * Transcript Ingestion
+ *
+ * Parses user-supplied transcript files into TranscriptRecords so episodes can
+ * be analyzed from their actual text instead of whatever web search returns.
+ *
+ * Supported formats:
+ * - .txt  plain text (optional "Show:", "Title:", "Date:" header lines)
+ * - .vtt  WebVTT captions (speaker taken from <v Name> voice tags)
+ * - .srt  SubRip captions
+ * - .json Podcasting 2.0 `<podcast:transcript>` JSON ({ segments: [...] })
+ */
+
+import type { EpisodeMetadata, TranscriptFormat, TranscriptRecord, TranscriptSegment } from '../types';
+import { saveTranscript, getTranscriptsByDateRange } from './episodeDB';
+
+/**
+ * Metadata overrides supplied by the user at import time
+ */
+export interface TranscriptImportOverrides {
+  show_name?: string;
+  title?: string;
+  published_at?: string;
+  episode_id?: string;
+  /** Source profile the transcript is imported for (default profile when omitted) */
+  profile_id?: string;
+}
+
+export interface TranscriptImportResult {
+  imported: TranscriptRecord[];
+  errors: Array<{ fileName: string; error: string }>;
+}
+
+// Keep prompts within a reasonable context budget
+const MAX_PROMPT_TRANSCRIPT_CHARS = 120_000;
+// Merge short caption cues into blocks of roughly this size for the prompt
+const PROMPT_BLOCK_CHARS = 500;
+// Minimum token overlap for fuzzy quote location
+const QUOTE_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Detect the transcript format from file name and content
+ */
+export function detectTranscriptFormat(fileName: string, content: string): TranscriptFormat {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.vtt') || content.trimStart().startsWith('WEBVTT')) return 'vtt';
+  if (lower.endsWith('.srt')) return 'srt';
+  if (lower.endsWith('.json')) return 'podcast-json';
+  return 'txt';
+}
+
+/**
+ * Parse a transcript file into a TranscriptRecord (not yet saved)
+ *
+ * @param fileName - Original file name (used for format detection and metadata fallback)
+ * @param content - Raw file contents
+ * @param overrides - User-supplied metadata that wins over anything parsed
+ */
+export function parseTranscriptFile(
+  fileName: string,
+  content: string,
+  overrides: TranscriptImportOverrides = {}
+): TranscriptRecord {
+  const format = detectTranscriptFormat(fileName, content);
+  let header: Record<string, string> = {};
+  let segments: TranscriptSegment[];
+
+  switch (format) {
+    case 'vtt':
+      segments = parseVtt(content);
+      break;
+    case 'srt':
+      segments = parseSrt(content);
+      break;
+    case 'podcast-json':
+      segments = parsePodcastJson(content);
+      break;
+    default: {
+      const parsed = parsePlainText(content);
+      header = parsed.header;
+      segments = parsed.segments;
+    }
+  }
+
+  if (segments.length === 0) {
+    throw new Error(`No transcript text found in ${fileName}`);
+  }
+
+  const fromFileName = metadataFromFileName(fileName);
+  const publishedAt = overrides.published_at || header['date'] || fromFileName.published_at;
+  if (!publishedAt || !/^\d{4}-\d{2}-\d{2}$/.test(publishedAt)) {
+    throw new Error(`Could not determine publication date for ${fileName}. Add a YYYY-MM-DD date to the file name or a "Date:" header.`);
+  }
+
+  const showName = overrides.show_name || header['show'] || 'Unknown Show';
+  const title = overrides.title || header['title'] || fromFileName.title || `${showName} — ${publishedAt}`;
+
+  return {
+    episode_id: overrides.episode_id || header['episode id'] || buildTranscriptEpisodeId(showName, publishedAt),
+    show_name: showName,
+    title,
+    published_at: publishedAt,
+    transcript_url: header['url'] || undefined,
+    has_transcript: true,
+    format,
+    source_file: fileName,
+    segments,
+    full_text: segments.map(s => s.text).join('\n'),
+    imported_at: new Date().toISOString(),
+    ...(overrides.profile_id ? { profile_id: overrides.profile_id } : {})
+  };
+}
+
+/**
+ * Parse and store a batch of transcript files.
+ * Files that fail to parse are reported in `errors` and do not stop the batch.
+ */
+export async function importTranscriptFiles(
+  files: Array<{ name: string; content: string }>,
+  overrides: TranscriptImportOverrides = {}
+): Promise<TranscriptImportResult> {
+  const result: TranscriptImportResult = { imported: [], errors: [] };
+
+  for (const file of files) {
+    try {
+      const record = parseTranscriptFile(file.name, file.content, overrides);
+      await saveTranscript(record);
+      result.imported.push(record);
+    } catch (error) {
+      result.errors.push({
+        fileName: file.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  console.log(`[TranscriptIngestion] Imported ${result.imported.length} transcript(s), ${result.errors.length} error(s)`);
+  return result;
+}
+
+/**
+ * Episode discovery backed by imported transcripts (optionally only those
+ * imported for one source profile).
+ * Drop-in replacement for `searchEpisodesInRange` (see ProcessDependencies).
+ */
+export async function searchTranscriptsInRange(
+  startDate: string,
+  endDate: string,
+  profileId?: string
+): Promise<EpisodeMetadata[]> {
+  const transcripts = await getTranscriptsByDateRange(startDate, endDate, profileId);
+  return transcripts
+    .map(t => ({
+      episode_id: t.episode_id,
+      show_name: t.show_name,
+      title: t.title,
+      published_at: t.published_at,
+      transcript_url: t.transcript_url,
+      has_transcript: true
+    }))
+    .sort((a, b) => a.published_at.localeCompare(b.published_at) || a.episode_id.localeCompare(b.episode_id));
+}
+
+/**
+ * Format a transcript for inclusion in an analysis prompt.
+ * Short caption cues are merged into blocks labeled with their offset so the
+ * model can see where statements occur.
+ */
+export function formatTranscriptForPrompt(transcript: TranscriptRecord): string {
+  const lines: string[] = [];
+  let block: { label: string; speaker: string | null; text: string } | null = null;
+
+  const flush = () => {
+    if (!block) return;
+    const speaker = block.speaker ? `${block.speaker}: ` : '';
+    lines.push(`[${block.label}] ${speaker}${block.text}`);
+    block = null;
+  };
+
+  transcript.segments.forEach((segment, index) => {
+    if (block && (block.speaker !== segment.speaker || block.text.length >= PROMPT_BLOCK_CHARS)) {
+      flush();
+    }
+    if (!block) {
+      block = { label: formatSegmentOffset(segment, index), speaker: segment.speaker, text: segment.text };
+    } else {
+      block.text += ` ${segment.text}`;
+    }
+  });
+  flush();
+
+  const text = lines.join('\n');
+  if (text.length <= MAX_PROMPT_TRANSCRIPT_CHARS) {
+    return text;
+  }
+  console.warn(`[TranscriptIngestion] Transcript ${transcript.episode_id} truncated to ${MAX_PROMPT_TRANSCRIPT_CHARS} chars for prompt`);
+  return `${text.slice(0, MAX_PROMPT_TRANSCRIPT_CHARS)}\n[transcript truncated]`;
+}
+
+/**
+ * Locate each quote in the transcript and return its offset label.
+ * Exact (normalized) substring matches win; otherwise the segment window with
+ * the highest token overlap is used when it clears QUOTE_MATCH_THRESHOLD.
+ *
+ * @returns Array parallel to `quotes` (null when a quote could not be located)
+ */
+export function locateQuoteOffsets(transcript: TranscriptRecord, quotes: string[]): Array<string | null> {
+  const normalizedSegments = transcript.segments.map(s => normalizeForMatch(s.text));
+
+  return quotes.map(quote => {
+    const normalizedQuote = normalizeForMatch(quote);
+    if (!normalizedQuote) return null;
+
+    // Try single segments first, then windows of 2-3 consecutive segments
+    // (quotes often span caption cues); smaller windows win ties.
+    for (let span = 1; span <= 3; span++) {
+      for (let i = 0; i + span <= normalizedSegments.length; i++) {
+        if (normalizedSegments.slice(i, i + span).join(' ').includes(normalizedQuote)) {
+          return formatSegmentOffset(transcript.segments[i], i);
+        }
+      }
+    }
+
+    // Fuzzy match: best token overlap, same window order
+    const quoteTokens = new Set(normalizedQuote.split(' '));
+    let bestIndex = -1;
+    let bestScore = 0;
+    for (let span = 1; span <= 3; span++) {
+      for (let i = 0; i + span <= normalizedSegments.length; i++) {
+        const windowTokens = new Set(normalizedSegments.slice(i, i + span).join(' ').split(' '));
+        let hits = 0;
+        quoteTokens.forEach(token => {
+          if (windowTokens.has(token)) hits++;
+        });
+        const score = hits / quoteTokens.size;
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = i;
+        }
+      }
+    }
+
+    return bestIndex >= 0 && bestScore >= QUOTE_MATCH_THRESHOLD
+      ? formatSegmentOffset(transcript.segments[bestIndex], bestIndex)
+      : null;
+  });
+}
+
+/**
+ * Deterministic episode ID for transcripts without an explicit ID.
+ * Matches the "show-slug-YYYY-MM-DD" convention used by episode search.
+ */
+export function buildTranscriptEpisodeId(showName: string, publishedAt: string): string {
+  const showSlug = showName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${showSlug}-${publishedAt}`;
+}
+
+// ===== Format parsers =====
+
+function parseVtt(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.replace(/\r\n/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE, REGION blocks
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->').map(p => p.trim().split(/\s+/)[0]);
+    const textLines = lines.slice(timingIndex + 1);
+    if (textLines.length === 0) continue;
+
+    let speaker: string | null = null;
+    const text = textLines
+      .map(line => {
+        const voice = line.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+        if (voice && !speaker) speaker = voice[1].trim();
+        return line.replace(/<[^>]+>/g, '');
+      })
+      .join(' ')
+      .trim();
+
+    if (text) {
+      segments.push({
+        start_seconds: parseTimestamp(startRaw),
+        end_seconds: parseTimestamp(endRaw),
+        speaker,
+        text
+      });
+    }
+  }
+
+  return segments;
+}
+
+function parseSrt(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.replace(/\r\n/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->').map(p => p.trim());
+    let text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (!text) continue;
+
+    // Common convention: "SPEAKER: text"
+    let speaker: string | null = null;
+    const speakerMatch = text.match(/^([A-Z][A-Za-z .'-]{1,40}):\s+(.*)$/);
+    if (speakerMatch) {
+      speaker = speakerMatch[1].trim();
+      text = speakerMatch[2];
+    }
+
+    segments.push({
+      start_seconds: parseTimestamp(startRaw),
+      end_seconds: parseTimestamp(endRaw),
+      speaker,
+      text
+    });
+  }
+
+  return segments;
+}
+
+// Podcast namespace JSON transcript segment; fields are checked before use
+interface PodcastJsonSegment {
+  startTime?: unknown;
+  endTime?: unknown;
+  speaker?: unknown;
+  body?: unknown;
+}
+
+function parsePodcastJson(content: string): TranscriptSegment[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid transcript JSON');
+  }
+
+  const rawSegments = parsed && typeof parsed === 'object' ? (parsed as { segments?: unknown }).segments : undefined;
+  if (!Array.isArray(rawSegments)) {
+    throw new Error('Transcript JSON must contain a "segments" array');
+  }
+
+  const segments: TranscriptSegment[] = [];
+  for (const raw of rawSegments as unknown[]) {
+    if (!raw || typeof raw !== 'object') continue;
+    const segment = raw as PodcastJsonSegment;
+    const text = typeof segment.body === 'string' ? segment.body.trim() : '';
+    if (!text) continue;
+    const start = Number(segment.startTime);
+    const end = Number(segment.endTime);
+    const speaker = typeof segment.speaker === 'string' ? segment.speaker.trim() : '';
+    segments.push({
+      start_seconds: Number.isFinite(start) ? start : null,
+      end_seconds: Number.isFinite(end) ? end : null,
+      speaker: speaker || null,
+      text
+    });
+  }
+  return segments;
+}
+
+function parsePlainText(content: string): { header: Record<string, string>; segments: TranscriptSegment[] } {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const header: Record<string, string> = {};
+
+  // Leading "Key: value" lines are treated as a metadata header
+  let bodyStart = 0;
+  for (; bodyStart < lines.length; bodyStart++) {
+    const match = lines[bodyStart].match(/^(show|title|date|episode id|url):\s*(.+)$/i);
+    if (!match) break;
+    header[match[1].toLowerCase()] = match[2].trim();
+  }
+
+  if (header['date']) {
+    const dateMatch = header['date'].match(/\d{4}-\d{2}-\d{2}/);
+    header['date'] = dateMatch ? dateMatch[0] : header['date'];
+  }
+
+  const segments = lines
+    .slice(bodyStart)
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map((paragraph): TranscriptSegment => {
+      const speakerMatch = paragraph.match(/^([A-Z][A-Za-z .'-]{1,40}):\s+(.*)$/);
+      return {
+        start_seconds: null,
+        end_seconds: null,
+        speaker: speakerMatch ? speakerMatch[1].trim() : null,
+        text: speakerMatch ? speakerMatch[2] : paragraph
+      };
+    });
+
+  return { header, segments };
+}
+
+// ===== Helpers =====
+
+function metadataFromFileName(fileName: string): { published_at: string | null; title: string | null } {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const dateMatch = base.match(/\d{4}-\d{2}-\d{2}/);
+  const titlePart = base
+    .replace(/\d{4}-\d{2}-\d{2}/, ' ')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    published_at: dateMatch ? dateMatch[0] : null,
+    title: titlePart ? titlePart.charAt(0).toUpperCase() + titlePart.slice(1) : null
+  };
+}
+
+/**
+ * Parse "HH:MM:SS.mmm", "MM:SS.mmm" or "HH:MM:SS,mmm" into seconds
+ */
+function parseTimestamp(value: string | undefined): number | null {
+  if (!value) return null;
+  const parts = value.replace(',', '.').split(':').map(Number);
+  if (parts.some(p => !Number.isFinite(p))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function formatSegmentOffset(segment: TranscriptSegment, index: number): string {
+  if (segment.start_seconds === null) {
+    return `para ${index + 1}`;
+  }
+  const total = Math.floor(segment.start_seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+function normalizeForMatch(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,183 @@
+/**
+ * Usage Accounting
+ *
+ * Token and cost bookkeeping for model calls. Providers report token counts
+ * from response metadata as a `TokenUsage`; getLLMProvider() records each
+ * response's usage on the meter passed with the request (`usageMeter` in
+ * LLMCallContext), so concurrent runs never charge each other. Processing
+ * jobs start a meter per session to sum their usage and to enforce an
+ * optional hard cost budget.
+ */
+
+import type { TokenUsage } from '../types';
+import { getConfig, type AppConfig } from '../constants/config';
+import { findModelPrice, TYPICAL_CALL_TOKENS, type ModelPrice } from '../constants/pricing';
+
+export interface UsageMeter {
+  /** Add a response's usage (ignored once stopped) */
+  record(usage: TokenUsage): void;
+  /** Usage recorded so far, including the meter's initial usage */
+  snapshot(): TokenUsage;
+  /** True once the budget has been exceeded */
+  isBudgetExceeded(): boolean;
+  /** Stop receiving usage */
+  stop(): void;
+}
+
+export interface UsageMeterOptions {
+  /** Usage carried over from earlier sessions (counts towards the budget) */
+  initial?: TokenUsage;
+  /** Hard budget in USD (null/undefined = none) */
+  budgetUsd?: number | null;
+  /** Called once when the estimated cost first exceeds the budget */
+  onBudgetExceeded?: (usage: TokenUsage) => void;
+  /** Called after every recorded response */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface CostEstimate {
+  tokens: number;
+  /** null when no price is known for the model */
+  costUsd: number | null;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { requests: 0, input_tokens: 0, output_tokens: 0, total_tokens: 0, estimated_cost_usd: null };
+}
+
+/**
+ * Price for a model: the configured override when both rates are set,
+ * otherwise the built-in table
+ */
+export function getModelPrice(model: string, config: AppConfig = getConfig()): ModelPrice | null {
+  const { inputPricePerMillion, outputPricePerMillion } = config.provider;
+  if (inputPricePerMillion !== null && outputPricePerMillion !== null) {
+    return { inputPerMillion: inputPricePerMillion, outputPerMillion: outputPricePerMillion };
+  }
+  return findModelPrice(model);
+}
+
+/**
+ * Why a cost budget cannot be enforced for the configured model (null when it can).
+ * Without a price every response costs "unknown", so the budget would never trip.
+ */
+export function getBudgetPriceError(budgetUsd: number | null, config: AppConfig = getConfig()): string | null {
+  if (budgetUsd === null || getModelPrice(config.provider.model, config)) return null;
+  return `The ${formatUsd(budgetUsd)} cost budget cannot be enforced: no price is known for model "${config.provider.model}". Set input and output prices in the provider settings, or remove the budget.`;
+}
+
+/**
+ * Estimated USD cost of a number of input/output tokens (null when the price is unknown)
+ */
+export function computeCostUsd(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Usage for a single model response
+ */
+export function buildUsage(model: string, inputTokens: number, outputTokens: number, totalTokens?: number): TokenUsage {
+  const input = Math.max(0, Math.round(inputTokens || 0));
+  const output = Math.max(0, Math.round(outputTokens || 0));
+  return {
+    requests: 1,
+    input_tokens: input,
+    output_tokens: output,
+    total_tokens: Math.max(totalTokens ?? 0, input + output),
+    estimated_cost_usd: computeCostUsd(model, input, output)
+  };
+}
+
+/**
+ * Sum two usage records. Cost is null only when neither side has a known cost.
+ */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage {
+  const left = a ?? emptyUsage();
+  const right = b ?? emptyUsage();
+  const cost = left.estimated_cost_usd === null && right.estimated_cost_usd === null
+    ? null
+    : (left.estimated_cost_usd ?? 0) + (right.estimated_cost_usd ?? 0);
+
+  return {
+    requests: left.requests + right.requests,
+    input_tokens: left.input_tokens + right.input_tokens,
+    output_tokens: left.output_tokens + right.output_tokens,
+    total_tokens: left.total_tokens + right.total_tokens,
+    estimated_cost_usd: cost
+  };
+}
+
+/**
+ * Start summing the usage recorded on this meter until stop() is called.
+ * Pass the meter with a run's provider calls (LLMCallContext.usageMeter).
+ */
+export function startUsageMeter(options: UsageMeterOptions = {}): UsageMeter {
+  let total = options.initial ? { ...options.initial } : emptyUsage();
+  let exceeded = false;
+
+  const checkBudget = () => {
+    const budget = options.budgetUsd;
+    if (exceeded || budget === null || budget === undefined) return;
+    if ((total.estimated_cost_usd ?? 0) > budget) {
+      exceeded = true;
+      console.warn(`[UsageAccounting] Cost budget of ${formatUsd(budget)} exceeded (${formatUsd(total.estimated_cost_usd)} spent)`);
+      options.onBudgetExceeded?.(total);
+    }
+  };
+
+  let stopped = false;
+  checkBudget();
+
+  return {
+    record: (usage: TokenUsage) => {
+      if (stopped) return;
+      total = addUsage(total, usage);
+      options.onUsage?.(total);
+      checkBudget();
+    },
+    snapshot: () => ({ ...total }),
+    isBudgetExceeded: () => exceeded,
+    stop: () => {
+      stopped = true;
+    }
+  };
+}
+
+/**
+ * Pre-run estimate for analyzing new episodes (plus weekly AI summaries when enabled)
+ */
+export function estimateProcessingCost(
+  newEpisodes: number,
+  weeks: number,
+  config: AppConfig = getConfig()
+): CostEstimate {
+  const summaries = config.features.enableAIExecutiveSummary ? weeks : 0;
+  const input = newEpisodes * TYPICAL_CALL_TOKENS.analysis.input + summaries * TYPICAL_CALL_TOKENS.summary.input;
+  const output = newEpisodes * TYPICAL_CALL_TOKENS.analysis.output + summaries * TYPICAL_CALL_TOKENS.summary.output;
+  const price = getModelPrice(config.provider.model, config);
+
+  return {
+    tokens: input + output,
+    costUsd: price ? (input * price.inputPerMillion + output * price.outputPerMillion) / 1_000_000 : null
+  };
+}
+
+/**
+ * Format a USD amount for display ("n/a" when unknown)
+ */
+export function formatUsd(amount: number | null | undefined): string {
+  if (amount === null || amount === undefined) return 'n/a';
+  if (amount > 0 && amount < 0.01) return '<$0.01';
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Format a token count compactly (e.g. 12.3k, 1.2M)
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
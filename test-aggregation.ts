@@ -33,7 +33,7 @@ function createEpisode(
       evidence_quotes: topic.quotes
     })),
     overall_sentiment: topics.reduce((sum, t) => sum + t.sentiment, 0) / topics.length,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: topics.flatMap(t => t.quotes).slice(0, 3),
     framework_version: "v2-test",
     processed_at: new Date().toISOString(),
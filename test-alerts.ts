@@ -0,0 +1,153 @@
+/**
+ * Manual test harness for services/alerts.ts (anomaly scores and rule evaluation)
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.alertsTests.runAll()
+ *
+ * Uses in-memory episodes and reports; the alerts inbox is untouched.
+ */
+
+import type { EpisodeInsight } from './types';
+import { DEFAULT_ALERT_RULES, type AlertRule } from './constants/config';
+import { buildIssueRegistry } from './services/issueLifecycle';
+import { evaluateAlertRules, scoreIssueAnomalies } from './services/alerts';
+import { JITTER, createWeeklyReport, weekStartAfter } from './test-fixtures';
+
+// Sundays of consecutive weeks starting 2033-01-02
+function weekDate(week: number, dayOffset = 0): string {
+  return weekStartAfter('2033-01-02', week, dayOffset);
+}
+
+function createEpisode(episodeId: string, publishedAt: string, topics: Array<[string, number, number]>): EpisodeInsight {
+  return {
+    episode_id: episodeId,
+    show_name: "Alerts Show",
+    title: `Episode ${episodeId}`,
+    published_at: publishedAt,
+    topics: topics.map(([name, sentiment, prominence]) => ({
+      topic_name: name,
+      sentiment_score: sentiment,
+      confidence: 0.8,
+      prominence_score: prominence,
+      evidence_quotes: []
+    })),
+    overall_sentiment: 50,
+    focus_relevance: 1,
+    key_quotes: [],
+    framework_version: "alerts-test",
+    processed_at: new Date().toISOString(),
+    model_used: "test-model"
+  };
+}
+
+function rule(id: string): AlertRule {
+  return DEFAULT_ALERT_RULES.find(r => r.id === id)!;
+}
+
+async function testAnomalyScores(): Promise<void> {
+  console.log("\n=== Test: Rolling Z-Scores ===");
+  // Tariffs holds around 55 for seven weeks, then drops to 20; Budget Talks stays put
+  const episodes = Array.from({ length: 8 }, (_, week) => createEpisode(`anomaly-${week}`, weekDate(week, 1), [
+    ['Tariffs', week < 7 ? 55 + JITTER[week] : 20, 0.5],
+    ['Budget Talks', 45 + JITTER[week], 0.4]
+  ]));
+  const registry = buildIssueRegistry(episodes);
+
+  const scores = scoreIssueAnomalies(registry, weekDate(7));
+  const tariffs = scores.find(s => s.issue_name === 'Tariffs' && s.metric === 'sentiment');
+  const budget = scores.find(s => s.issue_name === 'Budget Talks' && s.metric === 'sentiment');
+  if (!tariffs || tariffs.z_score > -5 || tariffs.baseline_weeks !== 7) {
+    throw new Error(`Tariffs drop should stand out from its history: ${JSON.stringify(tariffs)}`);
+  }
+  if (!budget || Math.abs(budget.z_score) >= 2.5) {
+    throw new Error(`Budget Talks stayed in its range: ${JSON.stringify(budget)}`);
+  }
+
+  const alerts = evaluateAlertRules([rule('sentiment-anomaly')], createWeeklyReport(weekDate(7), []), null, scores);
+  if (alerts.length !== 1 || alerts[0].issue_name !== 'Tariffs') {
+    throw new Error(`Only the Tariffs anomaly should alert: ${JSON.stringify(alerts)}`);
+  }
+  if (scoreIssueAnomalies(registry, weekDate(2)).length !== 0) {
+    throw new Error("Weeks with less than four weeks of history must not be scored.");
+  }
+  console.log(`✓ ${alerts[0].message}`);
+}
+
+async function testThresholdCrossing(): Promise<void> {
+  console.log("\n=== Test: Sentiment Threshold Crossing ===");
+  const previous = createWeeklyReport(weekDate(0), [['Tariffs', 40, { episode_count: 4 }], ['Indictments', 20, { episode_count: 3 }]]);
+  const current = createWeeklyReport(weekDate(1), [['Tariffs', 22, { episode_count: 4 }], ['Indictments', 18, { episode_count: 3 }]]);
+
+  const alerts = evaluateAlertRules([rule('sentiment-below-25')], current, previous, []);
+  if (alerts.length !== 1 || alerts[0].issue_name !== 'Tariffs' || !alerts[0].message.includes('from 40')) {
+    throw new Error(`Only the issue crossing below 25 should alert: ${JSON.stringify(alerts)}`);
+  }
+
+  const filtered: AlertRule = { ...rule('sentiment-below-25'), issueFilter: 'budget' };
+  if (evaluateAlertRules([filtered], current, previous, []).length !== 0) {
+    throw new Error("The issue filter should exclude other issues.");
+  }
+  console.log(`✓ ${alerts[0].message}`);
+}
+
+async function testEntersTop(): Promise<void> {
+  console.log("\n=== Test: New Top-3 Issue ===");
+  const previous = createWeeklyReport(weekDate(0), [
+    ['Tariffs', 40, { episode_count: 5 }],
+    ['Budget Talks', 50, { episode_count: 4 }],
+    ['Weather', 50, { episode_count: 2 }],
+    ['Indictments', 30, { episode_count: 4 }]
+  ]);
+  const current = createWeeklyReport(weekDate(1), [
+    ['Tariffs', 40, { episode_count: 5 }],
+    ['Indictments', 30, { episode_count: 4 }],
+    ['Farm Subsidies', 45, { episode_count: 2 }],
+    ['Budget Talks', 50, { episode_count: 4 }]
+  ]);
+
+  const alerts = evaluateAlertRules([rule('new-top-3')], current, previous, []);
+  // Farm Subsidies is new in the top 3 too, but with only 2 episodes
+  if (alerts.length !== 1 || alerts[0].issue_name !== 'Indictments' || alerts[0].value !== 2) {
+    throw new Error(`Only Indictments should alert: ${JSON.stringify(alerts)}`);
+  }
+
+  const disabled: AlertRule = { ...rule('new-top-3'), enabled: false };
+  if (evaluateAlertRules([disabled], current, previous, []).length !== 0) {
+    throw new Error("Disabled rules must not alert.");
+  }
+  console.log(`✓ ${alerts[0].message}`);
+}
+
+async function testStableAlertIds(): Promise<void> {
+  console.log("\n=== Test: Stable Alert IDs ===");
+  const previous = createWeeklyReport(weekDate(0), [['Tariffs', 40, { episode_count: 4 }]]);
+  const current = createWeeklyReport(weekDate(1), [['Tariffs', 22, { episode_count: 4 }]]);
+
+  const first = evaluateAlertRules([rule('sentiment-below-25')], current, previous, [], 'profile-a');
+  const again = evaluateAlertRules([rule('sentiment-below-25')], current, previous, [], 'profile-a');
+  const other = evaluateAlertRules([rule('sentiment-below-25')], current, previous, [], 'profile-b');
+  if (first[0].alert_id !== again[0].alert_id || first[0].alert_id === other[0].alert_id) {
+    throw new Error(`Alert IDs must repeat for the same week and profile only: ${first[0].alert_id}, ${other[0].alert_id}`);
+  }
+  console.log(`✓ ${first[0].alert_id}`);
+}
+
+async function runAll(): Promise<void> {
+  await testAnomalyScores();
+  await testThresholdCrossing();
+  await testEntersTop();
+  await testStableAlertIds();
+  console.log("\nAll alert tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).alertsTests = {
+    testAnomalyScores,
+    testThresholdCrossing,
+    testEntersTop,
+    testStableAlertIds,
+    runAll
+  };
+}
@@ -43,7 +43,7 @@ async function testSingleEpisode() {
     console.log('Episode Insight:', insight);
     console.log('Topics found:', insight.topics.length);
     console.log('Overall sentiment:', insight.overall_sentiment);
-    console.log('Trump admin focus:', insight.trump_admin_focus);
+    console.log('Focus relevance:', insight.focus_relevance);
     console.log('Key quotes:', insight.key_quotes.length);
 
     // Save to IndexedDB
@@ -214,7 +214,7 @@ async function testInsightValidation() {
       'Has at least 1 topic': insight.topics.length > 0,
       'Has overall_sentiment': typeof insight.overall_sentiment === 'number',
       'Sentiment in range 0-100': insight.overall_sentiment >= 0 && insight.overall_sentiment <= 100,
-      'Has trump_admin_focus': typeof insight.trump_admin_focus === 'boolean',
+      'Has focus_relevance': typeof insight.focus_relevance === 'number',
       'Has key_quotes': Array.isArray(insight.key_quotes),
       'Has framework_version': !!insight.framework_version,
       'Has processed_at': !!insight.processed_at,
@@ -0,0 +1,142 @@
+/**
+ * Manual test harness for weekly cache dependency hashes (utils/cacheDependencies.ts)
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.cacheDependenciesTests.runAll()
+ */
+
+import type { EpisodeInsight, TopicTaxonomy } from './types';
+import { computeWeeklyCacheDependencies, explainWeeklyCacheChanges, type WeeklyCacheSettings } from './utils/cacheDependencies';
+
+function createEpisode(id: string, publishedAt: string, sentiment: number): EpisodeInsight {
+  return {
+    episode_id: id,
+    show_name: "Cache Show",
+    title: `Episode ${id}`,
+    published_at: publishedAt,
+    topics: [
+      { topic_name: "Tariffs", sentiment_score: sentiment, confidence: 0.8, prominence_score: 0.6, evidence_quotes: ["Tariffs are rising."] }
+    ],
+    overall_sentiment: sentiment,
+    focus_relevance: 0.8,
+    key_quotes: [],
+    framework_version: "v2.0.0",
+    processed_at: "2033-05-10T12:00:00.000Z",
+    model_used: "model-a"
+  };
+}
+
+const TAXONOMY: TopicTaxonomy = {
+  taxonomy_id: "default",
+  issues: [{ canonical_name: "Trade Policy", aliases: ["tariffs"] }],
+  never_merge: [],
+  updated_at: "2033-05-01T00:00:00.000Z"
+};
+
+const SETTINGS: WeeklyCacheSettings = {
+  frameworkVersion: "v2.0.0",
+  algorithmVersion: "v1",
+  rankingSignature: "balanced|0.5|0.3|0.2",
+  topicMatcher: "lexical",
+  taxonomy: TAXONOMY,
+  aggregation: { strategy: 'mean', interval: 0.9 }
+};
+
+const CURRENT = [createEpisode("ep-2", "2033-05-09", 40), createEpisode("ep-3", "2033-05-10", 45)];
+const PRIOR = [createEpisode("ep-1", "2033-05-02", 60)];
+
+async function testUnchangedInputs(): Promise<void> {
+  console.log("\n=== Test: Unchanged Inputs ===");
+  const cached = computeWeeklyCacheDependencies(CURRENT, PRIOR, SETTINGS);
+  // Same content in another order and in fresh objects
+  const current = computeWeeklyCacheDependencies(
+    [...CURRENT].reverse().map(episode => JSON.parse(JSON.stringify(episode))),
+    PRIOR,
+    { ...SETTINGS, aggregation: { interval: 0.9, strategy: 'mean' } }
+  );
+  const reasons = explainWeeklyCacheChanges(cached, current);
+  if (cached.hash !== current.hash || reasons.length !== 0) {
+    throw new Error(`Equal inputs should hit the cache: ${JSON.stringify(reasons)}`);
+  }
+  console.log(`✓ Hash ${current.hash} is stable`);
+}
+
+async function testReanalyzedPriorWeek(): Promise<void> {
+  console.log("\n=== Test: Re-analyzed Prior-Week Episode ===");
+  const cached = computeWeeklyCacheDependencies(CURRENT, PRIOR, SETTINGS);
+  const reanalyzed = { ...PRIOR[0], overall_sentiment: 70, processed_at: "2033-05-12T08:00:00.000Z" };
+  const current = computeWeeklyCacheDependencies(CURRENT, [reanalyzed], SETTINGS);
+  const reasons = explainWeeklyCacheChanges(cached, current);
+  if (reasons.length !== 1 || reasons[0] !== "Prior week's episodes: 1 re-analyzed or edited") {
+    throw new Error(`Expected a prior-week reason only: ${JSON.stringify(reasons)}`);
+  }
+
+  const withNewEpisode = computeWeeklyCacheDependencies([...CURRENT, createEpisode("ep-4", "2033-05-11", 50)], PRIOR, SETTINGS);
+  const added = explainWeeklyCacheChanges(cached, withNewEpisode);
+  if (added.join() !== "This week's episodes: 1 added") {
+    throw new Error(`Expected an added episode: ${JSON.stringify(added)}`);
+  }
+  console.log(`✓ ${reasons[0]}; ${added[0]}`);
+}
+
+async function testSettingsChanges(): Promise<void> {
+  console.log("\n=== Test: Settings Changes ===");
+  const cached = computeWeeklyCacheDependencies(CURRENT, PRIOR, SETTINGS);
+
+  const resaved = computeWeeklyCacheDependencies(CURRENT, PRIOR, {
+    ...SETTINGS,
+    taxonomy: { ...TAXONOMY, updated_at: "2033-05-20T00:00:00.000Z" }
+  });
+  if (explainWeeklyCacheChanges(cached, resaved).length !== 0) {
+    throw new Error("Saving an unchanged taxonomy should keep the cache.");
+  }
+
+  const changed = computeWeeklyCacheDependencies(CURRENT, PRIOR, {
+    ...SETTINGS,
+    rankingSignature: "breadth|0.2|0.6|0.2",
+    taxonomy: { ...TAXONOMY, never_merge: [["tariffs", "trade deals"]] },
+    aggregation: { strategy: 'confidence-weighted', interval: 0.9 }
+  });
+  const reasons = explainWeeklyCacheChanges(cached, changed);
+  const expected = [
+    "Ranking profile or weights changed",
+    "Topic taxonomy or topic matcher changed",
+    "Sentiment aggregation settings changed"
+  ];
+  if (reasons.join('|') !== expected.join('|')) {
+    throw new Error(`Unexpected reasons: ${JSON.stringify(reasons)}`);
+  }
+  console.log(`✓ ${reasons.join('; ')}`);
+}
+
+async function testMissingDependencies(): Promise<void> {
+  console.log("\n=== Test: Missing Dependencies ===");
+  const current = computeWeeklyCacheDependencies(CURRENT, PRIOR, SETTINGS);
+  if (explainWeeklyCacheChanges(null, current).join() !== "Not cached yet") {
+    throw new Error("A week without a cached aggregation should say so.");
+  }
+  if (explainWeeklyCacheChanges(undefined, current).join() !== "Cached before input tracking") {
+    throw new Error("An aggregation without stored hashes should be recomputed.");
+  }
+  console.log("✓ Uncached and untracked weeks are recomputed");
+}
+
+async function runAll(): Promise<void> {
+  await testUnchangedInputs();
+  await testReanalyzedPriorWeek();
+  await testSettingsChanges();
+  await testMissingDependencies();
+  console.log("\nAll cache dependency tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).cacheDependenciesTests = {
+    testUnchangedInputs,
+    testReanalyzedPriorWeek,
+    testSettingsChanges,
+    testMissingDependencies,
+    runAll
+  };
+}
@@ -51,7 +51,7 @@ async function testStalenessDisabledByDefault() {
       }
     ],
     overall_sentiment: 50,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: ['Test quote'],
     framework_version: 'v2',
     processed_at: oldDate.toISOString(), // 60 days ago
@@ -116,7 +116,7 @@ async function testStalenessDetectionEnabled() {
       }
     ],
     overall_sentiment: 50,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: ['Test quote'],
     framework_version: 'v2',
     processed_at: oldDate.toISOString(), // 60 days ago
@@ -189,7 +189,7 @@ async function testFreshEpisodesNotReprocessed() {
       }
     ],
     overall_sentiment: 50,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: ['Test quote'],
     framework_version: 'v2',
     processed_at: freshDate.toISOString(), // 10 days ago
@@ -255,7 +255,7 @@ async function testForceReprocessOverridesStaleness() {
       }
     ],
     overall_sentiment: 50,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: ['Test quote'],
     framework_version: 'v2',
     processed_at: freshDate.toISOString(), // 5 days ago
@@ -325,7 +325,7 @@ async function testMixedFreshAndStaleEpisodes() {
       }
     ],
     overall_sentiment: 50,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: ['Test quote'],
     framework_version: 'v2',
     processed_at: freshDate.toISOString(),
@@ -351,7 +351,7 @@ async function testMixedFreshAndStaleEpisodes() {
       }
     ],
     overall_sentiment: 50,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: ['Test quote'],
     framework_version: 'v2',
     processed_at: staleDate.toISOString(),
@@ -0,0 +1,90 @@
+/**
+ * Manual test harness for change-point detection (utils/changePoints.ts and
+ * its use in utils/reportUtils.ts aggregateReports)
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.changePointsTests.runAll()
+ */
+
+import { detectChangePoints } from './utils/changePoints';
+import { aggregateReports } from './utils/reportUtils';
+import { JITTER, createWeeklyReport, weekStartAfter } from './test-fixtures';
+
+async function testDetectsStep(): Promise<void> {
+  console.log("\n=== Test: Detects a Mean Shift ===");
+  const values = JITTER.slice(0, 10).map((j, i) => (i < 5 ? 60 : 35) + j);
+  const points = detectChangePoints(values);
+
+  if (points.length !== 1 || points[0].index !== 5 || points[0].shift > -20) {
+    throw new Error(`Expected one downward break at index 5: ${JSON.stringify(points)}`);
+  }
+  console.log(`✓ Break at index ${points[0].index} (${points[0].before_mean.toFixed(1)} → ${points[0].after_mean.toFixed(1)})`);
+}
+
+async function testIgnoresNoise(): Promise<void> {
+  console.log("\n=== Test: Ignores Noise ===");
+  const noisy = JITTER.map(j => 50 + j);
+  const tooShort = [40, 80, 40];
+
+  const found = [...detectChangePoints(noisy), ...detectChangePoints(tooShort)];
+  if (found.length !== 0) {
+    throw new Error(`Noise or short series produced breakpoints: ${JSON.stringify(found)}`);
+  }
+  console.log("✓ No breakpoints in a jittery flat series or a series shorter than two segments");
+}
+
+async function testRoundTripHiddenByFlatDelta(): Promise<void> {
+  console.log("\n=== Test: Round Trip Behind a Flat Net Delta ===");
+  const values = JITTER.map((j, i) => (i >= 4 && i < 8 ? 25 : 55) + j);
+  const points = detectChangePoints(values);
+
+  if (points.length !== 2 || points[0].index !== 4 || points[1].index !== 8) {
+    throw new Error(`Expected breaks at indices 4 and 8: ${JSON.stringify(points)}`);
+  }
+  console.log("✓ Dip and recovery both detected");
+}
+
+async function testAggregateReportsStoresBreakpoints(): Promise<void> {
+  console.log("\n=== Test: Period Comparison Stores Breakpoints ===");
+  const reports = JITTER.slice(0, 8).map((j, i) =>
+    createWeeklyReport(weekStartAfter('2031-01-05', i), [
+      ['Tariffs', (i < 4 ? 65 : 30) + j],
+      ['Budget Talks', 50 - j]
+    ])
+  );
+
+  const period = aggregateReports(reports).period_comparison!;
+  const overall = period.change_points?.filter(cp => cp.series === 'overall') ?? [];
+  const issues = period.change_points?.filter(cp => cp.series === 'issue') ?? [];
+
+  if (overall.length !== 1 || overall[0].week_start !== reports[4].run_window.window_start) {
+    throw new Error(`Overall breakpoint missing or misplaced: ${JSON.stringify(period.change_points)}`);
+  }
+  if (issues.length !== 1 || issues[0].issue_name !== 'Tariffs' || issues[0].shift > -25) {
+    throw new Error(`Issue breakpoint missing or misattributed: ${JSON.stringify(issues)}`);
+  }
+  if (!period.notes.some(note => note.startsWith('Regime change in overall sentiment'))) {
+    throw new Error(`Regime change not noted: ${JSON.stringify(period.notes)}`);
+  }
+  console.log(`✓ Overall and Tariffs breaks stored at ${overall[0].week_start}`);
+}
+
+async function runAll(): Promise<void> {
+  await testDetectsStep();
+  await testIgnoresNoise();
+  await testRoundTripHiddenByFlatDelta();
+  await testAggregateReportsStoresBreakpoints();
+  console.log("\nAll change-point tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).changePointsTests = {
+    testDetectsStep,
+    testIgnoresNoise,
+    testRoundTripHiddenByFlatDelta,
+    testAggregateReportsStoresBreakpoints,
+    runAll
+  };
+}
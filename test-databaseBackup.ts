@@ -0,0 +1,139 @@
+/**
+ * Manual test harness for services/databaseBackup.ts (archive validation)
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.databaseBackupTests.runAll()
+ *
+ * Only validates in-memory archives; the local database is not read or written.
+ */
+
+import { DEFAULT_CONFIG } from './constants/config';
+import { FRAMEWORK_VERSION } from './constants/frameworkVersion';
+import { DB_VERSION } from './services/episodeDB';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, validateDatabaseBackup } from './services/databaseBackup';
+
+function createEpisode(id: string): Record<string, unknown> {
+  return {
+    episode_id: id,
+    show_name: 'Backup Show',
+    title: `Episode ${id}`,
+    published_at: '2033-02-28',
+    topics: [{ topic_name: 'Tariffs', sentiment_score: 40, confidence: 0.8, prominence_score: 0.6, evidence_quotes: ['Tariffs are rising.'] }],
+    overall_sentiment: 40,
+    focus_relevance: 0.8,
+    key_quotes: [],
+    framework_version: FRAMEWORK_VERSION,
+    processed_at: '2033-03-01T10:00:00.000Z',
+    model_used: 'model-a'
+  };
+}
+
+const AGGREGATION = {
+  cache_key: 'default_2033-02-27',
+  week_start: '2033-02-27',
+  week_end: '2033-03-05',
+  episode_ids: ['ep-1', 'ep-2'],
+  top_issues: [{ issue_name: 'Tariffs', avg_sentiment: 40, confidence: 0.8, episode_count: 2, evidence: [] }],
+  computed_at: '2033-03-01T11:00:00.000Z',
+  framework_version: FRAMEWORK_VERSION
+};
+
+function createArchive(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    created_at: '2033-03-01T12:00:00.000Z',
+    db_version: DB_VERSION,
+    framework_version: FRAMEWORK_VERSION,
+    config: DEFAULT_CONFIG,
+    stores: {
+      episodes: [createEpisode('ep-1'), createEpisode('ep-2')],
+      weeklyAggregations: [AGGREGATION],
+      searchCache: []
+    },
+    ...overrides
+  };
+}
+
+function expectRejected(data: unknown, fragment: string): void {
+  try {
+    validateDatabaseBackup(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!message.includes(fragment)) {
+      throw new Error(`Expected an error mentioning "${fragment}", got: ${message}`);
+    }
+    return;
+  }
+  throw new Error(`Archive should have been rejected (${fragment}).`);
+}
+
+async function testValidArchive(): Promise<void> {
+  console.log("\n=== Test: Valid Archive ===");
+  const { recordCounts, warnings } = validateDatabaseBackup(createArchive());
+  if (recordCounts.episodes !== 2 || recordCounts.weeklyAggregations !== 1 || recordCounts.searchCache !== 0) {
+    throw new Error(`Unexpected record counts: ${JSON.stringify(recordCounts)}`);
+  }
+  if (warnings.length !== 0) {
+    throw new Error(`A current archive should not warn: ${JSON.stringify(warnings)}`);
+  }
+  console.log(`✓ ${JSON.stringify(recordCounts)}`);
+}
+
+async function testRejectsOtherFiles(): Promise<void> {
+  console.log("\n=== Test: Non-Archive Files ===");
+  expectRejected(null, 'expected a JSON object');
+  // A single exported report is not a backup
+  expectRejected({ run_window: {}, top_issues: [] }, 'format');
+  expectRejected(createArchive({ stores: [] }), 'stores');
+  expectRejected(createArchive({ stores: { episodes: {} } }), 'episodes');
+  expectRejected(createArchive({ config: 'settings' }), 'config');
+  console.log("✓ Reports, missing stores and malformed sections are rejected");
+}
+
+async function testVersionChecks(): Promise<void> {
+  console.log("\n=== Test: Version Checks ===");
+  expectRejected(createArchive({ format_version: BACKUP_FORMAT_VERSION + 1 }), 'newer than this app supports');
+  expectRejected(createArchive({ db_version: DB_VERSION + 1 }), `database version ${DB_VERSION + 1}`);
+
+  const { warnings } = validateDatabaseBackup(createArchive({ db_version: DB_VERSION - 1, framework_version: 'older-framework' }));
+  if (warnings.length !== 1 || !warnings[0].includes('older-framework')) {
+    throw new Error(`An older framework version should warn, not fail: ${JSON.stringify(warnings)}`);
+  }
+  console.log(`✓ ${warnings[0]}`);
+}
+
+async function testRejectsMalformedRecords(): Promise<void> {
+  console.log("\n=== Test: Malformed Records ===");
+  const noTopics = { ...createEpisode('ep-3'), topics: 'Tariffs' };
+  expectRejected(createArchive({ stores: { episodes: [createEpisode('ep-1'), noTopics] } }), 'Record 2 of store "episodes"');
+
+  const badScore = createEpisode('ep-4');
+  (badScore.topics as Array<Record<string, unknown>>)[0].sentiment_score = '40';
+  expectRejected(createArchive({ stores: { episodes: [badScore] } }), '$.topics[0].sentiment_score');
+
+  const badVersion = { version_id: 'ep-1|v|m', episode_id: 'ep-1', framework_version: 'v', model_used: 'm', processed_at: '2033-03-01', active: 'yes', insight: createEpisode('ep-1') };
+  expectRejected(createArchive({ stores: { episodeVersions: [badVersion] } }), 'episodeVersions');
+  expectRejected(createArchive({ stores: { weeklyAggregations: [{ ...AGGREGATION, top_issues: undefined }] } }), 'top_issues');
+  console.log("✓ Episodes, versions and aggregations with the wrong shape are rejected");
+}
+
+async function runAll(): Promise<void> {
+  await testValidArchive();
+  await testRejectsOtherFiles();
+  await testVersionChecks();
+  await testRejectsMalformedRecords();
+  console.log("\nAll database backup tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).databaseBackupTests = {
+    testValidArchive,
+    testRejectsOtherFiles,
+    testVersionChecks,
+    testRejectsMalformedRecords,
+    runAll
+  };
+}
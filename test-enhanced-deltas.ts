@@ -51,7 +51,7 @@ async function testNewIssueEmergence() {
       }
     ],
     overall_sentiment: 35,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -88,7 +88,7 @@ async function testNewIssueEmergence() {
       }
     ],
     overall_sentiment: 30,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -169,7 +169,7 @@ async function testSentimentImprovement() {
       }
     ],
     overall_sentiment: 30,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -197,7 +197,7 @@ async function testSentimentImprovement() {
       }
     ],
     overall_sentiment: 65,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -276,7 +276,7 @@ async function testSentimentDecline() {
       }
     ],
     overall_sentiment: 50,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -304,7 +304,7 @@ async function testSentimentDecline() {
       }
     ],
     overall_sentiment: 25,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -383,7 +383,7 @@ async function testSteadyCoverage() {
       }
     ],
     overall_sentiment: 42,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -411,7 +411,7 @@ async function testSteadyCoverage() {
       }
     ],
     overall_sentiment: 44,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [],
     framework_version: 'v2',
     processed_at: new Date().toISOString(),
@@ -76,7 +76,7 @@ async function testDatabaseInit() {
         },
       ],
       overall_sentiment: 35,
-      trump_admin_focus: true,
+      focus_relevance: 1,
       key_quotes: ['Key quote 1'],
       framework_version: 'v2',
       processed_at: new Date().toISOString(),
@@ -98,7 +98,7 @@ async function testDatabaseInit() {
         },
       ],
       overall_sentiment: 60,
-      trump_admin_focus: false,
+      focus_relevance: 0,
       key_quotes: ['Key quote 2'],
       framework_version: 'v2',
       processed_at: new Date().toISOString(),
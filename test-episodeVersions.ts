@@ -0,0 +1,178 @@
+/**
+ * Manual test harness for episode version history (episodeDB + services/episodeVersions.ts)
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.episodeVersionsTests.runAll()
+ *
+ * The history and restore tests write one test episode to IndexedDB and delete it afterwards.
+ */
+
+import type { EpisodeInsight } from './types';
+import { deleteEpisode, episodeVersionId, getEpisode, saveCandidateEpisodeVersion, saveEpisode, writeStoreRecords } from './services/episodeDB';
+import { activateVersion, diffEpisodeVersions, loadEpisodeVersions } from './services/episodeVersions';
+
+const EPISODE_ID = 'test-episode-versions';
+
+function createEpisode(framework: string, model: string, topics: EpisodeInsight['topics'], keyQuotes: string[]): EpisodeInsight {
+  return {
+    episode_id: EPISODE_ID,
+    show_name: "Versions Show",
+    title: "Versioned Episode",
+    published_at: "2033-05-02",
+    topics,
+    overall_sentiment: 50,
+    focus_relevance: 0.8,
+    key_quotes: keyQuotes,
+    framework_version: framework,
+    processed_at: new Date().toISOString(),
+    model_used: model
+  };
+}
+
+const BEFORE = createEpisode("v2.0.0", "model-a", [
+  { topic_name: "Tariffs", sentiment_score: 40, confidence: 0.8, prominence_score: 0.6, evidence_quotes: ["Tariffs are rising."] },
+  { topic_name: "Budget Talks", sentiment_score: 55, confidence: 0.7, prominence_score: 0.3, evidence_quotes: [] },
+  { topic_name: "Weather", sentiment_score: 50, confidence: 0.6, prominence_score: 0.1, evidence_quotes: [] }
+], ["A quiet week."]);
+
+const AFTER = createEpisode("v2.1.0", "model-a", [
+  { topic_name: "tariffs", sentiment_score: 30, confidence: 0.8, prominence_score: 0.6, evidence_quotes: ["Tariffs are rising.", "Prices follow."] },
+  { topic_name: "Budget Talks", sentiment_score: 55, confidence: 0.7, prominence_score: 0.3, evidence_quotes: [] },
+  { topic_name: "Indictments", sentiment_score: 20, confidence: 0.9, prominence_score: 0.4, evidence_quotes: [] }
+], ["A quiet week.", "Then the markets moved."]);
+
+async function testTopicDiff(): Promise<void> {
+  console.log("\n=== Test: Topic Diff ===");
+  const diff = diffEpisodeVersions(BEFORE, AFTER);
+  const status = Object.fromEntries(diff.topics.map(topic => [topic.topic_name, topic.status]));
+
+  if (status.tariffs !== 'changed' || status.Indictments !== 'added' || status.Weather !== 'removed' || status['Budget Talks'] !== 'unchanged') {
+    throw new Error(`Unexpected topic statuses: ${JSON.stringify(status)}`);
+  }
+  const tariffs = diff.topics.find(topic => topic.topic_name === 'tariffs')!;
+  if (tariffs.sentiment.delta !== -10 || tariffs.quotes_added.join() !== "Prices follow." || tariffs.quotes_removed.length !== 0) {
+    throw new Error(`Tariffs change not captured: ${JSON.stringify(tariffs)}`);
+  }
+  if (diff.topics[0].status !== 'changed') {
+    throw new Error("Changed topics should be listed first.");
+  }
+  console.log(`✓ ${diff.topics.map(topic => `${topic.topic_name}: ${topic.status}`).join(', ')}`);
+}
+
+async function testQuoteDiff(): Promise<void> {
+  console.log("\n=== Test: Key Quote Diff ===");
+  const diff = diffEpisodeVersions(BEFORE, AFTER);
+  if (diff.key_quotes_added.join() !== "Then the markets moved." || diff.key_quotes_removed.length !== 0) {
+    throw new Error(`Unexpected key quote changes: ${JSON.stringify(diff)}`);
+  }
+  if (diff.overall_sentiment.delta !== 0) {
+    throw new Error("Overall sentiment did not change.");
+  }
+  console.log(`✓ +${diff.key_quotes_added.length} key quote`);
+}
+
+async function testVersionHistory(): Promise<void> {
+  console.log("\n=== Test: Version History (IndexedDB) ===");
+  try {
+    await saveEpisode(BEFORE);
+    await saveCandidateEpisodeVersion(AFTER);
+
+    let versions = await loadEpisodeVersions(EPISODE_ID);
+    if (versions.length !== 2 || versions.filter(v => v.active).length !== 1) {
+      throw new Error(`Expected two versions with one active: ${JSON.stringify(versions.map(v => [v.version_id, v.active]))}`);
+    }
+    if ((await getEpisode(EPISODE_ID))?.framework_version !== "v2.0.0") {
+      throw new Error("A candidate version must not replace the active analysis.");
+    }
+
+    const candidate = versions.find(v => v.framework_version === "v2.1.0")!;
+    await activateVersion(candidate.version_id);
+    versions = await loadEpisodeVersions(EPISODE_ID);
+    if ((await getEpisode(EPISODE_ID))?.framework_version !== "v2.1.0" || !versions.find(v => v.version_id === candidate.version_id)?.active) {
+      throw new Error("Activating a version should make it the analysis reports read.");
+    }
+
+    // Re-analysis with another model adds a third version and keeps the others
+    await saveEpisode({ ...AFTER, model_used: "model-b" });
+    versions = await loadEpisodeVersions(EPISODE_ID);
+    if (versions.length !== 3 || versions.filter(v => v.active).length !== 1) {
+      throw new Error(`Expected three versions with one active: ${versions.length}`);
+    }
+    console.log(`✓ ${versions.map(v => `${v.version_id}${v.active ? ' (active)' : ''}`).join(', ')}`);
+  } finally {
+    await deleteEpisode(EPISODE_ID);
+  }
+}
+
+async function testRestoreKeepsLocalAnalysis(): Promise<void> {
+  console.log("\n=== Test: Restore Keeps the Local Analysis (IndexedDB) ===");
+  try {
+    await saveEpisode(BEFORE);
+    // As a merge-overwrite restore of an archive holding another analysis writes it
+    await writeStoreRecords({ episodes: [AFTER] }, 'overwrite');
+
+    const versions = await loadEpisodeVersions(EPISODE_ID);
+    const active = versions.filter(v => v.active);
+    if ((await getEpisode(EPISODE_ID))?.framework_version !== "v2.1.0") {
+      throw new Error("The restored analysis should be the active one.");
+    }
+    if (versions.length !== 2 || active.length !== 1 || active[0].framework_version !== "v2.1.0") {
+      throw new Error(`Local analysis not kept as a version: ${JSON.stringify(versions.map(v => [v.version_id, v.active]))}`);
+    }
+    console.log(`✓ ${versions.map(v => `${v.version_id}${v.active ? ' (active)' : ''}`).join(', ')}`);
+  } finally {
+    await deleteEpisode(EPISODE_ID);
+  }
+}
+
+async function testMergeKeepsOneActiveVersion(): Promise<void> {
+  console.log("\n=== Test: Merge Keeps One Active Version (IndexedDB) ===");
+  try {
+    await saveEpisode(BEFORE);
+    // A merge restore of an archive whose own active analysis differs from the local one
+    const archivedVersion = {
+      version_id: episodeVersionId(AFTER),
+      episode_id: EPISODE_ID,
+      framework_version: AFTER.framework_version,
+      model_used: AFTER.model_used,
+      processed_at: AFTER.processed_at,
+      active: true,
+      insight: AFTER
+    };
+    const counts = await writeStoreRecords({ episodes: [AFTER], episodeVersions: [archivedVersion] }, 'keep-existing');
+
+    const versions = await loadEpisodeVersions(EPISODE_ID);
+    const active = versions.filter(v => v.active);
+    if (counts.episodes.skipped !== 1 || (await getEpisode(EPISODE_ID))?.framework_version !== "v2.0.0") {
+      throw new Error("The local analysis should stay the active one.");
+    }
+    if (versions.length !== 2 || active.length !== 1 || active[0].framework_version !== "v2.0.0") {
+      throw new Error(`Archived version should be added as inactive: ${JSON.stringify(versions.map(v => [v.version_id, v.active]))}`);
+    }
+    console.log(`✓ ${versions.map(v => `${v.version_id}${v.active ? ' (active)' : ''}`).join(', ')}`);
+  } finally {
+    await deleteEpisode(EPISODE_ID);
+  }
+}
+
+async function runAll(): Promise<void> {
+  await testTopicDiff();
+  await testQuoteDiff();
+  await testVersionHistory();
+  await testRestoreKeepsLocalAnalysis();
+  await testMergeKeepsOneActiveVersion();
+  console.log("\nAll episode version tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).episodeVersionsTests = {
+    testTopicDiff,
+    testQuoteDiff,
+    testVersionHistory,
+    testRestoreKeepsLocalAnalysis,
+    testMergeKeepsOneActiveVersion,
+    runAll
+  };
+}
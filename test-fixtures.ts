@@ -0,0 +1,61 @@
+/**
+ * Shared fixtures for the manual test harnesses (not a harness itself):
+ * week-to-week noise and minimal weekly reports for suites that feed series
+ * of weeks into aggregateReports, forecasting and alert rules.
+ */
+
+import type { HCRReport, IssueEntry } from './types';
+
+// Small deterministic jitter (±3 points) standing in for week-to-week noise
+export const JITTER = [1, -2, 3, 0, -1, 2, -3, 1, 0, -2, 2, -1];
+
+/**
+ * Issue of a fixture report: name, sentiment index and any further fields
+ * the suite tests (e.g. prominence or episode_count)
+ */
+export type FixtureIssue = [name: string, sentiment: number, fields?: Partial<IssueEntry>];
+
+/**
+ * Sunday `weeks` weeks after `firstWeekStart`, plus `dayOffset` days (YYYY-MM-DD)
+ */
+export function weekStartAfter(firstWeekStart: string, weeks: number, dayOffset = 0): string {
+  const date = new Date(`${firstWeekStart}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + weeks * 7 + dayOffset);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Weekly report for the week starting `weekStart` with the given issues in rank order
+ */
+export function createWeeklyReport(weekStart: string, issues: FixtureIssue[]): HCRReport {
+  const window = {
+    window_start: weekStart,
+    window_end: weekStartAfter(weekStart, 0, 6),
+    timezone: 'America/New_York'
+  };
+  return {
+    run_window: window,
+    prior_window: window,
+    generated_at: new Date().toISOString(),
+    sources_analyzed: [],
+    executive_summary: [],
+    top_issues: issues.map(([name, sentiment, fields], idx) => ({
+      issue_id: `issue-${idx + 1}`,
+      issue_name: name,
+      rank_this_week: idx + 1,
+      sentiment_index: sentiment,
+      sentiment_label: 'neutral',
+      confidence: 0.8,
+      delta_vs_prior_week: 'unknown',
+      why_this_week: '',
+      what_changed_week_over_week: '',
+      evidence: [],
+      ...fields
+    })),
+    issues_gaining_importance: [],
+    issues_losing_importance: [],
+    narrative_shifts: [],
+    evidence_gaps: [],
+    quality_flags: { hallucination_risk: 'low', data_coverage: 'full', notes: [] }
+  };
+}
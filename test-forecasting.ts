@@ -0,0 +1,158 @@
+/**
+ * Manual test harness for next-week forecasts (utils/forecasting.ts, their
+ * use in utils/reportUtils.ts aggregateReports and the accuracy summary of
+ * services/forecastTracking.ts)
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.forecastingTests.runAll()
+ *
+ * Uses in-memory series and reports; stored forecasts are untouched.
+ */
+
+import type { ForecastRecord } from './types';
+import { forecastNext } from './utils/forecasting';
+import { aggregateReports } from './utils/reportUtils';
+import { summarizeForecastAccuracy } from './services/forecastTracking';
+import { JITTER, createWeeklyReport, weekStartAfter, type FixtureIssue } from './test-fixtures';
+
+function createRecord(method: ForecastRecord['method'], prediction: number, actual: number): ForecastRecord {
+  return {
+    series: 'overall',
+    metric: 'sentiment',
+    week_start: '2032-03-07',
+    method,
+    prediction,
+    lower: prediction - 5,
+    upper: prediction + 5,
+    level: 0.8,
+    history: 8,
+    forecast_id: `test_${method}_${prediction}_${actual}`,
+    profile_id: 'test',
+    made_at: new Date().toISOString(),
+    actual,
+    error: actual - prediction,
+    within_interval: actual >= prediction - 5 && actual <= prediction + 5,
+    resolved_at: new Date().toISOString()
+  };
+}
+
+async function testExponentialSmoothing(): Promise<void> {
+  console.log("\n=== Test: Exponential Smoothing ===");
+  const forecast = forecastNext(JITTER.map(j => 50 + j), 'exponential-smoothing', 0.8);
+
+  if (!forecast || Math.abs(forecast.prediction - 50) > 3) {
+    throw new Error(`Flat series should forecast about 50: ${JSON.stringify(forecast)}`);
+  }
+  if (!(forecast.lower < forecast.prediction && forecast.prediction < forecast.upper) || forecast.upper - forecast.lower > 15) {
+    throw new Error(`Interval should bracket the prediction with a noise-sized width: ${JSON.stringify(forecast)}`);
+  }
+  console.log(`✓ ${forecast.prediction.toFixed(1)} (80% interval ${forecast.lower.toFixed(1)}–${forecast.upper.toFixed(1)})`);
+}
+
+async function testAutoregressiveMeanReversion(): Promise<void> {
+  console.log("\n=== Test: Autoregressive Mean Reversion ===");
+  // Sentiment that swings back each week: AR(1) picks up the negative persistence, smoothing cannot
+  const swinging = [60, 40, 61, 39, 60, 41, 59, 40];
+  const ar = forecastNext(swinging, 'autoregressive', 0.8)!;
+  const smoothed = forecastNext(swinging, 'exponential-smoothing', 0.8)!;
+
+  if (ar.prediction < 55) {
+    throw new Error(`AR(1) should expect the swing back up after 40, got ${ar.prediction}`);
+  }
+  if (Math.abs(ar.prediction - 60) >= Math.abs(smoothed.prediction - 60)) {
+    throw new Error(`AR(1) should beat smoothing on a swinging series: ${ar.prediction} vs ${smoothed.prediction}`);
+  }
+  console.log(`✓ AR(1) ${ar.prediction.toFixed(1)}, smoothing ${smoothed.prediction.toFixed(1)}`);
+}
+
+async function testHistoryAndBounds(): Promise<void> {
+  console.log("\n=== Test: Short History and Bounds ===");
+  if (forecastNext([50, 52, 51], 'exponential-smoothing', 0.8) !== null) {
+    throw new Error("Three weeks should be too short to forecast.");
+  }
+
+  const prominence = forecastNext([0.9, 0.95, 0.97, 0.99, 1], 'autoregressive', 0.95, { min: 0, max: 1, minSigma: 0.01 })!;
+  if (prominence.upper > 1 || prominence.prediction > 1 || prominence.lower < 0) {
+    throw new Error(`Prominence forecast left the 0-1 range: ${JSON.stringify(prominence)}`);
+  }
+
+  const flat = forecastNext([50, 50, 50, 50, 50], 'exponential-smoothing', 0.8, { minSigma: 1 })!;
+  if (flat.upper - flat.lower <= 0) {
+    throw new Error(`A flat history should still get an interval: ${JSON.stringify(flat)}`);
+  }
+  console.log("✓ Short histories skipped, ranges respected, flat histories keep an interval");
+}
+
+async function testAggregateReportsForecasts(): Promise<void> {
+  console.log("\n=== Test: Period Comparison Stores Forecasts ===");
+  const reports = JITTER.slice(0, 6).map((j, i) =>
+    createWeeklyReport(weekStartAfter('2032-02-01', i), [
+      ['Tariffs', 55 + j, { prominence: 0.5 + j / 100 }],
+      // Dropped from the latest week, so it gets no forecast
+      ...(i < 5 ? [['Budget Talks', 45 - j, { prominence: 0.3 }] as FixtureIssue] : [])
+    ])
+  );
+
+  const period = aggregateReports(reports, null, { method: 'autoregressive', intervalLevel: 0.9 }).period_comparison!;
+  const forecasts = period.forecasts ?? [];
+  const nextWeek = '2032-03-14';
+
+  const overall = forecasts.find(f => f.series === 'overall');
+  const tariffs = forecasts.filter(f => f.issue_name === 'Tariffs');
+  if (!overall || overall.week_start !== nextWeek || overall.method !== 'autoregressive' || overall.level !== 0.9) {
+    throw new Error(`Overall forecast missing or misdated: ${JSON.stringify(overall)}`);
+  }
+  if (tariffs.length !== 2 || !tariffs.some(f => f.metric === 'prominence' && f.prediction <= 1)) {
+    throw new Error(`Tariffs should get sentiment and prominence forecasts: ${JSON.stringify(tariffs)}`);
+  }
+  if (forecasts.some(f => f.issue_name === 'Budget Talks')) {
+    throw new Error("Issues missing from the latest week should not be forecast.");
+  }
+  if (!period.notes.some(note => note.startsWith(`Forecast for the week starting ${nextWeek}`))) {
+    throw new Error(`Forecast not noted: ${JSON.stringify(period.notes)}`);
+  }
+  console.log(`✓ ${forecasts.length} forecasts for the week starting ${nextWeek}`);
+}
+
+async function testAccuracySummary(): Promise<void> {
+  console.log("\n=== Test: Accuracy Summary ===");
+  const unresolved = { ...createRecord('autoregressive', 50, 50), actual: null, error: null, within_interval: null, resolved_at: null };
+  const summary = summarizeForecastAccuracy([
+    createRecord('exponential-smoothing', 50, 52),
+    createRecord('exponential-smoothing', 50, 60),
+    createRecord('autoregressive', 50, 49),
+    unresolved
+  ]);
+
+  const smoothing = summary.find(a => a.method === 'exponential-smoothing');
+  const ar = summary.find(a => a.method === 'autoregressive');
+  if (!smoothing || smoothing.resolved !== 2 || smoothing.mean_absolute_error !== 6 || smoothing.interval_coverage !== 0.5) {
+    throw new Error(`Unexpected smoothing accuracy: ${JSON.stringify(smoothing)}`);
+  }
+  if (!ar || ar.resolved !== 1) {
+    throw new Error(`Unresolved forecasts must not count: ${JSON.stringify(ar)}`);
+  }
+  console.log(`✓ Smoothing off by ${smoothing.mean_absolute_error} on average, ${smoothing.interval_coverage * 100}% inside`);
+}
+
+async function runAll(): Promise<void> {
+  await testExponentialSmoothing();
+  await testAutoregressiveMeanReversion();
+  await testHistoryAndBounds();
+  await testAggregateReportsForecasts();
+  await testAccuracySummary();
+  console.log("\nAll forecasting tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).forecastingTests = {
+    testExponentialSmoothing,
+    testAutoregressiveMeanReversion,
+    testHistoryAndBounds,
+    testAggregateReportsForecasts,
+    testAccuracySummary,
+    runAll
+  };
+}
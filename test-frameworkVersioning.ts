@@ -176,7 +176,7 @@ async function testCreateMixedVersionEpisodes(): Promise<void> {
         }
       ],
       overall_sentiment: 50,
-      trump_admin_focus: true,
+      focus_relevance: 1,
       key_quotes: ['Test quote 1'],
       framework_version: 'v1-legacy',
       processed_at: new Date('2024-01-01').toISOString(),
@@ -197,7 +197,7 @@ async function testCreateMixedVersionEpisodes(): Promise<void> {
         }
       ],
       overall_sentiment: 45,
-      trump_admin_focus: true,
+      focus_relevance: 1,
       key_quotes: ['Test quote 2'],
       framework_version: 'v1.0.0',
       processed_at: new Date('2024-02-01').toISOString(),
@@ -218,7 +218,7 @@ async function testCreateMixedVersionEpisodes(): Promise<void> {
         }
       ],
       overall_sentiment: 55,
-      trump_admin_focus: true,
+      focus_relevance: 1,
       key_quotes: ['Test quote 3'],
       framework_version: 'v2.0.0',
       processed_at: new Date().toISOString(),
@@ -358,7 +358,7 @@ async function testBackwardCompatibility(): Promise<void> {
       sample.published_at &&
       Array.isArray(sample.topics) &&
       typeof sample.overall_sentiment === 'number' &&
-      typeof sample.trump_admin_focus === 'boolean';
+      typeof sample.focus_relevance === 'number';
 
     console.log(`  Required fields: ${hasRequiredFields ? '✓ Present' : '✗ Missing'}`);
     console.log(`  Topics count: ${sample.topics?.length || 0}`);
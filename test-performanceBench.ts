@@ -231,7 +231,7 @@ function createMockAnalyzeEpisode(options: {
         }
       ],
       overall_sentiment: 45 + (base % 25),
-      trump_admin_focus: true,
+      focus_relevance: 1,
       key_quotes: [`Key quote (${episodeId})`],
       framework_version: frameworkVersion,
       processed_at: new Date().toISOString(),
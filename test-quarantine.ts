@@ -0,0 +1,233 @@
+/**
+ * Manual test harness for services/quarantine.ts
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.quarantineTests.runAll()
+ *
+ * Uses mocked discovery/analysis and episode IDs in 2032 so real data is
+ * untouched; all records created here are cleaned up.
+ */
+
+import type { EpisodeInsight, EpisodeMetadata } from './types';
+import { processEpisodesInRange } from './services/episodeProcessor';
+import {
+  classifyAnalysisError,
+  retryFailedEpisode,
+  updateFailedEpisodeMetadata,
+  setFailedEpisodeSkipped
+} from './services/quarantine';
+import { StructuredOutputError } from './services/structuredOutput';
+import { ProviderHttpError } from './services/llmProvider';
+import { createAbortError } from './services/requestScheduler';
+import { getFailedEpisode, deleteFailedEpisode, deleteEpisode, getEpisode } from './services/episodeDB';
+
+const EPISODES: EpisodeMetadata[] = [
+  { episode_id: 'quarantine-test-2032-01-06', show_name: 'Test Show', title: 'Good Episode', published_at: '2032-01-06' },
+  { episode_id: 'quarantine-test-2032-01-07', show_name: 'Test Show', title: 'Bad Episode', published_at: '2032-01-07' }
+];
+
+function mockInsight(metadata: EpisodeMetadata): EpisodeInsight {
+  return {
+    ...metadata,
+    topics: [{ topic_name: 'Tariffs', sentiment_score: 40, confidence: 0.8, evidence_quotes: [], prominence_score: 0.5 }],
+    overall_sentiment: 40,
+    focus_relevance: 1,
+    key_quotes: [],
+    framework_version: 'quarantine-test',
+    processed_at: new Date().toISOString(),
+    model_used: 'mock'
+  };
+}
+
+async function cleanup(): Promise<void> {
+  for (const ep of EPISODES) {
+    await deleteFailedEpisode(ep.episode_id);
+    await deleteEpisode(ep.episode_id);
+  }
+}
+
+async function testErrorClassification(): Promise<void> {
+  console.log("\n=== Test: Error Classification ===");
+  const cases: Array<[unknown, string]> = [
+    [new StructuredOutputError('analysis', [{ path: '$', message: 'Invalid JSON' }], 'oops'), 'schema_validation'],
+    [new ProviderHttpError('Too many requests ({"code":429})', 429), 'rate_limit'],
+    [new ProviderHttpError('Unauthorized ({"code":401})', 401), 'auth'],
+    [new Error('fetch failed'), 'network'],
+    [new Error('upstream error {"code":503}'), 'server'],
+    [new Error('something odd'), 'unknown']
+  ];
+
+  for (const [error, expected] of cases) {
+    const actual = classifyAnalysisError(error);
+    if (actual !== expected) {
+      throw new Error(`Expected ${expected}, got ${actual} for ${(error as Error).message}`);
+    }
+  }
+
+  console.log("✓ Errors map to the expected classes");
+}
+
+async function testFailuresAreQuarantined(): Promise<void> {
+  console.log("\n=== Test: Failures Are Quarantined ===");
+  await cleanup();
+
+  const analyzeEpisode = async (episodeId: string, metadata: EpisodeMetadata) => {
+    if (episodeId === EPISODES[1].episode_id) {
+      throw new StructuredOutputError('analysis', [{ path: '$.topics', message: 'is required' }], '{"nope": true}');
+    }
+    return mockInsight(metadata);
+  };
+
+  try {
+    const result = await processEpisodesInRange('2032-01-05', '2032-01-11', {
+      deps: { searchEpisodesInRange: async () => EPISODES, analyzeEpisode },
+      forceReprocess: true
+    });
+
+    if (result.errors.length !== 1 || result.errors[0].episodeId !== EPISODES[1].episode_id) {
+      throw new Error(`Expected the bad episode in errors, got ${JSON.stringify(result.errors)}`);
+    }
+
+    const record = await getFailedEpisode(EPISODES[1].episode_id);
+    if (!record || record.raw_response !== '{"nope": true}' || record.error_class !== 'schema_validation' || record.attempt_count !== 1) {
+      throw new Error(`Quarantine record incomplete: ${JSON.stringify(record)}`);
+    }
+
+    // A second failing run increments the attempt count
+    await processEpisodesInRange('2032-01-05', '2032-01-11', {
+      deps: { searchEpisodesInRange: async () => EPISODES, analyzeEpisode },
+      forceReprocess: true
+    });
+    const second = await getFailedEpisode(EPISODES[1].episode_id);
+    if (second?.attempt_count !== 2) {
+      throw new Error(`Expected attempt_count 2, got ${second?.attempt_count}`);
+    }
+  } finally {
+    await cleanup();
+  }
+
+  console.log("✓ Failed analyses are stored with raw text, class and attempt count");
+}
+
+async function testEditRetryAndSkip(): Promise<void> {
+  console.log("\n=== Test: Edit, Retry and Skip ===");
+  await cleanup();
+
+  const failing = async () => { throw new Error('something odd'); };
+
+  try {
+    await processEpisodesInRange('2032-01-05', '2032-01-11', {
+      deps: { searchEpisodesInRange: async () => [EPISODES[1]], analyzeEpisode: failing },
+      forceReprocess: true
+    });
+
+    await updateFailedEpisodeMetadata(EPISODES[1].episode_id, { title: 'Corrected Title' });
+
+    let seenTitle = '';
+    await retryFailedEpisode(EPISODES[1].episode_id, async (_id, metadata) => {
+      seenTitle = metadata.title;
+      return mockInsight(metadata);
+    });
+
+    if (seenTitle !== 'Corrected Title') {
+      throw new Error("Retry did not use edited metadata.");
+    }
+    if (await getFailedEpisode(EPISODES[1].episode_id)) {
+      throw new Error("Successful retry should remove the quarantine record.");
+    }
+    if (!(await getEpisode(EPISODES[1].episode_id))) {
+      throw new Error("Successful retry should save the episode.");
+    }
+
+    // Skipped episodes are excluded from later runs
+    await deleteEpisode(EPISODES[1].episode_id);
+    await processEpisodesInRange('2032-01-05', '2032-01-11', {
+      deps: { searchEpisodesInRange: async () => [EPISODES[1]], analyzeEpisode: failing },
+      forceReprocess: true
+    });
+    await setFailedEpisodeSkipped(EPISODES[1].episode_id, true);
+
+    let analyzeCalls = 0;
+    const result = await processEpisodesInRange('2032-01-05', '2032-01-11', {
+      deps: {
+        searchEpisodesInRange: async () => [EPISODES[1]],
+        analyzeEpisode: async (_id, metadata) => { analyzeCalls++; return mockInsight(metadata); }
+      },
+      forceReprocess: true
+    });
+
+    if (analyzeCalls !== 0 || result.stats.skipped !== 1) {
+      throw new Error(`Skipped episode was processed (calls: ${analyzeCalls}, skipped: ${result.stats.skipped})`);
+    }
+  } finally {
+    await cleanup();
+  }
+
+  console.log("✓ Edited metadata is used on retry; skipped episodes stay out of runs");
+}
+
+async function testCancelledRunIsNotQuarantined(): Promise<void> {
+  console.log("\n=== Test: Cancelled Run Is Not Quarantined ===");
+  await cleanup();
+
+  const controller = new AbortController();
+  const reported: Array<[string, boolean]> = [];
+  // The run is cancelled while the second analysis waits in the provider queue
+  const analyzeEpisode = async (episodeId: string, metadata: EpisodeMetadata) => {
+    if (episodeId === EPISODES[0].episode_id) {
+      return mockInsight(metadata);
+    }
+    await Promise.resolve();
+    controller.abort();
+    throw createAbortError();
+  };
+
+  try {
+    let cancelled = false;
+    try {
+      await processEpisodesInRange('2032-01-05', '2032-01-11', {
+        deps: { searchEpisodesInRange: async () => EPISODES, analyzeEpisode },
+        forceReprocess: true,
+        concurrency: 2,
+        signal: controller.signal,
+        onEpisodeAnalyzed: (metadata, success) => reported.push([metadata.episode_id, success])
+      });
+    } catch {
+      cancelled = true;
+    }
+
+    if (!cancelled) {
+      throw new Error("A cancelled run should reject.");
+    }
+    if (await getFailedEpisode(EPISODES[1].episode_id)) {
+      throw new Error("An episode cancelled mid-run must not be quarantined.");
+    }
+    if (reported.some(([, success]) => !success)) {
+      throw new Error(`No episode should be reported as failed: ${JSON.stringify(reported)}`);
+    }
+  } finally {
+    await cleanup();
+  }
+
+  console.log("✓ Cancelled analyses are neither quarantined nor reported as failed");
+}
+
+async function runAll(): Promise<void> {
+  await testErrorClassification();
+  await testFailuresAreQuarantined();
+  await testEditRetryAndSkip();
+  await testCancelledRunIsNotQuarantined();
+  console.log("\nAll quarantine tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).quarantineTests = {
+    testErrorClassification,
+    testFailuresAreQuarantined,
+    testEditRetryAndSkip,
+    testCancelledRunIsNotQuarantined,
+    runAll
+  };
+}
@@ -39,7 +39,7 @@ function generateTestEpisode(
       prominence_score: t.prominence
     })),
     overall_sentiment: topics.reduce((sum, t) => sum + t.sentiment, 0) / topics.length,
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: topics.flatMap(t => t.quotes).slice(0, 5),
     framework_version: "v2-test",
     processed_at: new Date().toISOString(),
@@ -0,0 +1,192 @@
+/**
+ * Manual test harness for services/requestScheduler.ts
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.requestSchedulerTests.runAll()
+ *
+ * Uses private scheduler instances with fake operations; no provider calls.
+ */
+
+import {
+  createRequestScheduler,
+  getRetryAfterMs,
+  parseRetryAfterHeader,
+  isRateLimitError,
+  type RateLimits,
+  type ThrottleState
+} from './services/requestScheduler';
+import { ProviderHttpError } from './services/llmProvider';
+
+const UNLIMITED: RateLimits = { requestsPerMinute: 0, tokensPerMinute: 0, maxRateLimitRetries: 3 };
+
+async function testRetryAfterParsing(): Promise<void> {
+  console.log("\n=== Test: Retry-After Parsing ===");
+  const gemini = new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"31s"}]}}');
+  const http = new ProviderHttpError('OpenAI-compatible request failed ({"code":429})', 429, parseRetryAfterHeader('7'));
+
+  if (!isRateLimitError(gemini) || !isRateLimitError(http) || isRateLimitError(new Error('{"code":500}'))) {
+    throw new Error("Rate-limit detection is wrong.");
+  }
+  if (getRetryAfterMs(gemini) !== 31000 || getRetryAfterMs(http) !== 7000) {
+    throw new Error(`Unexpected retry-after: ${getRetryAfterMs(gemini)}, ${getRetryAfterMs(http)}`);
+  }
+  if (getRetryAfterMs(new Error('Quota exceeded. Please retry in 2.5s.')) !== 2500) {
+    throw new Error("Free-text retry hint not parsed.");
+  }
+  const now = Date.parse('2025-06-01T00:00:00Z');
+  if (parseRetryAfterHeader('Sun, 01 Jun 2025 00:00:10 GMT', now) !== 10000 || parseRetryAfterHeader(null) !== null) {
+    throw new Error("HTTP-date Retry-After not parsed.");
+  }
+
+  console.log("✓ Retry hints are read from Gemini, HTTP headers and message text");
+}
+
+async function testRequestBudget(): Promise<void> {
+  console.log("\n=== Test: Requests-Per-Minute Budget ===");
+  // 120 RPM: a full bucket admits 120 calls at once, then one every 500ms
+  const scheduler = createRequestScheduler(() => ({ ...UNLIMITED, requestsPerMinute: 120 }));
+  const states: ThrottleState[] = [];
+  scheduler.subscribe(state => states.push(state));
+
+  const burst = Array.from({ length: 120 }, () => scheduler.schedule('analysis', 100, async () => 'ok'));
+  await Promise.all(burst);
+
+  const start = Date.now();
+  await scheduler.schedule('analysis', 100, async () => 'ok');
+  const waited = Date.now() - start;
+
+  if (waited < 400) {
+    throw new Error(`Call after the burst should wait ~500ms, waited ${waited}ms`);
+  }
+  if (!states.some(s => s.status === 'waiting_rpm')) {
+    throw new Error("Throttle state never reported waiting_rpm.");
+  }
+
+  console.log(`✓ Call 121 waited ${waited}ms for RPM budget`);
+}
+
+async function testTokenBudget(): Promise<void> {
+  console.log("\n=== Test: Tokens-Per-Minute Budget ===");
+  // 60,000 TPM refills 1,000 tokens per second
+  const scheduler = createRequestScheduler(() => ({ ...UNLIMITED, tokensPerMinute: 60_000 }));
+
+  await scheduler.schedule('analysis', 60_000, async () => 'ok');
+  const start = Date.now();
+  await scheduler.schedule('summary', 300, async () => 'ok');
+  const waited = Date.now() - start;
+
+  if (waited < 200) {
+    throw new Error(`Expected to wait ~300ms for 300 tokens, waited ${waited}ms`);
+  }
+  if (scheduler.getState().status !== 'idle') {
+    throw new Error(`Scheduler should be idle, got ${scheduler.getState().status}`);
+  }
+
+  console.log(`✓ Call waited ${waited}ms for TPM budget`);
+}
+
+async function testRateLimitPausesQueue(): Promise<void> {
+  console.log("\n=== Test: 429 Pauses the Whole Queue ===");
+  const scheduler = createRequestScheduler(() => UNLIMITED);
+  const startTimes: Record<string, number> = {};
+  const start = Date.now();
+  let firstAttempts = 0;
+
+  const first = scheduler.schedule('analysis', 100, async () => {
+    firstAttempts++;
+    if (firstAttempts === 1) {
+      throw new ProviderHttpError('Too many requests ({"code":429})', 429, 300);
+    }
+    startTimes.firstRetry = Date.now() - start;
+    return 'first';
+  });
+
+  // Queued while the pause is active: must not start before it ends
+  await new Promise(resolve => setTimeout(resolve, 50));
+  if (scheduler.getState().status !== 'paused') {
+    throw new Error(`Expected paused state, got ${scheduler.getState().status}`);
+  }
+  const second = scheduler.schedule('search', 100, async () => {
+    startTimes.second = Date.now() - start;
+    return 'second';
+  });
+
+  const results = await Promise.all([first, second]);
+  if (results[0] !== 'first' || results[1] !== 'second') {
+    throw new Error("Rate-limited call was not retried.");
+  }
+  if (startTimes.second < 280 || startTimes.firstRetry < 280) {
+    throw new Error(`Calls ran during the pause: ${JSON.stringify(startTimes)}`);
+  }
+  if (scheduler.getState().rateLimitHits !== 1) {
+    throw new Error("Rate-limit hit was not counted.");
+  }
+
+  // Non-rate-limit errors are not retried by the scheduler
+  let attempts = 0;
+  try {
+    await scheduler.schedule('analysis', 100, async () => {
+      attempts++;
+      throw new Error('{"code":500}');
+    });
+  } catch {
+    // expected
+  }
+  if (attempts !== 1) {
+    throw new Error(`Server errors should be left to withRetry, got ${attempts} attempts`);
+  }
+
+  console.log("✓ A 429 pauses every queued call for the retry-after delay, then retries");
+}
+
+async function testAbortQueuedCall(): Promise<void> {
+  console.log("\n=== Test: Aborting a Queued Call ===");
+  // 60 RPM: after the first call the next slot opens in ~1s
+  const scheduler = createRequestScheduler(() => ({ ...UNLIMITED, requestsPerMinute: 60 }));
+  await Promise.all(Array.from({ length: 60 }, () => scheduler.schedule('analysis', 100, async () => 'ok')));
+
+  const controller = new AbortController();
+  let ran = false;
+  const queued = scheduler.schedule('analysis', 100, async () => { ran = true; return 'ok'; }, controller.signal);
+  const next = scheduler.schedule('analysis', 100, async () => 'next');
+  setTimeout(() => controller.abort(), 50);
+
+  const error = await queued.then(() => null, (err: Error) => err);
+  if (!error || error.name !== 'AbortError') {
+    throw new Error(`Expected an AbortError, got ${error}`);
+  }
+  if (await next !== 'next' || ran) {
+    throw new Error("The aborted call must not run, and the call behind it must still run.");
+  }
+
+  const preAborted = new AbortController();
+  preAborted.abort();
+  const rejected = await scheduler.schedule('analysis', 100, async () => 'ok', preAborted.signal).then(() => false, () => true);
+  if (!rejected) {
+    throw new Error("An already-aborted signal should reject without queueing.");
+  }
+
+  console.log("✓ Aborted calls leave the queue with an AbortError");
+}
+
+async function runAll(): Promise<void> {
+  await testRetryAfterParsing();
+  await testRequestBudget();
+  await testTokenBudget();
+  await testRateLimitPausesQueue();
+  await testAbortQueuedCall();
+  console.log("\nAll request scheduler tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).requestSchedulerTests = {
+    testRetryAfterParsing,
+    testRequestBudget,
+    testTokenBudget,
+    testRateLimitPausesQueue,
+    testAbortQueuedCall,
+    runAll
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Manual test harness for storage management (services/storageManager.ts)
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.storageManagerTests.runAll()
+ */
+
+import type { EpisodeInsight } from './types';
+import { formatBytes, oldEpisodeCutoff, storageWarning, truncateEpisodeQuotes } from './services/storageManager';
+
+const LONG_QUOTE = "The administration announced a sweeping new tariff schedule on Tuesday, and markets reacted within minutes as traders repriced exposure.";
+
+const EPISODE: EpisodeInsight = {
+  episode_id: "test-storage-episode",
+  show_name: "Storage Show",
+  title: "Old Episode",
+  published_at: "2030-01-07",
+  topics: [
+    {
+      topic_name: "Tariffs",
+      sentiment_score: 35,
+      confidence: 0.8,
+      prominence_score: 0.6,
+      evidence_quotes: [LONG_QUOTE, "Second quote.", "Third quote."],
+      evidence_offsets: ["01:10", "04:20", null]
+    },
+    { topic_name: "Weather", sentiment_score: 50, confidence: 0.6, prominence_score: 0.1, evidence_quotes: ["Sunny."] }
+  ],
+  overall_sentiment: 45,
+  focus_relevance: 0.7,
+  key_quotes: [LONG_QUOTE],
+  framework_version: "v2.0.0",
+  processed_at: "2030-01-08T10:00:00.000Z",
+  model_used: "model-a"
+};
+
+async function testTruncateQuotes(): Promise<void> {
+  console.log("\n=== Test: Truncate Evidence Quotes ===");
+  const truncated = truncateEpisodeQuotes(EPISODE, 2, 60);
+  if (!truncated) {
+    throw new Error("Episode with long quotes should be truncated.");
+  }
+  const tariffs = truncated.topics[0];
+  if (tariffs.evidence_quotes.length !== 2 || tariffs.evidence_offsets?.length !== 2) {
+    throw new Error(`Quotes and offsets should be cut together: ${JSON.stringify(tariffs)}`);
+  }
+  if (tariffs.evidence_offsets[0] !== null || tariffs.evidence_offsets[1] !== "04:20") {
+    throw new Error(`A shortened quote should drop its offset, others keep theirs: ${JSON.stringify(tariffs.evidence_offsets)}`);
+  }
+  if (tariffs.evidence_quotes[0].length > 60 || !tariffs.evidence_quotes[0].endsWith('…') || / …$/.test(tariffs.evidence_quotes[0])) {
+    throw new Error(`Long quote not shortened at a word boundary: "${tariffs.evidence_quotes[0]}"`);
+  }
+  if (truncated.topics[1] !== EPISODE.topics[1] || truncated.key_quotes[0].length > 60) {
+    throw new Error("Short topics should be left alone and key quotes shortened.");
+  }
+  if (EPISODE.topics[0].evidence_quotes.length !== 3) {
+    throw new Error("The original episode must not be modified.");
+  }
+  console.log(`✓ "${tariffs.evidence_quotes[0]}"`);
+}
+
+async function testNothingToTruncate(): Promise<void> {
+  console.log("\n=== Test: Nothing To Truncate ===");
+  if (truncateEpisodeQuotes(EPISODE, 5, 1000) !== null) {
+    throw new Error("An episode within the limits should not be rewritten.");
+  }
+  console.log("✓ Episodes within the limits are skipped");
+}
+
+async function testQuotaWarning(): Promise<void> {
+  console.log("\n=== Test: Quota Warning ===");
+  const quota = 500 * 1024 * 1024;
+  if (storageWarning({ usage: quota * 0.5, quota, percentage: 50 }, 80) !== null) {
+    throw new Error("No warning expected below the warning level.");
+  }
+  const warning = storageWarning({ usage: quota * 0.85, quota, percentage: 85 }, 80);
+  if (!warning || !warning.includes("85%") || !warning.includes("500 MB")) {
+    throw new Error(`Unexpected warning: ${warning}`);
+  }
+  if (storageWarning(null, 80) !== null) {
+    throw new Error("No warning expected without an estimate.");
+  }
+  console.log(`✓ ${warning}`);
+}
+
+async function testCutoffAndFormatting(): Promise<void> {
+  console.log("\n=== Test: Cutoff and Byte Formatting ===");
+  const cutoff = oldEpisodeCutoff(365, new Date("2031-01-07T12:00:00.000Z"));
+  if (cutoff !== "2030-01-07") {
+    throw new Error(`Expected cutoff 2030-01-07, got ${cutoff}`);
+  }
+  const formatted = [formatBytes(512), formatBytes(1536), formatBytes(250 * 1024 * 1024)];
+  if (formatted.join('|') !== "512 B|1.5 KB|250 MB") {
+    throw new Error(`Unexpected formatting: ${formatted.join('|')}`);
+  }
+  console.log(`✓ Cutoff ${cutoff}; ${formatted.join(', ')}`);
+}
+
+async function runAll(): Promise<void> {
+  await testTruncateQuotes();
+  await testNothingToTruncate();
+  await testQuotaWarning();
+  await testCutoffAndFormatting();
+  console.log("\nAll storage manager tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).storageManagerTests = {
+    testTruncateQuotes,
+    testNothingToTruncate,
+    testQuotaWarning,
+    testCutoffAndFormatting,
+    runAll
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Manual test harness for services/topicEmbeddings.ts and the matcher hook
+ * in utils/aggregation.ts
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.topicEmbeddingsTests.runAll()
+ *
+ * Uses stub vectors and stub providers; no network calls are made. The cache
+ * test stores a few vectors under a test-only model name.
+ */
+
+import type { EpisodeInsight, HCRReport } from './types';
+import { computeDeltas, normalizeTopic, rankIssues, TOKEN_OVERLAP_MATCHER } from './utils/aggregation';
+import { aggregateReports } from './utils/reportUtils';
+import {
+  cosineSimilarity,
+  createEmbeddingMatcher,
+  describeTopicMatcher,
+  embedTopics,
+  getTopicMatcher
+} from './services/topicEmbeddings';
+import { createLLMProvider, setLLMProviderOverride, type LLMProvider } from './services/llmProvider';
+import { DEFAULT_CONFIG } from './constants/config';
+
+const CACHE_TEST_MODEL = 'topic-embeddings-test-model';
+
+function createEpisode(episodeId: string, publishedAt: string, topicNames: string[]): EpisodeInsight {
+  return {
+    episode_id: episodeId,
+    show_name: "Embedding Show",
+    title: `Episode ${episodeId}`,
+    published_at: publishedAt,
+    topics: topicNames.map(name => ({
+      topic_name: name,
+      sentiment_score: 50,
+      confidence: 0.8,
+      prominence_score: 0.6,
+      evidence_quotes: [`Quote about ${name}.`]
+    })),
+    overall_sentiment: 50,
+    focus_relevance: 1,
+    key_quotes: [],
+    framework_version: "embedding-test",
+    processed_at: new Date().toISOString(),
+    model_used: "test-model"
+  };
+}
+
+function createWeeklyReport(weekStart: string, weekEnd: string, issueName: string, sentiment: number): HCRReport {
+  return {
+    run_window: { window_start: weekStart, window_end: weekEnd, timezone: 'America/New_York' },
+    prior_window: { window_start: weekStart, window_end: weekEnd, timezone: 'America/New_York' },
+    generated_at: new Date().toISOString(),
+    sources_analyzed: [],
+    executive_summary: [],
+    top_issues: [{
+      issue_id: 'issue-1',
+      issue_name: issueName,
+      rank_this_week: 1,
+      sentiment_index: sentiment,
+      sentiment_label: 'neutral',
+      confidence: 0.8,
+      delta_vs_prior_week: 'unknown',
+      why_this_week: '',
+      what_changed_week_over_week: '',
+      evidence: []
+    }],
+    issues_gaining_importance: [],
+    issues_losing_importance: [],
+    narrative_shifts: [],
+    evidence_gaps: [],
+    quality_flags: { hallucination_risk: 'low', data_coverage: 'full', notes: [] }
+  };
+}
+
+// Trade topics point one way, immigration topics the other
+function stubVectors(): Map<string, number[]> {
+  return new Map([
+    [normalizeTopic('Tariffs on China'), [0.9, 0.1, 0]],
+    [normalizeTopic('Trade War Escalation'), [0.85, 0.2, 0]],
+    [normalizeTopic('Border Wall Funding'), [0, 0.1, 0.95]]
+  ]);
+}
+
+function stubProvider(onEmbed?: (texts: string[]) => void): LLMProvider {
+  return {
+    type: 'fixture',
+    model: 'stub',
+    supportsWebSearch: false,
+    generateJson: async () => { throw new Error('Not used in embedding tests'); },
+    embed: async ({ texts, model }) => {
+      onEmbed?.(texts);
+      return { vectors: texts.map(text => [text.length, 1]), model: model ?? 'stub-embedding' };
+    }
+  };
+}
+
+async function testEmbeddingMatcherGroupsParaphrases(): Promise<void> {
+  console.log("\n=== Test: Embedding Matcher Groups Paraphrases ===");
+  const episodes = [
+    createEpisode('emb-1', '2030-02-04', ['Tariffs on China', 'Border Wall Funding']),
+    createEpisode('emb-2', '2030-02-05', ['Trade War Escalation'])
+  ];
+
+  const byTokens = rankIssues(episodes);
+  if (byTokens.length !== 3) {
+    throw new Error(`Precondition failed: token overlap should keep all topics apart, got ${byTokens.length}`);
+  }
+
+  const matcher = createEmbeddingMatcher(stubVectors(), 0.8);
+  const issues = rankIssues(episodes, null, matcher);
+  const trade = issues.find(issue => issue.member_topics.length === 2);
+  if (issues.length !== 2 || !trade || trade.episode_count !== 2) {
+    throw new Error(`Paraphrased topics not grouped: ${JSON.stringify(issues.map(i => [i.issue_name, i.member_topics]))}`);
+  }
+  console.log(`✓ Grouped ${trade.member_topics.join(' + ')}; unrelated topic kept apart`);
+}
+
+async function testEmbeddingMatcherAcrossWeeks(): Promise<void> {
+  console.log("\n=== Test: Embedding Matcher Across Weeks ===");
+  const matcher = createEmbeddingMatcher(stubVectors(), 0.8);
+  const current = rankIssues([createEpisode('emb-3', '2030-02-11', ['Trade War Escalation'])], null, matcher);
+  const prior = rankIssues([createEpisode('emb-4', '2030-02-04', ['Tariffs on China'])], null, matcher);
+
+  const tokenDeltas = computeDeltas(current, prior).deltas;
+  const { deltas } = computeDeltas(current, prior, null, matcher);
+  if (tokenDeltas[0].priorIssue !== null) {
+    throw new Error("Precondition failed: token overlap should not match these issues.");
+  }
+  if (deltas[0].priorIssue?.normalized_name !== prior[0].normalized_name || deltas[0].matchConfidence < 0.8) {
+    throw new Error(`Issue not matched to the prior week: ${JSON.stringify(deltas[0])}`);
+  }
+  console.log(`✓ Matched to prior week issue (confidence ${deltas[0].matchConfidence.toFixed(2)})`);
+}
+
+async function testPeriodTrendsUseMatcher(): Promise<void> {
+  console.log("\n=== Test: Period Trends Use the Matcher ===");
+  const reports = [
+    createWeeklyReport('2030-02-03', '2030-02-09', 'Tariffs on China', 40),
+    createWeeklyReport('2030-02-10', '2030-02-16', 'Trade War Escalation', 55)
+  ];
+
+  const plain = aggregateReports(reports);
+  const matched = aggregateReports(reports, null, undefined, createEmbeddingMatcher(stubVectors(), 0.8));
+  if (plain.period_comparison!.top_gainers.length !== 0) {
+    throw new Error("Precondition failed: without a matcher the names should be separate trends.");
+  }
+  const trend = matched.period_comparison!.top_gainers[0];
+  if (trend?.weeks_present !== 2 || trend.delta !== 15 || trend.issue_name !== 'Trade War Escalation') {
+    throw new Error(`Paraphrased issues not tracked as one trend: ${JSON.stringify(trend)}`);
+  }
+  console.log(`✓ ${trend.issue_name} trend spans ${trend.weeks_present} weeks (Δ +${trend.delta})`);
+}
+
+async function testFixtureEmbeddings(): Promise<void> {
+  console.log("\n=== Test: Fixture Embeddings ===");
+  const provider = createLLMProvider({ ...DEFAULT_CONFIG.provider, type: 'fixture' });
+  const texts = ['senate budget vote', 'senate budget', 'border wall'];
+  const first = await provider.embed!({ texts });
+  const second = await provider.embed!({ texts });
+
+  if (JSON.stringify(first.vectors) !== JSON.stringify(second.vectors)) {
+    throw new Error("Fixture embeddings are not deterministic.");
+  }
+  const related = cosineSimilarity(first.vectors[0], first.vectors[1]);
+  const unrelated = cosineSimilarity(first.vectors[0], first.vectors[2]);
+  if (Math.abs(cosineSimilarity(first.vectors[0], first.vectors[0]) - 1) > 1e-9 || related <= unrelated) {
+    throw new Error(`Unexpected fixture similarities: related ${related}, unrelated ${unrelated}`);
+  }
+  console.log(`✓ Deterministic vectors; shared words score higher (${related.toFixed(2)} vs ${unrelated.toFixed(2)})`);
+}
+
+async function testMatcherSelection(): Promise<void> {
+  console.log("\n=== Test: Matcher Selection ===");
+  const episodes = [createEpisode('emb-5', '2030-02-04', ['Tariffs'])];
+
+  if (await getTopicMatcher(episodes, null, DEFAULT_CONFIG) !== TOKEN_OVERLAP_MATCHER) {
+    throw new Error("Token overlap should be the default matcher.");
+  }
+
+  const embeddingConfig = { ...DEFAULT_CONFIG, matching: { ...DEFAULT_CONFIG.matching, topicMatcher: 'embedding' as const } };
+  const { embed: _embed, ...withoutEmbed } = stubProvider();
+  setLLMProviderOverride(withoutEmbed);
+  try {
+    if (await getTopicMatcher(episodes, null, embeddingConfig) !== TOKEN_OVERLAP_MATCHER) {
+      throw new Error("Providers without embeddings should fall back to token overlap.");
+    }
+  } finally {
+    setLLMProviderOverride(null);
+  }
+
+  if (describeTopicMatcher(embeddingConfig.matching) === describeTopicMatcher(DEFAULT_CONFIG.matching)) {
+    throw new Error("Matcher settings must be distinguishable for cache validation.");
+  }
+  console.log("✓ Token overlap by default and as fallback; matcher settings are identified");
+}
+
+async function testEmbeddingCache(): Promise<void> {
+  console.log("\n=== Test: Embedding Cache (IndexedDB) ===");
+  const embedded: string[] = [];
+  const provider = stubProvider(texts => embedded.push(...texts));
+  const texts = ['embedding cache alpha', 'embedding cache beta', 'embedding cache alpha'];
+
+  const first = await embedTopics(texts, provider, CACHE_TEST_MODEL);
+  const second = await embedTopics(texts, provider, CACHE_TEST_MODEL);
+
+  if (first.size !== 2 || second.size !== 2) {
+    throw new Error(`Expected one vector per distinct text, got ${first.size} and ${second.size}`);
+  }
+  // The first run may reuse vectors cached by an earlier run of this test
+  if (embedded.length > 2) {
+    throw new Error(`Texts embedded more than once: ${JSON.stringify(embedded)}`);
+  }
+  console.log(`✓ Vectors cached in IndexedDB (${embedded.length} embedded, rest served from cache)`);
+}
+
+async function runAll(): Promise<void> {
+  await testEmbeddingMatcherGroupsParaphrases();
+  await testEmbeddingMatcherAcrossWeeks();
+  await testPeriodTrendsUseMatcher();
+  await testFixtureEmbeddings();
+  await testMatcherSelection();
+  await testEmbeddingCache();
+  console.log("\nAll topic embedding tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).topicEmbeddingsTests = {
+    testEmbeddingMatcherGroupsParaphrases,
+    testEmbeddingMatcherAcrossWeeks,
+    testPeriodTrendsUseMatcher,
+    testFixtureEmbeddings,
+    testMatcherSelection,
+    testEmbeddingCache,
+    runAll
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Manual test harness for services/usageAccounting.ts
+ * Run via browser console:
+ *  1) npm run dev
+ *  2) open console
+ *  3) await window.usageAccountingTests.runAll()
+ *
+ * Uses the offline fixture provider and synthetic usage; no network calls are made.
+ */
+
+import {
+  buildUsage,
+  addUsage,
+  startUsageMeter,
+  estimateProcessingCost,
+  getBudgetPriceError,
+  emptyUsage
+} from './services/usageAccounting';
+import { generateStructured } from './services/structuredOutput';
+import { EPISODE_INSIGHT_SCHEMA } from './services/responseSchemas';
+import { createLLMProvider, setLLMProviderOverride } from './services/llmProvider';
+import { DEFAULT_CONFIG } from './constants/config';
+import type { TokenUsage } from './types';
+
+const FIXTURE_CONFIG = { ...DEFAULT_CONFIG.provider, type: 'fixture' as const };
+
+const approxEqual = (a: number | null, b: number) => a !== null && Math.abs(a - b) < 1e-9;
+
+async function testCostComputation(): Promise<void> {
+  console.log("\n=== Test: Cost Computation ===");
+  // gemini-3-flash: $0.50 / 1M input, $3.00 / 1M output
+  const usage = buildUsage('gemini-3-flash-preview', 10_000, 2_000);
+  if (usage.total_tokens !== 12_000 || !approxEqual(usage.estimated_cost_usd, 0.011)) {
+    throw new Error(`Unexpected usage: ${JSON.stringify(usage)}`);
+  }
+
+  const unknown = buildUsage('my-local-llama', 1_000, 100);
+  if (unknown.estimated_cost_usd !== null) {
+    throw new Error("Unknown models should have no cost.");
+  }
+
+  // Unknown cost stays unknown only when both sides are unknown
+  if (addUsage(unknown, unknown).estimated_cost_usd !== null) {
+    throw new Error("Summing two unknown costs should stay null.");
+  }
+  const mixed = addUsage(usage, unknown);
+  if (mixed.requests !== 2 || mixed.input_tokens !== 11_000 || !approxEqual(mixed.estimated_cost_usd, 0.011)) {
+    throw new Error(`Unexpected sum: ${JSON.stringify(mixed)}`);
+  }
+
+  console.log("✓ Token counts are priced per model and summed");
+}
+
+async function testBudgetMeter(): Promise<void> {
+  console.log("\n=== Test: Budget Meter ===");
+  const exceeded: TokenUsage[] = [];
+  const meter = startUsageMeter({
+    initial: { ...emptyUsage(), requests: 3, estimated_cost_usd: 0.015 },
+    budgetUsd: 0.03,
+    onBudgetExceeded: usage => exceeded.push(usage)
+  });
+
+  try {
+    meter.record(buildUsage('gemini-3-flash-preview', 10_000, 2_000)); // total $0.026
+    if (exceeded.length !== 0) {
+      throw new Error("Budget triggered too early.");
+    }
+    meter.record(buildUsage('gemini-3-flash-preview', 10_000, 2_000)); // total $0.037
+    meter.record(buildUsage('gemini-3-flash-preview', 10_000, 2_000));
+    if (meter.snapshot().requests !== 6 || exceeded.length > 1 || !meter.isBudgetExceeded()) {
+      throw new Error(`Budget callback should fire exactly once, fired ${exceeded.length} times (${meter.snapshot().requests} requests)`);
+    }
+  } finally {
+    meter.stop();
+  }
+
+  meter.record(buildUsage('gemini-3-flash-preview', 10_000, 2_000));
+  if (meter.snapshot().requests !== 6) {
+    throw new Error("Stopped meter still received usage.");
+  }
+
+  console.log("✓ Meter sums usage from earlier sessions and stops at the budget once");
+}
+
+async function testProviderUsageIsRecorded(): Promise<void> {
+  console.log("\n=== Test: Provider Usage Is Recorded ===");
+  setLLMProviderOverride(createLLMProvider(FIXTURE_CONFIG));
+  const meter = startUsageMeter();
+  const otherRun = startUsageMeter();
+
+  try {
+    const response = await generateStructured(
+      { task: 'analysis', prompt: 'Analyze this episode.', fixtureKey: 'usage-accounting', context: { episodeId: 'usage-test' }, usageMeter: meter },
+      EPISODE_INSIGHT_SCHEMA
+    );
+    const recorded = meter.snapshot();
+    if (!response.usage || response.usage.requests < 1) {
+      throw new Error("Structured response carries no usage.");
+    }
+    if (recorded.requests !== response.usage.requests || recorded.total_tokens !== response.usage.total_tokens) {
+      throw new Error(`Meter (${JSON.stringify(recorded)}) does not match response usage (${JSON.stringify(response.usage)})`);
+    }
+    if (otherRun.snapshot().requests !== 0) {
+      throw new Error("Usage was charged to a meter that did not make the call.");
+    }
+  } finally {
+    meter.stop();
+    otherRun.stop();
+    setLLMProviderOverride(null);
+  }
+
+  console.log("✓ Provider responses are charged only to the calling run's meter");
+}
+
+async function testPreRunEstimate(): Promise<void> {
+  console.log("\n=== Test: Pre-Run Estimate ===");
+  const config = {
+    ...DEFAULT_CONFIG,
+    provider: { ...DEFAULT_CONFIG.provider, model: 'gemini-3-flash-preview' },
+    features: { ...DEFAULT_CONFIG.features, enableAIExecutiveSummary: false }
+  };
+
+  const none = estimateProcessingCost(0, 4, config);
+  const ten = estimateProcessingCost(10, 4, config);
+  if (none.tokens !== 0 || none.costUsd !== 0 || ten.tokens <= 0 || (ten.costUsd ?? 0) <= 0) {
+    throw new Error(`Unexpected estimates: ${JSON.stringify({ none, ten })}`);
+  }
+
+  const overridden = estimateProcessingCost(10, 4, {
+    ...config,
+    provider: { ...config.provider, model: 'my-local-llama', inputPricePerMillion: 0, outputPricePerMillion: 0 }
+  });
+  if (overridden.costUsd !== 0) {
+    throw new Error("Price override was ignored.");
+  }
+  if (estimateProcessingCost(10, 4, { ...config, provider: { ...config.provider, model: 'my-local-llama' } }).costUsd !== null) {
+    throw new Error("Unknown model should have no cost estimate.");
+  }
+
+  console.log(`✓ 10 new episodes estimated at ${ten.tokens} tokens / $${ten.costUsd?.toFixed(3)}`);
+}
+
+async function testBudgetNeedsPrice(): Promise<void> {
+  console.log("\n=== Test: Budget Needs a Model Price ===");
+  const local = { ...DEFAULT_CONFIG, provider: { ...DEFAULT_CONFIG.provider, model: 'my-local-llama' } };
+
+  const error = getBudgetPriceError(5, local);
+  if (!error || !error.includes('my-local-llama')) {
+    throw new Error(`Expected an unenforceable budget error, got ${error}`);
+  }
+  if (getBudgetPriceError(null, local) !== null) {
+    throw new Error("Running without a budget needs no price.");
+  }
+  const priced = { ...local, provider: { ...local.provider, inputPricePerMillion: 0.1, outputPricePerMillion: 0.4 } };
+  if (getBudgetPriceError(5, priced) !== null || getBudgetPriceError(5, DEFAULT_CONFIG) !== null) {
+    throw new Error("A configured or built-in price should make the budget enforceable.");
+  }
+
+  console.log(`✓ ${error}`);
+}
+
+async function runAll(): Promise<void> {
+  await testCostComputation();
+  await testBudgetMeter();
+  await testProviderUsageIsRecorded();
+  await testPreRunEstimate();
+  await testBudgetNeedsPrice();
+  console.log("\nAll usage accounting tests passed.");
+}
+
+// Expose to browser console for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).usageAccountingTests = {
+    testCostComputation,
+    testBudgetMeter,
+    testProviderUsageIsRecorded,
+    testPreRunEstimate,
+    testBudgetNeedsPrice,
+    runAll
+  };
+}
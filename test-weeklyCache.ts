@@ -71,7 +71,7 @@ function generateTestEpisode(
       }
     ],
     overall_sentiment: 45 + (index * 4),
-    trump_admin_focus: true,
+    focus_relevance: 1,
     key_quotes: [
       `Key quote 1 from episode ${index}`,
       `Key quote 2 from episode ${index}`
@@ -1,3 +1,4 @@
+import type { AlertRuleType, AppConfig, DiscoverySource, FeedSource, ForecastMethod, SentimentAggregationStrategy } from './constants/config';
 
 export interface RunWindow {
   window_start: string;
@@ -38,6 +39,35 @@ export interface IssueEntry {
   // Optional: present on aggregated multi-week reports.
   what_changed_over_period?: string;
   evidence: Evidence[];
+  member_topics?: string[];      // Topic names grouped into this issue (candidates for a split)
+  parent_issue?: string;         // Broader issue from the curated taxonomy
+  sentiment_interval?: SentimentInterval; // Uncertainty of sentiment_index (absent on legacy reports)
+  delta_significance?: DeltaSignificance; // Test of delta_vs_prior_week (absent when there is no prior match)
+  prominence?: number;           // Average topic prominence (0-1)
+  episode_count?: number;        // Episodes mentioning the issue this week (absent on legacy reports)
+}
+
+// Uncertainty interval of an aggregated sentiment (0-100 scale)
+export interface SentimentInterval {
+  lower: number;
+  upper: number;
+  level: number;                 // Coverage, e.g. 0.9 for a 90% interval
+}
+
+// Week-over-week sentiment change tested against sampling noise
+export interface DeltaSignificance {
+  p_value: number;               // Two-sided permutation test of "no change"
+  lower: number;                 // Bootstrap interval of the delta (sentiment points)
+  upper: number;
+  level: number;                 // Coverage of the interval
+  significant: boolean;          // p_value below the configured significance level
+}
+
+// One topic mention contributing to an issue's sentiment
+export interface SentimentSample {
+  sentiment: number;             // 0-100
+  confidence: number;            // 0-1
+  prominence: number;            // 0-1
 }
 
 export interface IssueMovement {
@@ -70,6 +100,7 @@ export interface PeriodWeekSummary {
     confidence: number;
   }>;
   narrative_shifts?: string[];
+  cache_status?: WeeklyCacheStatus;
 }
 
 export interface PeriodIssueTrend {
@@ -85,6 +116,34 @@ export interface PeriodIssueTrend {
   volatility: number | "unknown";
 }
 
+// Mid-period mean shift in the overall index or one issue's weekly series
+export interface PeriodChangePoint {
+  series: 'overall' | 'issue';
+  issue_name?: string;
+  normalized_name?: string;
+  // First week of the new regime
+  week_start: string;
+  before_mean: number;
+  after_mean: number;
+  shift: number;
+}
+
+// One-week-ahead forecast of the overall index or one issue's weekly series
+export interface PeriodForecast {
+  series: 'overall' | 'issue';
+  metric: 'sentiment' | 'prominence'; // Sentiment 0-100, prominence 0-1
+  issue_name?: string;
+  normalized_name?: string;
+  // Week being forecast: the week after the period's last week
+  week_start: string;
+  method: ForecastMethod;
+  prediction: number;
+  lower: number;
+  upper: number;
+  level: number;                 // Coverage of [lower, upper]
+  history: number;               // Weeks the model was fitted on
+}
+
 export interface PeriodComparison {
   week_count: number;
   overall_sentiment_start: number | "unknown";
@@ -92,6 +151,10 @@ export interface PeriodComparison {
   overall_sentiment_delta: number | "unknown";
   top_gainers: PeriodIssueTrend[];
   top_losers: PeriodIssueTrend[];
+  // Absent on reports aggregated before change-point detection existed
+  change_points?: PeriodChangePoint[];
+  // Absent on reports aggregated before forecasting existed
+  forecasts?: PeriodForecast[];
   notes: string[];
 }
 
@@ -111,6 +174,14 @@ export interface HCRReport {
   // Present only when `isAggregated` is true.
   period_series?: PeriodWeekSummary[];
   period_comparison?: PeriodComparison;
+  // Source profile the report was composed for (absent on imported/legacy reports).
+  source_profile?: { profile_id: string; name: string };
+  // Ranking profile that ordered the issues (absent on imported/legacy reports).
+  ranking_profile?: { profile_id: string; name: string };
+  // Strategy that aggregated issue sentiment (absent on imported/legacy reports = mean).
+  sentiment_strategy?: SentimentAggregationStrategy;
+  // Whether the week came from the weekly aggregation cache (weekly reports only).
+  cache_status?: WeeklyCacheStatus;
 }
 
 export interface DailyMarketData {
@@ -135,6 +206,8 @@ export interface EpisodeMetadata {
   title: string;
   published_at: string;          // ISO date (YYYY-MM-DD)
   transcript_url?: string;
+  has_transcript?: boolean;      // True when a transcript was imported for this episode
+  profile_id?: string;           // Source profile that discovered it (absent = default profile)
 }
 
 export interface TopicInsight {
@@ -142,6 +215,9 @@ export interface TopicInsight {
   sentiment_score: number;      // 0-100
   confidence: number;            // 0-1
   evidence_quotes: string[];
+  // Parallel to evidence_quotes: location of each quote in the transcript
+  // (e.g. "12:45" or "para 7"); null when the quote could not be located.
+  evidence_offsets?: Array<string | null>;
   prominence_score: number;      // How much time/focus on this topic (0-1)
 }
 
@@ -153,26 +229,33 @@ export interface EpisodeInsight {
   transcript_url?: string;
   topics: TopicInsight[];
   overall_sentiment: number;     // 0-100
-  trump_admin_focus: boolean;
+  focus_relevance: number;       // How central the profile's focus is to the episode (0-1)
   key_quotes: string[];
   framework_version: string;     // e.g., "v1", "v2"
   processed_at: string;          // ISO timestamp
   model_used: string;            // e.g., "gemini-3-flash-preview"
+  input_source?: "web_search" | "transcript"; // What the analysis was based on (absent = web_search)
+  usage?: TokenUsage;            // Tokens/cost of the analysis call(s) that produced this insight
+  profile_id?: string;           // Source profile it was analyzed for (absent = default profile)
 }
 
 export interface RankedIssue {
   issue_name: string;
   normalized_name: string;
-  avg_sentiment: number;
+  avg_sentiment: number;         // Aggregated with the configured sentiment strategy
   avg_confidence: number;
   avg_prominence: number;
   episode_count: number;
   rank_score: number;
   sentiment_values: number[];
+  sentiment_samples: SentimentSample[];
+  sentiment_interval: SentimentInterval;
   episode_ids: string[];
   evidence_quotes: string[];
   latest_published_at: string | null;
   recency_days: number;
+  member_topics: string[];       // Distinct topic names grouped into this issue
+  parent_name?: string;          // Canonical name of the curated parent issue
 }
 
 export interface AggregatedIssue {
@@ -184,12 +267,39 @@ export interface AggregatedIssue {
 }
 
 export interface WeeklyAggregation {
-  week_start: string;            // Primary key (YYYY-MM-DD)
+  cache_key?: string;            // Primary key: "{profile_id}_{week_start}" (set when saved)
+  profile_id?: string;           // Source profile (absent = default profile)
+  week_start: string;            // YYYY-MM-DD
   week_end: string;
   episode_ids: string[];         // Episodes included in this week
   top_issues: AggregatedIssue[];
   computed_at: string;
   framework_version: string;
+  /** @deprecated Only on aggregations cached before `dependencies`; the taxonomy is hashed there */
+  taxonomy_version?: string;     // Topic taxonomy updated_at used for ranking
+  /** @deprecated Only on aggregations cached before `dependencies`; the matcher is hashed there */
+  topic_matcher?: string;        // TopicMatcher.id used for ranking
+  /** @deprecated Only on aggregations cached before `dependencies`; the ranking profile is hashed there */
+  ranking_profile?: string;      // Signature of the ranking profile used
+  sentiment_strategy?: SentimentAggregationStrategy; // Sentiment aggregation strategy used (absent = mean)
+  dependencies?: WeeklyCacheDependencies; // Hashes of every input (absent = cached before dependency tracking)
+}
+
+// Inputs a weekly aggregation depends on; each is hashed on its own so a
+// recomputed week can say what changed
+export type WeeklyCacheInput = 'framework' | 'episodes' | 'prior-episodes' | 'ranking' | 'normalization' | 'aggregation';
+
+export interface WeeklyCacheDependencies {
+  hash: string;                  // Hash over all inputs
+  inputs: Record<WeeklyCacheInput, string>;
+  episode_hashes: Record<string, string>;       // Current week: episode_id → content hash
+  prior_episode_hashes: Record<string, string>; // Prior week: episode_id → content hash
+}
+
+// How a weekly report was obtained from the weekly aggregation cache
+export interface WeeklyCacheStatus {
+  status: 'hit' | 'recomputed' | 'uncached'; // uncached: caching is disabled
+  reasons: string[];             // What changed since the cached aggregation (recomputed only)
 }
 
 // Search cache for episode discovery
@@ -200,4 +310,291 @@ export interface SearchCacheEntry {
   episodes: EpisodeMetadata[];   // List of discovered episodes
   cached_at: string;             // ISO timestamp
   expires_at: string;            // ISO timestamp (cached_at + 7 days)
+  profile_id?: string;           // Source profile searched for (absent = default profile)
+}
+
+// Transcript ingestion (user-supplied transcript files)
+export type TranscriptFormat = "txt" | "vtt" | "srt" | "podcast-json";
+
+export interface TranscriptSegment {
+  start_seconds: number | null;  // null for untimed formats (.txt)
+  end_seconds: number | null;
+  speaker: string | null;
+  text: string;
+}
+
+export interface TranscriptRecord extends EpisodeMetadata {
+  // episode_id is the primary key
+  format: TranscriptFormat;
+  source_file: string;
+  segments: TranscriptSegment[];
+  full_text: string;
+  imported_at: string;           // ISO timestamp
+}
+
+// Source profiles: a tracked commentator (or outlet) and how their episodes are found and analyzed
+export type SourceProfilePromptKey = "search" | "analysis" | "transcript_analysis" | "summary";
+
+// What episode analysis is restricted to; injected into the analysis and summary prompts
+export interface FocusDefinition {
+  name: string;                  // Noun phrase used in prompt sentences, e.g. "the Trump administration and US politics"
+  description: string;
+  inclusion_criteria: string[];  // Content that counts as on-focus
+  exclusion_criteria: string[];  // Content to ignore even if related
+  example_topics: string[];      // Example topic taxonomy; the model reuses these labels when they fit
+}
+
+export interface SourceProfile {
+  profile_id: string;            // Primary key
+  name: string;                  // Display name, e.g. "Heather Cox Richardson"
+  host_name: string;             // Whose commentary is analyzed (used in prompts)
+  shows: string[];               // Shows/series to discover and analyze
+  focus: FocusDefinition;
+  discovery: {
+    source: DiscoverySource;
+    feeds: FeedSource[];         // Only used by the 'feed' source
+  };
+  // Full prompt templates replacing the built-in ones (empty/absent = built-in)
+  prompt_overrides: Partial<Record<SourceProfilePromptKey, string>>;
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+}
+
+// Token and cost accounting for model calls
+export interface TokenUsage {
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  estimated_cost_usd: number | null; // null when no price is known for the model
+}
+
+// Quarantine for episodes whose analysis failed
+export type FailedEpisodeErrorClass =
+  | "schema_validation"          // Model output could not be repaired to match its schema
+  | "rate_limit"
+  | "auth"
+  | "network"
+  | "server"
+  | "unknown";
+
+export interface FailedEpisode {
+  episode_id: string;            // Primary key
+  metadata: EpisodeMetadata;     // Metadata used for the next retry (may be user-edited)
+  metadata_edited: boolean;      // True once the user has edited metadata
+  raw_response: string | null;   // Raw model text, when the failure happened after a response
+  error_class: FailedEpisodeErrorClass;
+  error_message: string;
+  validation_issues: Array<{ path: string; message: string }>;
+  attempt_count: number;
+  framework_version: string;
+  first_failed_at: string;       // ISO timestamp
+  last_failed_at: string;        // ISO timestamp
+  status: "pending" | "skipped"; // Skipped episodes are excluded from future runs
+}
+
+// Persistent processing jobs (survive tab reloads and can be resumed)
+export type ProcessingJobStatus =
+  | "running"
+  | "interrupted"                // Tab was closed or reloaded mid-run
+  | "cancelled"
+  | "failed"
+  | "completed";
+
+export type ProcessingJobPhase = "discovering" | "analyzing" | "composing" | "done";
+
+export type ProcessingJobEpisodeStatus = "pending" | "cached" | "analyzed" | "failed";
+
+export interface ProcessingJobEpisode {
+  metadata: EpisodeMetadata;
+  status: ProcessingJobEpisodeStatus;
+  error?: string;
+}
+
+export interface ProcessingJob {
+  job_id: string;                // Primary key
+  start_date: string;            // YYYY-MM-DD
+  end_date: string;              // YYYY-MM-DD
+  framework_version: string;
+  config_snapshot: AppConfig;    // Config at job creation (provider.apiKey is never stored)
+  status: ProcessingJobStatus;
+  phase: ProcessingJobPhase;
+  discovery_complete: boolean;   // Once true, resumes reuse `episodes` instead of rediscovering
+  episodes: Record<string, ProcessingJobEpisode>; // Keyed by episode_id
+  weeks_total: number;
+  composed_weeks: HCRReport[];   // Weekly reports composed so far, in window order
+  composed_week_dependencies?: Record<string, WeeklyCacheDependencies>; // window_start → input hashes the week was composed from
+  error: string | null;
+  resume_count: number;
+  created_at: string;            // ISO timestamp
+  updated_at: string;            // ISO timestamp
+  completed_at: string | null;   // ISO timestamp
+  duration_ms: number;           // Active processing time across all sessions
+  usage?: TokenUsage;            // All model calls made for this job, across sessions
+  budget_usd?: number | null;    // Hard cost budget in effect for the job (null = none)
+  profile_id?: string;           // Source profile processed (absent = default profile)
+}
+
+// Curated topic taxonomy: user-maintained rules applied on top of automatic topic grouping
+export interface TaxonomyIssue {
+  canonical_name: string;        // Display name; topics matching it or an alias are grouped under it
+  aliases: string[];             // Topic names merged into this issue
+  parent?: string;               // canonical_name of the broader issue
+}
+
+export interface TopicTaxonomy {
+  taxonomy_id: string;           // Primary key (a single taxonomy is kept)
+  issues: TaxonomyIssue[];
+  never_merge: Array<[string, string]>; // Normalized issue names that automatic matching must keep apart
+  updated_at: string;            // ISO timestamp
+}
+
+// Cached embedding vector of a normalized topic name
+export interface TopicEmbedding {
+  cache_key: string;             // Primary key: `${model}::${text}`
+  model: string;                 // Embedding model that produced the vector
+  text: string;                  // Normalized topic name
+  vector: number[];
+  created_at: string;            // ISO timestamp
+}
+
+// Issue lifecycle across the whole stored episode history
+export interface IssueWeekActivity {
+  week_start: string;            // YYYY-MM-DD (Sunday)
+  episode_count: number;         // Episodes that week mentioning the issue
+  mention_count: number;         // Topic mentions grouped into the issue
+  prominence: number;            // Mean prominence over all of the week's episodes (0 when not mentioned)
+  avg_sentiment: number | null;  // null when not mentioned
+}
+
+export interface IssueDormancy {
+  start_week: string;            // First week without mentions
+  end_week: string;              // Last week without mentions
+  weeks: number;                 // Weeks with episodes but no mention
+  ongoing: boolean;              // Still dormant at the end of the history
+}
+
+export interface IssueResurgence {
+  week_start: string;            // First week mentioned again
+  dormant_weeks: number;
+  prominence: number;
+}
+
+export interface IssueLifecycle {
+  issue_name: string;
+  normalized_name: string;
+  member_topics: string[];
+  first_seen: string;            // Publish date of the first episode mentioning it
+  last_seen: string;
+  first_week: string;
+  peak_week: string;             // Week of highest prominence (earliest on ties)
+  peak_prominence: number;
+  decay_rate: number | null;     // Weekly fractional decline of prominence after the peak (null = too few weeks)
+  status: "active" | "dormant";
+  episode_count: number;
+  weeks_active: number;
+  dormancies: IssueDormancy[];
+  resurgences: IssueResurgence[];
+  weeks: IssueWeekActivity[];    // Every week with episodes from first_week on
+}
+
+export interface IssueRegistry {
+  profile_id: string;
+  generated_at: string;          // ISO timestamp
+  episode_count: number;
+  week_count: number;            // Weeks with at least one episode
+  first_week: string | null;
+  last_week: string | null;
+  issues: IssueLifecycle[];      // Most-covered first
+}
+
+// Stored forecast, resolved against the real week once it has been composed
+export interface ForecastRecord extends PeriodForecast {
+  forecast_id: string;           // Primary key: "{profile}_{week_start}_{series key}_{metric}_{method}"
+  profile_id: string;
+  made_at: string;               // ISO timestamp
+  actual: number | null;         // null until the week is composed (or when the issue did not surface)
+  error: number | null;          // actual - prediction
+  within_interval: boolean | null;
+  resolved_at: string | null;
+}
+
+// Accuracy of resolved forecasts for one method and metric
+export interface ForecastAccuracy {
+  method: ForecastMethod;
+  metric: PeriodForecast['metric'];
+  resolved: number;
+  mean_absolute_error: number;
+  interval_coverage: number;     // Share of actuals inside the interval (compare with the level)
+  level: number;                 // Average nominal coverage of the resolved forecasts
+}
+
+// How far an issue's latest week lies from its own recent weekly history
+export interface IssueAnomalyScore {
+  issue_name: string;
+  normalized_name: string;
+  metric: 'sentiment' | 'prominence';
+  week_start: string;
+  value: number;
+  baseline_mean: number;
+  baseline_sd: number;
+  baseline_weeks: number;
+  z_score: number;
+}
+
+// Alert raised by an alert rule after a run; kept in the alerts inbox
+export interface AlertRecord {
+  alert_id: string;              // Primary key: "{profile}_{week_start}_{rule_id}_{issue key}"
+  profile_id: string;
+  rule_id: string;
+  rule_name: string;
+  rule_type: AlertRuleType;
+  week_start: string;            // Week that triggered the rule
+  issue_name: string;
+  normalized_name: string;
+  message: string;
+  value: number;                 // Sentiment, rank or z-score, depending on the rule type
+  triggered_at: string;          // ISO timestamp
+  read_at: string | null;
+}
+
+// Which of two analyses of the same episode a library merge keeps
+export type LibraryMergePolicy = 'newest-framework' | 'highest-confidence' | 'manual';
+
+// What distinguishes one analysis of an episode from another
+export interface EpisodeVersionSummary {
+  model_used: string;
+  framework_version: string;
+  processed_at: string;
+  avg_confidence: number;        // Mean topic confidence (0-1)
+  topic_count: number;
+}
+
+// One decision taken while merging another library into the local store
+export interface MergeDecision {
+  decision_id: string;           // Primary key: "{merge_id}_{episode_id}"
+  merge_id: string;
+  merged_at: string;             // ISO timestamp
+  source_label: string;          // Name of the merged library (file name)
+  episode_id: string;
+  title: string;
+  published_at: string;
+  action: 'added' | 'kept-local' | 'took-incoming';
+  policy: LibraryMergePolicy | null; // null when only the other library had the episode
+  reason: string;
+  local: EpisodeVersionSummary | null;
+  incoming: EpisodeVersionSummary;
+}
+
+// One stored analysis of an episode. Versions are kept once an episode has
+// been analyzed more than once; the active one is also the record in the
+// episodes store that reports read.
+export interface EpisodeVersion {
+  version_id: string;            // Primary key: "{episode_id}|{framework_version}|{model_used}"
+  episode_id: string;
+  framework_version: string;
+  model_used: string;
+  processed_at: string;
+  active: boolean;
+  insight: EpisodeInsight;
 }
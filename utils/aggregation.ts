@@ -1,7 +1,13 @@
 import type {
+  DeltaSignificance,
   EpisodeInsight,
-  RankedIssue
+  RankedIssue,
+  TopicInsight,
+  SentimentSample,
+  TopicTaxonomy
 } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_RANKING_PROFILES, type AppConfig, type RankingProfile } from '../constants/config';
+import { aggregateSentiment, compareSentiment, sentimentInterval } from './statistics';
 
 interface RankingFactors {
   episodeCount: number;
@@ -19,6 +25,7 @@ export interface DeltaResult {
   movement: "up" | "down" | "new" | "unchanged";
   description: string;
   matchConfidence: number;
+  significance: DeltaSignificance | null; // null when there is no prior match
 }
 
 export interface DeltaComputationResult {
@@ -26,10 +33,41 @@ export interface DeltaComputationResult {
   dropped: RankedIssue[];
 }
 
-const MIN_PROMINENCE = 0.2;
+/**
+ * Scores how alike two normalized topic names are (0-1). Names scoring at or
+ * above the threshold are grouped into one issue.
+ */
+export interface TopicMatcher {
+  /** Identifies the matcher and its settings; stored with cached aggregations */
+  id: string;
+  similarity(a: string, b: string): number;
+  threshold: number;
+}
+
+/**
+ * Lookup tables derived from a curated topic taxonomy
+ */
+interface TaxonomyIndex {
+  aliases: Map<string, string>;   // cleaned canonical name or alias -> issue key
+  names: Map<string, string>;     // issue key -> canonical display name
+  parents: Map<string, string>;   // issue key -> parent issue key
+  neverMerge: Set<string>;        // pair keys of issues that must stay apart
+}
+
 const SIMILARITY_THRESHOLD = 0.78;
+// Match confidence when a prior issue is only related as parent or child
+const HIERARCHY_MATCH_CONFIDENCE = 0.85;
 const STOP_WORDS = new Set(["the", "of", "and", "for", "on", "in", "to", "a"]);
 
+/**
+ * Default matcher: token overlap of the normalized names
+ */
+export const TOKEN_OVERLAP_MATCHER: TopicMatcher = {
+  id: 'token-overlap',
+  similarity: (a, b) => topicSimilarity(a, b),
+  threshold: SIMILARITY_THRESHOLD
+};
+
 const TOPIC_NORMALIZATIONS: Record<string, string> = {
   "jan 6": "january 6",
   "jan. 6": "january 6",
@@ -48,39 +86,70 @@ const TOPIC_NORMALIZATIONS: Record<string, string> = {
 };
 
 /**
- * Normalize topic strings for deterministic grouping.
+ * Lowercase, punctuation-free form of a topic name.
+ * Curated canonical names and aliases are matched on this form.
  */
-export function normalizeTopic(topicName: string): string {
-  const cleaned = topicName
+export function cleanTopicName(topicName: string): string {
+  return topicName
     .toLowerCase()
     .replace(/[^a-z0-9\s]/g, " ")
     .replace(/\s+/g, " ")
     .trim();
+}
 
-  if (!cleaned) return "";
-
-  if (TOPIC_NORMALIZATIONS[cleaned]) {
-    return TOPIC_NORMALIZATIONS[cleaned];
-  }
+/**
+ * Normalize topic strings for deterministic grouping.
+ * Curated taxonomy names and aliases take precedence over the built-in normalizations.
+ */
+export function normalizeTopic(topicName: string, taxonomy?: TopicTaxonomy | null): string {
+  return normalizeWithIndex(topicName, taxonomy ? buildTaxonomyIndex(taxonomy) : null);
+}
 
-  // Apply partial replacements while keeping determinism.
-  let normalized = cleaned;
-  for (const [pattern, replacement] of Object.entries(TOPIC_NORMALIZATIONS)) {
-    const regex = new RegExp(`\\b${escapeRegex(pattern)}\\b`, "g");
-    normalized = normalized.replace(regex, replacement);
-  }
+/**
+ * Curated issue a topic or issue name resolves to, or null when no taxonomy rule covers it.
+ */
+export function findTaxonomyIssue(
+  name: string,
+  taxonomy: TopicTaxonomy
+): { key: string; canonical_name: string } | null {
+  return createTaxonomyIssueFinder(taxonomy)(name);
+}
 
-  return normalized;
+/**
+ * findTaxonomyIssue for many names against one taxonomy; the lookup tables are built once.
+ */
+export function createTaxonomyIssueFinder(
+  taxonomy: TopicTaxonomy
+): (name: string) => { key: string; canonical_name: string } | null {
+  const index = buildTaxonomyIndex(taxonomy);
+  return name => {
+    const key = normalizeWithIndex(name, index);
+    const canonicalName = index.names.get(key);
+    return canonicalName ? { key, canonical_name: canonicalName } : null;
+  };
 }
 
 /**
  * Rank issues deterministically across episodes.
+ * With a taxonomy, curated issues group their aliases, are never merged into
+ * other issues by similarity, and never-merge pairs are kept apart.
+ * The ranking profile sets the factor weights and filtering thresholds; the
+ * aggregation settings choose how mention sentiments combine into the issue
+ * sentiment and the coverage of its uncertainty interval.
  */
-export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
+export function rankIssues(
+  episodes: EpisodeInsight[],
+  taxonomy?: TopicTaxonomy | null,
+  matcher: TopicMatcher = TOKEN_OVERLAP_MATCHER,
+  profile: RankingProfile = DEFAULT_RANKING_PROFILES[0],
+  aggregation: AppConfig['aggregation'] = DEFAULT_CONFIG.aggregation
+): RankedIssue[] {
   if (episodes.length === 0) {
     return [];
   }
 
+  const index = taxonomy ? buildTaxonomyIndex(taxonomy) : null;
+
   // Process in chronological order so merges are deterministic.
   const sortedEpisodes = [...episodes].sort((a, b) =>
     a.published_at.localeCompare(b.published_at)
@@ -90,8 +159,10 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
     sentiments: number[];
     confidences: number[];
     prominences: number[];
+    samples: SentimentSample[];
     evidenceQuotes: string[];
     episodeIds: Set<string>;
+    memberTopics: Map<string, string>;
     latestPublished: number | null;
   }>();
 
@@ -103,18 +174,20 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
 
     for (const topic of episode.topics) {
       const topicName = String((topic as any)?.topic_name ?? (topic as any)?.name ?? "");
-      const normalized = normalizeTopic(topicName);
+      const normalized = normalizeWithIndex(topicName, index);
       if (!normalized) continue;
 
-      const canonical = findCanonicalTopic(normalized, issueMap.keys());
+      const canonical = findCanonicalTopic(normalized, issueMap.keys(), index, matcher);
 
       if (!issueMap.has(canonical)) {
         issueMap.set(canonical, {
           sentiments: [],
           confidences: [],
           prominences: [],
+          samples: [],
           evidenceQuotes: [],
           episodeIds: new Set<string>(),
+          memberTopics: new Map<string, string>(),
           latestPublished: null
         });
       }
@@ -136,8 +209,16 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
       bucket.sentiments.push(clamp(sentiment, 0, 100));
       bucket.confidences.push(clamp01(confidence));
       bucket.prominences.push(clamp01(prominence));
+      bucket.samples.push({
+        sentiment: clamp(sentiment, 0, 100),
+        confidence: clamp01(confidence),
+        prominence: clamp01(prominence)
+      });
       bucket.evidenceQuotes.push(...evidenceQuotes);
       bucket.episodeIds.add(episode.episode_id);
+      if (!bucket.memberTopics.has(cleanTopicName(topicName))) {
+        bucket.memberTopics.set(cleanTopicName(topicName), topicName.trim());
+      }
 
       if (!isNaN(publishedMs)) {
         bucket.latestPublished = bucket.latestPublished === null
@@ -158,7 +239,7 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
 
   const allIssues = Array.from(issueMap.entries())
     .map(([normalizedName, bucket]): RankedIssue => {
-      const avgSentiment = mean(bucket.sentiments);
+      const avgSentiment = aggregateSentiment(bucket.samples, aggregation.sentimentStrategy);
       const avgConfidence = mean(bucket.confidences);
       const avgProminence = mean(bucket.prominences);
       const episodeCount = bucket.episodeIds.size;
@@ -171,10 +252,12 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
         sentimentConsistency,
         recencyDays,
         maxEpisodeCount
-      });
+      }, profile);
+
+      const parentKey = index?.parents.get(normalizedName);
 
       return {
-        issue_name: formatIssueName(normalizedName),
+        issue_name: index?.names.get(normalizedName) ?? formatIssueName(normalizedName),
         normalized_name: normalizedName,
         avg_sentiment: avgSentiment,
         avg_confidence: avgConfidence,
@@ -182,10 +265,19 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
         episode_count: episodeCount,
         rank_score: rankScore,
         sentiment_values: bucket.sentiments,
+        sentiment_samples: bucket.samples,
+        sentiment_interval: sentimentInterval(
+          bucket.samples,
+          aggregation.sentimentStrategy,
+          aggregation.intervalLevel,
+          normalizedName
+        ),
         episode_ids: Array.from(bucket.episodeIds),
         evidence_quotes: bucket.evidenceQuotes.slice(0, 12),
         latest_published_at: bucket.latestPublished ? new Date(bucket.latestPublished).toISOString().slice(0, 10) : null,
-        recency_days: recencyDays
+        recency_days: recencyDays,
+        member_topics: Array.from(bucket.memberTopics.values()),
+        ...(parentKey ? { parent_name: index!.names.get(parentKey) ?? formatIssueName(parentKey) } : {})
       };
     })
     .sort((a, b) => {
@@ -201,11 +293,11 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
   // Primary thresholds: require cross-episode agreement for larger weeks.
   // If these filters produce zero issues, fall back to less strict filtering so the UI
   // doesn't show "no topics" when we do have valid per-episode topics.
-  const primaryEpisodeThreshold = sortedEpisodes.length >= 6 ? 2 : 1;
+  const primaryEpisodeThreshold = sortedEpisodes.length >= profile.largeWeekEpisodes ? profile.minEpisodeCount : 1;
 
   const withPrimaryThresholds = allIssues.filter(issue =>
     issue.episode_count >= primaryEpisodeThreshold &&
-    issue.avg_prominence > MIN_PROMINENCE
+    issue.avg_prominence > profile.minProminence
   );
 
   if (withPrimaryThresholds.length > 0) {
@@ -214,7 +306,7 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
 
   const withRelaxedThresholds = allIssues.filter(issue =>
     issue.episode_count >= 1 &&
-    issue.avg_prominence > MIN_PROMINENCE
+    issue.avg_prominence > profile.minProminence
   );
 
   if (withRelaxedThresholds.length > 0) {
@@ -224,22 +316,63 @@ export function rankIssues(episodes: EpisodeInsight[]): RankedIssue[] {
   return allIssues;
 }
 
+/**
+ * Issue each topic name falls into when the names are grouped in the given
+ * order, with the same normalization, taxonomy rules and matcher as
+ * rankIssues (which also groups in chronological order). Keyed by the cleaned
+ * topic name; names that normalize to nothing are left out.
+ */
+export function groupTopicNames(
+  topicNames: string[],
+  taxonomy?: TopicTaxonomy | null,
+  matcher: TopicMatcher = TOKEN_OVERLAP_MATCHER
+): Map<string, { normalized_name: string; issue_name: string }> {
+  const index = taxonomy ? buildTaxonomyIndex(taxonomy) : null;
+  const keys = new Set<string>();
+  const groups = new Map<string, { normalized_name: string; issue_name: string }>();
+
+  for (const topicName of topicNames) {
+    const cleaned = cleanTopicName(topicName);
+    if (groups.has(cleaned)) continue;
+    const normalized = normalizeWithIndex(topicName, index);
+    if (!normalized) continue;
+
+    const canonical = findCanonicalTopic(normalized, keys, index, matcher);
+    keys.add(canonical);
+    groups.set(cleaned, {
+      normalized_name: canonical,
+      issue_name: index?.names.get(canonical) ?? formatIssueName(canonical)
+    });
+  }
+
+  return groups;
+}
+
 /**
  * Compute sentiment/prominence deltas between weeks using normalized topic matching.
+ * With a taxonomy, a parent or child issue is the fallback match before
+ * similarity, and curated or never-merge issues are not matched by similarity.
+ * Each matched sentiment delta is tested against the mentions' sampling noise.
  */
 export function computeDeltas(
   currentWeekIssues: RankedIssue[],
-  priorWeekIssues: RankedIssue[]
+  priorWeekIssues: RankedIssue[],
+  taxonomy?: TopicTaxonomy | null,
+  matcher: TopicMatcher = TOKEN_OVERLAP_MATCHER,
+  aggregation: AppConfig['aggregation'] = DEFAULT_CONFIG.aggregation
 ): DeltaComputationResult {
   if (currentWeekIssues.length === 0) {
     return { deltas: [], dropped: priorWeekIssues.slice(0, 5) };
   }
 
+  const index = taxonomy ? buildTaxonomyIndex(taxonomy) : null;
+
   const deltas: DeltaResult[] = [];
   const matchedPrior = new Set<string>();
 
   for (const issue of currentWeekIssues) {
-    const match = findBestPriorIssue(issue, priorWeekIssues);
+    const best = findBestPriorIssue(issue, priorWeekIssues, index, matcher);
+    const match = best?.issue ?? null;
     if (match) {
       matchedPrior.add(match.normalized_name);
     }
@@ -252,9 +385,17 @@ export function computeDeltas(
       : "unknown";
     const movement = resolveMovement(sentimentDelta, prominenceDelta, Boolean(match));
     const description = buildDeltaDescription(issue, match, sentimentDelta, prominenceDelta);
-    const matchConfidence = match
-      ? topicSimilarity(issue.normalized_name, match.normalized_name)
-      : 0;
+    const matchConfidence = best?.confidence ?? 0;
+    const significance = match
+      ? compareSentiment(
+          issue.sentiment_samples,
+          match.sentiment_samples,
+          aggregation.sentimentStrategy,
+          aggregation.intervalLevel,
+          aggregation.significanceLevel,
+          `${issue.normalized_name}|${match.normalized_name}`
+        )
+      : null;
 
     deltas.push({
       issue,
@@ -263,7 +404,8 @@ export function computeDeltas(
       prominenceDelta,
       movement,
       description,
-      matchConfidence
+      matchConfidence,
+      significance
     });
   }
 
@@ -274,29 +416,62 @@ export function computeDeltas(
   return { deltas, dropped };
 }
 
+/**
+ * Fallback focus relevance when the model omits it: the prominence of the
+ * most prominent on-focus topic (0 when no topics were found).
+ */
+export function estimateFocusRelevance(topics: TopicInsight[]): number {
+  if (topics.length === 0) return 0;
+  return clamp01(Math.max(...topics.map(t => coerceNumber(t.prominence_score, 0) ?? 0)));
+}
+
+/**
+ * Map the pre-v7 `trump_admin_focus` flag to a focus relevance score.
+ * Episodes flagged as primarily on-focus score 1; others keep their topic
+ * estimate, capped at 0.5 since the focus was not their main subject.
+ */
+export function focusRelevanceFromLegacyFlag(primaryFocus: boolean, topics: TopicInsight[]): number {
+  return primaryFocus ? 1 : Math.min(0.5, estimateFocusRelevance(topics));
+}
+
 // ===== Internal helpers =====
 
-function calculateRankScore(factors: RankingFactors): number {
+function calculateRankScore(factors: RankingFactors, profile: RankingProfile): number {
   const frequencyScore = factors.maxEpisodeCount > 0
     ? factors.episodeCount / factors.maxEpisodeCount
     : 0;
-  const recencyScore = Math.exp(-(factors.recencyDays || 0) / 7);
-
-  return (
-    frequencyScore * 0.35 +
-    factors.avgProminence * 0.30 +
-    factors.sentimentConsistency * 0.20 +
-    recencyScore * 0.15
-  );
+  const recencyScore = Math.exp(-(factors.recencyDays || 0) / profile.recencyDecayDays);
+  const { weights } = profile;
+  const totalWeight = weights.frequency + weights.prominence + weights.consistency + weights.volatility + weights.recency;
+
+  const score =
+    frequencyScore * weights.frequency +
+    factors.avgProminence * weights.prominence +
+    factors.sentimentConsistency * weights.consistency +
+    (1 - factors.sentimentConsistency) * weights.volatility +
+    recencyScore * weights.recency;
+
+  return totalWeight > 0 ? score / totalWeight : 0;
 }
 
-function findCanonicalTopic(normalized: string, existingKeys: Iterable<string>): string {
+function findCanonicalTopic(
+  normalized: string,
+  existingKeys: Iterable<string>,
+  index: TaxonomyIndex | null,
+  matcher: TopicMatcher
+): string {
+  // Curated issues are authoritative and never folded into a similar issue
+  if (index?.names.has(normalized)) {
+    return normalized;
+  }
+
   let bestKey = normalized;
   let bestScore = 0;
 
   for (const key of existingKeys) {
-    const score = topicSimilarity(normalized, key);
-    if (score >= SIMILARITY_THRESHOLD && score > bestScore) {
+    if (index && index.neverMerge.has(pairKey(normalized, key))) continue;
+    const score = normalized === key ? 1 : matcher.similarity(normalized, key);
+    if (score >= matcher.threshold && score > bestScore) {
       bestScore = score;
       bestKey = key;
     }
@@ -307,24 +482,114 @@ function findCanonicalTopic(normalized: string, existingKeys: Iterable<string>):
 
 function findBestPriorIssue(
   current: RankedIssue,
-  priorWeekIssues: RankedIssue[]
-): RankedIssue | null {
+  priorWeekIssues: RankedIssue[],
+  index: TaxonomyIndex | null,
+  matcher: TopicMatcher
+): { issue: RankedIssue; confidence: number } | null {
+  const currentKey = current.normalized_name;
+
+  const exact = priorWeekIssues.find(candidate => candidate.normalized_name === currentKey);
+  if (exact) {
+    return { issue: exact, confidence: 1 };
+  }
+
+  if (index) {
+    const related = priorWeekIssues.find(candidate =>
+      index.parents.get(currentKey) === candidate.normalized_name ||
+      index.parents.get(candidate.normalized_name) === currentKey
+    );
+    if (related) {
+      return { issue: related, confidence: HIERARCHY_MATCH_CONFIDENCE };
+    }
+  }
+
   let bestMatch: RankedIssue | null = null;
   let bestScore = 0;
 
   for (const candidate of priorWeekIssues) {
-    if (candidate.normalized_name === current.normalized_name) {
-      return candidate;
+    const candidateKey = candidate.normalized_name;
+    if (index && (
+      index.neverMerge.has(pairKey(currentKey, candidateKey)) ||
+      (index.names.has(currentKey) && index.names.has(candidateKey))
+    )) {
+      continue;
     }
 
-    const score = topicSimilarity(current.normalized_name, candidate.normalized_name);
-    if (score >= SIMILARITY_THRESHOLD && score > bestScore) {
+    const score = matcher.similarity(currentKey, candidateKey);
+    if (score >= matcher.threshold && score > bestScore) {
       bestScore = score;
       bestMatch = candidate;
     }
   }
 
-  return bestMatch;
+  return bestMatch ? { issue: bestMatch, confidence: bestScore } : null;
+}
+
+function normalizeWithIndex(topicName: string, index: TaxonomyIndex | null): string {
+  const cleaned = cleanTopicName(topicName);
+  if (!cleaned) return "";
+
+  const curated = index?.aliases.get(cleaned);
+  if (curated) {
+    return curated;
+  }
+
+  if (TOPIC_NORMALIZATIONS[cleaned]) {
+    return index?.aliases.get(TOPIC_NORMALIZATIONS[cleaned]) ?? TOPIC_NORMALIZATIONS[cleaned];
+  }
+
+  // Apply partial replacements while keeping determinism.
+  let normalized = cleaned;
+  for (const [pattern, replacement] of Object.entries(TOPIC_NORMALIZATIONS)) {
+    const regex = new RegExp(`\\b${escapeRegex(pattern)}\\b`, "g");
+    normalized = normalized.replace(regex, replacement);
+  }
+
+  return index?.aliases.get(normalized) ?? normalized;
+}
+
+function buildTaxonomyIndex(taxonomy: TopicTaxonomy): TaxonomyIndex {
+  const index: TaxonomyIndex = {
+    aliases: new Map(),
+    names: new Map(),
+    parents: new Map(),
+    neverMerge: new Set()
+  };
+
+  for (const issue of taxonomy.issues) {
+    const key = cleanTopicName(issue.canonical_name);
+    if (!key) continue;
+    index.names.set(key, issue.canonical_name.trim());
+    index.aliases.set(key, key);
+  }
+
+  // Canonical names win over an identical alias of another issue
+  for (const issue of taxonomy.issues) {
+    const key = cleanTopicName(issue.canonical_name);
+    if (!key) continue;
+
+    for (const alias of issue.aliases) {
+      const aliasKey = cleanTopicName(alias);
+      if (aliasKey && !index.aliases.has(aliasKey)) {
+        index.aliases.set(aliasKey, key);
+      }
+    }
+
+    const parentKey = issue.parent ? cleanTopicName(issue.parent) : "";
+    if (parentKey && parentKey !== key) {
+      index.parents.set(key, index.aliases.get(parentKey) ?? parentKey);
+    }
+  }
+
+  for (const [a, b] of taxonomy.never_merge) {
+    index.neverMerge.add(pairKey(cleanTopicName(a), cleanTopicName(b)));
+  }
+
+  return index;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
 }
 
 function buildDeltaDescription(
@@ -414,7 +679,10 @@ function standardDeviation(values: number[]): number {
   return Math.sqrt(avgSquareDiff);
 }
 
-function clamp01(value: number): number {
+/**
+ * Clamp a score to 0-1
+ */
+export function clamp01(value: number): number {
   return Math.max(0, Math.min(1, value));
 }
 
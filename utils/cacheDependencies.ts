@@ -0,0 +1,135 @@
+/**
+ * Weekly cache dependencies
+ *
+ * A weekly aggregation depends on more than the IDs of its episodes: the
+ * content of this week's and the prior week's episodes (the prior week feeds
+ * the week-over-week deltas), the ranking profile, the normalization rules
+ * (curated taxonomy and topic matcher) and the aggregation settings. Each of
+ * these inputs is hashed on its own and stored with the aggregation, so a
+ * lookup recomputes only weeks whose inputs changed and can say which did.
+ */
+
+import type { EpisodeInsight, TopicTaxonomy, WeeklyCacheDependencies, WeeklyCacheInput } from '../types';
+import { hash64Hex } from './hash';
+
+export interface WeeklyCacheSettings {
+  frameworkVersion: string;
+  algorithmVersion: string;
+  rankingSignature: string;      // rankingProfileSignature of the active ranking profile
+  topicMatcher: string;          // describeTopicMatcher of the matching settings
+  taxonomy: TopicTaxonomy | null;
+  aggregation: unknown;          // Aggregation settings (sentiment strategy, interval and significance levels)
+}
+
+const INPUT_ORDER: WeeklyCacheInput[] = ['framework', 'episodes', 'prior-episodes', 'ranking', 'normalization', 'aggregation'];
+
+/**
+ * Hash every input of one week's aggregation
+ */
+export function computeWeeklyCacheDependencies(
+  currentWeekEpisodes: EpisodeInsight[],
+  priorWeekEpisodes: EpisodeInsight[],
+  settings: WeeklyCacheSettings
+): WeeklyCacheDependencies {
+  const episodeHashes = hashEpisodes(currentWeekEpisodes);
+  const priorEpisodeHashes = hashEpisodes(priorWeekEpisodes);
+
+  const inputs: Record<WeeklyCacheInput, string> = {
+    framework: hash64Hex(`${settings.frameworkVersion}|${settings.algorithmVersion}`),
+    episodes: hash64Hex(stableStringify(episodeHashes)),
+    'prior-episodes': hash64Hex(stableStringify(priorEpisodeHashes)),
+    ranking: hash64Hex(settings.rankingSignature),
+    // The taxonomy's edit time is left out: saving unchanged rules keeps the cache
+    normalization: hash64Hex(stableStringify({
+      matcher: settings.topicMatcher,
+      issues: settings.taxonomy?.issues ?? [],
+      never_merge: settings.taxonomy?.never_merge ?? []
+    })),
+    aggregation: hash64Hex(stableStringify(settings.aggregation))
+  };
+
+  return {
+    hash: hash64Hex(INPUT_ORDER.map(input => inputs[input]).join('|')),
+    inputs,
+    episode_hashes: episodeHashes,
+    prior_episode_hashes: priorEpisodeHashes
+  };
+}
+
+/**
+ * Why a cached aggregation no longer matches its inputs (empty: still valid)
+ *
+ * @param cached - Dependencies stored with the cached aggregation; null when nothing is cached,
+ *   undefined when the aggregation was cached before dependencies were tracked
+ */
+export function explainWeeklyCacheChanges(
+  cached: WeeklyCacheDependencies | null | undefined,
+  current: WeeklyCacheDependencies
+): string[] {
+  if (cached === null) return ['Not cached yet'];
+  if (!cached) return ['Cached before input tracking'];
+  if (cached.hash === current.hash) return [];
+
+  const reasons: string[] = [];
+  for (const input of INPUT_ORDER) {
+    if (cached.inputs[input] === current.inputs[input]) continue;
+    switch (input) {
+      case 'framework':
+        reasons.push('Framework or aggregation algorithm version changed');
+        break;
+      case 'episodes':
+        reasons.push(`This week's episodes: ${describeEpisodeChanges(cached.episode_hashes, current.episode_hashes)}`);
+        break;
+      case 'prior-episodes':
+        reasons.push(`Prior week's episodes: ${describeEpisodeChanges(cached.prior_episode_hashes, current.prior_episode_hashes)}`);
+        break;
+      case 'ranking':
+        reasons.push('Ranking profile or weights changed');
+        break;
+      case 'normalization':
+        reasons.push('Topic taxonomy or topic matcher changed');
+        break;
+      case 'aggregation':
+        reasons.push('Sentiment aggregation settings changed');
+        break;
+    }
+  }
+  return reasons;
+}
+
+function describeEpisodeChanges(before: Record<string, string>, after: Record<string, string>): string {
+  const added = Object.keys(after).filter(id => !(id in before)).length;
+  const removed = Object.keys(before).filter(id => !(id in after)).length;
+  const changed = Object.keys(after).filter(id => id in before && before[id] !== after[id]).length;
+  const parts = [
+    added > 0 ? `${added} added` : '',
+    removed > 0 ? `${removed} removed` : '',
+    changed > 0 ? `${changed} re-analyzed or edited` : ''
+  ].filter(Boolean);
+  return parts.join(', ') || 'changed';
+}
+
+function hashEpisodes(episodes: EpisodeInsight[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const episode of episodes) {
+    hashes[episode.episode_id] = hash64Hex(stableStringify(episode));
+  }
+  return hashes;
+}
+
+/**
+ * JSON with object keys sorted, so equal content always hashes the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
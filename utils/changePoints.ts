@@ -0,0 +1,113 @@
+/**
+ * Change-point detection for weekly sentiment series.
+ *
+ * Uses PELT (Pruned Exact Linear Time, Killick et al. 2012) with a
+ * squared-error cost, i.e. it finds the segmentation into constant-mean
+ * regimes that minimizes the within-segment squared error plus a penalty per
+ * breakpoint. The penalty scales with the series' noise, estimated from the
+ * median absolute week-to-week difference so that a real shift does not
+ * inflate it, and with log(n) so longer series need stronger evidence.
+ */
+
+import { median } from './statistics';
+
+export interface ChangePoint {
+  /** Index of the first value of the new regime */
+  index: number;
+  /** Mean of the segment ending just before the breakpoint */
+  before_mean: number;
+  /** Mean of the segment starting at the breakpoint */
+  after_mean: number;
+  /** after_mean - before_mean */
+  shift: number;
+}
+
+export interface ChangePointOptions {
+  /** Shortest regime, in observations (default 2) */
+  minSegmentLength?: number;
+  /** Multiplier on noise variance * log(n) (default 3) */
+  penaltyFactor?: number;
+  /** Lower bound on the noise estimate, in sentiment points (default 3) */
+  minNoise?: number;
+}
+
+const DEFAULT_MIN_SEGMENT = 2;
+const DEFAULT_PENALTY_FACTOR = 3;
+// Sentiment scores jitter by a few points week to week even when nothing changed
+const DEFAULT_MIN_NOISE = 3;
+// Scales the MAD of first differences to the standard deviation of the values
+const MAD_TO_SIGMA = 1 / (0.6745 * Math.SQRT2);
+
+/**
+ * Detect mean shifts in a series. Returns the breakpoints in order; a series
+ * shorter than two minimum segments has none.
+ */
+export function detectChangePoints(values: number[], options: ChangePointOptions = {}): ChangePoint[] {
+  const minSeg = Math.max(1, Math.floor(options.minSegmentLength ?? DEFAULT_MIN_SEGMENT));
+  const n = values.length;
+  if (n < 2 * minSeg) return [];
+
+  const noise = Math.max(estimateNoise(values), options.minNoise ?? DEFAULT_MIN_NOISE);
+  const penalty = (options.penaltyFactor ?? DEFAULT_PENALTY_FACTOR) * noise * noise * Math.log(n);
+
+  // Prefix sums give each segment's squared error in O(1)
+  const sum = [0];
+  const sumSq = [0];
+  values.forEach((v, i) => {
+    sum.push(sum[i] + v);
+    sumSq.push(sumSq[i] + v * v);
+  });
+  const cost = (s: number, t: number): number => {
+    const total = sum[t] - sum[s];
+    return sumSq[t] - sumSq[s] - (total * total) / (t - s);
+  };
+
+  // best[t]: optimal penalized cost of values[0..t); last[t]: start of its final segment
+  const best: number[] = new Array(n + 1).fill(Infinity);
+  const last: number[] = new Array(n + 1).fill(0);
+  best[0] = -penalty;
+  let candidates: number[] = [0];
+
+  for (let t = minSeg; t <= n; t++) {
+    if (t - minSeg >= minSeg) {
+      candidates.push(t - minSeg);
+    }
+    for (const s of candidates) {
+      const total = best[s] + cost(s, t) + penalty;
+      if (total < best[t]) {
+        best[t] = total;
+        last[t] = s;
+      }
+    }
+    // Squared error never grows when a segment is split, so a start that
+    // cannot beat the optimum now never will (the PELT pruning rule)
+    candidates = candidates.filter(s => best[s] + cost(s, t) <= best[t]);
+  }
+
+  const starts: number[] = [];
+  for (let t = n; t > 0; t = last[t]) {
+    starts.unshift(last[t]);
+  }
+
+  const segmentMean = (i: number): number => {
+    const end = i + 1 < starts.length ? starts[i + 1] : n;
+    return (sum[end] - sum[starts[i]]) / (end - starts[i]);
+  };
+
+  return starts.slice(1).map((index, i) => {
+    const before = segmentMean(i);
+    const after = segmentMean(i + 1);
+    return { index, before_mean: before, after_mean: after, shift: after - before };
+  });
+}
+
+/**
+ * Robust noise level: MAD of first differences, scaled to a standard deviation.
+ * A level shift changes only one difference, so it barely moves the estimate.
+ */
+function estimateNoise(values: number[]): number {
+  if (values.length < 2) return 0;
+  const diffs = values.slice(1).map((v, i) => v - values[i]);
+  const center = median(diffs);
+  return median(diffs.map(d => Math.abs(d - center))) * MAD_TO_SIGMA;
+}
@@ -0,0 +1,135 @@
+/**
+ * Next-week forecasts of weekly series (overall index, issue sentiment and
+ * prominence).
+ *
+ * Two deliberately simple models, suited to a few dozen noisy weekly points:
+ * - exponential smoothing: the smoothing factor is picked from a grid by
+ *   minimizing the one-step-ahead squared error over the history;
+ * - AR(1): least-squares fit of each week on the week before.
+ *
+ * Prediction intervals assume normally distributed one-step errors with the
+ * spread of the in-sample one-step errors.
+ */
+
+import type { ForecastMethod } from '../constants/config';
+
+export interface Forecast {
+  method: ForecastMethod;
+  prediction: number;
+  lower: number;
+  upper: number;
+  level: number;   // Coverage of [lower, upper], e.g. 0.8
+  history: number; // Weeks the forecast was fitted on
+}
+
+export interface ForecastOptions {
+  /** Values are clamped to this range (default 0-100, the sentiment scale) */
+  min?: number;
+  max?: number;
+  /** Floor on the error spread so a flat history still gets an interval */
+  minSigma?: number;
+}
+
+// Fewer weeks leave nothing to fit the error spread on
+export const MIN_FORECAST_HISTORY = 4;
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+// Keeps AR(1) stationary so a short trending history does not explode
+const MAX_PERSISTENCE = 0.95;
+
+/**
+ * Forecast the value following the series, or null when the history is too short
+ */
+export function forecastNext(
+  values: number[],
+  method: ForecastMethod,
+  level: number,
+  options: ForecastOptions = {}
+): Forecast | null {
+  const series = values.filter(v => Number.isFinite(v));
+  if (series.length < MIN_FORECAST_HISTORY) return null;
+
+  const { prediction, sigma } = method === 'autoregressive'
+    ? fitAutoregressive(series)
+    : fitExponentialSmoothing(series);
+
+  const min = options.min ?? 0;
+  const max = options.max ?? 100;
+  const halfWidth = normalQuantile(0.5 + level / 2) * Math.max(sigma, options.minSigma ?? 0);
+  const clamp = (value: number) => Math.min(max, Math.max(min, value));
+
+  return {
+    method,
+    prediction: clamp(prediction),
+    lower: clamp(prediction - halfWidth),
+    upper: clamp(prediction + halfWidth),
+    level,
+    history: series.length
+  };
+}
+
+/**
+ * Start of the week after the given YYYY-MM-DD week start
+ */
+export function forecastWeekStart(lastWeekStart: string): string {
+  const [y, m, d] = lastWeekStart.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + 7)).toISOString().slice(0, 10);
+}
+
+function fitExponentialSmoothing(series: number[]): { prediction: number; sigma: number } {
+  let best = { alpha: SMOOTHING_GRID[0], sse: Infinity, level: series[0] };
+
+  for (const alpha of SMOOTHING_GRID) {
+    let level = series[0];
+    let sse = 0;
+    for (let t = 1; t < series.length; t++) {
+      const error = series[t] - level;
+      sse += error * error;
+      level += alpha * error;
+    }
+    if (sse < best.sse) {
+      best = { alpha, sse, level };
+    }
+  }
+
+  return { prediction: best.level, sigma: Math.sqrt(best.sse / (series.length - 1)) };
+}
+
+function fitAutoregressive(series: number[]): { prediction: number; sigma: number } {
+  const previous = series.slice(0, -1);
+  const next = series.slice(1);
+  const meanPrev = mean(previous);
+  const meanNext = mean(next);
+
+  let covariance = 0;
+  let variance = 0;
+  previous.forEach((x, i) => {
+    covariance += (x - meanPrev) * (next[i] - meanNext);
+    variance += (x - meanPrev) ** 2;
+  });
+
+  const phi = variance > 0
+    ? Math.min(MAX_PERSISTENCE, Math.max(-MAX_PERSISTENCE, covariance / variance))
+    : 0;
+  const intercept = meanNext - phi * meanPrev;
+
+  const sse = previous.reduce((sum, x, i) => sum + (next[i] - (intercept + phi * x)) ** 2, 0);
+  // Two fitted parameters
+  const dof = Math.max(1, previous.length - 2);
+
+  return { prediction: intercept + phi * series[series.length - 1], sigma: Math.sqrt(sse / dof) };
+}
+
+/**
+ * Standard normal quantile (Abramowitz & Stegun 26.2.23, error below 5e-4)
+ */
+function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) return 0;
+  const tail = p < 0.5 ? p : 1 - p;
+  const t = Math.sqrt(-2 * Math.log(tail));
+  const z = t - (2.515517 + 0.802853 * t + 0.010328 * t * t) / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+  return p < 0.5 ? -z : z;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
@@ -0,0 +1,50 @@
+/**
+ * FNV-1a string hashes for ids, cache keys and PRNG seeds.
+ *
+ * Not cryptographic. Hashes end up in stored episode ids, fixture keys and
+ * cached aggregations, so the output of these functions must never change.
+ */
+
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+// Offset basis of the second lane of hash64 (upper half of the 64-bit FNV basis)
+const HIGH_LANE_OFFSET_BASIS = 0xcbf29ce4;
+
+/**
+ * 32-bit FNV-1a of a string's UTF-16 code units, as an unsigned integer
+ */
+export function hash32(value: string): number {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 32-bit FNV-1a as 8 hex characters
+ */
+export function hash32Hex(value: string): string {
+  return toHex(hash32(value));
+}
+
+/**
+ * 64-bit wide FNV-1a variant as 16 hex characters, computed as two 32-bit
+ * lanes with different offset bases (fewer collisions than hash32 for
+ * content hashes)
+ */
+export function hash64Hex(value: string): string {
+  let low = FNV_OFFSET_BASIS;
+  let high = HIGH_LANE_OFFSET_BASIS;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    low = Math.imul(low ^ code, FNV_PRIME);
+    high = Math.imul(high ^ code ^ (low >>> 24), FNV_PRIME);
+  }
+  return toHex(high >>> 0) + toHex(low >>> 0);
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(8, '0');
+}
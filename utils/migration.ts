@@ -1,6 +1,7 @@
 import { storageService } from '../services/storage';
 import { saveEpisode, saveWeeklyAggregation, getEpisode } from '../services/episodeDB';
 import type { HCRReport, EpisodeInsight, TopicInsight, WeeklyAggregation, Evidence } from '../types';
+import { focusRelevanceFromLegacyFlag } from './aggregation';
 
 /**
  * Migration utility to convert LocalStorage week-level data to IndexedDB episode-level data
@@ -124,8 +125,8 @@ async function convertSourceToEpisode(
   // Extract key quotes
   const keyQuotes = extractKeyQuotes(report, episodeId);
 
-  // Check Trump admin focus
-  const trumpAdminFocus = checkTrumpAdminFocus(topics);
+  // Legacy reports only covered the Trump administration focus
+  const focusRelevance = focusRelevanceFromLegacyFlag(checkTrumpAdminFocus(topics), topics);
 
   return {
     episode_id: episodeId,
@@ -135,7 +136,7 @@ async function convertSourceToEpisode(
     transcript_url: undefined, // Not available in old format
     topics,
     overall_sentiment: overallSentiment,
-    trump_admin_focus: trumpAdminFocus,
+    focus_relevance: focusRelevance,
     key_quotes: keyQuotes,
     framework_version: LEGACY_FRAMEWORK_VERSION,
     processed_at: report.generated_at,
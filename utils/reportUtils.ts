@@ -1,4 +1,9 @@
-import type { HCRReport, IssueEntry, PeriodComparison, PeriodIssueTrend, PeriodWeekSummary } from "../types";
+import type { HCRReport, IssueEntry, PeriodChangePoint, PeriodComparison, PeriodForecast, PeriodIssueTrend, PeriodWeekSummary, TopicTaxonomy } from "../types";
+import { DEFAULT_CONFIG, type AppConfig } from "../constants/config";
+import { cleanTopicName, createTaxonomyIssueFinder, groupTopicNames, type TopicMatcher } from "./aggregation";
+import { detectChangePoints } from "./changePoints";
+import { forecastNext, forecastWeekStart } from "./forecasting";
+import { aggregateSentiment } from "./statistics";
 
 export interface DateWindow {
   start: string;
@@ -67,7 +72,109 @@ export function getWeekWindows(startDateStr: string, endDateStr: string): DateWi
   return windows;
 }
 
-export function aggregateReports(reports: HCRReport[]): HCRReport {
+/**
+ * Key and display name a weekly issue is tracked under across a period: the
+ * curated issue when the taxonomy covers the name, else the normalized name
+ */
+export function resolvePeriodIssue(name: string, taxonomy?: TopicTaxonomy | null): { key: string; name: string } {
+  return createPeriodIssueResolver(taxonomy)(name);
+}
+
+/**
+ * resolvePeriodIssue for many names against one taxonomy; the taxonomy is indexed once.
+ */
+export function createPeriodIssueResolver(taxonomy?: TopicTaxonomy | null): (name: string) => { key: string; name: string } {
+  const findIssue = taxonomy ? createTaxonomyIssueFinder(taxonomy) : null;
+  return name => {
+    const curated = findIssue ? findIssue(name) : null;
+    return curated
+      ? { key: curated.key, name: curated.canonical_name }
+      : { key: normalizeIssueKey(name), name };
+  };
+}
+
+/**
+ * Overall sentiment index of a weekly report: its top issues combined with
+ * the strategy that aggregated them
+ */
+export function computeOverallSentimentIndex(report: HCRReport): number | 'unknown' {
+  const samples = report.top_issues
+    .filter(i => typeof i.sentiment_index === 'number' && Number.isFinite(i.sentiment_index))
+    .map(i => ({ sentiment: i.sentiment_index as number, confidence: i.confidence, prominence: i.prominence ?? 1 }));
+  if (samples.length === 0) return 'unknown';
+  return Math.round(aggregateSentiment(samples, report.sentiment_strategy ?? 'mean'));
+}
+
+/**
+ * resolvePeriodIssue where similar names are grouped as rankIssues groups
+ * topics (names in chronological order). A group that holds a curated issue
+ * resolves to it; any other group shares the key of its first name, while
+ * each name keeps its own display name.
+ */
+function createClusteredIssueResolver(
+  names: string[],
+  taxonomy: TopicTaxonomy | null | undefined,
+  matcher: TopicMatcher
+): (name: string) => { key: string; name: string } {
+  const resolve = createPeriodIssueResolver(taxonomy);
+  const findIssue = taxonomy ? createTaxonomyIssueFinder(taxonomy) : null;
+  const groups = groupTopicNames(names, taxonomy, matcher);
+  const firstNames = new Map<string, string>();
+  names.forEach(name => {
+    const group = groups.get(cleanTopicName(name));
+    if (group && !firstNames.has(group.normalized_name)) firstNames.set(group.normalized_name, name);
+  });
+
+  return name => {
+    const own = resolve(name);
+    const group = groups.get(cleanTopicName(name));
+    if (!group) return own;
+    const curated = findIssue ? findIssue(group.normalized_name) : null;
+    if (curated) return { key: curated.key, name: curated.canonical_name };
+    const first = firstNames.get(group.normalized_name);
+    return first ? { key: resolve(first).key, name: own.name } : own;
+  };
+}
+
+/**
+ * One observation for a week's issues that resolve to the same period issue:
+ * sentiments combined with the week's aggregation strategy, prominence averaged
+ */
+function mergeWeekIssues(issues: IssueEntry[], report: HCRReport): { sentiment: number; prominence?: number } {
+  if (issues.length === 1) {
+    return { sentiment: issues[0].sentiment_index as number, prominence: issues[0].prominence };
+  }
+  const samples = issues.map(i => ({ sentiment: i.sentiment_index as number, confidence: i.confidence, prominence: i.prominence ?? 1 }));
+  const prominences = issues.map(i => i.prominence).filter((p): p is number => typeof p === 'number');
+  return {
+    sentiment: aggregateSentiment(samples, report.sentiment_strategy ?? 'mean'),
+    prominence: prominences.length > 0 ? prominences.reduce((sum, p) => sum + p, 0) / prominences.length : undefined
+  };
+}
+
+function normalizeIssueKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Combines weekly reports into one period report with per-issue trends.
+ * With a taxonomy, issue names that resolve to the same curated issue are
+ * tracked as one trend under its canonical name. With a matcher, similar
+ * issue names of different weeks (e.g. paraphrases scored by the embedding
+ * matcher) also share a trend. The overall index and the latest week's
+ * issues are forecast one week ahead with the given settings.
+ */
+export function aggregateReports(
+  reports: HCRReport[],
+  taxonomy?: TopicTaxonomy | null,
+  forecasting: AppConfig['forecasting'] = DEFAULT_CONFIG.forecasting,
+  matcher?: TopicMatcher
+): HCRReport {
   if (reports.length === 0) throw new Error("No reports to aggregate");
   if (reports.length === 1) return reports[0];
 
@@ -78,18 +185,9 @@ export function aggregateReports(reports: HCRReport[]): HCRReport {
   const latest = sortedAsc[sortedAsc.length - 1];
   const earliest = sortedAsc[0];
 
-  const normalizeIssueKey = (name: string): string =>
-    name
-      .toLowerCase()
-      .replace(/&/g, ' and ')
-      .replace(/[^a-z0-9]+/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-
-  const numericSentiments = (issues: IssueEntry[]): number[] =>
-    issues
-      .map(i => (typeof i.sentiment_index === 'number' ? i.sentiment_index : null))
-      .filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+  const resolveIssue = matcher
+    ? createClusteredIssueResolver(sortedAsc.flatMap(report => report.top_issues.map(issue => issue.issue_name)), taxonomy, matcher)
+    : createPeriodIssueResolver(taxonomy);
 
   const mean = (values: number[]): number | null => {
     if (values.length === 0) return null;
@@ -104,12 +202,6 @@ export function aggregateReports(reports: HCRReport[]): HCRReport {
     return Math.sqrt(variance);
   };
 
-  const computeOverallSentimentIndex = (report: HCRReport): number | 'unknown' => {
-    const values = numericSentiments(report.top_issues);
-    const avg = mean(values);
-    return avg === null ? 'unknown' : Math.round(avg);
-  };
-
   const periodSeries: PeriodWeekSummary[] = sortedAsc.map(report => ({
     week_start: report.run_window.window_start,
     week_end: report.run_window.window_end,
@@ -120,22 +212,31 @@ export function aggregateReports(reports: HCRReport[]): HCRReport {
       sentiment_index: issue.sentiment_index,
       confidence: issue.confidence
     })),
-    narrative_shifts: report.narrative_shifts.map(shift => shift.shift)
+    narrative_shifts: report.narrative_shifts.map(shift => shift.shift),
+    ...(report.cache_status ? { cache_status: report.cache_status } : {})
   }));
 
-  type IssueObservation = { weekStart: string; sentiment: number };
+  type IssueObservation = { weekStart: string; sentiment: number; prominence?: number };
   const issueObservations = new Map<string, { issueName: string; observations: IssueObservation[] }>();
 
   for (const report of sortedAsc) {
+    // Issues of one week that resolve to the same curated issue become one observation
+    const weekIssues = new Map<string, { name: string; issues: IssueEntry[] }>();
     for (const issue of report.top_issues) {
       if (typeof issue.sentiment_index !== 'number' || !Number.isFinite(issue.sentiment_index)) continue;
-      const normalized = normalizeIssueKey(issue.issue_name);
-      const entry = issueObservations.get(normalized) ?? { issueName: issue.issue_name, observations: [] };
+      const resolved = resolveIssue(issue.issue_name);
+      const group = weekIssues.get(resolved.key) ?? { name: resolved.name, issues: [] };
+      group.issues.push(issue);
+      weekIssues.set(resolved.key, group);
+    }
+
+    weekIssues.forEach((group, normalized) => {
+      const entry = issueObservations.get(normalized) ?? { issueName: group.name, observations: [] };
       // Keep the most recent display name we saw for this normalized key.
-      entry.issueName = issue.issue_name;
-      entry.observations.push({ weekStart: report.run_window.window_start, sentiment: issue.sentiment_index });
+      entry.issueName = group.name;
+      entry.observations.push({ weekStart: report.run_window.window_start, ...mergeWeekIssues(group.issues, report) });
       issueObservations.set(normalized, entry);
-    }
+    });
   }
 
   const issueTrends: PeriodIssueTrend[] = Array.from(issueObservations.entries())
@@ -206,6 +307,102 @@ export function aggregateReports(reports: HCRReport[]): HCRReport {
     );
   }
 
+  // Regime changes inside the period, which a flat start-to-end delta can hide
+  const toChangePoints = (
+    series: Array<{ weekStart: string; sentiment: number }>,
+    base: Pick<PeriodChangePoint, 'series' | 'issue_name' | 'normalized_name'>
+  ): PeriodChangePoint[] =>
+    detectChangePoints(series.map(o => o.sentiment)).map(cp => ({
+      ...base,
+      week_start: series[cp.index].weekStart,
+      before_mean: Math.round(cp.before_mean),
+      after_mean: Math.round(cp.after_mean),
+      shift: Math.round(cp.shift)
+    }));
+
+  const overallChangePoints = toChangePoints(
+    periodSeries
+      .filter(p => typeof p.overall_sentiment_index === 'number')
+      .map(p => ({ weekStart: p.week_start, sentiment: p.overall_sentiment_index as number })),
+    { series: 'overall' }
+  );
+  const issueChangePoints = Array.from(issueObservations.entries())
+    .flatMap(([normalizedName, entry]) => toChangePoints(
+      [...entry.observations].sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+      { series: 'issue', issue_name: entry.issueName, normalized_name: normalizedName }
+    ))
+    .sort((a, b) => Math.abs(b.shift) - Math.abs(a.shift));
+
+  overallChangePoints.forEach(cp => {
+    notes.push(
+      `Regime change in overall sentiment from week starting ${cp.week_start}: average ${cp.before_mean} → ${cp.after_mean} (${cp.shift > 0 ? '+' : ''}${cp.shift}).`
+    );
+  });
+  if (issueChangePoints.length > 0) {
+    const strongest = issueChangePoints[0];
+    notes.push(
+      `${issueChangePoints.length} issue-level regime change(s) detected; largest: ${strongest.issue_name} ${strongest.shift > 0 ? '+' : ''}${strongest.shift} from week starting ${strongest.week_start}.`
+    );
+  }
+
+  // One week past the period, for the overall index and the issues still on the latest list
+  const forecastWeek = forecastWeekStart(latest.run_window.window_start);
+  const toForecast = (
+    values: number[],
+    metric: PeriodForecast['metric'],
+    base: Pick<PeriodForecast, 'series' | 'issue_name' | 'normalized_name'>
+  ): PeriodForecast | null => {
+    const forecast = forecastNext(
+      values,
+      forecasting.method,
+      forecasting.intervalLevel,
+      metric === 'sentiment' ? { minSigma: 1 } : { min: 0, max: 1, minSigma: 0.01 }
+    );
+    if (!forecast) return null;
+    const digits = metric === 'sentiment' ? 0 : 3;
+    return {
+      ...base,
+      metric,
+      week_start: forecastWeek,
+      method: forecast.method,
+      prediction: Number(forecast.prediction.toFixed(digits)),
+      lower: Number(forecast.lower.toFixed(digits)),
+      upper: Number(forecast.upper.toFixed(digits)),
+      level: forecast.level,
+      history: forecast.history
+    };
+  };
+
+  const overallForecast = toForecast(
+    periodSeries
+      .map(p => p.overall_sentiment_index)
+      .filter((value): value is number => typeof value === 'number'),
+    'sentiment',
+    { series: 'overall' }
+  );
+  const issueForecasts = Array.from(new Set<string>(latest.top_issues.map(issue => resolveIssue(issue.issue_name).key)))
+    .flatMap(key => {
+      const entry = issueObservations.get(key);
+      if (!entry) return [];
+      const observations = [...entry.observations].sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+      const base = { series: 'issue' as const, issue_name: entry.issueName, normalized_name: key };
+      return [
+        toForecast(observations.map(o => o.sentiment), 'sentiment', base),
+        toForecast(
+          observations.map(o => o.prominence).filter((p): p is number => typeof p === 'number'),
+          'prominence',
+          base
+        )
+      ];
+    })
+    .filter((forecast): forecast is PeriodForecast => forecast !== null);
+
+  if (overallForecast) {
+    notes.push(
+      `Forecast for the week starting ${forecastWeek}: overall sentiment ${overallForecast.prediction} (${Math.round(overallForecast.level * 100)}% interval ${overallForecast.lower}–${overallForecast.upper}).`
+    );
+  }
+
   const periodComparison: PeriodComparison = {
     week_count: periodSeries.length,
     overall_sentiment_start: overallStart,
@@ -213,6 +410,8 @@ export function aggregateReports(reports: HCRReport[]): HCRReport {
     overall_sentiment_delta: overallDelta,
     top_gainers: topGainers,
     top_losers: topLosers,
+    change_points: [...overallChangePoints, ...issueChangePoints],
+    forecasts: overallForecast ? [overallForecast, ...issueForecasts] : issueForecasts,
     notes
   };
 
@@ -236,8 +435,7 @@ export function aggregateReports(reports: HCRReport[]): HCRReport {
   issueTrends.forEach(t => trendLookup.set(t.normalized_name, t));
 
   const aggregatedTopIssues: IssueEntry[] = latest.top_issues.map(issue => {
-    const normalized = normalizeIssueKey(issue.issue_name);
-    const trend = trendLookup.get(normalized);
+    const trend = trendLookup.get(resolveIssue(issue.issue_name).key);
     if (!trend || typeof trend.delta !== 'number') {
       return {
         ...issue,
@@ -0,0 +1,361 @@
+/**
+ * Minimal runtime schema layer for model output.
+ *
+ * Schemas are plain objects close to JSON Schema so they can be sent to
+ * providers as response schemas (see `toJsonSchema`) and also used locally to
+ * repair and validate payloads. Two non-standard keywords drive repair and are
+ * stripped before sending:
+ * - `aliases`: alternate property names models commonly use
+ * - `default`: value filled in when the property is missing
+ */
+
+interface BaseSchema {
+  description?: string;
+  nullable?: boolean;
+  default?: unknown;
+  aliases?: string[];
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string';
+  enum?: string[];
+  format?: 'date';
+  minLength?: number;
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean';
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array';
+  items: Schema;
+  minItems?: number;
+  maxItems?: number;
+  /** Drop items that still fail validation after repair (unless every item fails) */
+  dropInvalidItems?: boolean;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object';
+  properties: Record<string, Schema>;
+  required?: string[];
+}
+
+export interface AnyOfSchema extends BaseSchema {
+  anyOf: Schema[];
+}
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema
+  | AnyOfSchema;
+
+/**
+ * A single field-level validation failure
+ */
+export interface SchemaIssue {
+  /** JSON path, e.g. "$.topics[2].sentiment_score" */
+  path: string;
+  message: string;
+}
+
+export interface SchemaCheckResult<T> {
+  value: T;
+  issues: SchemaIssue[];
+  /** Human-readable notes for every deterministic repair applied */
+  repairs: string[];
+}
+
+/**
+ * Extract the JSON payload from model text.
+ * Handles code fences and leading/trailing prose around an object or array.
+ */
+export function extractJsonText(text: string): string {
+  if (!text) return '';
+  const codeBlockMatch = text.match(/```(?:json|JSON)?\s*([\s\S]*?)\s*```/);
+  if (codeBlockMatch) {
+    return codeBlockMatch[1].trim();
+  }
+
+  const firstBrace = text.indexOf('{');
+  const firstBracket = text.indexOf('[');
+  const startsWithArray = firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace);
+  const open = startsWithArray ? firstBracket : firstBrace;
+  const close = text.lastIndexOf(startsWithArray ? ']' : '}');
+
+  if (open !== -1 && close > open) {
+    return text.substring(open, close + 1);
+  }
+  return text.trim();
+}
+
+/**
+ * Parse model text, apply deterministic repairs, then validate.
+ * JSON syntax errors are reported as an issue at "$" rather than thrown.
+ */
+export function parseWithSchema<T>(text: string, schema: Schema): SchemaCheckResult<T | null> {
+  const jsonText = extractJsonText(text);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonText);
+  } catch (e) {
+    return {
+      value: null,
+      issues: [{ path: '$', message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` }],
+      repairs: []
+    };
+  }
+
+  const repairs: string[] = [];
+  const value = repairValue(raw, schema, '$', repairs);
+  return { value: value as T, issues: validateValue(value, schema), repairs };
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns Field-level issues (empty when valid)
+ */
+export function validateValue(value: unknown, schema: Schema, path = '$'): SchemaIssue[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [{ path, message: value === null ? 'must not be null' : 'is required' }];
+  }
+
+  if ('anyOf' in schema) {
+    const matches = schema.anyOf.some(option => validateValue(value, option, path).length === 0);
+    return matches ? [] : [{ path, message: `does not match any allowed form (${schema.anyOf.map(describe).join(' | ')})` }];
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return [{ path, message: `expected string, got ${typeOf(value)}` }];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` }];
+      }
+      if (schema.format === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return [{ path, message: 'expected date in YYYY-MM-DD format' }];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [{ path, message: `must be at least ${schema.minLength} character(s)` }];
+      }
+      return [];
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [{ path, message: `expected number, got ${typeOf(value)}` }];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [{ path, message: 'expected integer' }];
+      if (schema.minimum !== undefined && value < schema.minimum) return [{ path, message: `must be >= ${schema.minimum}` }];
+      if (schema.maximum !== undefined && value > schema.maximum) return [{ path, message: `must be <= ${schema.maximum}` }];
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, message: `expected boolean, got ${typeOf(value)}` }];
+    case 'array': {
+      if (!Array.isArray(value)) return [{ path, message: `expected array, got ${typeOf(value)}` }];
+      const issues: SchemaIssue[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path, message: `must contain at most ${schema.maxItems} item(s)` });
+      }
+      value.forEach((item, idx) => issues.push(...validateValue(item, schema.items, `${path}[${idx}]`)));
+      return issues;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return [{ path, message: `expected object, got ${typeOf(value)}` }];
+      const record = value as Record<string, unknown>;
+      const issues: SchemaIssue[] = [];
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        const propValue = record[key];
+        if (propValue === undefined && !schema.required?.includes(key)) continue;
+        issues.push(...validateValue(propValue, propSchema, `${path}.${key}`));
+      }
+      return issues;
+    }
+  }
+}
+
+/**
+ * Convert to a standard JSON Schema for providers that accept response schemas
+ * (repair-only keywords are removed).
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const { aliases: _aliases, default: _default, nullable, ...rest } = schema as Schema & Record<string, unknown>;
+  delete rest.dropInvalidItems;
+
+  let result: Record<string, unknown>;
+  if ('anyOf' in schema) {
+    result = { ...rest, anyOf: schema.anyOf.map(toJsonSchema) };
+  } else if (schema.type === 'array') {
+    result = { ...rest, items: toJsonSchema(schema.items) };
+  } else if (schema.type === 'object') {
+    result = {
+      ...rest,
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]))
+    };
+  } else {
+    result = { ...rest };
+  }
+
+  if (nullable) {
+    return 'anyOf' in schema
+      ? { ...result, anyOf: [...(result.anyOf as unknown[]), { type: 'null' }] }
+      : { ...result, type: [result.type, 'null'] };
+  }
+  return result;
+}
+
+/**
+ * Format issues for logs and error messages
+ */
+export function formatSchemaIssues(issues: SchemaIssue[], limit = 5): string {
+  const shown = issues.slice(0, limit).map(i => `${i.path}: ${i.message}`);
+  if (issues.length > limit) shown.push(`...and ${issues.length - limit} more`);
+  return shown.join('; ');
+}
+
+// ===== Deterministic repair =====
+
+function repairValue(value: unknown, schema: Schema, path: string, repairs: string[]): unknown {
+  if (value === null || value === undefined) {
+    if (schema.default !== undefined) {
+      repairs.push(`${path}: filled default`);
+      return cloneDefault(schema.default);
+    }
+    return value;
+  }
+
+  if ('anyOf' in schema) {
+    for (const option of schema.anyOf) {
+      const optionRepairs: string[] = [];
+      const candidate = repairValue(value, option, path, optionRepairs);
+      if (validateValue(candidate, option, path).length === 0) {
+        repairs.push(...optionRepairs);
+        return candidate;
+      }
+    }
+    return value;
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        repairs.push(`${path}: converted ${typeof value} to string`);
+        value = String(value);
+      }
+      if (typeof value !== 'string') return value;
+      let str = value.trim();
+      if (schema.enum && !schema.enum.includes(str)) {
+        const match = schema.enum.find(option => option.toLowerCase() === str.toLowerCase());
+        if (match) str = match;
+      }
+      if (schema.format === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(str)) {
+        const prefix = str.match(/^\d{4}-\d{2}-\d{2}/);
+        const parsed = new Date(str);
+        const normalized = prefix ? prefix[0] : (!isNaN(parsed.getTime()) ? parsed.toISOString().slice(0, 10) : null);
+        if (normalized) {
+          repairs.push(`${path}: normalized date`);
+          str = normalized;
+        }
+      }
+      return str;
+    }
+    case 'number':
+    case 'integer': {
+      let num = value;
+      if (typeof num === 'string' && num.trim() !== '' && Number.isFinite(Number(num))) {
+        repairs.push(`${path}: converted string to number`);
+        num = Number(num);
+      }
+      if (typeof num !== 'number' || !Number.isFinite(num)) return value;
+      if (schema.minimum !== undefined && num < schema.minimum) {
+        repairs.push(`${path}: clamped ${num} to ${schema.minimum}`);
+        num = schema.minimum;
+      }
+      if (schema.maximum !== undefined && (num as number) > schema.maximum) {
+        repairs.push(`${path}: clamped ${num} to ${schema.maximum}`);
+        num = schema.maximum;
+      }
+      return schema.type === 'integer' ? Math.round(num as number) : num;
+    }
+    case 'boolean': {
+      if (value === 'true' || value === 'false') {
+        repairs.push(`${path}: converted string to boolean`);
+        return value === 'true';
+      }
+      return value;
+    }
+    case 'array': {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else if (validateValue(repairValue(value, schema.items, path, []), schema.items, path).length === 0) {
+        repairs.push(`${path}: wrapped single value in array`);
+        items = [value];
+      } else {
+        return value;
+      }
+
+      const repaired = items.map((item, idx) => repairValue(item, schema.items, `${path}[${idx}]`, repairs));
+      if (!schema.dropInvalidItems) return repaired;
+
+      const valid = repaired.filter((item, idx) => validateValue(item, schema.items, `${path}[${idx}]`).length === 0);
+      if (valid.length === 0 && repaired.length > 0) {
+        // Every item is invalid: keep them so validation reports the real problem
+        return repaired;
+      }
+      if (valid.length < repaired.length) {
+        repairs.push(`${path}: dropped ${repaired.length - valid.length} invalid item(s)`);
+      }
+      return valid;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return value;
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...source };
+
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        let propValue = source[key];
+        if (propValue === undefined && propSchema.aliases) {
+          const alias = propSchema.aliases.find(a => source[a] !== undefined);
+          if (alias) {
+            repairs.push(`${path}.${key}: read from "${alias}"`);
+            propValue = source[alias];
+            delete result[alias];
+          }
+        }
+        const repaired = repairValue(propValue, propSchema, `${path}.${key}`, repairs);
+        if (repaired !== undefined) {
+          result[key] = repaired;
+        }
+      }
+      return result;
+    }
+  }
+}
+
+function cloneDefault(value: unknown): unknown {
+  return typeof value === 'object' && value !== null ? JSON.parse(JSON.stringify(value)) : value;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function describe(schema: Schema): string {
+  if ('anyOf' in schema) return schema.anyOf.map(describe).join(' | ');
+  if (schema.type === 'string' && schema.enum) return schema.enum.map(v => JSON.stringify(v)).join(' | ');
+  return schema.type;
+}
@@ -0,0 +1,215 @@
+/**
+ * Sentiment aggregation strategies, uncertainty intervals and
+ * week-over-week significance tests.
+ *
+ * Intervals are percentile bootstrap intervals: the samples are resampled with
+ * replacement and the strategy is applied to each resample. Changes between
+ * weeks are tested with a permutation test. The PRNG is seeded from the
+ * caller's key so the same input always yields the same result (reports and
+ * cached aggregations stay reproducible).
+ */
+
+import type { DeltaSignificance, SentimentInterval, SentimentSample } from '../types';
+import type { SentimentAggregationStrategy } from '../constants/config';
+import { hash32 } from './hash';
+
+const BOOTSTRAP_RESAMPLES = 400;
+const PERMUTATIONS = 999;
+// Share of samples dropped from each end by the trimmed mean
+const TRIM_FRACTION = 0.2;
+
+/**
+ * Aggregate sentiment samples (0-100) with the given strategy.
+ * Returns 50 (neutral) for an empty sample.
+ */
+export function aggregateSentiment(samples: SentimentSample[], strategy: SentimentAggregationStrategy): number {
+  if (samples.length === 0) return 50;
+  const values = samples.map(s => s.sentiment);
+
+  switch (strategy) {
+    case 'confidence-weighted':
+      return weightedMean(values, samples.map(s => s.confidence));
+    case 'prominence-weighted':
+      return weightedMean(values, samples.map(s => s.prominence));
+    case 'trimmed-mean':
+      return trimmedMean(values, TRIM_FRACTION);
+    case 'median':
+      return median(values);
+    case 'mean':
+    default:
+      return mean(values);
+  }
+}
+
+/**
+ * Bootstrap interval of the aggregated sentiment at the given level (e.g. 0.9).
+ * A single sample has no spread to resample; its interval widens as the
+ * model's confidence in it drops (±50 points at confidence 0).
+ */
+export function sentimentInterval(
+  samples: SentimentSample[],
+  strategy: SentimentAggregationStrategy,
+  level: number,
+  seedKey: string
+): SentimentInterval {
+  if (samples.length === 0) {
+    return { lower: 0, upper: 100, level };
+  }
+  if (samples.length === 1) {
+    const [only] = samples;
+    const halfWidth = (1 - clamp(only.confidence, 0, 1)) * 50;
+    return {
+      lower: clamp(only.sentiment - halfWidth, 0, 100),
+      upper: clamp(only.sentiment + halfWidth, 0, 100),
+      level
+    };
+  }
+
+  const random = seededRandom(seedKey);
+  const estimates = bootstrap(samples, resample => aggregateSentiment(resample, strategy), random);
+  return {
+    lower: percentile(estimates, (1 - level) / 2),
+    upper: percentile(estimates, 1 - (1 - level) / 2),
+    level
+  };
+}
+
+/**
+ * Test whether the aggregated sentiment changed between two sets of mentions.
+ * The p-value comes from a two-sided permutation test (mentions shuffled
+ * between the weeks); the interval is a bootstrap interval of the delta.
+ */
+export function compareSentiment(
+  current: SentimentSample[],
+  prior: SentimentSample[],
+  strategy: SentimentAggregationStrategy,
+  level: number,
+  significanceLevel: number,
+  seedKey: string
+): DeltaSignificance {
+  const observed = aggregateSentiment(current, strategy) - aggregateSentiment(prior, strategy);
+  const random = seededRandom(seedKey);
+
+  const pooled = [...current, ...prior];
+  let extreme = 0;
+  for (let p = 0; p < PERMUTATIONS; p++) {
+    shuffle(pooled, random);
+    const diff = aggregateSentiment(pooled.slice(0, current.length), strategy)
+      - aggregateSentiment(pooled.slice(current.length), strategy);
+    // Tolerance keeps ties (e.g. identical samples) counted as extreme
+    if (Math.abs(diff) >= Math.abs(observed) - 1e-9) {
+      extreme++;
+    }
+  }
+  const pValue = (extreme + 1) / (PERMUTATIONS + 1);
+
+  const deltas: number[] = [];
+  for (let r = 0; r < BOOTSTRAP_RESAMPLES; r++) {
+    deltas.push(
+      aggregateSentiment(resample(current, random), strategy) - aggregateSentiment(resample(prior, random), strategy)
+    );
+  }
+
+  return {
+    p_value: pValue,
+    lower: percentile(deltas, (1 - level) / 2),
+    upper: percentile(deltas, 1 - (1 - level) / 2),
+    level,
+    significant: pValue < significanceLevel
+  };
+}
+
+/**
+ * Statistic of `BOOTSTRAP_RESAMPLES` resamples (with replacement) of the samples
+ */
+export function bootstrap<T>(
+  samples: T[],
+  statistic: (resample: T[]) => number,
+  random: () => number,
+  resamples = BOOTSTRAP_RESAMPLES
+): number[] {
+  const estimates: number[] = [];
+  for (let r = 0; r < resamples; r++) {
+    estimates.push(statistic(resample(samples, random)));
+  }
+  return estimates;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded from a string
+ */
+export function seededRandom(key: string): () => number {
+  let state = hash32(key);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Linear-interpolated percentile (p in 0-1) of the values
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = clamp(p, 0, 1) * (sorted.length - 1);
+  const lowerIdx = Math.floor(position);
+  const upperIdx = Math.ceil(position);
+  const fraction = position - lowerIdx;
+  return sorted[lowerIdx] + (sorted[upperIdx] - sorted[lowerIdx]) * fraction;
+}
+
+function resample<T>(samples: T[], random: () => number): T[] {
+  const drawn: T[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    drawn.push(samples[Math.floor(random() * samples.length)]);
+  }
+  return drawn;
+}
+
+// Fisher-Yates, in place
+function shuffle<T>(values: T[], random: () => number): void {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function weightedMean(values: number[], weights: number[]): number {
+  const clamped = weights.map(w => Math.max(0, Number.isFinite(w) ? w : 0));
+  const totalWeight = clamped.reduce((sum, w) => sum + w, 0);
+  // All-zero weights carry no preference; fall back to the plain mean
+  if (totalWeight === 0) return mean(values);
+  return values.reduce((sum, v, i) => sum + v * clamped[i], 0) / totalWeight;
+}
+
+function trimmedMean(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.floor(sorted.length * fraction);
+  return mean(sorted.slice(trim, sorted.length - trim));
+}
+
+/**
+ * Median of the values (NaN when empty)
+ */
+export function median(values: number[]): number {
+  return percentile(values, 0.5);
+}
+
+/**
+ * Round to a number of decimal places
+ */
+export function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}